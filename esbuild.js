@@ -22,9 +22,10 @@ async function main() {
 	const plugins = deploy ? [deployPlugin] : [];
 
 	const ctx = await esbuild.context({
-		entryPoints: ["src/extension.ts"],
+		// hook-runner.js is copied into .claude/hooks and run by Claude CLI (plain Node, no vscode)
+		entryPoints: ["src/extension.ts", "src/hook-runner.ts"],
 		bundle: true,
-		outfile: "dist/extension.js",
+		outdir: "dist",
 		external: ["vscode"],
 		format: "cjs",
 		platform: "node",
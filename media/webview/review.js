@@ -1,11 +1,13 @@
 // Review toolbar rendering — compact toolbar replacing the old review panel
-// Depends on: core.js (send)
+// Depends on: core.js (send, esc)
 // Exports: window.{renderReviewToolbar, setCurrentFilePath}
 (function () {
     "use strict";
 
     var currentFilePath = null;
     var isCompact = false;
+    // Session groups of the last state update — the more menu offers Keep/Undo per session
+    var sessionGroups = [];
 
     // ResizeObserver to toggle compact mode at < 368px
     var toolbarEl = document.getElementById("reviewToolbar");
@@ -79,6 +81,15 @@
             case "review-next-file":
                 send("review-next-file");
                 break;
+            case "select-review-base":
+                send("select-review-base");
+                break;
+            case "toggle-session-scope":
+                send("toggle-session-scope");
+                break;
+            case "show-review-files":
+                send("show-review-files");
+                break;
         }
     });
 
@@ -86,6 +97,7 @@
      * Render the review toolbar based on current state.
      * State A: user has an active review file open — full navigation toolbar
      * State B: review files exist but user is not viewing one — "Review next file" button
+     *   (or, scoped to a finished session, a button back to all sessions)
      * State C: no review files — toolbar hidden
      */
     window.renderReviewToolbar = function (data) {
@@ -103,6 +115,7 @@
         var canUndo = data.canUndo;
         var canRedo = data.canRedo;
         var noReview = remaining === 0 && data.files.length === 0;
+        sessionGroups = data.sessions || [];
 
         // State C: no review — hide toolbar
         if (noReview) {
@@ -114,6 +127,20 @@
 
         toolbar.style.display = "";
 
+        // State B': the focused session is reviewed, other sessions still have changes
+        if (data.scopedToSession && remaining === 0 && sessionGroups.length > 0) {
+            toolbar.innerHTML =
+                '<button class="toolbar-btn-text warning" data-action="toggle-session-scope">' +
+                "\u2713 This session is reviewed \u2014 show all sessions (" +
+                sessionGroups.reduce(function (n, g) {
+                    return n + g.files;
+                }, 0) +
+                ")" +
+                "</button>";
+
+            return;
+        }
+
         // State B: review exists but user not in a review file
         if (!activeEditorInReview) {
             toolbar.innerHTML =
@@ -165,13 +192,52 @@
             html +=
                 '<button class="toolbar-btn" data-action="prev-file" title="Previous file">\u25C0</button>';
         }
-        html += '<span class="toolbar-label">' + (currentFileIndex + 1) + "/" + total + "</span>";
+        html +=
+            '<button class="toolbar-label toolbar-files" data-action="show-review-files" title="Files under review, by session">' +
+            (currentFileIndex + 1) +
+            "/" +
+            total +
+            "</button>";
         if (total > 1) {
             html +=
                 '<button class="toolbar-btn" data-action="next-file" title="Next file">\u25B6</button>';
         }
         html += "</div>";
 
+        // Review base (hidden in compact mode)
+        if (data.base) {
+            html +=
+                '<button class="toolbar-label toolbar-base" data-action="select-review-base" title="Review base — click to change">vs ' +
+                esc(data.base) +
+                "</button>";
+        }
+
+        // Session scope — shown once changes come from more than one session
+        if (sessionGroups.length > 1 || data.scopedToSession) {
+            html +=
+                '<button class="toolbar-label toolbar-scope" data-action="toggle-session-scope" title="Review only the focused session\u2019s changes, or all sessions">' +
+                (data.scopedToSession ? "This session" : "All sessions") +
+                "</button>";
+        }
+
+        // Files the review policy kept out — the tooltip says which rule matched
+        var skipped = data.skipped || [];
+        if (skipped.length > 0) {
+            html +=
+                '<button class="toolbar-label toolbar-skipped" data-action="show-review-files" title="' +
+                esc(
+                    "Skipped by review policy:\n" +
+                        skipped
+                            .map(function (s) {
+                                return s.name + " \u2014 " + s.rule + " (" + s.pattern + ")";
+                            })
+                            .join("\n"),
+                ).replace(/"/g, "&quot;") +
+                '">' +
+                skipped.length +
+                " skipped</button>";
+        }
+
         // Accept/Reject All (pushed to right)
         html += '<div class="toolbar-group" style="margin-left:auto">';
         html +=
@@ -206,6 +272,26 @@
                     showConfirm("Reject all remaining changes?", function () {
                         send("reject-all-confirm");
                     });
+                } else if (val && val.indexOf("session:") !== -1) {
+                    // "accept-session:<index>" / "reject-session:<index>"
+                    var parts = val.split(":");
+                    var group = sessionGroups[Number(parts[1])];
+                    if (!group) return;
+                    var accept = parts[0] === "accept-session";
+                    showConfirm(
+                        (accept ? "Keep" : "Undo") +
+                            " all changes from \u201C" +
+                            group.label +
+                            "\u201D (" +
+                            group.files +
+                            " files)?",
+                        function () {
+                            send("resolve-session", {
+                                sessionId: group.sessionId,
+                                accept: accept,
+                            });
+                        },
+                    );
                 } else if (val === "dismiss-all") {
                     showConfirm(
                         "Dismiss all reviews? Files will keep Claude's changes.",
@@ -233,6 +319,19 @@
         }
         items.push({ label: "Reject all changes", value: "reject-all" });
         items.push({ label: "Dismiss all reviews", value: "dismiss-all" });
+        if (sessionGroups.length > 1) {
+            sessionGroups.forEach(function (g, i) {
+                items.push({ separator: true });
+                items.push({
+                    label: "Keep all from " + g.label + " (" + g.files + ")",
+                    value: "accept-session:" + i,
+                });
+                items.push({
+                    label: "Undo all from " + g.label + " (" + g.files + ")",
+                    value: "reject-session:" + i,
+                });
+            });
+        }
         menu.data = items;
         menu.style.left = rect.right - 160 + "px";
         menu.style.top = rect.bottom + "px";
@@ -2,6 +2,7 @@
 import * as vscode from "vscode";
 import * as state from "./lib/state";
 import { ReviewCodeLensProvider } from "./lib/codelens";
+import { ReviewCommentThreads, type ReviewCommentItem } from "./lib/comment-threads";
 import { MainViewProvider } from "./lib/main-view";
 import { PtyManager } from "./lib/pty-manager";
 import { applyDecorations, clearDecorations, initDecorations } from "./lib/decorations";
@@ -10,14 +11,24 @@ import * as path from "path";
 import {
     startServer,
     stopServer,
+    getAuthToken,
     setAddFileHandler,
+    setAddRenameHandler,
     setWorkspacePath,
     setExtensionPath,
     setGetActiveReviewHandler,
     setGetActiveSessionHandler,
+    setSessionStopHandler,
     setPostWebviewMessageHandler,
+    setApprovalHandler,
 } from "./lib/server";
-import { checkAndPrompt, doInstall } from "./lib/hooks";
+import {
+    checkAndPrompt,
+    doInstall,
+    initHookRunner,
+    registerServer,
+    unregisterServer,
+} from "./lib/hooks";
 import { ReviewManager } from "./lib/review-manager";
 import { registerDocumentListener } from "./lib/document-listener";
 import { clearAllHistories, isApplyingEdit, hasUndoState, hasRedoState } from "./lib/undo-history";
@@ -25,7 +36,12 @@ import * as actions from "./lib/actions";
 import * as log from "./lib/log";
 import { fileLog } from "./lib/file-logger";
 import { clearReviewState } from "./lib/persistence";
-import type { HookStatus, ExtensionToWebviewMessage } from "./types";
+import { AUDIT_SCHEME, readAuditObject } from "./lib/audit-log";
+import { PROPOSAL_SCHEME, getProposalContent, requestApproval } from "./lib/approval";
+import { ORIGINAL_SCHEME, ReviewOriginalProvider } from "./lib/side-by-side";
+import { allowsBulkAccept, reportHeldBack } from "./lib/review-policy";
+import { setFeedbackTarget, clearFeedback, markSessionStopped } from "./lib/feedback";
+import type { HookStatus, ExtensionToWebviewMessage, ReviewLayout } from "./types";
 
 let reviewManager: ReviewManager | undefined;
 
@@ -33,6 +49,7 @@ export function activate(context: vscode.ExtensionContext): void {
     log.init();
     log.log("activating...");
     initDecorations(context.extensionPath);
+    initHookRunner(context.extensionPath);
 
     const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     if (!workspacePath) {
@@ -46,11 +63,21 @@ export function activate(context: vscode.ExtensionContext): void {
     try {
         // --- ReviewManager ---
         reviewManager = new ReviewManager(workspacePath);
+        state.setReviewLayout(
+            vscode.workspace
+                .getConfiguration("claudeCodeReview")
+                .get<ReviewLayout>("reviewLayout", "inline"),
+        );
 
         // Wire ReviewManager into action modules
         actions.setReviewActionsManager(reviewManager);
         actions.setNavigationManager(reviewManager);
         actions.setFileReviewManager(reviewManager);
+        actions.setReviewSettingsManager(reviewManager);
+        actions.setSessionsManager(reviewManager);
+        actions.setCommentsManager(reviewManager);
+        actions.setHistoryManager(reviewManager);
+        actions.setPatchesManager(reviewManager);
 
         // --- PTY manager ---
         const ptyManager = new PtyManager(workspacePath);
@@ -70,6 +97,19 @@ export function activate(context: vscode.ExtensionContext): void {
         mainView.setReviewManager(reviewManager);
         reviewManager.setProviders(codeLens, mainView);
 
+        // Review comments and the side-by-side original follow the CodeLens: all of them
+        // change whenever hunks or buffers do
+        const commentThreads = new ReviewCommentThreads();
+        const originalProvider = new ReviewOriginalProvider();
+        context.subscriptions.push(
+            commentThreads,
+            originalProvider,
+            codeLens.onDidChangeCodeLenses(() => {
+                commentThreads.refresh();
+                originalProvider.refresh();
+            }),
+        );
+
         // Wire pty output to webview
         ptyManager.setHandlers(
             (sessionId, data) => mainView.sendTerminalOutput(sessionId, data),
@@ -95,6 +135,25 @@ export function activate(context: vscode.ExtensionContext): void {
                 webviewOptions: { retainContextWhenHidden: true },
             }),
             vscode.languages.registerCodeLensProvider({ scheme: "file" }, codeLens),
+            // Read-only contents from the review audit log (query = sha256)
+            vscode.workspace.registerTextDocumentContentProvider(AUDIT_SCHEME, {
+                provideTextDocumentContent: (uri) =>
+                    uri.query ? (readAuditObject(workspacePath, uri.query) ?? "") : "",
+            }),
+            // Both sides of a tool call waiting for approval in gated mode
+            vscode.workspace.registerTextDocumentContentProvider(PROPOSAL_SCHEME, {
+                provideTextDocumentContent: getProposalContent,
+            }),
+            // Original side of files reviewed side by side
+            vscode.workspace.registerTextDocumentContentProvider(ORIGINAL_SCHEME, originalProvider),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (!e.affectsConfiguration("claudeCodeReview.reviewLayout")) return;
+                void reviewManager?.setReviewLayout(
+                    vscode.workspace
+                        .getConfiguration("claudeCodeReview")
+                        .get<ReviewLayout>("reviewLayout", "inline"),
+                );
+            }),
         );
 
         // --- Move to secondary sidebar on first install ---
@@ -135,6 +194,9 @@ export function activate(context: vscode.ExtensionContext): void {
         const cmds: Array<[string, (...args: any[]) => any]> = [
             ["ccr.togglePanel", () => vscode.commands.executeCommand("ccr.main.focus")],
             ["ccr.openReview", () => actions.startReviewSession(workspacePath)],
+            ["ccr.selectReviewBase", () => actions.selectReviewBase()],
+            ["ccr.exportPatch", () => actions.exportReviewPatch(workspacePath)],
+            ["ccr.importPatch", () => actions.importPatchFile(workspacePath)],
             [
                 "ccr.openFileDiff",
                 (item: { filePath?: string } | undefined) =>
@@ -159,6 +221,37 @@ export function activate(context: vscode.ExtensionContext): void {
                     return resolveCurrentHunk(false);
                 },
             ],
+            [
+                "ccr.rejectHunkWithComment",
+                (fp?: string, id?: number) => {
+                    if (typeof fp === "string" && typeof id === "number") {
+                        return actions.rejectHunkWithComment(fp, id);
+                    }
+                    const current = findCurrentHunk();
+                    return (
+                        current && actions.rejectHunkWithComment(current.filePath, current.hunkId)
+                    );
+                },
+            ],
+            [
+                "ccr.keepAndStageHunk",
+                (fp?: string, id?: number) => {
+                    if (typeof fp === "string" && typeof id === "number") {
+                        return actions.keepAndStage(fp, id);
+                    }
+                    return resolveCurrentHunk(true, true);
+                },
+            ],
+            [
+                "ccr.keepAndStageFile",
+                (item: { filePath?: string } | undefined) => {
+                    const fp =
+                        item?.filePath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+                    return fp && actions.keepAndStage(fp);
+                },
+            ],
+            ["ccr.keepAndStageAll", () => actions.keepAndStageAll()],
+            ["ccr.commitReviewed", () => actions.commitReviewedChanges()],
             [
                 "ccr.acceptFile",
                 (item: { filePath?: string } | undefined) =>
@@ -172,25 +265,57 @@ export function activate(context: vscode.ExtensionContext): void {
             [
                 "ccr.acceptAll",
                 async () => {
+                    const heldBack: string[] = [];
                     for (const f of [...state.getReviewFiles()]) {
-                        if (state.activeReviews.has(f)) await actions.resolveAllHunks(f, true);
+                        if (!state.isInReviewScope(f)) continue;
+                        if (allowsBulkAccept(workspacePath, f)) {
+                            await actions.resolveAllHunks(f, true);
+                        } else {
+                            heldBack.push(f);
+                        }
                     }
+                    reportHeldBack(workspacePath, heldBack);
                 },
             ],
             [
                 "ccr.rejectAll",
                 async () => {
                     for (const f of [...state.getReviewFiles()]) {
-                        if (state.activeReviews.has(f)) await actions.resolveAllHunks(f, false);
+                        if (state.isInReviewScope(f)) await actions.resolveAllHunks(f, false);
                     }
                 },
             ],
+            [
+                "ccr.acceptSession",
+                (sessionId?: string | null) => actions.resolveSession(sessionId, true),
+            ],
+            [
+                "ccr.rejectSession",
+                (sessionId?: string | null) => actions.resolveSession(sessionId, false),
+            ],
+            ["ccr.toggleSessionScope", () => actions.toggleSessionScope()],
+            ["ccr.toggleReviewLayout", () => actions.toggleReviewLayout()],
+            ["ccr.showReviewFiles", () => actions.showReviewFiles(workspacePath)],
+            ["ccr.resolveConflicts", () => actions.resolveConflicts(workspacePath)],
+            ["ccr.showEditTimeline", () => actions.showEditTimeline()],
+            [
+                "ccr.addReviewComment",
+                (reply?: vscode.CommentReply) => actions.addReviewComment(reply),
+            ],
+            [
+                "ccr.deleteReviewComment",
+                (item?: ReviewCommentItem) => actions.deleteReviewComment(item),
+            ],
+            ["ccr.sendReviewComments", () => actions.sendReviewComments(workspacePath)],
+            ["ccr.exportReviewComments", () => actions.exportReviewComments(workspacePath)],
+            ["ccr.showReviewHistory", () => actions.showReviewHistory(workspacePath)],
             [
                 "ccr.dismissAll",
                 () => {
                     if (!reviewManager) return;
                     log.log(`dismissAll: clearing ${state.activeReviews.size} reviews`);
                     for (const [fp, review] of state.activeReviews) {
+                        if (review.wholeFile) continue;
                         try {
                             fs.writeFileSync(fp, review.modifiedContent, "utf8");
                         } catch {}
@@ -235,6 +360,46 @@ export function activate(context: vscode.ExtensionContext): void {
             ["ccr.keepCurrentFile", () => actions.keepCurrentFile()],
             ["ccr.undoCurrentFile", () => actions.undoCurrentFile()],
             ["ccr.reviewNextUnresolved", () => actions.reviewNextUnresolved()],
+            ["ccr.keepSelectedLines", () => resolveSelectedLines(true)],
+            ["ccr.undoSelectedLines", () => resolveSelectedLines(false)],
+            [
+                "ccr.splitHunk",
+                () => {
+                    const editor = vscode.window.activeTextEditor;
+                    if (!editor) return;
+                    return actions.splitHunk(
+                        editor.document.uri.fsPath,
+                        editor.selection.active.line,
+                    );
+                },
+            ],
+            [
+                "ccr.mergeHunkWithNext",
+                () => {
+                    const editor = vscode.window.activeTextEditor;
+                    if (!editor) return;
+                    return actions.mergeWithNextHunk(
+                        editor.document.uri.fsPath,
+                        editor.selection.active.line,
+                    );
+                },
+            ],
+            [
+                "ccr.toggleIgnoreWhitespace",
+                (item: { filePath?: string } | undefined) => {
+                    const fp =
+                        item?.filePath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+                    return fp && actions.toggleDiffOption(fp, "ignoreWhitespace");
+                },
+            ],
+            [
+                "ccr.toggleIgnoreLineEndings",
+                (item: { filePath?: string } | undefined) => {
+                    const fp =
+                        item?.filePath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+                    return fp && actions.toggleDiffOption(fp, "ignoreLineEndings");
+                },
+            ],
             [
                 "ccr.sendFileToSession",
                 async (uri: vscode.Uri | undefined, uris: vscode.Uri[] | undefined) => {
@@ -358,32 +523,61 @@ export function activate(context: vscode.ExtensionContext): void {
         setAddFileHandler((filePath, sessionId) => {
             void reviewManager!.addFile(filePath, sessionId);
         });
+        setAddRenameHandler((fromPath, toPath, sessionId) => {
+            void reviewManager!.addRename(fromPath, toPath, sessionId);
+        });
         setWorkspacePath(workspacePath);
         setExtensionPath(context.extensionPath);
         setGetActiveReviewHandler((filePath) => state.activeReviews.get(filePath));
         setGetActiveSessionHandler(() => context.workspaceState.get<string>("ccr.activeSession"));
+        setApprovalHandler((req) => requestApproval(workspacePath, req));
+        setFeedbackTarget({
+            findPty: (claudeId) => mainView.findPtyByClaudeId(claudeId),
+            isIdle: (ptyId) => ptyManager.isIdle(ptyId),
+            lastInputAt: (ptyId) => ptyManager.getLastInputAt(ptyId),
+            write: (ptyId, data) => ptyManager.writeToSession(ptyId, data),
+        });
+        setSessionStopHandler(markSessionStopped);
+        state.setActiveSessionProvider(() =>
+            context.workspaceState.get<string>("ccr.activeSession"),
+        );
         setPostWebviewMessageHandler((msg) =>
             mainView.postMessageDirect(msg as ExtensionToWebviewMessage),
         );
 
         const portFilePath = path.join(workspacePath, ".claude", "ccr-port");
+        const tokenFilePath = path.join(workspacePath, ".claude", "ccr-token");
         startServer().then((port) => {
             try {
                 const dir = path.dirname(portFilePath);
                 if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+                // Token before port: the hook runner treats the port file as "server ready"
+                fs.writeFileSync(tokenFilePath, getAuthToken(), { mode: 0o600 });
+                fs.chmodSync(tokenFilePath, 0o600);
                 fs.writeFileSync(portFilePath, String(port));
                 log.log(`port file written: ${portFilePath} → ${port}`);
             } catch (err) {
                 log.log(`failed to write port file: ${(err as Error).message}`);
             }
+            try {
+                registerServer(workspacePath, port);
+            } catch (err) {
+                log.log(`failed to update server registry: ${(err as Error).message}`);
+            }
         });
 
         context.subscriptions.push({
             dispose: () => {
                 stopServer();
                 try {
-                    fs.unlinkSync(portFilePath);
+                    unregisterServer(workspacePath);
                 } catch {}
+                for (const f of [portFilePath, tokenFilePath]) {
+                    try {
+                        fs.unlinkSync(f);
+                    } catch {}
+                }
+                clearFeedback();
                 ptyManager.dispose();
             },
         });
@@ -391,9 +585,9 @@ export function activate(context: vscode.ExtensionContext): void {
         // --- Document listener for cleanup ---
         context.subscriptions.push(registerDocumentListener(context));
 
-        // --- Document change listener for decoration recovery ---
-        // When a file under review changes externally (formatOnSave, other extensions),
-        // re-verify buffer and re-apply decorations. Debounced to avoid rapid fire.
+        // --- Document change listener for in-place edits and decoration recovery ---
+        // Typing inside Claude's proposed lines edits the hunk. Any other change (formatOnSave,
+        // other extensions) re-verifies the buffer and re-applies decorations, debounced.
         {
             let decoDebounce: NodeJS.Timeout | null = null;
             context.subscriptions.push(
@@ -403,6 +597,7 @@ export function activate(context: vscode.ExtensionContext): void {
                     if (isApplyingEdit(fp)) return;
                     const review = state.activeReviews.get(fp);
                     if (!review) return;
+                    if (reviewManager?.trackUserEdit(e.document, e.contentChanges)) return;
                     if (decoDebounce) clearTimeout(decoDebounce);
                     decoDebounce = setTimeout(() => {
                         decoDebounce = null;
@@ -422,6 +617,27 @@ export function activate(context: vscode.ExtensionContext): void {
             );
         }
 
+        // --- External changes to files under review ---
+        // Saves by the user, formatters or git while a review is pending. Debounced, so a
+        // burst of writes is checked once and our own write-then-edit sequences settle first.
+        {
+            const pendingChecks = new Map<string, NodeJS.Timeout>();
+            const watcher = vscode.workspace.createFileSystemWatcher("**/*", true, false, true);
+            watcher.onDidChange((uri) => {
+                const fp = uri.fsPath;
+                if (!state.activeReviews.has(fp)) return;
+                clearTimeout(pendingChecks.get(fp));
+                pendingChecks.set(
+                    fp,
+                    setTimeout(() => {
+                        pendingChecks.delete(fp);
+                        void reviewManager?.checkExternalChange(fp);
+                    }, 500),
+                );
+            });
+            context.subscriptions.push(watcher);
+        }
+
         // --- Restore persisted review state ---
         // Restore state immediately, but defer UI refresh until after webview is ready
         reviewManager.restore().then(async (restored) => {
@@ -494,13 +710,24 @@ export function activate(context: vscode.ExtensionContext): void {
 /**
  * Resolve the hunk nearest to the cursor position.
  */
-async function resolveCurrentHunk(accept: boolean): Promise<void> {
+async function resolveCurrentHunk(accept: boolean, stage = false): Promise<void> {
+    const current = findCurrentHunk();
+    if (!current || !reviewManager) return;
+    if (stage) {
+        await reviewManager.keepAndStage(current.filePath, current.hunkId);
+    } else {
+        await reviewManager.resolveHunk(current.filePath, current.hunkId, accept);
+    }
+}
+
+/** Unresolved hunk of the active editor closest to the cursor */
+function findCurrentHunk(): { filePath: string; hunkId: number } | null {
     const editor = vscode.window.activeTextEditor;
-    if (!editor || !reviewManager) return;
+    if (!editor) return null;
 
     const filePath = editor.document.uri.fsPath;
     const review = state.activeReviews.get(filePath);
-    if (!review) return;
+    if (!review) return null;
 
     const cursorLine = editor.selection.active.line;
 
@@ -528,9 +755,17 @@ async function resolveCurrentHunk(accept: boolean): Promise<void> {
         }
     }
 
-    if (bestHunkId !== null) {
-        await reviewManager.resolveHunk(filePath, bestHunkId, accept);
-    }
+    return bestHunkId === null ? null : { filePath, hunkId: bestHunkId };
+}
+
+/** Keep/Undo just the selected lines (or the cursor line) of the hunk under the selection */
+async function resolveSelectedLines(accept: boolean): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) return;
+    const { start, end } = editor.selection;
+    // A selection ending at column 0 doesn't include that line
+    const lastLine = end.line > start.line && end.character === 0 ? end.line - 1 : end.line;
+    await actions.resolveLines(editor.document.uri.fsPath, start.line, lastLine, accept);
 }
 
 export function deactivate(): void {
@@ -0,0 +1,34 @@
+// Claude Code Review — hook runner entry point (bundled to dist/hook-runner.js)
+// Invoked by Claude CLI as `node ccr-hook.cjs <pre|post|notify|stop>` with the hook JSON on stdin.
+// Always exits 0 so a review failure never blocks Claude's tool call — a call the user denied
+// in gated mode is blocked through the PreToolUse decision printed on stdout.
+import { runHook, logHookResult, formatDenyOutput } from "./lib/hooks/runner";
+
+function readStdin(): Promise<string> {
+    return new Promise((resolve) => {
+        let data = "";
+        process.stdin.setEncoding("utf8");
+        process.stdin.on("data", (chunk: string) => (data += chunk));
+        process.stdin.on("end", () => resolve(data));
+        process.stdin.on("error", () => resolve(data));
+    });
+}
+
+async function main(): Promise<void> {
+    const mode = process.argv[2];
+    const input = await readStdin();
+    const result = await runHook(mode, input, __dirname);
+    logHookResult(__dirname, result);
+    if (result.denied !== undefined) {
+        process.stdout.write(formatDenyOutput(result.denied) + "\n");
+    }
+    if (!result.ok) {
+        process.stderr.write(`[ccr-hook] ${JSON.stringify(result)}\n`);
+    }
+}
+
+main()
+    .catch((err) => {
+        process.stderr.write(`[ccr-hook] unexpected error: ${(err as Error).message}\n`);
+    })
+    .finally(() => process.exit(0));
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("vscode", () => import("./mocks/vscode"));
+vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
+const mockFs = vi.hoisted(() => ({ readFileSync: vi.fn() }));
+vi.mock("fs", () => mockFs);
+
+import * as vscode from "vscode";
+import { PROPOSAL_SCHEME, proposedContent, requestApproval } from "../approval";
+import { APPROVAL_TIMEOUT_MS } from "../hooks/runner";
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe("proposedContent", () => {
+    it("replaces the first occurrence for Edit, or all with replace_all", () => {
+        const edit = { tool: "Edit", input: { old_string: "a", new_string: "$&b" } };
+        expect(proposedContent(edit, "a a")).toBe("$&b a");
+        expect(
+            proposedContent({ ...edit, input: { ...edit.input, replace_all: true } }, "a a"),
+        ).toBe("$&b $&b");
+    });
+
+    it("applies MultiEdit edits in order", () => {
+        const req = {
+            tool: "MultiEdit",
+            input: {
+                edits: [
+                    { old_string: "one", new_string: "two" },
+                    { old_string: "two", new_string: "three" },
+                ],
+            },
+        };
+        expect(proposedContent(req, "one")).toBe("three");
+    });
+
+    it("takes Write content as is and gives up when old_string is missing", () => {
+        expect(proposedContent({ tool: "Write", input: { content: "new" } }, "old")).toBe("new");
+        expect(
+            proposedContent({ tool: "Edit", input: { old_string: "zzz", new_string: "" } }, "abc"),
+        ).toBeNull();
+        expect(proposedContent({ tool: "Bash", input: { command: "ls" } }, "")).toBeNull();
+    });
+});
+
+describe("requestApproval", () => {
+    const edit = {
+        tool: "Edit",
+        file: "/ws/src/f.ts",
+        input: { old_string: "a", new_string: "b" },
+    };
+
+    it("shows the proposed edit as a diff and allows it", async () => {
+        mockFs.readFileSync.mockReturnValueOnce("a\n");
+        vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce("Allow" as never);
+        const decision = await requestApproval("/ws", edit);
+
+        expect(decision).toEqual({ decision: "allow" });
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+            "vscode.diff",
+            expect.anything(),
+            expect.anything(),
+            "f.ts (Claude wants to edit)",
+            { preview: true },
+        );
+    });
+
+    it("denies with the user's reason", async () => {
+        mockFs.readFileSync.mockReturnValueOnce("a\n");
+        vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce("Deny…" as never);
+        vi.mocked(vscode.window.showInputBox).mockResolvedValueOnce("keep the API");
+        const decision = await requestApproval("/ws", edit);
+
+        expect(decision).toEqual({
+            decision: "deny",
+            reason: "The user rejected this change in review: keep the API",
+        });
+    });
+
+    it("denies a dismissed Bash prompt", async () => {
+        const decision = await requestApproval("/ws", {
+            tool: "Bash",
+            input: { command: "rm -rf x" },
+        });
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+            "Claude wants to run: rm -rf x",
+            "Allow",
+            "Deny…",
+        );
+        expect(decision.decision).toBe("deny");
+    });
+
+    it("gives up an unanswered prompt once the hook runner stops waiting", async () => {
+        vi.useFakeTimers();
+        mockFs.readFileSync.mockReturnValueOnce("a\n");
+        vi.mocked(vscode.window.showWarningMessage).mockReturnValueOnce(new Promise(() => {}));
+        const pending = requestApproval("/ws", edit);
+        await vi.advanceTimersByTimeAsync(0);
+
+        const after = vi
+            .mocked(vscode.commands.executeCommand)
+            .mock.calls.find(([cmd]) => cmd === "vscode.diff")![2] as vscode.Uri;
+        const modified = { scheme: PROPOSAL_SCHEME, path: after.fsPath.split(":")[1] };
+        const tab = { input: new vscode.TabInputTextDiff(after, modified as vscode.Uri) };
+        Object.assign(vscode.window.tabGroups, { all: [{ tabs: [tab] }] });
+
+        await vi.advanceTimersByTimeAsync(APPROVAL_TIMEOUT_MS);
+        expect(await pending).toEqual({ decision: "allow" });
+        expect(vscode.window.tabGroups.close).toHaveBeenCalledWith([tab]);
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith("notifications.hideToasts");
+
+        Object.assign(vscode.window.tabGroups, { all: [] });
+        vi.useRealTimers();
+    });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as crypto from "crypto";
+
+const mockFs = vi.hoisted(() => ({
+    mkdirSync: vi.fn(),
+    writeFileSync: vi.fn(),
+    appendFileSync: vi.fn(),
+    existsSync: vi.fn().mockReturnValue(false),
+    readFileSync: vi.fn(),
+}));
+
+vi.mock("fs", () => mockFs);
+vi.mock("vscode", () => import("./mocks/vscode"));
+vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
+const mockPolicy = vi.hoisted(() => ({ getPathPolicy: vi.fn() }));
+vi.mock("../review-policy", () => mockPolicy);
+
+import { recordAudit, readAuditLog, readAuditObject } from "../audit-log";
+import { FileReview } from "../review";
+import { makeHunk } from "./helpers";
+import type { AuditEntry } from "../../types";
+
+const sha = (s: string) => crypto.createHash("sha256").update(s, "utf8").digest("hex");
+
+function loggedEntry(): AuditEntry {
+    const [logPath, line] = mockFs.appendFileSync.mock.calls[0];
+    expect(logPath).toBe("/ws/.claude/review-audit/log.jsonl");
+    return JSON.parse(line);
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    mockPolicy.getPathPolicy.mockReturnValue({});
+});
+
+describe("recordAudit", () => {
+    it("logs each hunk's decision, the session and the content hashes", () => {
+        const review = new FileReview("/ws/src/f.ts", "a\nb\nc\n", "A\nb\nC\n", [
+            makeHunk({ id: 0, removed: ["a"], added: ["A"], resolved: true, accepted: true }),
+            makeHunk({
+                id: 1,
+                origStart: 3,
+                modStart: 3,
+                removed: ["c"],
+                added: ["C"],
+                resolved: true,
+                accepted: false,
+            }),
+        ]);
+        review.sessionId = "s1";
+        recordAudit("/ws", review, "HEAD");
+
+        const entry = loggedEntry();
+        expect(entry).toMatchObject({
+            version: 1,
+            filePath: "src/f.ts",
+            changeType: "edit",
+            sessionId: "s1",
+            base: "HEAD",
+            originalHash: sha("a\nb\nc\n"),
+            modifiedHash: sha("A\nb\nC\n"),
+            finalHash: sha("A\nb\nc\n"),
+        });
+        expect(entry.hunks.map((h) => h.decision)).toEqual(["kept", "undone"]);
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+            `/ws/.claude/review-audit/objects/${sha("A\nb\nc\n")}`,
+            "A\nb\nc\n",
+            "utf8",
+        );
+    });
+
+    it("has no final content for an undone new file", () => {
+        const review = new FileReview("/ws/n.ts", "", "x\n", [
+            makeHunk({ removed: [], added: ["x"], resolved: true, accepted: false }),
+        ]);
+        recordAudit("/ws", review);
+
+        expect(loggedEntry()).toMatchObject({
+            changeType: "create",
+            originalHash: null,
+            finalHash: null,
+        });
+    });
+
+    it("git-ignores the audit dir", () => {
+        recordAudit("/ws", new FileReview("/ws/f.ts", "a", "b", [makeHunk({ accepted: true })]));
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+            "/ws/.claude/review-audit/.gitignore",
+            "*\n",
+            "utf8",
+        );
+    });
+
+    it("logs hashes but stores no contents of auto-ignore paths", () => {
+        mockPolicy.getPathPolicy.mockReturnValue({
+            skip: { rule: "auto-ignore", pattern: ".env" },
+        });
+        const review = new FileReview("/ws/.env", "KEY=a\n", "KEY=b\n", [
+            makeHunk({ removed: ["KEY=a"], added: ["KEY=b"], resolved: true, accepted: true }),
+        ]);
+        recordAudit("/ws", review);
+
+        expect(loggedEntry()).toMatchObject({
+            originalHash: sha("KEY=a\n"),
+            finalHash: sha("KEY=b\n"),
+        });
+        const written = mockFs.writeFileSync.mock.calls.map(([p]) => p as string);
+        expect(written.filter((p) => p.includes("/objects/"))).toEqual([]);
+    });
+
+    it("never throws when the log can't be written", () => {
+        mockFs.appendFileSync.mockImplementationOnce(() => {
+            throw new Error("EACCES");
+        });
+        const review = new FileReview("/ws/f.ts", "a", "b", [
+            makeHunk({ resolved: true, accepted: true }),
+        ]);
+        expect(() => recordAudit("/ws", review)).not.toThrow();
+    });
+});
+
+describe("readAuditLog", () => {
+    it("returns entries oldest first and skips unreadable lines", () => {
+        mockFs.readFileSync.mockReturnValueOnce(
+            '{"version":1,"filePath":"a.ts"}\nnot json\n{"version":1,"filePath":"b.ts"}\n',
+        );
+        expect(readAuditLog("/ws").map((e) => e.filePath)).toEqual(["a.ts", "b.ts"]);
+    });
+
+    it("is empty without a log", () => {
+        const missing = () => {
+            throw new Error("ENOENT");
+        };
+        mockFs.readFileSync.mockImplementationOnce(missing).mockImplementationOnce(missing);
+        expect(readAuditLog("/ws")).toEqual([]);
+        expect(readAuditObject("/ws", "abc")).toBeNull();
+    });
+});
@@ -39,6 +39,16 @@ describe("parseBashCommand", () => {
             expect(r.deleted).toEqual(["/ws/old.ts"]);
             expect(r.modified).toEqual(["/ws/new.ts"]);
         });
+
+        it("mv old.ts new.ts → renamed pair", () => {
+            const r = parseBashCommand("mv old.ts lib/new.ts", "/ws");
+            expect(r.renamed).toEqual([{ from: "/ws/old.ts", to: "/ws/lib/new.ts" }]);
+        });
+
+        it("mv with several sources → no rename pair", () => {
+            const r = parseBashCommand("mv a.ts b.ts dir/", "/ws");
+            expect(r.renamed).toEqual([]);
+        });
     });
 
     // --- cp ---
@@ -129,6 +139,13 @@ describe("parseBashCommand", () => {
             const r = parseBashCommand("git restore file.ts", "/ws");
             expect(r.modified).toEqual(["/ws/file.ts"]);
         });
+
+        it("git mv old.ts new.ts → renamed + deleted/modified", () => {
+            const r = parseBashCommand("git mv old.ts new.ts", "/ws");
+            expect(r.renamed).toEqual([{ from: "/ws/old.ts", to: "/ws/new.ts" }]);
+            expect(r.deleted).toEqual(["/ws/old.ts"]);
+            expect(r.modified).toEqual(["/ws/new.ts"]);
+        });
     });
 
     // --- chained commands ---
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const files = vi.hoisted(() => new Map<string, Buffer>());
+const mockFs = vi.hoisted(() => ({
+    existsSync: vi.fn((p: string) => files.has(p)),
+    readFileSync: vi.fn((p: string) => {
+        if (!files.has(p)) throw new Error("ENOENT");
+        return files.get(p);
+    }),
+    writeFileSync: vi.fn((p: string, data: Buffer) => files.set(p, data)),
+    mkdirSync: vi.fn(),
+    readdirSync: vi.fn((dir: string) =>
+        [...files.keys()]
+            .filter((p) => p.startsWith(dir + "/"))
+            .map((p) => p.slice(dir.length + 1)),
+    ),
+    unlinkSync: vi.fn((p: string) => files.delete(p)),
+}));
+
+vi.mock("fs", () => mockFs);
+vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
+
+import {
+    MAX_TEXT_REVIEW_BYTES,
+    wholeFileReason,
+    wholeFileReasonForText,
+    isImagePath,
+    describeWholeFile,
+    summarizeWholeFile,
+    storeBlob,
+    readBlob,
+    getBlobPath,
+    pruneBlobs,
+} from "../binary-file";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+
+beforeEach(() => {
+    files.clear();
+    vi.clearAllMocks();
+});
+
+describe("wholeFileReason", () => {
+    it("detects binary content by NUL bytes", () => {
+        expect(wholeFileReason(PNG)).toBe("binary");
+        expect(wholeFileReason(Buffer.from("const a = 1;\n"))).toBeNull();
+    });
+
+    it("flags text above the size threshold as large", () => {
+        expect(wholeFileReason(Buffer.alloc(MAX_TEXT_REVIEW_BYTES + 1, "a"))).toBe("large");
+    });
+
+    it("classifies decoded text the same way", () => {
+        expect(wholeFileReasonForText(PNG.toString("utf8"))).toBe("binary");
+        expect(wholeFileReasonForText("a".repeat(MAX_TEXT_REVIEW_BYTES + 1))).toBe("large");
+        expect(wholeFileReasonForText("plain")).toBeNull();
+    });
+});
+
+describe("isImagePath", () => {
+    it("recognizes raster image extensions", () => {
+        expect(isImagePath("/a/logo.PNG")).toBe(true);
+        expect(isImagePath("/a/photo.jpeg")).toBe(true);
+        expect(isImagePath("/a/data.bin")).toBe(false);
+    });
+});
+
+describe("describeWholeFile", () => {
+    it("describes edits, new files and deletions", () => {
+        const base = { reason: "binary" as const, originalSize: 2048, modifiedSize: 512 };
+        expect(describeWholeFile({ ...base, originalBlob: "a", modifiedBlob: "b" })).toBe(
+            "Binary file · 2.0 KB → 512 B",
+        );
+        expect(describeWholeFile({ ...base, modifiedBlob: "b" })).toBe("New binary file · 512 B");
+        expect(describeWholeFile({ ...base, reason: "large", originalBlob: "a" })).toBe(
+            "Large file deleted · 2.0 KB",
+        );
+    });
+
+    it("summary adds sha256 prefixes of both sides", () => {
+        const info = {
+            reason: "binary" as const,
+            originalBlob: "0123456789abcdef.png",
+            originalSize: 10,
+            modifiedBlob: "fedcba9876543210.png",
+            modifiedSize: 10,
+        };
+        expect(summarizeWholeFile(info)).toContain("(sha256 01234567 → fedcba98)");
+    });
+});
+
+describe("blob store", () => {
+    it("stores bytes content-addressed and reads them back unchanged", () => {
+        const blob = storeBlob("/ws", "/ws/img/logo.png", PNG);
+        expect(blob).toMatch(/^[0-9a-f]{64}\.png$/);
+        expect(getBlobPath("/ws", blob)).toBe(`/ws/.claude/ccr-blobs/${blob}`);
+        expect(readBlob("/ws", blob)).toEqual(PNG);
+    });
+
+    it("writes identical content only once", () => {
+        storeBlob("/ws", "/ws/a.png", PNG);
+        storeBlob("/ws", "/ws/b.png", PNG);
+        expect(mockFs.writeFileSync).toHaveBeenCalledTimes(1);
+    });
+
+    it("readBlob returns null for missing blobs", () => {
+        expect(readBlob("/ws", "missing.png")).toBeNull();
+    });
+
+    it("pruneBlobs removes everything not referenced", () => {
+        const keep = storeBlob("/ws", "/ws/a.png", PNG);
+        const drop = storeBlob("/ws", "/ws/b.bin", Buffer.from([0, 1, 2]));
+        pruneBlobs("/ws", new Set([keep]));
+        expect(readBlob("/ws", keep)).toEqual(PNG);
+        expect(readBlob("/ws", drop)).toBeNull();
+    });
+});
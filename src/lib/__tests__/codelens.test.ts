@@ -78,6 +78,16 @@ describe("ReviewCodeLensProvider", () => {
         expect(lenses[1].command?.arguments).toEqual(["/test/file.ts", 0]);
     });
 
+    it("adds Undo with comment when the change came from a Claude session", () => {
+        state.activeReviews.set("/test/file.ts", makeFakeReview({ sessionId: "sess-a" }));
+
+        const lenses = provider.provideCodeLenses(makeDocument("/test/file.ts"));
+
+        expect(lenses).toHaveLength(3);
+        expect(lenses[2].command?.command).toBe("ccr.rejectHunkWithComment");
+        expect(lenses[2].command?.arguments).toEqual(["/test/file.ts", 0]);
+    });
+
     it("always places lenses on addedStart regardless of removedStart", () => {
         const review = makeFakeReview({
             hunkRanges: [
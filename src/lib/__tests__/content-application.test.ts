@@ -67,11 +67,6 @@ beforeEach(() => {
     mockExecSync.mockImplementation((cmd: string) => {
         if (cmd.includes("git ls-files")) return "";
         if (cmd.includes("git show HEAD")) return "original";
-        if (cmd.includes("git diff --no-index")) {
-            const err = new Error("diff") as Error & { stdout: string };
-            err.stdout = "@@ -1,1 +1,1 @@\n-original\n+modified content";
-            throw err;
-        }
         if (cmd.includes("git diff HEAD")) return "@@ -1,1 +1,1 @@\n-original\n+modified content";
         return "";
     });
@@ -152,18 +147,13 @@ describe("saveWithoutFormatting (via applyContentViaEdit)", () => {
 
 describe("applyTargetedHunkEdit — buffer validation", () => {
     function setupMultiHunkFile(mgr: ReviewManager): string {
-        // Create a file with 2-hunk diff
-        mockFs.readFileSync.mockReturnValue("new1\nnew2");
+        // Create a file with 2-hunk diff (changes separated by an unchanged line)
+        mockFs.readFileSync.mockReturnValue("new1\nsame\nnew2");
         mockExecSync.mockImplementation((cmd: string) => {
             if (cmd.includes("git ls-files")) return "";
-            if (cmd.includes("git show HEAD")) return "old1\nold2";
+            if (cmd.includes("git show HEAD")) return "old1\nsame\nold2";
             if (cmd.includes("git diff HEAD"))
-                return "@@ -1,1 +1,1 @@\n-old1\n+new1\n@@ -2,1 +2,1 @@\n-old2\n+new2";
-            if (cmd.includes("git diff --no-index")) {
-                const err = new Error("diff") as Error & { stdout: string };
-                err.stdout = "@@ -1,1 +1,1 @@\n-old1\n+new1\n@@ -2,1 +2,1 @@\n-old2\n+new2";
-                throw err;
-            }
+                return "@@ -1,1 +1,1 @@\n-old1\n+new1\n@@ -3,1 +3,1 @@\n-old2\n+new2";
             return "";
         });
         mgr.addFile("/ws/multi.ts");
@@ -272,17 +262,12 @@ describe("decoration lifecycle", () => {
     it("applyDecorations is called for partial resolution with matching buffer", async () => {
         const mgr = setupManager();
         // Create a file with 2 hunks
-        mockFs.readFileSync.mockReturnValue("new1\nnew2");
+        mockFs.readFileSync.mockReturnValue("new1\nsame\nnew2");
         mockExecSync.mockImplementation((cmd: string) => {
             if (cmd.includes("git ls-files")) return "";
-            if (cmd.includes("git show HEAD")) return "old1\nold2";
+            if (cmd.includes("git show HEAD")) return "old1\nsame\nold2";
             if (cmd.includes("git diff HEAD"))
-                return "@@ -1,1 +1,1 @@\n-old1\n+new1\n@@ -2,1 +2,1 @@\n-old2\n+new2";
-            if (cmd.includes("git diff --no-index")) {
-                const err = new Error("diff") as Error & { stdout: string };
-                err.stdout = "@@ -1,1 +1,1 @@\n-old1\n+new1\n@@ -2,1 +2,1 @@\n-old2\n+new2";
-                throw err;
-            }
+                return "@@ -1,1 +1,1 @@\n-old1\n+new1\n@@ -3,1 +3,1 @@\n-old2\n+new2";
             return "";
         });
         mgr.addFile("/ws/multi.ts");
@@ -0,0 +1,57 @@
+// Fixtures shared by the diff tests and the diff benchmark
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execSync } from "child_process";
+import { parseUnifiedDiff } from "../diff";
+import type { Hunk } from "../../types";
+
+/** Deterministic pseudo-random source file with scattered edits */
+export function makeFixture(lines: number, seed: number): [string, string] {
+    let s = seed;
+    const rand = () => (s = (s * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+    const original = Array.from({ length: lines }, (_, i) =>
+        i % 7 === 0 ? "}" : `    const v${i} = compute(${Math.floor(rand() * 100)});`,
+    );
+    const modified: string[] = [];
+    for (const line of original) {
+        const r = rand();
+        if (r < 0.03) continue;
+        modified.push(r < 0.06 ? line.replace("compute", "recompute") : line);
+        if (r > 0.97) modified.push("    log(v);");
+    }
+    return [original.join("\n") + "\n", modified.join("\n") + "\n"];
+}
+
+export function gitAvailable(): boolean {
+    try {
+        execSync("git --version", { stdio: "pipe" });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** The previous implementation: temp files + `git diff --no-index`, parsed */
+export function gitDiff(original: string, modified: string): Hunk[] {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ccr-diff-bench-"));
+    const a = path.join(dir, "a");
+    const b = path.join(dir, "b");
+    try {
+        fs.writeFileSync(a, original);
+        fs.writeFileSync(b, modified);
+        try {
+            return parseUnifiedDiff(
+                execSync(`git diff --no-index --no-color -U0 -- "${a}" "${b}"`, {
+                    encoding: "utf8",
+                    stdio: "pipe",
+                }),
+            );
+        } catch (err) {
+            // Exit code 1 means "files differ"
+            return parseUnifiedDiff((err as { stdout: string }).stdout);
+        }
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,26 @@
+// computeDiff against the `git diff --no-index` it replaced — run with `yarn bench`
+import { bench, describe } from "vitest";
+import { computeDiff } from "../diff";
+import { gitAvailable, gitDiff, makeFixture } from "./diff-fixtures";
+
+for (const [i, size] of [200, 2000, 20000].entries()) {
+    const [original, modified] = makeFixture(size, i + 1);
+
+    describe(`${size} lines`, () => {
+        bench("computeDiff", () => {
+            computeDiff(original, modified, "/ws/f.ts", "/ws");
+        });
+        bench.skipIf(!gitAvailable())("git diff --no-index", () => {
+            gitDiff(original, modified);
+        });
+    });
+}
+
+describe("20000 lines, completely rewritten", () => {
+    const original = Array.from({ length: 20000 }, (_, i) => `old ${i}`).join("\n");
+    const modified = Array.from({ length: 20000 }, (_, i) => `new ${i}`).join("\n");
+
+    bench("computeDiff", () => {
+        computeDiff(original, modified, "/ws/f.ts", "/ws");
+    });
+});
@@ -1,19 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { makeUnifiedDiff } from "./helpers";
+import { gitAvailable, gitDiff, makeFixture } from "./diff-fixtures";
+import type { Hunk } from "../../types";
 
 vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
 
-// Hoisted mocks for fs and child_process — used by computeDiff tests.
-// parseUnifiedDiff is a pure function and doesn't use these.
-const mockFs = vi.hoisted(() => ({
-    writeFileSync: vi.fn(),
-    unlinkSync: vi.fn(),
-}));
-vi.mock("fs", () => mockFs);
-
-const mockExecSync = vi.hoisted(() => vi.fn());
-vi.mock("child_process", () => ({ execSync: mockExecSync }));
-
 import { parseUnifiedDiff, computeDiff } from "../diff";
 
 describe("parseUnifiedDiff", () => {
@@ -169,91 +160,138 @@ describe("parseUnifiedDiff", () => {
     });
 });
 
-describe("computeDiff", () => {
-    beforeEach(() => {
-        vi.clearAllMocks();
-        // Default: git diff --no-index returns a simple diff
-        mockExecSync.mockImplementation((cmd: string) => {
-            if (typeof cmd === "string" && cmd.includes("git diff --no-index")) {
-                const err = new Error("diff") as Error & { stdout: string };
-                err.stdout = "@@ -1,1 +1,1 @@\n-original\n+modified";
-                throw err;
-            }
-            return "";
-        });
-    });
+/** Rebuilds the modified content from the original and the hunks */
+function applyHunks(original: string, hunks: Hunk[]): string {
+    const lines = original ? original.replace(/\n$/, "").split("\n") : [];
+    for (const h of [...hunks].reverse()) {
+        lines.splice(h.origStart - 1, h.removed.length, ...h.added);
+    }
+    return lines.join("\n");
+}
+
+function changedLines(hunks: Hunk[]): number {
+    return hunks.reduce((n, h) => n + h.removed.length + h.added.length, 0);
+}
 
+describe("computeDiff", () => {
     it("returns single create hunk for untracked new file", () => {
-        const hunks = computeDiff("", "line1\nline2", "/ws/file.ts", "/ws");
+        const hunks = computeDiff("", "line1\nline2", "/ws/new.ts", "/ws");
         expect(hunks).toHaveLength(1);
         expect(hunks[0].added).toEqual(["line1", "line2"]);
         expect(hunks[0].removed).toEqual([]);
     });
 
     it("returns empty array when contents are identical", () => {
-        // git diff --no-index with identical content returns empty string
-        mockExecSync.mockReturnValue("");
-        const hunks = computeDiff("same", "same", "/ws/file.ts", "/ws");
-        expect(hunks).toEqual([]);
+        expect(computeDiff("a\nb\nc\n", "a\nb\nc\n", "/ws/f.ts", "/ws")).toEqual([]);
     });
 
-    it("uses diffTempFiles (git diff --no-index) instead of git diff HEAD", () => {
-        mockExecSync.mockImplementation((cmd: string) => {
-            if (typeof cmd === "string" && cmd.includes("git diff --no-index")) {
-                const err = new Error("diff") as Error & { stdout: string };
-                err.stdout = "@@ -1,1 +1,1 @@\n-old line\n+new line";
-                throw err;
-            }
-            return "";
+    it("replaces a single line", () => {
+        const hunks = computeDiff("a\nb\nc\n", "a\nB\nc\n", "/ws/f.ts", "/ws");
+        expect(hunks).toHaveLength(1);
+        expect(hunks[0]).toMatchObject({
+            id: 0,
+            origStart: 2,
+            origCount: 1,
+            modStart: 2,
+            modCount: 1,
+            removed: ["b"],
+            added: ["B"],
+            resolved: false,
+            accepted: false,
         });
-        const hunks = computeDiff("old line", "new line", "/ws/file.ts", "/ws");
+    });
+
+    it("positions pure insertions and deletions like git", () => {
+        const [ins] = computeDiff("a\nb\n", "a\nx\nb\n", "/ws/f.ts", "/ws");
+        expect(ins).toMatchObject({ origStart: 2, modStart: 2, removed: [], added: ["x"] });
+        const [del] = computeDiff("a\nx\nb\n", "a\nb\n", "/ws/f.ts", "/ws");
+        expect(del).toMatchObject({ origStart: 2, modStart: 2, removed: ["x"], added: [] });
+    });
+
+    it("splits changes separated by unchanged lines into sequential hunks", () => {
+        const hunks = computeDiff("1\n2\n3\n4\n5\n", "one\n2\n3\n4\nfive\n", "/ws/f.ts", "/ws");
+        expect(hunks.map((h) => [h.id, h.origStart, h.modStart])).toEqual([
+            [0, 1, 1],
+            [1, 5, 5],
+        ]);
+    });
+
+    it("ignores a missing trailing newline so the last line is not re-added", () => {
+        expect(computeDiff("a\nb", "a\nb\n", "/ws/f.ts", "/ws")).toEqual([]);
+        const hunks = computeDiff("a\nb", "a\nb\nc\n", "/ws/f.ts", "/ws");
         expect(hunks).toHaveLength(1);
-        expect(hunks[0].removed).toEqual(["old line"]);
-        expect(hunks[0].added).toEqual(["new line"]);
-        // Verify git diff HEAD was NOT called
-        const calls = mockExecSync.mock.calls.map((c) => c[0] as string);
-        expect(calls.some((c) => c.includes("git diff HEAD"))).toBe(false);
-        expect(calls.some((c) => c.includes("git diff --no-index"))).toBe(true);
+        expect(hunks[0].removed).toEqual([]);
+        expect(hunks[0].added).toEqual(["c"]);
     });
 
-    it("normalizes trailing newlines to prevent spurious last-line diffs", () => {
-        const writtenContents: string[] = [];
-        mockFs.writeFileSync.mockImplementation((_path: string, content: string) => {
-            writtenContents.push(content);
+    it("ignoreWhitespace splits reindented lines into whitespace-only hunks", () => {
+        const original = "if (x) {\n  a();\n  b();\n}\n";
+        const modified = "if (x) {\n    a();\n    b( );\n    c();\n}\n";
+        expect(computeDiff(original, modified, "/ws/f.ts", "/ws")).toHaveLength(1);
+        const hunks = computeDiff(original, modified, "/ws/f.ts", "/ws", {
+            ignoreWhitespace: true,
         });
-        mockExecSync.mockImplementation((cmd: string) => {
-            if (typeof cmd === "string" && cmd.includes("git diff --no-index")) {
-                const err = new Error("diff") as Error & { stdout: string };
-                err.stdout = "@@ -3,3 +3,0 @@\n-\n-// NOTE\n-// see";
-                throw err;
-            }
-            return "";
+        expect(hunks).toHaveLength(2);
+        expect(hunks[0]).toMatchObject({
+            id: 0,
+            origStart: 2,
+            modStart: 2,
+            removed: ["  a();", "  b();"],
+            added: ["    a();", "    b( );"],
+            whitespaceOnly: true,
         });
+        expect(hunks[1]).toMatchObject({ id: 1, origStart: 4, modStart: 4, added: ["    c();"] });
+        expect(hunks[1].whitespaceOnly).toBeUndefined();
+        expect(applyHunks(original, hunks)).toBe(modified.slice(0, -1));
+    });
 
-        // Original ends with \n, modified does NOT — normalization should add \n
-        const original = "line1\nline2\nline3\n";
-        const modified = "line1\nline2\nline3"; // no trailing newline
-        computeDiff(original, modified, "/ws/file.ts", "/ws");
+    it("ignoreLineEndings reports CRLF → LF lines as whitespace-only", () => {
+        const original = "a\r\nb\r\nc\r\n";
+        const modified = "a\nB\nc\n";
+        const hunks = computeDiff(original, modified, "/ws/f.ts", "/ws", {
+            ignoreLineEndings: true,
+        });
+        expect(hunks.map((h) => [h.removed, h.added, !!h.whitespaceOnly])).toEqual([
+            [["a\r"], ["a"], true],
+            [["b\r"], ["B"], false],
+            [["c\r"], ["c"], true],
+        ]);
+        // Without the mode, indentation inside a line still counts
+        expect(
+            computeDiff("  a\r\n", " a\n", "/ws/f.ts", "/ws", { ignoreLineEndings: true })[0]
+                .whitespaceOnly,
+        ).toBeUndefined();
+    });
 
-        // Both temp files should have trailing newline (normalization)
-        expect(writtenContents.length).toBeGreaterThanOrEqual(2);
-        expect(writtenContents[0].endsWith("\n")).toBe(true);
-        expect(writtenContents[1].endsWith("\n")).toBe(true);
+    it("hunks always reconstruct the modified content", () => {
+        const original = "a\nb\nc\na\nb\nb\na\n";
+        const modified = "c\nb\na\nb\na\nc\n";
+        const hunks = computeDiff(original, modified, "/ws/f.ts", "/ws");
+        expect(applyHunks(original, hunks)).toBe("c\nb\na\nb\na\nc");
+        // Minimal edit script for this classic Myers example is 5 lines
+        expect(changedLines(hunks)).toBe(5);
     });
 
-    it("does not double-add newline when content already ends with \\n", () => {
-        const writtenContents: string[] = [];
-        mockFs.writeFileSync.mockImplementation((_path: string, content: string) => {
-            writtenContents.push(content);
-        });
-        mockExecSync.mockReturnValue("");
+    it("reports a large, completely rewritten file as one replace", () => {
+        const original = Array.from({ length: 20000 }, (_, i) => `old ${i}`).join("\n");
+        const modified = Array.from({ length: 20000 }, (_, i) => `new ${i}`).join("\n");
+        const hunks = computeDiff(original, modified, "/ws/f.ts", "/ws");
+        expect(hunks).toHaveLength(1);
+        expect(applyHunks(original, hunks)).toBe(modified);
+    });
+});
 
-        const original = "line1\nline2\n";
-        const modified = "line1\nline2\n";
-        computeDiff(original, modified, "/ws/file.ts", "/ws");
+describe("computeDiff vs git diff --no-index", () => {
+    const sizes = [200, 2000, 20000];
 
-        // Should NOT have double newlines
-        expect(writtenContents[0]).toBe("line1\nline2\n");
-        expect(writtenContents[1]).toBe("line1\nline2\n");
+    it.skipIf(!gitAvailable())("produces edits no larger than git's", () => {
+        for (const [i, size] of sizes.entries()) {
+            const [original, modified] = makeFixture(size, i + 1);
+            const ours = computeDiff(original, modified, "/ws/f.ts", "/ws");
+            expect(applyHunks(original, ours)).toBe(modified.replace(/\n$/, ""));
+            expect(changedLines(ours)).toBeLessThanOrEqual(
+                changedLines(gitDiff(original, modified)),
+            );
+        }
     });
 });
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
+
+import {
+    composeFeedback,
+    sendFeedback,
+    setFeedbackTarget,
+    pendingFeedbackCount,
+    clearFeedback,
+    markSessionStopped,
+} from "../feedback";
+import { makeHunk } from "./helpers";
+
+const target = {
+    findPty: vi.fn(),
+    isIdle: vi.fn(),
+    lastInputAt: vi.fn(),
+    write: vi.fn(),
+};
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    target.findPty.mockReturnValue(7);
+    target.isIdle.mockReturnValue(true);
+    target.lastInputAt.mockReturnValue(0);
+    setFeedbackTarget(target);
+});
+
+afterEach(() => {
+    clearFeedback();
+    vi.useRealTimers();
+});
+
+describe("composeFeedback", () => {
+    it("names the file and lines, quotes the undone change and the reason", () => {
+        const hunk = makeHunk({ modStart: 12, removed: ["old()"], added: ["new()", "more()"] });
+        const message = composeFeedback("src/f.ts", hunk, "  callers rely on old()  ");
+
+        expect(message).toContain("src/f.ts (lines 12-13)");
+        expect(message).toContain("Reason: callers rely on old()");
+        expect(message).toContain("- old()\n+ new()\n+ more()");
+    });
+
+    it("cuts long hunks", () => {
+        const added = Array.from({ length: 50 }, (_, i) => `line ${i}`);
+        const message = composeFeedback("f.ts", makeHunk({ removed: [], added }), "");
+
+        expect(message).toContain("… 10 more lines");
+        expect(message).not.toContain("line 45");
+        expect(message).toContain("No reason given.");
+    });
+});
+
+describe("sendFeedback", () => {
+    it("submits the comment to a session that stopped with nothing typed since", () => {
+        markSessionStopped("sess-a");
+        expect(sendFeedback("sess-a", "hello")).toBe("sent");
+
+        expect(target.findPty).toHaveBeenCalledWith("sess-a");
+        expect(target.write).toHaveBeenCalledWith(7, "\x1b[200~hello\x1b[201~");
+        vi.advanceTimersByTime(200);
+        expect(target.write).toHaveBeenLastCalledWith(7, "\r");
+    });
+
+    it("only pastes into a quiet terminal that isn't known to sit at an empty prompt", () => {
+        // A permission dialog or the user's draft is just as quiet
+        expect(sendFeedback("sess-a", "hello")).toBe("pasted");
+        vi.advanceTimersByTime(1000);
+
+        expect(target.write).toHaveBeenCalledTimes(1);
+        expect(target.write).toHaveBeenCalledWith(7, "\x1b[200~hello\x1b[201~");
+    });
+
+    it("doesn't submit over input typed after Claude stopped", () => {
+        markSessionStopped("sess-a");
+        target.lastInputAt.mockReturnValue(Date.now() + 1);
+        expect(sendFeedback("sess-a", "hello")).toBe("pasted");
+        vi.advanceTimersByTime(1000);
+
+        expect(target.write).not.toHaveBeenCalledWith(7, "\r");
+    });
+
+    it("submits once per stop — the paste itself fills the prompt", () => {
+        markSessionStopped("sess-a");
+        expect(sendFeedback("sess-a", "one")).toBe("sent");
+        expect(sendFeedback("sess-a", "two")).toBe("pasted");
+    });
+
+    it("queues while Claude is busy and sends everything once the prompt is idle", () => {
+        target.isIdle.mockReturnValue(false);
+        expect(sendFeedback("sess-a", "one")).toBe("queued");
+        expect(sendFeedback("sess-a", "two")).toBe("queued");
+        expect(pendingFeedbackCount()).toBe(2);
+        expect(target.write).not.toHaveBeenCalled();
+
+        target.isIdle.mockReturnValue(true);
+        vi.advanceTimersByTime(1000);
+        expect(target.write).toHaveBeenCalledWith(7, "\x1b[200~one\n\ntwo\x1b[201~");
+        expect(pendingFeedbackCount()).toBe(0);
+    });
+
+    it("sends queued comments when the session stops", () => {
+        target.isIdle.mockReturnValue(false);
+        sendFeedback("sess-a", "one");
+        target.isIdle.mockReturnValue(true);
+        markSessionStopped("sess-a");
+
+        expect(pendingFeedbackCount()).toBe(0);
+        vi.advanceTimersByTime(200);
+        expect(target.write).toHaveBeenLastCalledWith(7, "\r");
+    });
+
+    it("reports a queued comment as written only once it reaches the terminal", () => {
+        const written = vi.fn();
+        target.isIdle.mockReturnValue(false);
+        sendFeedback("sess-a", "one", written);
+        vi.advanceTimersByTime(3000);
+        expect(written).not.toHaveBeenCalled();
+
+        target.isIdle.mockReturnValue(true);
+        vi.advanceTimersByTime(1000);
+        expect(written).toHaveBeenCalledOnce();
+    });
+
+    it("waits for a session that isn't open", () => {
+        target.findPty.mockReturnValue(null);
+        expect(sendFeedback("sess-b", "later")).toBe("queued");
+        vi.advanceTimersByTime(3000);
+        expect(target.write).not.toHaveBeenCalled();
+
+        target.findPty.mockReturnValue(3);
+        vi.advanceTimersByTime(1000);
+        expect(target.write).toHaveBeenCalledWith(3, "\x1b[200~later\x1b[201~");
+    });
+});
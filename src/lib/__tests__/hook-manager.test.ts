@@ -13,241 +13,308 @@ vi.mock("vscode", () => import("./mocks/vscode"));
 vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
 
 import {
-    getPostHookScript,
-    getPreHookScript,
-    getNotifyHookScript,
+    getHookRunnerScript,
+    getHookCommand,
+    initHookRunner,
     installHook,
     isHookInstalled,
     checkAndPrompt,
 } from "../hooks";
+import { resetHookRunnerCache } from "../hooks/scripts";
 import { HOOK_VERSION } from "../hooks/constants";
 
+const BUNDLE = "/* bundled hook runner */";
+
+/** readFileSync stand-in: serves the bundled runner, falls back to `other` */
+function withBundle(other: (p: string) => string) {
+    return (p: string) => (p.includes("hook-runner.js") ? BUNDLE : other(p));
+}
+
 beforeEach(() => {
     vi.clearAllMocks();
+    resetHookRunnerCache();
+    initHookRunner("/ext");
+    mockFs.readFileSync.mockImplementation(withBundle(() => "{}"));
 });
 
-describe("hook scripts", () => {
-    it("getPostHookScript contains current HOOK_VERSION", () => {
-        expect(getPostHookScript()).toContain(`v${HOOK_VERSION}`);
-    });
-
-    it("getPostHookScript contains curl to /changed", () => {
-        expect(getPostHookScript()).toContain("/changed");
-    });
-
-    it("getPreHookScript contains curl to /snapshot", () => {
-        expect(getPreHookScript()).toContain("/snapshot");
-    });
-
-    it("getPreHookScript uses Python for base64 encoding", () => {
-        expect(getPreHookScript()).toContain("base64");
-    });
-
-    it("both scripts filter by Edit|Write", () => {
-        expect(getPostHookScript()).toContain("Edit");
-        expect(getPostHookScript()).toContain("Write");
-        expect(getPreHookScript()).toContain("Edit");
-        expect(getPreHookScript()).toContain("Write");
-    });
-
-    it("postHookScript contains Bash branch", () => {
-        expect(getPostHookScript()).toContain("Bash");
-    });
-
-    it("preHookScript contains Bash branch", () => {
-        expect(getPreHookScript()).toContain("Bash");
+describe("hook runner script", () => {
+    it("contains current HOOK_VERSION", () => {
+        expect(getHookRunnerScript()).toContain(`v${HOOK_VERSION}`);
     });
 
-    it("postHookScript uses json.dumps for safe JSON output", () => {
-        const script = getPostHookScript();
-        expect(script).toContain("json.dumps");
+    it("starts with a node shebang and embeds the bundled runner", () => {
+        const script = getHookRunnerScript();
+        expect(script.startsWith("#!/usr/bin/env node\n")).toBe(true);
+        expect(script).toContain(BUNDLE);
+        expect(mockFs.readFileSync).toHaveBeenCalledWith("/ext/dist/hook-runner.js", "utf8");
     });
 
-    it("preHookScript uses json.dumps for safe JSON output", () => {
-        const script = getPreHookScript();
-        expect(script).toContain("json.dumps");
+    it("throws when the extension path is unknown", () => {
+        initHookRunner("");
+        expect(() => getHookRunnerScript()).toThrow(/not initialized/);
     });
 
-    it("getNotifyHookScript posts to /notify endpoint", () => {
-        const script = getNotifyHookScript();
-        expect(script).toContain(`v${HOOK_VERSION}`);
-        expect(script).toContain("/notify");
-        expect(script).toContain("curl");
-        expect(script).not.toContain("osascript");
-        expect(script).not.toContain("notify-send");
+    it("builds node commands with a mode argument", () => {
+        expect(getHookCommand("/ws", "post")).toBe('node "/ws/.claude/hooks/ccr-hook.cjs" post');
+        expect(getHookCommand("/ws", "pre")).toBe('node "/ws/.claude/hooks/ccr-hook.cjs" pre');
+        expect(getHookCommand("/ws", "notify")).toBe(
+            'node "/ws/.claude/hooks/ccr-hook.cjs" notify',
+        );
     });
 });
 
+function settingsWrite() {
+    const call = mockFs.writeFileSync.mock.calls.find(
+        (c: unknown[]) =>
+            typeof c[0] === "string" && (c[0] as string).includes("settings.local.json"),
+    );
+    return call ? JSON.parse(call[1] as string) : undefined;
+}
+
 describe("installHook", () => {
-    it("creates hooks directory and writes all scripts", () => {
+    it("creates hooks directory and writes the runner", () => {
         mockFs.existsSync.mockReturnValue(false);
-        mockFs.readFileSync.mockReturnValue("{}");
         installHook("/ws");
         expect(mockFs.mkdirSync).toHaveBeenCalledWith(expect.stringContaining("hooks"), {
             recursive: true,
         });
         expect(mockFs.writeFileSync).toHaveBeenCalledWith(
-            expect.stringContaining("ccr-review-hook.sh"),
-            expect.stringContaining("PostToolUse"),
-            { mode: 0o755 },
-        );
-        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
-            expect.stringContaining("ccr-pre-hook.sh"),
-            expect.stringContaining("PreToolUse"),
-            { mode: 0o755 },
-        );
-        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
-            expect.stringContaining("ccr-notify-hook.sh"),
-            expect.stringContaining("Notification"),
+            "/ws/.claude/hooks/ccr-hook.cjs",
+            expect.stringContaining(BUNDLE),
             { mode: 0o755 },
         );
     });
 
-    it("does not write prompt guard script", () => {
+    it("does not write prompt guard or bash scripts", () => {
         mockFs.existsSync.mockReturnValue(false);
-        mockFs.readFileSync.mockReturnValue("{}");
         installHook("/ws");
         const writeArgs = mockFs.writeFileSync.mock.calls.map((c: unknown[]) => c[0] as string);
         expect(writeArgs.filter((p) => p.includes("ccr-prompt-guard"))).toHaveLength(0);
+        expect(writeArgs.filter((p) => p.endsWith(".sh"))).toHaveLength(0);
     });
 
     it("removes legacy prompt guard file if exists", () => {
         mockFs.existsSync.mockReturnValue(true);
-        mockFs.readFileSync.mockReturnValue("{}");
         installHook("/ws");
         expect(mockFs.unlinkSync).toHaveBeenCalledWith(
             expect.stringContaining("ccr-prompt-guard.sh"),
         );
     });
 
+    it("removes legacy bash hook scripts if they exist", () => {
+        mockFs.existsSync.mockReturnValue(true);
+        installHook("/ws");
+        for (const legacy of ["ccr-review-hook.sh", "ccr-pre-hook.sh", "ccr-notify-hook.sh"]) {
+            expect(mockFs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining(legacy));
+        }
+    });
+
+    it("fails without touching settings when the bundled runner is missing", () => {
+        mockFs.readFileSync.mockImplementation(() => {
+            throw new Error("ENOENT");
+        });
+        expect(() => installHook("/ws")).toThrow("ENOENT");
+        expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
     it("cleans up UserPromptSubmit entries from settings", () => {
         mockFs.existsSync.mockReturnValue(false);
-        mockFs.readFileSync.mockReturnValue(
-            JSON.stringify({
-                hooks: {
-                    UserPromptSubmit: [
-                        {
-                            matcher: "",
-                            hooks: [
-                                {
-                                    type: "command",
-                                    command: "/ws/.claude/hooks/ccr-prompt-guard.sh",
-                                },
-                            ],
-                        },
-                    ],
-                },
-            }),
+        mockFs.readFileSync.mockImplementation(
+            withBundle(() =>
+                JSON.stringify({
+                    hooks: {
+                        UserPromptSubmit: [
+                            {
+                                matcher: "",
+                                hooks: [
+                                    {
+                                        type: "command",
+                                        command: "/ws/.claude/hooks/ccr-prompt-guard.sh",
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                }),
+            ),
         );
         installHook("/ws");
-        const settingsCall = mockFs.writeFileSync.mock.calls.find(
-            (c: unknown[]) =>
-                typeof c[0] === "string" && (c[0] as string).includes("settings.local.json"),
-        );
-        expect(settingsCall).toBeDefined();
-        const settings = JSON.parse(settingsCall![1] as string);
+        const settings = settingsWrite();
+        expect(settings).toBeDefined();
         expect(settings.hooks.UserPromptSubmit).toBeUndefined();
     });
 
-    it("registers hooks in settings.local.json without UserPromptSubmit", () => {
+    it("registers runner commands in settings.local.json without UserPromptSubmit", () => {
         mockFs.existsSync.mockReturnValue(false);
-        mockFs.readFileSync.mockReturnValue("{}");
         installHook("/ws");
-        const settingsCall = mockFs.writeFileSync.mock.calls.find(
-            (c: unknown[]) =>
-                typeof c[0] === "string" && (c[0] as string).includes("settings.local.json"),
-        );
-        expect(settingsCall).toBeDefined();
-        const settings = JSON.parse(settingsCall![1] as string);
+        const settings = settingsWrite();
+        expect(settings).toBeDefined();
         expect(settings.hooks.PostToolUse).toHaveLength(1);
         expect(settings.hooks.PreToolUse).toHaveLength(1);
         expect(settings.hooks.Notification).toHaveLength(1);
-        expect(settings.hooks.Notification[0].hooks[0].command).toContain("ccr-notify-hook.sh");
+        expect(settings.hooks.PostToolUse[0].hooks[0].command).toBe(getHookCommand("/ws", "post"));
+        expect(settings.hooks.PreToolUse[0].hooks[0].command).toBe(getHookCommand("/ws", "pre"));
+        expect(settings.hooks.Notification[0].hooks[0].command).toBe(
+            getHookCommand("/ws", "notify"),
+        );
+        expect(settings.hooks.Stop[0].hooks[0].command).toBe(getHookCommand("/ws", "stop"));
         expect(settings.hooks.UserPromptSubmit).toBeUndefined();
     });
 
-    it("uses Edit|Write|Bash matcher in settings", () => {
+    it("replaces legacy bash hook entries and keeps foreign hooks", () => {
         mockFs.existsSync.mockReturnValue(false);
-        mockFs.readFileSync.mockReturnValue("{}");
-        installHook("/ws");
-        const settingsCall = mockFs.writeFileSync.mock.calls.find(
-            (c: unknown[]) =>
-                typeof c[0] === "string" && (c[0] as string).includes("settings.local.json"),
-        );
-        const settings = JSON.parse(settingsCall![1] as string);
-        expect(settings.hooks.PostToolUse[0].matcher).toBe("Edit|Write|Bash");
-        expect(settings.hooks.PreToolUse[0].matcher).toBe("Edit|Write|Bash");
-    });
-});
-
-describe("isHookInstalled", () => {
-    function setupInstalled() {
-        mockFs.existsSync.mockReturnValue(true);
-        mockFs.readFileSync.mockImplementation((p: string) => {
-            if (p.includes("ccr-review-hook.sh")) return getPostHookScript();
-            if (p.includes("ccr-pre-hook.sh")) return getPreHookScript();
-            if (p.includes("ccr-notify-hook.sh")) return getNotifyHookScript();
-            if (p.includes("settings.local.json"))
-                return JSON.stringify({
+        mockFs.readFileSync.mockImplementation(
+            withBundle(() =>
+                JSON.stringify({
                     hooks: {
                         PostToolUse: [
                             {
                                 matcher: "Edit|Write|Bash",
-                                hooks: [{ type: "command", command: "ccr-review-hook.sh" }],
-                            },
-                        ],
-                        PreToolUse: [
-                            {
-                                matcher: "Edit|Write|Bash",
-                                hooks: [{ type: "command", command: "ccr-pre-hook.sh" }],
-                            },
-                        ],
-                        Notification: [
-                            {
-                                matcher: "",
-                                hooks: [{ type: "command", command: "ccr-notify-hook.sh" }],
+                                hooks: [
+                                    {
+                                        type: "command",
+                                        command: "/ws/.claude/hooks/ccr-review-hook.sh",
+                                    },
+                                ],
                             },
+                            { matcher: "Write", hooks: [{ type: "command", command: "lint.sh" }] },
                         ],
                     },
-                });
+                }),
+            ),
+        );
+        installHook("/ws");
+        const post = settingsWrite().hooks.PostToolUse;
+        expect(post).toHaveLength(2);
+        expect(post[0].hooks[0].command).toBe("lint.sh");
+        expect(post[1].hooks[0].command).toBe(getHookCommand("/ws", "post"));
+    });
+
+    it("replaces the runner installed under its old .js name", () => {
+        mockFs.existsSync.mockReturnValue(true);
+        const oldCommand = 'node "/ws/.claude/hooks/ccr-hook.js" stop';
+        mockFs.readFileSync.mockImplementation(
+            withBundle(() =>
+                JSON.stringify({
+                    hooks: { Stop: [{ hooks: [{ type: "command", command: oldCommand }] }] },
+                }),
+            ),
+        );
+        installHook("/ws");
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith("/ws/.claude/hooks/ccr-hook.js");
+        const stop = settingsWrite().hooks.Stop;
+        expect(stop).toHaveLength(1);
+        expect(stop[0].hooks[0].command).toBe('node "/ws/.claude/hooks/ccr-hook.cjs" stop');
+    });
+
+    it("matches every file-modifying tool including MultiEdit and NotebookEdit", () => {
+        mockFs.existsSync.mockReturnValue(false);
+        installHook("/ws");
+        const settings = settingsWrite();
+        expect(settings.hooks.PostToolUse[0].matcher).toBe(
+            "Edit|Write|MultiEdit|NotebookEdit|Bash",
+        );
+        expect(settings.hooks.PreToolUse[0].matcher).toBe("Edit|Write|MultiEdit|NotebookEdit|Bash");
+    });
+});
+
+function installedSettings(
+    postCommand = getHookCommand("/ws", "post"),
+    matcher = "Edit|Write|MultiEdit|NotebookEdit|Bash",
+): string {
+    return JSON.stringify({
+        hooks: {
+            PostToolUse: [
+                {
+                    matcher,
+                    hooks: [{ type: "command", command: postCommand }],
+                },
+            ],
+            PreToolUse: [
+                {
+                    matcher,
+                    hooks: [{ type: "command", command: getHookCommand("/ws", "pre") }],
+                },
+            ],
+            Notification: [
+                {
+                    matcher: "",
+                    hooks: [{ type: "command", command: getHookCommand("/ws", "notify") }],
+                },
+            ],
+            Stop: [{ hooks: [{ type: "command", command: getHookCommand("/ws", "stop") }] }],
+        },
+    });
+}
+
+function setupInstalled() {
+    mockFs.existsSync.mockReturnValue(true);
+    mockFs.readFileSync.mockImplementation(
+        withBundle((p) => {
+            if (p.includes("ccr-hook.cjs")) return getHookRunnerScript();
+            if (p.includes("settings.local.json")) return installedSettings();
             return "";
-        });
-    }
+        }),
+    );
+}
 
-    it("returns true when all files and settings correct", () => {
+describe("isHookInstalled", () => {
+    it("returns true when runner and settings are correct", () => {
         setupInstalled();
         expect(isHookInstalled("/ws")).toBe(true);
     });
 
-    it("returns false when post hook file missing", () => {
-        mockFs.existsSync.mockImplementation((p: string) => !p.includes("ccr-review-hook"));
+    it("returns false when runner file missing", () => {
+        setupInstalled();
+        mockFs.existsSync.mockImplementation((p: string) => !p.includes("ccr-hook.cjs"));
         expect(isHookInstalled("/ws")).toBe(false);
     });
 
-    it("returns false when pre hook file missing", () => {
-        mockFs.existsSync.mockImplementation((p: string) => !p.includes("ccr-pre-hook"));
+    it("returns false when runner content is outdated", () => {
+        setupInstalled();
+        mockFs.readFileSync.mockImplementation(
+            withBundle((p) =>
+                p.includes("settings.local.json") ? installedSettings() : "old runner",
+            ),
+        );
         expect(isHookInstalled("/ws")).toBe(false);
     });
 
-    it("returns false when notify hook file missing", () => {
-        mockFs.existsSync.mockImplementation((p: string) => !p.includes("ccr-notify-hook"));
+    it("returns false when the bundled runner cannot be read", () => {
+        setupInstalled();
+        initHookRunner("");
         expect(isHookInstalled("/ws")).toBe(false);
     });
 
-    it("returns false when content mismatch", () => {
-        mockFs.existsSync.mockReturnValue(true);
-        mockFs.readFileSync.mockReturnValue("wrong content");
+    it("returns false when settings missing hook entries", () => {
+        setupInstalled();
+        mockFs.readFileSync.mockImplementation(
+            withBundle((p) =>
+                p.includes("ccr-hook.cjs") ? getHookRunnerScript() : JSON.stringify({ hooks: {} }),
+            ),
+        );
         expect(isHookInstalled("/ws")).toBe(false);
     });
 
-    it("returns false when settings missing hook entries", () => {
-        mockFs.existsSync.mockReturnValue(true);
-        mockFs.readFileSync.mockImplementation((p: string) => {
-            if (p.includes("ccr-review-hook.sh")) return getPostHookScript();
-            if (p.includes("ccr-pre-hook.sh")) return getPreHookScript();
-            if (p.includes("ccr-notify-hook.sh")) return getNotifyHookScript();
-            return JSON.stringify({ hooks: {} });
-        });
+    it("returns false when settings still point at legacy bash hooks", () => {
+        setupInstalled();
+        mockFs.readFileSync.mockImplementation(
+            withBundle((p) => {
+                if (p.includes("ccr-hook.cjs")) return getHookRunnerScript();
+                return installedSettings("/ws/.claude/hooks/ccr-review-hook.sh");
+            }),
+        );
+        expect(isHookInstalled("/ws")).toBe(false);
+    });
+
+    it("returns false when the matcher predates MultiEdit/NotebookEdit", () => {
+        setupInstalled();
+        mockFs.readFileSync.mockImplementation(
+            withBundle((p) => {
+                if (p.includes("ccr-hook.cjs")) return getHookRunnerScript();
+                return installedSettings(getHookCommand("/ws", "post"), "Edit|Write|Bash");
+            }),
+        );
         expect(isHookInstalled("/ws")).toBe(false);
     });
 
@@ -263,34 +330,7 @@ describe("isHookInstalled", () => {
 
 describe("checkAndPrompt", () => {
     it("returns 'installed' for correct hooks", () => {
-        mockFs.existsSync.mockReturnValue(true);
-        mockFs.readFileSync.mockImplementation((p: string) => {
-            if (p.includes("ccr-review-hook.sh")) return getPostHookScript();
-            if (p.includes("ccr-pre-hook.sh")) return getPreHookScript();
-            if (p.includes("ccr-notify-hook.sh")) return getNotifyHookScript();
-            return JSON.stringify({
-                hooks: {
-                    PostToolUse: [
-                        {
-                            matcher: "Edit|Write|Bash",
-                            hooks: [{ type: "command", command: "ccr-review-hook.sh" }],
-                        },
-                    ],
-                    PreToolUse: [
-                        {
-                            matcher: "Edit|Write|Bash",
-                            hooks: [{ type: "command", command: "ccr-pre-hook.sh" }],
-                        },
-                    ],
-                    Notification: [
-                        {
-                            matcher: "",
-                            hooks: [{ type: "command", command: "ccr-notify-hook.sh" }],
-                        },
-                    ],
-                },
-            });
-        });
+        setupInstalled();
         const cb = vi.fn();
         expect(checkAndPrompt("/ws", cb)).toBe("installed");
         expect(cb).toHaveBeenCalledWith("installed");
@@ -298,9 +338,6 @@ describe("checkAndPrompt", () => {
 
     it("auto-installs when hooks don't exist", () => {
         mockFs.existsSync.mockReturnValue(false);
-        mockFs.readFileSync.mockImplementation(() => {
-            throw new Error("ENOENT");
-        });
         const cb = vi.fn();
         expect(checkAndPrompt("/ws", cb)).toBe("installed");
         expect(cb).toHaveBeenCalledWith("installed");
@@ -308,9 +345,17 @@ describe("checkAndPrompt", () => {
 
     it("auto-installs when hooks are outdated", () => {
         mockFs.existsSync.mockReturnValue(true);
-        mockFs.readFileSync.mockReturnValue("old content");
+        mockFs.readFileSync.mockImplementation(withBundle(() => "old content"));
         const cb = vi.fn();
         expect(checkAndPrompt("/ws", cb)).toBe("installed");
         expect(cb).toHaveBeenCalledWith("installed");
     });
+
+    it("reports 'missing' when the runner cannot be installed", () => {
+        mockFs.existsSync.mockReturnValue(false);
+        initHookRunner("");
+        const cb = vi.fn();
+        expect(checkAndPrompt("/ws", cb)).toBe("missing");
+        expect(cb).toHaveBeenCalledWith("missing");
+    });
 });
@@ -0,0 +1,298 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+    buildApprovalPayload,
+    buildChangedPayload,
+    buildSnapshotPayload,
+    formatDenyOutput,
+    runHook,
+    type HookRunnerDeps,
+} from "../hooks/runner";
+
+function makeDeps(overrides: Partial<HookRunnerDeps> = {}): HookRunnerDeps {
+    return {
+        readFile: vi.fn(() => Buffer.from("before")),
+        isFile: vi.fn(() => true),
+        locateServer: vi.fn(() => ({ port: 27182, claudeDir: "/ws/.claude" })),
+        readToken: vi.fn(() => "secret"),
+        post: vi.fn(async () => ({ status: 200, body: '{"ok":true,"gated":false}' })),
+        ask: vi.fn(async () => ({ status: 200, body: '{"decision":"allow"}' })),
+        ...overrides,
+    };
+}
+
+function input(tool: string, toolInput: Record<string, unknown>): string {
+    return JSON.stringify({ tool_name: tool, tool_input: toolInput, session_id: "s1" });
+}
+
+describe("buildChangedPayload", () => {
+    it("returns file + tool for Edit and Write", () => {
+        expect(
+            buildChangedPayload({ tool_name: "Edit", tool_input: { file_path: "/a.ts" } }),
+        ).toEqual({ file: "/a.ts", tool: "Edit" });
+        expect(
+            buildChangedPayload({ tool_name: "Write", tool_input: { file_path: "/b.ts" } }),
+        ).toEqual({ file: "/b.ts", tool: "Write" });
+    });
+
+    it("handles MultiEdit and NotebookEdit (notebook_path)", () => {
+        expect(
+            buildChangedPayload({ tool_name: "MultiEdit", tool_input: { file_path: "/c.ts" } }),
+        ).toEqual({ file: "/c.ts", tool: "MultiEdit" });
+        expect(
+            buildChangedPayload({
+                tool_name: "NotebookEdit",
+                tool_input: { notebook_path: "/n.ipynb" },
+            }),
+        ).toEqual({ file: "/n.ipynb", tool: "NotebookEdit" });
+    });
+
+    it("returns command for Bash", () => {
+        expect(buildChangedPayload({ tool_name: "Bash", tool_input: { command: "rm x" } })).toEqual(
+            { tool: "Bash", command: "rm x" },
+        );
+    });
+
+    it("returns null for unsupported tools or missing path", () => {
+        expect(
+            buildChangedPayload({ tool_name: "Read", tool_input: { file_path: "/a" } }),
+        ).toBeNull();
+        expect(buildChangedPayload({ tool_name: "Edit", tool_input: {} })).toBeNull();
+    });
+});
+
+describe("buildSnapshotPayload", () => {
+    it("base64-encodes the current file content", () => {
+        const deps = makeDeps();
+        const payload = buildSnapshotPayload(
+            { tool_name: "Edit", tool_input: { file_path: "/a.ts" } },
+            deps,
+        );
+        expect(payload).toEqual({
+            file: "/a.ts",
+            tool: "Edit",
+            content: Buffer.from("before").toString("base64"),
+        });
+    });
+
+    it("sends empty content for files that do not exist yet", () => {
+        const deps = makeDeps({ isFile: vi.fn(() => false) });
+        const payload = buildSnapshotPayload(
+            { tool_name: "Write", tool_input: { file_path: "/new.ts" } },
+            deps,
+        );
+        expect(payload).toEqual({ file: "/new.ts", tool: "Write", content: "" });
+        expect(deps.readFile).not.toHaveBeenCalled();
+    });
+});
+
+describe("runHook", () => {
+    it("posts snapshot payload in pre mode", async () => {
+        const deps = makeDeps();
+        const result = await runHook("pre", input("Edit", { file_path: "/a.ts" }), "/h", deps);
+        expect(result).toEqual({ ok: true, mode: "pre", endpoint: "/snapshot", status: 200 });
+        const [port, token, endpoint, body] = (deps.post as ReturnType<typeof vi.fn>).mock.calls[0];
+        expect(port).toBe(27182);
+        expect(token).toBe("secret");
+        expect(endpoint).toBe("/snapshot");
+        expect(JSON.parse(body as string).file).toBe("/a.ts");
+    });
+
+    it("posts changed payload in post mode", async () => {
+        const deps = makeDeps();
+        const result = await runHook("post", input("Bash", { command: "ls" }), "/h", deps);
+        expect(result.ok).toBe(true);
+        expect(deps.post).toHaveBeenCalledWith(
+            27182,
+            "secret",
+            "/changed",
+            JSON.stringify({ tool: "Bash", command: "ls" }),
+        );
+    });
+
+    it("forwards the raw notification in notify mode", async () => {
+        const deps = makeDeps();
+        const raw = JSON.stringify({ title: "t", message: "m" });
+        await runHook("notify", raw, "/h", deps);
+        expect(deps.post).toHaveBeenCalledWith(27182, "secret", "/notify", raw);
+    });
+
+    it("reports the stopped session in stop mode", async () => {
+        const deps = makeDeps();
+        const raw = JSON.stringify({ session_id: "sess-a", transcript_path: "/t.jsonl" });
+        await runHook("stop", raw, "/h", deps);
+        expect(deps.post).toHaveBeenCalledWith(
+            27182,
+            "secret",
+            "/stop",
+            JSON.stringify({ session_id: "sess-a" }),
+        );
+    });
+
+    it("skips silently when no port file exists", async () => {
+        const deps = makeDeps({ locateServer: vi.fn(() => null) });
+        const result = await runHook("post", input("Edit", { file_path: "/a" }), "/h", deps);
+        expect(result.ok).toBe(true);
+        expect(result.skipped).toMatch(/ccr-port/);
+        expect(deps.post).not.toHaveBeenCalled();
+    });
+
+    it("locates the server from the payload cwd and reads its token", async () => {
+        const deps = makeDeps();
+        const raw = JSON.stringify({
+            cwd: "/ws/pkg",
+            tool_name: "Edit",
+            tool_input: { file_path: "/ws/pkg/a.ts" },
+        });
+        await runHook("post", raw, "/h", deps);
+        expect(deps.locateServer).toHaveBeenCalledWith("/h", "/ws/pkg");
+        expect(deps.readToken).toHaveBeenCalledWith("/ws/.claude");
+    });
+
+    it("skips when the token file is missing", async () => {
+        const deps = makeDeps({ readToken: vi.fn(() => null) });
+        const result = await runHook("post", input("Edit", { file_path: "/a" }), "/h", deps);
+        expect(result.ok).toBe(true);
+        expect(result.skipped).toMatch(/ccr-token/);
+        expect(deps.post).not.toHaveBeenCalled();
+    });
+
+    it("skips unsupported tools", async () => {
+        const deps = makeDeps();
+        const result = await runHook("post", input("Read", { file_path: "/a" }), "/h", deps);
+        expect(result.skipped).toMatch(/unsupported tool "Read"/);
+        expect(deps.post).not.toHaveBeenCalled();
+    });
+
+    it("reports bad-mode for unknown modes", async () => {
+        const result = await runHook("bogus", "{}", "/h", makeDeps());
+        expect(result.ok).toBe(false);
+        expect(result.error?.code).toBe("bad-mode");
+    });
+
+    it("reports parse-failed for invalid JSON", async () => {
+        const result = await runHook("post", "not json", "/h", makeDeps());
+        expect(result.error?.code).toBe("parse-failed");
+    });
+
+    it("reports read-failed when the snapshot file cannot be read", async () => {
+        const deps = makeDeps({
+            readFile: vi.fn(() => {
+                throw new Error("EACCES");
+            }),
+        });
+        const result = await runHook("pre", input("Edit", { file_path: "/a" }), "/h", deps);
+        expect(result.error).toEqual({ code: "read-failed", message: "EACCES" });
+    });
+
+    it("reports request-failed when the server is unreachable", async () => {
+        const deps = makeDeps({
+            post: vi.fn(async () => {
+                throw new Error("ECONNREFUSED");
+            }),
+        });
+        const result = await runHook("post", input("Edit", { file_path: "/a" }), "/h", deps);
+        expect(result).toMatchObject({
+            ok: false,
+            endpoint: "/changed",
+            error: { code: "request-failed", message: "ECONNREFUSED" },
+        });
+    });
+
+    it("reports unauthorized when the server rejects the token", async () => {
+        const deps = makeDeps({ post: vi.fn(async () => ({ status: 401, body: "" })) });
+        const result = await runHook("post", input("Edit", { file_path: "/a" }), "/h", deps);
+        expect(result).toMatchObject({ ok: false, status: 401, error: { code: "unauthorized" } });
+    });
+
+    it("reports http-error on non-2xx responses", async () => {
+        const deps = makeDeps({ post: vi.fn(async () => ({ status: 500, body: "" })) });
+        const result = await runHook("post", input("Edit", { file_path: "/a" }), "/h", deps);
+        expect(result).toMatchObject({ ok: false, status: 500, error: { code: "http-error" } });
+    });
+});
+
+describe("gated mode", () => {
+    const gated = { post: vi.fn(async () => ({ status: 200, body: '{"ok":true,"gated":true}' })) };
+
+    it("builds approval payloads for Edit, Write, MultiEdit and Bash only", () => {
+        expect(
+            buildApprovalPayload({
+                tool_name: "Edit",
+                tool_input: { file_path: "/a.ts", old_string: "x", new_string: "y" },
+            }),
+        ).toEqual({
+            tool: "Edit",
+            file: "/a.ts",
+            input: { file_path: "/a.ts", old_string: "x", new_string: "y" },
+        });
+        expect(buildApprovalPayload({ tool_name: "Bash", tool_input: { command: "ls" } })).toEqual({
+            tool: "Bash",
+            file: undefined,
+            input: { command: "ls" },
+        });
+        expect(
+            buildApprovalPayload({
+                tool_name: "NotebookEdit",
+                tool_input: { notebook_path: "/n" },
+            }),
+        ).toBeNull();
+    });
+
+    it("asks /approve after the snapshot and reports a denial", async () => {
+        const deps = makeDeps({
+            ...gated,
+            ask: vi.fn(async () => ({
+                status: 200,
+                body: JSON.stringify({ decision: "deny", reason: "keep the API" }),
+            })),
+        });
+        const result = await runHook("pre", input("Edit", { file_path: "/a.ts" }), "/h", deps);
+        expect(deps.post).toHaveBeenCalledWith(27182, "secret", "/snapshot", expect.any(String));
+        expect(deps.ask).toHaveBeenCalledWith(27182, "secret", "/approve", expect.any(String));
+        expect(result).toMatchObject({ ok: true, endpoint: "/approve", denied: "keep the API" });
+    });
+
+    it("allows the call when the server has no /approve endpoint", async () => {
+        const deps = makeDeps({
+            ...gated,
+            ask: vi.fn(async () => ({ status: 404, body: "Not found" })),
+        });
+        const result = await runHook("pre", input("Write", { file_path: "/a.ts" }), "/h", deps);
+        expect(result).toEqual({ ok: true, mode: "pre", endpoint: "/snapshot", status: 200 });
+    });
+
+    it("fails open when the approval request fails", async () => {
+        const deps = makeDeps({
+            ...gated,
+            ask: vi.fn(async () => {
+                throw new Error("timeout after 600000ms");
+            }),
+        });
+        const result = await runHook("pre", input("Bash", { command: "ls" }), "/h", deps);
+        expect(result).toMatchObject({ ok: false, endpoint: "/approve" });
+        expect(result.denied).toBeUndefined();
+    });
+
+    it("doesn't ask when the snapshot reply says gated mode is off", async () => {
+        const deps = makeDeps();
+        const result = await runHook("pre", input("Edit", { file_path: "/a.ts" }), "/h", deps);
+        expect(deps.ask).not.toHaveBeenCalled();
+        expect(result).toEqual({ ok: true, mode: "pre", endpoint: "/snapshot", status: 200 });
+    });
+
+    it("never asks after the tool ran", async () => {
+        const deps = makeDeps();
+        await runHook("post", input("Edit", { file_path: "/a.ts" }), "/h", deps);
+        expect(deps.ask).not.toHaveBeenCalled();
+    });
+
+    it("formats the PreToolUse deny decision", () => {
+        expect(JSON.parse(formatDenyOutput("no"))).toEqual({
+            hookSpecificOutput: {
+                hookEventName: "PreToolUse",
+                permissionDecision: "deny",
+                permissionDecisionReason: "no",
+            },
+        });
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { lineChanges, mergeThreeWay } from "../merge";
+
+const labels = { ours: "ours", base: "base", theirs: "theirs" };
+
+describe("lineChanges", () => {
+    it("reports replaced base lines with their new content", () => {
+        expect(lineChanges("a\nb\nc\n", "a\nB\nc\n")).toEqual([{ start: 1, end: 2, lines: ["B"] }]);
+    });
+
+    it("reports insertions as empty ranges", () => {
+        expect(lineChanges("a\nb\n", "x\na\nb\n")).toEqual([{ start: 0, end: 0, lines: ["x"] }]);
+    });
+});
+
+describe("mergeThreeWay", () => {
+    it("combines edits to different regions", () => {
+        const result = mergeThreeWay(
+            "a\nb\nc\nd\ne\n",
+            "a\nB\nc\nd\ne\n",
+            "a\nb\nc\nd\nE\n",
+            labels,
+        );
+        expect(result).toEqual({ text: "a\nB\nc\nd\nE\n", conflicts: 0 });
+    });
+
+    it("takes an identical edit once", () => {
+        const result = mergeThreeWay("a\nb\nc\n", "a\nB\nc\n", "a\nB\nc\n", labels);
+        expect(result).toEqual({ text: "a\nB\nc\n", conflicts: 0 });
+    });
+
+    it("marks overlapping edits as a diff3 conflict", () => {
+        const result = mergeThreeWay("a\nb\nc\n", "a\nours\nc\n", "a\ntheirs\nc\n", labels);
+        expect(result.conflicts).toBe(1);
+        expect(result.text).toBe(
+            "a\n<<<<<<< ours\nours\n||||||| base\nb\n=======\ntheirs\n>>>>>>> theirs\nc\n",
+        );
+    });
+
+    it("keeps a final-newline change from one side", () => {
+        const result = mergeThreeWay("a\nb\n", "a\nB\n", "a\nb", labels);
+        expect(result.conflicts).toBe(1);
+        expect(mergeThreeWay("a\nb\nc\nd\n", "A\nb\nc\nd\n", "a\nb\nc\nd", labels)).toEqual({
+            text: "A\nb\nc\nd",
+            conflicts: 0,
+        });
+    });
+});
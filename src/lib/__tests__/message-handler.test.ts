@@ -15,6 +15,7 @@ vi.mock("../sessions", () => mockSessions);
 
 const mockState = vi.hoisted(() => ({
     refreshAll: vi.fn(),
+    isScopedToActiveSession: vi.fn().mockReturnValue(false),
 }));
 vi.mock("../state", () => mockState);
 
@@ -34,6 +35,7 @@ import {
     window as mockVscodeWindow,
     env as mockVscodeEnv,
     workspace as mockVscodeWorkspace,
+    commands as mockVscodeCommands,
 } from "./mocks/vscode";
 
 function createMockContext(overrides?: Partial<MessageContext>): MessageContext {
@@ -189,6 +191,35 @@ describe("unarchive-session", () => {
     });
 });
 
+// ─── set-active-session ──────────────────────────────────────────────
+
+describe("set-active-session", () => {
+    it("persists the focused session without refreshing an unscoped review", () => {
+        const ctx = createMockContext();
+        handleWebviewMessage({ type: "set-active-session", claudeId: "sess-1" }, ctx);
+        expect(ctx.sessionMgr.persistActiveSession).toHaveBeenCalledWith("sess-1");
+        expect(mockState.refreshAll).not.toHaveBeenCalled();
+    });
+
+    it("refreshes a review scoped to the focused session", () => {
+        mockState.isScopedToActiveSession.mockReturnValueOnce(true);
+        const ctx = createMockContext();
+        handleWebviewMessage({ type: "set-active-session", claudeId: "sess-2" }, ctx);
+        expect(mockState.refreshAll).toHaveBeenCalled();
+    });
+});
+
+describe("resolve-session", () => {
+    it("runs Keep or Undo for the chosen session", () => {
+        const ctx = createMockContext();
+        handleWebviewMessage({ type: "resolve-session", sessionId: "sess-1", accept: false }, ctx);
+        expect(mockVscodeCommands.executeCommand).toHaveBeenCalledWith(
+            "ccr.rejectSession",
+            "sess-1",
+        );
+    });
+});
+
 // ─── load-archived-sessions ──────────────────────────────────────────
 
 describe("load-archived-sessions", () => {
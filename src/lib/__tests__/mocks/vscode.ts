@@ -57,6 +57,9 @@ export class Uri {
     static joinPath(base: Uri, ...segments: string[]) {
         return new Uri([base.fsPath, ...segments].join("/"));
     }
+    static from(c: { scheme: string; path: string; query?: string }) {
+        return new Uri(`${c.scheme}:${c.path}${c.query ? "?" + c.query : ""}`);
+    }
     toString() {
         return this.fsPath;
     }
@@ -81,6 +84,8 @@ export const window = {
     showWarningMessage: vi.fn(),
     showErrorMessage: vi.fn(),
     setStatusBarMessage: vi.fn(),
+    showInputBox: vi.fn(),
+    tabGroups: { all: [] as { tabs: { input: unknown }[] }[], close: vi.fn() },
     showTextDocument: vi.fn().mockResolvedValue({
         revealRange: vi.fn(),
         selection: null,
@@ -89,6 +94,21 @@ export const window = {
     createOutputChannel: vi.fn(() => ({ appendLine: vi.fn(), show: vi.fn() })),
 };
 
+export class TabInputTextDiff {
+    constructor(
+        public original: Uri,
+        public modified: Uri,
+    ) {}
+}
+
+export class CancellationTokenSource {
+    token = { isCancellationRequested: false, onCancellationRequested: vi.fn() };
+    cancel = vi.fn(() => {
+        this.token.isCancellationRequested = true;
+    });
+    dispose = vi.fn();
+}
+
 export const commands = {
     executeCommand: vi.fn().mockResolvedValue(undefined),
 };
@@ -150,6 +170,7 @@ export const env = {
 
 export const workspace = {
     workspaceFolders: [{ uri: new Uri("/ws") }] as { uri: Uri }[],
+    textDocuments: [] as unknown[],
     fs: {
         stat: vi.fn().mockResolvedValue({ type: 1, size: 100 }),
     },
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("vscode", () => import("./mocks/vscode"));
+vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
+vi.mock("child_process", () => ({ execSync: vi.fn() }));
+
+import {
+    isNotebookPath,
+    canonicalizeNotebook,
+    computeNotebookHunks,
+    normalizeCellSeparators,
+} from "../notebook";
+import { FileReview, buildFinalContent } from "../review";
+
+function code(source: string) {
+    return {
+        cell_type: "code",
+        metadata: {},
+        outputs: [],
+        execution_count: null,
+        source: [source],
+    };
+}
+
+function md(source: string) {
+    return { cell_type: "markdown", metadata: {}, source: [source] };
+}
+
+function notebook(cells: unknown[], metadata: Record<string, unknown> = {}): string {
+    // Written compactly on purpose — callers canonicalize like addFile does
+    return canonicalizeNotebook(
+        JSON.stringify({ cells, metadata, nbformat: 4, nbformat_minor: 5 }),
+    )!;
+}
+
+function finalFor(original: string, modified: string, accept: boolean[]): string {
+    const hunks = computeNotebookHunks(original, modified)!;
+    hunks.forEach((h, i) => {
+        h.resolved = true;
+        h.accepted = accept[i];
+    });
+    return buildFinalContent(new FileReview("/nb.ipynb", original, modified, hunks));
+}
+
+describe("isNotebookPath", () => {
+    it("detects .ipynb regardless of case", () => {
+        expect(isNotebookPath("/a/analysis.ipynb")).toBe(true);
+        expect(isNotebookPath("/a/Analysis.IPYNB")).toBe(true);
+        expect(isNotebookPath("/a/notebook.py")).toBe(false);
+    });
+});
+
+describe("canonicalizeNotebook", () => {
+    it("re-serializes with nbformat's 1-space indent", () => {
+        const out = canonicalizeNotebook('{"cells":[],"nbformat":4}');
+        expect(out).toBe('{\n "cells": [],\n "nbformat": 4\n}\n');
+    });
+
+    it("returns null for invalid JSON or non-notebooks", () => {
+        expect(canonicalizeNotebook("{oops")).toBeNull();
+        expect(canonicalizeNotebook('{"a":1}')).toBeNull();
+    });
+
+    it("keeps empty content (new notebook) as is", () => {
+        expect(canonicalizeNotebook("")).toBe("");
+    });
+});
+
+describe("computeNotebookHunks", () => {
+    const base = notebook([md("# Title"), code("x = 1"), code("print(x)")]);
+
+    it("produces one labelled hunk per modified cell", () => {
+        const mod = notebook([md("# Title"), code("x = 2"), code("print(x)")]);
+        const hunks = computeNotebookHunks(base, mod)!;
+        expect(hunks).toHaveLength(1);
+        expect(hunks[0].label).toBe("Cell 2 · code (modified)");
+        expect(hunks[0].removed.join("\n")).toContain('"x = 1"');
+        expect(hunks[0].added.join("\n")).toContain('"x = 2"');
+        // Hunk covers the whole cell object, not just the source line
+        expect(hunks[0].removed[0]).toBe("  {");
+        expect(hunks[0].removed[hunks[0].removed.length - 1]).toBe("  },");
+    });
+
+    it("labels added and deleted cells", () => {
+        const mod = notebook([md("# Title"), code("print(x)"), md("Notes")]);
+        const labels = computeNotebookHunks(base, mod)!.map((h) => h.label);
+        expect(labels).toEqual(["Cell 2 · code (deleted)", "Cell 3 · markdown (added)"]);
+    });
+
+    it("reports notebook metadata changes separately", () => {
+        const mod = notebook([md("# Title"), code("x = 1"), code("print(x)")], { kernel: "py3" });
+        const hunks = computeNotebookHunks(base, mod)!;
+        expect(hunks.map((h) => h.label)).toEqual(["Notebook metadata"]);
+    });
+
+    it("returns null when a side has no cells (falls back to line diff)", () => {
+        expect(computeNotebookHunks(notebook([]), base)).toBeNull();
+    });
+});
+
+describe("notebook finalization", () => {
+    const base = notebook([code("a = 1"), code("b = 2")]);
+    const mod = notebook([code("a = 10"), code("b = 2"), code("c = 3")]);
+
+    it("accepting one cell and rejecting another yields a valid notebook", () => {
+        const out = finalFor(base, mod, [false, true]);
+        const nb = JSON.parse(out) as { cells: Array<{ source: string[] }> };
+        expect(nb.cells.map((c) => c.source[0])).toEqual(["a = 1", "b = 2", "c = 3"]);
+    });
+
+    it("rejecting an appended last cell drops the dangling separator", () => {
+        const out = finalFor(base, mod, [true, false]);
+        const nb = JSON.parse(out) as { cells: Array<{ source: string[] }> };
+        expect(nb.cells.map((c) => c.source[0])).toEqual(["a = 10", "b = 2"]);
+    });
+
+    it("keeping or undoing everything writes the notebook's own bytes", () => {
+        const rawBase = JSON.stringify(JSON.parse(base), null, 2);
+        const rawMod = JSON.stringify(JSON.parse(mod));
+        const review = (accept: boolean) => {
+            const r = new FileReview("/nb.ipynb", base, mod, computeNotebookHunks(base, mod)!);
+            r.rawOriginal = rawBase;
+            r.rawModified = rawMod;
+            r.hunks.forEach((h) => ((h.resolved = true), (h.accepted = accept)));
+            return r;
+        };
+
+        expect(buildFinalContent(review(true))).toBe(rawMod);
+        expect(buildFinalContent(review(false))).toBe(rawBase);
+    });
+
+    it("falls back to the canonical form when a side was edited during review", () => {
+        const r = new FileReview("/nb.ipynb", base, mod, computeNotebookHunks(base, mod)!);
+        r.rawModified = JSON.stringify(JSON.parse(base));
+        r.hunks.forEach((h) => ((h.resolved = true), (h.accepted = true)));
+        expect(buildFinalContent(r)).toBe(mod);
+    });
+
+    it("normalizeCellSeparators leaves non-canonical content untouched", () => {
+        expect(normalizeCellSeparators("not a notebook")).toBe("not a notebook");
+    });
+});
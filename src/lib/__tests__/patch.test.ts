@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { formatFilePatch, parsePatch, applyFilePatch, PatchError } from "../patch";
+
+function roundTrip(before: string, after: string): string {
+    const [file] = parsePatch(formatFilePatch("f.ts", "f.ts", before, after));
+    return applyFilePatch(before, file);
+}
+
+const lines = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+describe("formatFilePatch", () => {
+    it("writes git-style headers and context", () => {
+        const patch = formatFilePatch("src/f.ts", "src/f.ts", "a\nb\nc\n", "a\nB\nc\n");
+        expect(patch).toBe(
+            "diff --git a/src/f.ts b/src/f.ts\n" +
+                "--- a/src/f.ts\n" +
+                "+++ b/src/f.ts\n" +
+                "@@ -1,3 +1,3 @@\n" +
+                " a\n" +
+                "-b\n" +
+                "+B\n" +
+                " c\n",
+        );
+    });
+
+    it("returns an empty string when nothing changed", () => {
+        expect(formatFilePatch("f.ts", "f.ts", "a\n", "a\n")).toBe("");
+    });
+
+    it("uses /dev/null for created and deleted files", () => {
+        const created = formatFilePatch(null, "n.ts", "", "x\ny\n");
+        expect(created).toContain("new file mode 100644\n--- /dev/null\n+++ b/n.ts\n");
+        expect(created).toContain("@@ -0,0 +1,2 @@\n+x\n+y\n");
+
+        const deleted = formatFilePatch("d.ts", null, "x\n", "");
+        expect(deleted).toContain("deleted file mode 100644\n--- a/d.ts\n+++ /dev/null\n");
+        expect(deleted).toContain("@@ -1,1 +0,0 @@\n-x\n");
+    });
+
+    it("keeps far-apart changes in separate @@ blocks", () => {
+        const before = lines(30);
+        const after = before.replace("line 2\n", "two\n").replace("line 28\n", "twenty-eight\n");
+        const patch = formatFilePatch("f.ts", "f.ts", before, after);
+        expect(patch.match(/^@@/gm)).toHaveLength(2);
+        expect(patch).toContain("@@ -1,5 +1,5 @@");
+        expect(patch).toContain("@@ -25,6 +25,6 @@");
+    });
+
+    it("marks a missing final newline", () => {
+        const patch = formatFilePatch("f.ts", "f.ts", "a\nb", "a\nc");
+        expect(patch).toContain(
+            "-b\n\\ No newline at end of file\n+c\n\\ No newline at end of file\n",
+        );
+    });
+});
+
+describe("parsePatch + applyFilePatch", () => {
+    it.each([
+        ["a single edit", "a\nb\nc\n", "a\nB\nc\n"],
+        [
+            "insertions and deletions",
+            lines(40),
+            lines(40).replace("line 5\n", "").replace("line 30\n", "line 30\nextra\n"),
+        ],
+        ["a new final line without newline", "a\nb\n", "a\nb\nc"],
+        ["dropping the final newline", "a\nb\n", "a\nB"],
+        ["an emptied file", "a\nb\n", ""],
+    ])("round-trips %s", (_name, before, after) => {
+        expect(roundTrip(before, after)).toBe(after);
+    });
+
+    it("reads several files, paths without a/ b/ and /dev/null", () => {
+        const text =
+            "From 123 Mon Sep 17 00:00:00 2001\nSubject: [PATCH] change\n\n" +
+            formatFilePatch("a.ts", "a.ts", "1\n", "2\n") +
+            formatFilePatch(null, "dir/new.ts", "", "n\n") +
+            formatFilePatch("gone.ts", null, "g\n", "") +
+            "--- old/plain.txt\t2024-01-01\n+++ new/plain.txt\t2024-01-02\n@@ -1 +1 @@\n-p\n+q\n";
+        const files = parsePatch(text);
+        expect(files.map((f) => [f.oldPath, f.newPath])).toEqual([
+            ["a.ts", "a.ts"],
+            [null, "dir/new.ts"],
+            ["gone.ts", null],
+            ["old/plain.txt", "new/plain.txt"],
+        ]);
+        expect(applyFilePatch("", files[1])).toBe("n\n");
+        expect(applyFilePatch("p\n", files[3])).toBe("q\n");
+    });
+
+    it("applies a hunk whose context moved", () => {
+        const [file] = parsePatch(
+            formatFilePatch("f.ts", "f.ts", lines(10), lines(10).replace("line 6", "six")),
+        );
+        const shifted = "header 1\nheader 2\n" + lines(10);
+        expect(applyFilePatch(shifted, file)).toBe(
+            "header 1\nheader 2\n" + lines(10).replace("line 6", "six"),
+        );
+    });
+
+    it("throws PatchError when a hunk doesn't match", () => {
+        const [file] = parsePatch(formatFilePatch("f.ts", "f.ts", "a\nb\nc\n", "a\nB\nc\n"));
+        expect(() => applyFilePatch("x\ny\nz\n", file)).toThrow(PatchError);
+    });
+
+    it("throws PatchError on a truncated hunk", () => {
+        expect(() => parsePatch("--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n a\n-b\n")).toThrow(PatchError);
+    });
+});
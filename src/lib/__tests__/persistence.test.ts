@@ -77,6 +77,35 @@ describe("saveReviewState", () => {
         expect(data.files[0]).toHaveProperty("originalContent", "orig");
         expect(data.files[0]).toHaveProperty("modifiedContent", "mod");
     });
+
+    it("stores the review base in use", () => {
+        const base = { kind: "mergeBase" as const, rev: "abc", label: "merge-base with main" };
+        saveReviewState("/ws", new Map(), 0, base);
+        const data = JSON.parse(mockFs.writeFileSync.mock.calls[0][1] as string);
+        expect(data.base).toEqual(base);
+    });
+
+    it("stores suspended conflicts next to the active reviews", () => {
+        saveReviewState("/ws", new Map(), 0, null, new Map([["c.ts", fakeReview("c.ts")]]));
+        const data = JSON.parse(mockFs.writeFileSync.mock.calls[0][1] as string);
+        expect(data.files).toEqual([]);
+        expect(data.conflicts).toHaveLength(1);
+        expect(data.conflicts[0]).toMatchObject({ filePath: "c.ts", modifiedContent: "mod" });
+    });
+
+    it("stores unsent comments of finished files", () => {
+        const comment = { id: "c1", startLine: 0, endLine: 0, body: "why?", at: 1 };
+        const finished = [{ filePath: "/ws/f.ts", comment, quote: ["a"] }];
+        saveReviewState("/ws", new Map(), 0, null, new Map(), finished);
+        const data = JSON.parse(mockFs.writeFileSync.mock.calls[0][1] as string);
+        expect(data.finishedComments).toEqual(finished);
+    });
+
+    it("leaves conflicts out when there are none", () => {
+        saveReviewState("/ws", new Map([["f", fakeReview("f")]]), 0);
+        const data = JSON.parse(mockFs.writeFileSync.mock.calls[0][1] as string);
+        expect(data).not.toHaveProperty("conflicts");
+    });
 });
 
 describe("loadReviewState", () => {
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("vscode", () => import("./mocks/vscode"));
+vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
+
+const mockExecSync = vi.hoisted(() => vi.fn());
+vi.mock("child_process", () => ({ execSync: mockExecSync }));
+
+import * as vscode from "vscode";
+
+// Fresh modules per test — the session base is module state
+let reviewBase: typeof import("../review-base");
+let state: typeof import("../state");
+
+function setSettings(settings: Record<string, string>) {
+    vi.mocked(vscode.workspace.getConfiguration).mockReturnValue({
+        get: (k: string, def?: unknown) => settings[k] ?? def,
+    } as unknown as vscode.WorkspaceConfiguration);
+}
+
+beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.resetModules();
+    reviewBase = await import("../review-base");
+    state = await import("../state");
+    state.activeReviews.clear();
+    state.setReviewBase(null);
+    setSettings({});
+    mockExecSync.mockImplementation((cmd: string) => {
+        if (cmd === "git stash create") return "";
+        if (cmd === "git rev-parse HEAD") return "abc123\n";
+        if (cmd.startsWith("git merge-base")) return "base456\n";
+        return "";
+    });
+});
+
+describe("resolveReviewBase", () => {
+    it("defaults to HEAD", () => {
+        expect(reviewBase.resolveReviewBase("/ws")).toEqual({
+            kind: "head",
+            rev: "HEAD",
+            label: "HEAD",
+        });
+    });
+
+    it("reads the index with an empty revision", () => {
+        setSettings({ reviewBase: "index" });
+        expect(reviewBase.resolveReviewBase("/ws")).toMatchObject({ rev: "", label: "index" });
+    });
+
+    it("takes the merge-base with the configured branch", () => {
+        setSettings({ reviewBase: "mergeBase", reviewBaseBranch: "develop" });
+        expect(reviewBase.resolveReviewBase("/ws")).toEqual({
+            kind: "mergeBase",
+            rev: "base456",
+            label: "merge-base with develop",
+        });
+        expect(mockExecSync).toHaveBeenCalledWith(
+            'git merge-base HEAD "develop"',
+            expect.objectContaining({ cwd: "/ws" }),
+        );
+    });
+
+    it("falls back to HEAD when the merge-base can't be found", () => {
+        setSettings({ reviewBase: "mergeBase" });
+        mockExecSync.mockImplementation(() => {
+            throw new Error("fatal: Not a valid object name main");
+        });
+        expect(reviewBase.resolveReviewBase("/ws")).toBe(reviewBase.HEAD_BASE);
+    });
+
+    it("uses the working-tree snapshot of the first session start", () => {
+        setSettings({ reviewBase: "session" });
+        expect(reviewBase.resolveReviewBase("/ws")).toBe(reviewBase.HEAD_BASE);
+
+        mockExecSync.mockImplementation((cmd: string) =>
+            cmd === "git stash create" ? "stash789\n" : "",
+        );
+        reviewBase.recordSessionStart("/ws");
+        reviewBase.recordSessionStart("/ws");
+        expect(mockExecSync).toHaveBeenCalledTimes(1);
+        expect(reviewBase.resolveReviewBase("/ws")).toEqual({
+            kind: "session",
+            rev: "stash789",
+            label: "session start",
+        });
+    });
+
+    it("uses HEAD as the session snapshot when the tree is clean", () => {
+        setSettings({ reviewBase: "session" });
+        reviewBase.recordSessionStart("/ws");
+        expect(reviewBase.resolveReviewBase("/ws").rev).toBe("abc123");
+    });
+});
+
+describe("currentReviewBase", () => {
+    it("keeps the base fixed while reviews are active", () => {
+        state.activeReviews.set("/ws/a.ts", {} as never);
+        expect(reviewBase.currentReviewBase("/ws").label).toBe("HEAD");
+
+        setSettings({ reviewBase: "index" });
+        expect(reviewBase.currentReviewBase("/ws").label).toBe("HEAD");
+
+        state.activeReviews.clear();
+        expect(reviewBase.currentReviewBase("/ws").label).toBe("index");
+        expect(state.getReviewBase()?.kind).toBe("index");
+    });
+});
+
+describe("readAtBase / changedSinceBase", () => {
+    it("reads the index as :path", () => {
+        reviewBase.readAtBase("/ws", "src/a.ts", { kind: "index", rev: "", label: "index" });
+        expect(mockExecSync).toHaveBeenCalledWith('git show :"src/a.ts"', expect.anything());
+    });
+
+    it("lists files changed since the base plus untracked files", () => {
+        mockExecSync.mockImplementation((cmd: string) => {
+            if (cmd === "git diff --name-only base456") return "a.ts\nb.ts\n";
+            if (cmd.startsWith("git ls-files")) return "new.ts\na.ts\n";
+            return "";
+        });
+        const base = { kind: "mergeBase" as const, rev: "base456", label: "merge-base" };
+        expect(reviewBase.changedSinceBase("/ws", base)).toEqual(["a.ts", "b.ts", "new.ts"]);
+    });
+
+    it("diffs the working tree against the index for the index base", () => {
+        reviewBase.changedSinceBase("/ws", { kind: "index", rev: "", label: "index" });
+        expect(mockExecSync).toHaveBeenCalledWith("git diff --name-only", expect.anything());
+    });
+});
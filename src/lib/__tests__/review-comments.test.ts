@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
+
+import {
+    toModifiedLine,
+    toBufferLine,
+    shiftComments,
+    formatCommentsPrompt,
+    formatCommentsMarkdown,
+} from "../review-manager/comments";
+import { makeHunk } from "./helpers";
+import type { CollectedComment, IFileReview, ReviewComment } from "../../types";
+
+// Claude's version: a, B1, B2, c, d — hunk replaced "b" with B1, B2
+function review(resolved = false, accepted = false): IFileReview {
+    return {
+        hunks: [
+            makeHunk({
+                modStart: 2,
+                origStart: 2,
+                removed: ["b"],
+                added: ["B1", "B2"],
+                resolved,
+                accepted,
+            }),
+        ],
+    } as unknown as IFileReview;
+}
+
+function comment(startLine: number, endLine = startLine): ReviewComment {
+    return { id: "c1", startLine, endLine, body: "note", at: 0 };
+}
+
+describe("toModifiedLine / toBufferLine", () => {
+    it("maps around an unresolved hunk, removed lines to where the hunk is", () => {
+        // Buffer: a, b, B1, B2, c, d
+        const r = review();
+        expect([0, 1, 2, 3, 4, 5].map((l) => toModifiedLine(r, l))).toEqual([0, 1, 1, 2, 3, 4]);
+        expect([0, 1, 2, 3, 4].map((l) => toBufferLine(r, l))).toEqual([0, 2, 3, 4, 5]);
+    });
+
+    it("follows a kept hunk", () => {
+        // Buffer: a, B1, B2, c, d
+        const r = review(true, true);
+        expect([0, 1, 2, 3, 4].map((l) => toModifiedLine(r, l))).toEqual([0, 1, 2, 3, 4]);
+        expect([0, 1, 2, 3, 4].map((l) => toBufferLine(r, l))).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it("puts lines of an undone hunk on the restored line", () => {
+        // Buffer: a, b, c, d
+        const r = review(true, false);
+        expect([0, 1, 2, 3, 4].map((l) => toBufferLine(r, l))).toEqual([0, 1, 1, 2, 3]);
+        expect(toModifiedLine(r, 2)).toBe(3);
+    });
+});
+
+describe("shiftComments", () => {
+    it("moves comments below an insertion and keeps those above", () => {
+        const before = "a\nb\nc\nd";
+        const after = "a\nx\ny\nb\nc\nd";
+        expect(shiftComments([comment(0), comment(2, 3)], before, after)).toMatchObject([
+            { startLine: 0, endLine: 0 },
+            { startLine: 4, endLine: 5 },
+        ]);
+    });
+
+    it("keeps a comment on a rewritten line at the rewrite and clamps to the new end", () => {
+        expect(shiftComments([comment(1)], "a\nb\nc", "a\nB\nc")).toMatchObject([{ startLine: 1 }]);
+        expect(shiftComments([comment(2)], "a\nb\nc", "a")).toMatchObject([
+            { startLine: 0, endLine: 0 },
+        ]);
+    });
+
+    it("leaves comments alone when nothing changed", () => {
+        const comments = [comment(1)];
+        expect(shiftComments(comments, "a\nb", "a\nb")).toBe(comments);
+        expect(shiftComments(undefined, "a", "b")).toBeUndefined();
+    });
+});
+
+describe("formatting", () => {
+    const collected: CollectedComment[] = [
+        {
+            filePath: "/ws/src/b.ts",
+            comment: { ...comment(4, 5), body: "split this" },
+            quote: ["x()", "y()"],
+        },
+        { filePath: "/ws/a.ts", comment: { ...comment(0), body: "rename" }, quote: ["let q"] },
+    ];
+
+    it("puts every comment into one prompt with its location and lines", () => {
+        const prompt = formatCommentsPrompt("/ws", collected);
+        expect(prompt).toMatch(/^Review comments on your changes \(2\)/);
+        expect(prompt).toContain("src/b.ts:5-6\n```\nx()\ny()\n```\nsplit this");
+        expect(prompt).toContain("a.ts:1\n```\nlet q\n```\nrename");
+    });
+
+    it("exports Markdown grouped by file", () => {
+        const md = formatCommentsMarkdown("/ws", collected);
+        expect(md.indexOf("## a.ts")).toBeGreaterThan(0);
+        expect(md.indexOf("## a.ts")).toBeLessThan(md.indexOf("## src/b.ts"));
+        expect(md).toContain("split this");
+    });
+});
@@ -46,6 +46,8 @@ vi.mock("../persistence", () => mockPersistence);
 
 import * as state from "../state";
 import { ReviewManager } from "../review-manager";
+import { FileReview, rebuildMerged } from "../review";
+import { canonicalizeNotebook, computeNotebookHunks } from "../notebook";
 
 function setupManager(): ReviewManager {
     const mgr = new ReviewManager("/ws");
@@ -58,11 +60,6 @@ function setupTrackedFile(original: string, modified: string) {
     mockExecSync.mockImplementation((cmd: string) => {
         if (cmd.includes("git ls-files")) return "";
         if (cmd.includes("git show HEAD")) return original;
-        if (cmd.includes("git diff --no-index")) {
-            const err = new Error("diff") as Error & { stdout: string };
-            err.stdout = `@@ -1,1 +1,1 @@\n-${original}\n+${modified}`;
-            throw err;
-        }
         if (cmd.includes("git diff HEAD")) return `@@ -1,1 +1,1 @@\n-${original}\n+${modified}`;
         return "";
     });
@@ -136,11 +133,6 @@ describe("re-edit same file", () => {
         mockExecSync.mockImplementation((cmd: string) => {
             if (cmd.includes("git ls-files")) return "";
             if (cmd.includes("git show HEAD")) return "original";
-            if (cmd.includes("git diff --no-index")) {
-                const err = new Error("diff") as Error & { stdout: string };
-                err.stdout = "@@ -1,1 +1,1 @@\n-original\n+second-edit";
-                throw err;
-            }
             if (cmd.includes("git diff HEAD")) return "@@ -1,1 +1,1 @@\n-original\n+second-edit";
             return "";
         });
@@ -271,6 +263,7 @@ describe("persistence round-trip", () => {
             ],
         });
         mockFs.existsSync.mockReturnValue(true);
+        mockFs.readFileSync.mockReturnValue("new");
         state.activeReviews.clear();
         await mgr.restore();
 
@@ -307,6 +300,7 @@ describe("persistence round-trip", () => {
             ],
         });
         mockFs.existsSync.mockReturnValue(true);
+        mockFs.readFileSync.mockReturnValue("new");
         state.activeReviews.clear();
         await mgr.restore();
 
@@ -343,6 +337,9 @@ describe("persistence round-trip", () => {
             ],
         });
         mockFs.existsSync.mockReturnValue(false);
+        mockFs.readFileSync.mockImplementation(() => {
+            throw new Error("ENOENT");
+        });
         state.activeReviews.clear();
         await mgr.restore();
 
@@ -591,6 +588,56 @@ describe("undo/redo via restoreFromSnapshot", () => {
     });
 });
 
+describe("undoing a finished file", () => {
+    const notebook = (source: string) =>
+        JSON.stringify({
+            cells: [{ cell_type: "code", metadata: {}, outputs: [], source: [source] }],
+            metadata: {},
+            nbformat: 4,
+            nbformat_minor: 5,
+        });
+
+    it("brings back a notebook's own bytes, its edit steps and its unsent comments", async () => {
+        const history = await vi.importActual<typeof import("../undo-history")>("../undo-history");
+        const rawOriginal = notebook("x = 1");
+        const rawModified = notebook("x = 2");
+        const original = canonicalizeNotebook(rawOriginal)!;
+        const modified = canonicalizeNotebook(rawModified)!;
+        const fp = "/ws/nb.ipynb";
+        const review = new FileReview(
+            fp,
+            original,
+            modified,
+            computeNotebookHunks(original, modified)!,
+        );
+        review.rawOriginal = rawOriginal;
+        review.rawModified = rawModified;
+        review.sessionId = "s1";
+        review.layers = [{ before: rawOriginal, after: rawModified, at: 1 }];
+        review.comments = [{ id: "c1", startLine: 0, endLine: 0, body: "why?", at: 2 }];
+        rebuildMerged(review);
+        state.activeReviews.set(fp, review);
+        state.clearFinishedComments();
+        const mgr = setupManager();
+
+        history.pushUndoState(fp, review);
+        const snapshot = history.popUndoState(fp)!;
+        await mgr.resolveAllHunks(fp, true);
+        expect(state.activeReviews.has(fp)).toBe(false);
+        expect(state.getFinishedComments().map((c) => c.comment.id)).toEqual(["c1"]);
+
+        mgr.restoreFromSnapshot(fp, snapshot);
+        const restored = state.activeReviews.get(fp)!;
+        expect(restored.sessionId).toBe("s1");
+        expect(restored.layers).toEqual(review.layers);
+        expect(restored.comments?.map((c) => c.id)).toEqual(["c1"]);
+        expect(state.getFinishedComments()).toEqual([]);
+
+        await mgr.resolveAllHunks(fp, false);
+        expect(mockFs.writeFileSync).toHaveBeenLastCalledWith(fp, rawOriginal, "utf8");
+    });
+});
+
 describe("multiple files navigation", () => {
     it("getUnresolvedFiles tracks all added files", () => {
         const mgr = setupManager();
@@ -29,15 +29,19 @@ const mockFs = vi.hoisted(() => ({
     readFileSync: vi.fn(),
     writeFileSync: vi.fn(),
     unlinkSync: vi.fn(),
+    mkdirSync: vi.fn(),
     existsSync: vi.fn().mockReturnValue(true),
+    statSync: vi.fn(),
 }));
 vi.mock("fs", () => mockFs);
 
 const mockExecSync = vi.hoisted(() => vi.fn());
-vi.mock("child_process", () => ({ execSync: mockExecSync }));
+const mockExecFileSync = vi.hoisted(() => vi.fn());
+vi.mock("child_process", () => ({ execSync: mockExecSync, execFileSync: mockExecFileSync }));
 
 const mockServer = vi.hoisted(() => ({
     getSnapshot: vi.fn().mockReturnValue(undefined),
+    getSnapshotBytes: vi.fn().mockReturnValue(undefined),
     clearSnapshot: vi.fn(),
 }));
 vi.mock("../server", () => mockServer);
@@ -49,11 +53,15 @@ const mockPersistence = vi.hoisted(() => ({
 }));
 vi.mock("../persistence", () => mockPersistence);
 
+const mockAudit = vi.hoisted(() => ({ recordAudit: vi.fn() }));
+vi.mock("../audit-log", () => mockAudit);
+
 import * as vscode from "vscode";
 import * as state from "../state";
 import { ReviewManager } from "../review-manager";
 import { applyDecorations } from "../decorations";
-import type { ReviewSnapshot } from "../../types";
+import { makeHunk } from "./helpers";
+import type { Hunk, IFileReview, ReviewSnapshot } from "../../types";
 
 function setupManager(): ReviewManager {
     const mgr = new ReviewManager("/ws");
@@ -78,14 +86,10 @@ beforeEach(() => {
     mockExecSync.mockImplementation((cmd: string) => {
         if (cmd.includes("git ls-files")) return "";
         if (cmd.includes("git show HEAD")) return "original";
-        if (cmd.includes("git diff --no-index")) {
-            const err = new Error("diff") as Error & { stdout: string };
-            err.stdout = "@@ -1,1 +1,1 @@\n-original\n+modified content";
-            throw err;
-        }
         if (cmd.includes("git diff HEAD")) return "@@ -1,1 +1,1 @@\n-original\n+modified content";
         return "";
     });
+    mockExecFileSync.mockReturnValue("");
 });
 
 afterEach(() => {
@@ -120,15 +124,8 @@ describe("addFile", () => {
         mgr.addFile("/ws/file.ts");
         expect(state.activeReviews.has("/ws/file.ts")).toBe(true);
 
-        // Now content matches original
-        mockExecSync.mockImplementation((cmd: string) => {
-            if (cmd.includes("git show HEAD")) return "same";
-            if (cmd.includes("git ls-files")) return "";
-            if (cmd.includes("git diff HEAD")) return "";
-            return "";
-        });
-        mockFs.readFileSync.mockReturnValue("same");
-        mockServer.getSnapshot.mockReturnValue("same");
+        // Claude reverted its edit: the file is back to the review's original
+        mockFs.readFileSync.mockReturnValue("original");
         mgr.addFile("/ws/file.ts");
         expect(state.activeReviews.has("/ws/file.ts")).toBe(false);
     });
@@ -312,8 +309,44 @@ describe("persistence", () => {
 
     it("saveNow calls saveReviewState immediately", () => {
         const mgr = setupManager();
+        state.setReviewBase(null);
         mgr.saveNow();
-        expect(mockPersistence.saveReviewState).toHaveBeenCalledWith("/ws", state.activeReviews, 0);
+        expect(mockPersistence.saveReviewState).toHaveBeenCalledWith(
+            "/ws",
+            state.activeReviews,
+            0,
+            null,
+            new Map(),
+            [],
+        );
+    });
+
+    it("restore brings back the review base, HEAD for older states", async () => {
+        const mgr = setupManager();
+        const base = { kind: "index", rev: "", label: "index" };
+        const saved = {
+            version: 1,
+            timestamp: 1,
+            currentFileIndex: 0,
+            files: [
+                {
+                    filePath: "/ws/restored.ts",
+                    originalContent: "orig",
+                    modifiedContent: "mod",
+                    hunks: [makeHunk({ removed: ["orig"], added: ["mod"] })],
+                    changeType: "edit",
+                },
+            ],
+        };
+        mockPersistence.loadReviewState.mockReturnValueOnce({ ...saved, base });
+        await mgr.restore();
+        expect(state.getReviewBase()).toEqual(base);
+
+        state.activeReviews.clear();
+        mgr.reviewFiles = [];
+        mockPersistence.loadReviewState.mockReturnValueOnce(saved);
+        await mgr.restore();
+        expect(state.getReviewBase()?.label).toBe("HEAD");
     });
 
     it("restore returns false when no saved state", async () => {
@@ -862,6 +895,724 @@ describe("finalizeFile", () => {
     });
 });
 
+describe("addRename", () => {
+    it("creates a rename review at the destination with a labelled rename hunk", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("same");
+        mockFs.readFileSync.mockReturnValue("same");
+        await mgr.addRename("/ws/old.ts", "/ws/lib/new.ts");
+
+        const review = state.activeReviews.get("/ws/lib/new.ts");
+        expect(review?.changeType).toBe("rename");
+        expect(review?.renamedFrom).toBe("/ws/old.ts");
+        expect(review?.hunks).toHaveLength(1);
+        expect(review?.hunks[0].label).toBe("Renamed from old.ts");
+        expect(state.activeReviews.has("/ws/old.ts")).toBe(false);
+    });
+
+    it("follows the rename hunk with content hunks when the file also changed", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("original");
+        await mgr.addRename("/ws/old.ts", "/ws/new.ts");
+
+        const review = state.activeReviews.get("/ws/new.ts");
+        expect(review?.hunks.map((h) => h.id)).toEqual([0, 1]);
+        expect(review?.hunks[1].removed).toEqual(["original"]);
+        expect(review?.hunks[1].added).toEqual(["modified content"]);
+    });
+
+    it("carries over original content and origin of an earlier review", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("original");
+        await mgr.addRename("/ws/a.ts", "/ws/b.ts");
+        mockServer.getSnapshot.mockReturnValue(undefined);
+        await mgr.addRename("/ws/b.ts", "/ws/c.ts");
+
+        const review = state.activeReviews.get("/ws/c.ts");
+        expect(review?.renamedFrom).toBe("/ws/a.ts");
+        expect(review?.originalContent).toBe("original");
+        expect(mgr.reviewFiles).toEqual(["/ws/c.ts"]);
+    });
+
+    it("Keep leaves the file at the destination", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("same");
+        mockFs.readFileSync.mockReturnValue("same");
+        await mgr.addRename("/ws/old.ts", "/ws/new.ts");
+        await mgr.resolveAllHunks("/ws/new.ts", true);
+
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith("/ws/new.ts", "same", "utf8");
+        expect(mockFs.unlinkSync).not.toHaveBeenCalled();
+    });
+
+    it("Undo restores the source with the final content and removes the destination", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("original");
+        await mgr.addRename("/ws/old.ts", "/ws/new.ts");
+        await mgr.resolveHunk("/ws/new.ts", 1, true);
+        await mgr.resolveHunk("/ws/new.ts", 0, false);
+
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith("/ws/old.ts", "modified content", "utf8");
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith("/ws/new.ts");
+    });
+
+    it("reviews a moved file Claude created as a plain file", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("");
+        await mgr.addRename("/ws/tmp.ts", "/ws/final.ts");
+        expect(state.activeReviews.get("/ws/final.ts")?.changeType).not.toBe("rename");
+    });
+});
+
+describe("ignore-whitespace / ignore-line-endings mode", () => {
+    function enableSetting(key: string) {
+        vi.mocked(vscode.workspace.getConfiguration).mockReturnValueOnce({
+            get: (k: string, def?: unknown) => (k === key ? true : def),
+        } as unknown as vscode.WorkspaceConfiguration);
+    }
+
+    const ORIGINAL = "x\nfunction f() {\n  a();\n}\ny";
+    const MODIFIED = "X\nfunction f() {\n    a();\n}\nY";
+
+    function addReformatted(mgr: ReviewManager) {
+        mockServer.getSnapshot.mockReturnValue(ORIGINAL);
+        mockFs.readFileSync.mockReturnValue(MODIFIED);
+        enableSetting("ignoreWhitespace");
+        return mgr.addFile("/ws/f.ts");
+    }
+
+    it("auto-accepts whitespace-only hunks and leaves real changes for review", async () => {
+        const mgr = setupManager();
+        await addReformatted(mgr);
+
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.diffOptions).toEqual({ ignoreWhitespace: true, ignoreLineEndings: false });
+        expect(review.hunks.map((h) => [h.whitespaceOnly ?? false, h.resolved])).toEqual([
+            [false, false],
+            [true, true],
+            [false, false],
+        ]);
+        expect(review.unresolvedCount).toBe(2);
+    });
+
+    it("Undo of the real changes keeps Claude's formatting byte for byte", async () => {
+        const mgr = setupManager();
+        await addReformatted(mgr);
+        await mgr.resolveAllHunks("/ws/f.ts", false);
+
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+            "/ws/f.ts",
+            "x\nfunction f() {\n    a();\n}\ny",
+            "utf8",
+        );
+    });
+
+    it("skips the review when only line endings changed", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("a\r\nb\r\n");
+        mockFs.readFileSync.mockReturnValue("a\nb\n");
+        enableSetting("ignoreLineEndings");
+        await mgr.addFile("/ws/crlf.ts");
+
+        expect(state.activeReviews.has("/ws/crlf.ts")).toBe(false);
+        expect(mgr.reviewFiles).not.toContain("/ws/crlf.ts");
+    });
+
+    it("logs the auto-accepted file to the audit log as kept", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("a\r\nb\r\n");
+        mockFs.readFileSync.mockReturnValue("a\nb\n");
+        enableSetting("ignoreLineEndings");
+        await mgr.addFile("/ws/crlf.ts", "s1");
+
+        expect(mockAudit.recordAudit).toHaveBeenCalledOnce();
+        const [, review] = mockAudit.recordAudit.mock.calls[0];
+        expect(review).toMatchObject({ filePath: "/ws/crlf.ts", sessionId: "s1" });
+        expect(review.hunks.every((h: Hunk) => h.resolved && h.accepted)).toBe(true);
+    });
+
+    it("toggling the mode off re-diffs and keeps decisions already made", async () => {
+        const mgr = setupManager();
+        await addReformatted(mgr);
+        await mgr.resolveHunk("/ws/f.ts", 0, true);
+        await mgr.toggleDiffOption("/ws/f.ts", "ignoreWhitespace");
+
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.diffOptions).toBeUndefined();
+        expect(review.hunks.map((h) => [h.added, h.resolved])).toEqual([
+            [["X"], true],
+            [["    a();"], false],
+            [["Y"], false],
+        ]);
+        expect(mockUndoHistory.pushUndoState).toHaveBeenCalledTimes(2);
+    });
+
+    it("toggling the mode on finalizes a review with only formatting left", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("  a\n  b");
+        mockFs.readFileSync.mockReturnValue("    a\n    b");
+        await mgr.addFile("/ws/g.ts");
+        expect(state.activeReviews.get("/ws/g.ts")?.unresolvedCount).toBe(1);
+
+        await mgr.toggleDiffOption("/ws/g.ts", "ignoreWhitespace");
+        expect(state.activeReviews.has("/ws/g.ts")).toBe(false);
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith("/ws/g.ts", "    a\n    b", "utf8");
+    });
+});
+
+describe("splitHunk / mergeWithNextHunk", () => {
+    function addTwoHunks(mgr: ReviewManager) {
+        mockServer.getSnapshot.mockReturnValue("a\nold1\nold2\nb\nold3");
+        mockFs.readFileSync.mockReturnValue("a\nnew1\nnew2\nb\nnew3");
+        return mgr.addFile("/ws/f.ts");
+    }
+
+    it("splits the hunk under the cursor and renumbers ids", async () => {
+        const mgr = setupManager();
+        await addTwoHunks(mgr);
+        // Buffer: a, old1, old2, new1, new2, b, old3, new3 — cursor on "new1"
+        await mgr.splitHunk("/ws/f.ts", 3);
+
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.hunks.map((h) => [h.id, h.removed, h.added])).toEqual([
+            [0, ["old1", "old2"], []],
+            [1, [], ["new1", "new2"]],
+            [2, ["old3"], ["new3"]],
+        ]);
+        expect(review.hunkRanges.map((r) => r.hunkId)).toEqual([0, 1, 2]);
+        expect(mockUndoHistory.pushUndoState).toHaveBeenCalledTimes(1);
+    });
+
+    it("does nothing at the first line of a hunk or outside hunks", async () => {
+        const mgr = setupManager();
+        await addTwoHunks(mgr);
+        await mgr.splitHunk("/ws/f.ts", 1);
+        await mgr.splitHunk("/ws/f.ts", 0);
+        expect(state.activeReviews.get("/ws/f.ts")!.hunks).toHaveLength(2);
+        expect(mockUndoHistory.pushUndoState).not.toHaveBeenCalled();
+    });
+
+    it("merges with the next hunk, taking in the lines between", async () => {
+        const mgr = setupManager();
+        await addTwoHunks(mgr);
+        await mgr.mergeWithNextHunk("/ws/f.ts", 2);
+
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.hunks).toHaveLength(1);
+        expect(review.hunks[0]).toMatchObject({
+            id: 0,
+            removed: ["old1", "old2", "b", "old3"],
+            added: ["new1", "new2", "b", "new3"],
+        });
+        expect(review.mergedLines).toEqual([
+            "a",
+            "old1",
+            "old2",
+            "b",
+            "old3",
+            "new1",
+            "new2",
+            "b",
+            "new3",
+        ]);
+    });
+
+    it("won't merge into a hunk that is already resolved", async () => {
+        const mgr = setupManager();
+        await addTwoHunks(mgr);
+        await mgr.resolveHunk("/ws/f.ts", 1, true);
+        await mgr.mergeWithNextHunk("/ws/f.ts", 2);
+        expect(state.activeReviews.get("/ws/f.ts")!.hunks).toHaveLength(2);
+    });
+});
+
+describe("resolveLines (line-level Keep/Undo)", () => {
+    // Buffer: a, old, new1, new2, new3, b
+    function addHunk(mgr: ReviewManager) {
+        mockServer.getSnapshot.mockReturnValue("a\nold\nb");
+        mockFs.readFileSync.mockReturnValue("a\nnew1\nnew2\nnew3\nb");
+        return mgr.addFile("/ws/f.ts");
+    }
+
+    it("keeps only the selected added lines and leaves the rest unresolved", async () => {
+        const mgr = setupManager();
+        await addHunk(mgr);
+        await mgr.resolveLines("/ws/f.ts", 2, 3, true);
+
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.hunks.map((h) => [h.id, h.removed, h.added, h.resolved])).toEqual([
+            [0, ["old"], [], false],
+            [1, [], ["new1", "new2"], true],
+            [2, [], ["new3"], false],
+        ]);
+        expect(review.mergedLines).toEqual(["a", "old", "new1", "new2", "new3", "b"]);
+        expect(mockUndoHistory.pushUndoState).toHaveBeenCalledTimes(1);
+    });
+
+    it("final content combines kept lines with the rest of the decisions", async () => {
+        const mgr = setupManager();
+        await addHunk(mgr);
+        await mgr.resolveLines("/ws/f.ts", 2, 3, true);
+        await mgr.resolveAllHunks("/ws/f.ts", false);
+
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+            "/ws/f.ts",
+            "a\nold\nnew1\nnew2\nb",
+            "utf8",
+        );
+    });
+
+    it("undoing a selected removed line restores it", async () => {
+        const mgr = setupManager();
+        await addHunk(mgr);
+        await mgr.resolveLines("/ws/f.ts", 1, 1, false);
+        await mgr.resolveAllHunks("/ws/f.ts", true);
+
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+            "/ws/f.ts",
+            "a\nold\nnew1\nnew2\nnew3\nb",
+            "utf8",
+        );
+    });
+
+    it("a selection covering the whole hunk resolves it as a whole", async () => {
+        const mgr = setupManager();
+        await addHunk(mgr);
+        await mgr.resolveLines("/ws/f.ts", 0, 5, true);
+        expect(state.activeReviews.has("/ws/f.ts")).toBe(false);
+    });
+});
+
+describe("trackUserEdit (edit in place)", () => {
+    // Buffer: a, old1, new1, b, old2, new2
+    async function setup() {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("a\nold1\nb\nold2");
+        mockFs.readFileSync.mockReturnValue("a\nnew1\nb\nnew2");
+        await mgr.addFile("/ws/f.ts");
+        // Claude's tool call is over — decisions check the file for outside changes again
+        mockServer.getSnapshot.mockReturnValue(undefined);
+        // The disk holds what was written last: the merged buffer once the file was opened
+        mockFs.readFileSync.mockImplementation(
+            () => mockFs.writeFileSync.mock.calls.at(-1)?.[1] ?? "a\nnew1\nb\nnew2",
+        );
+        return mgr;
+    }
+
+    afterEach(() => {
+        Object.assign(vscode.workspace, { textDocuments: [] });
+    });
+
+    function edit(
+        mgr: ReviewManager,
+        after: string[],
+        range: [number, number, number, number],
+        text: string,
+    ): boolean {
+        // The edit stays unsaved until the review writes the file next
+        const writes = mockFs.writeFileSync.mock.calls.length;
+        const document = {
+            uri: { fsPath: "/ws/f.ts" },
+            get isDirty() {
+                return mockFs.writeFileSync.mock.calls.length === writes;
+            },
+            getText: () => after.join("\n"),
+        } as unknown as vscode.TextDocument;
+        Object.assign(vscode.workspace, { textDocuments: [document] });
+        return mgr.trackUserEdit(document, [
+            { range: new vscode.Range(...range), rangeOffset: 0, rangeLength: 0, text },
+        ]);
+    }
+
+    it("updates the hunk's added lines and shifts the hunks below", async () => {
+        const mgr = await setup();
+        const after = ["a", "old1", "NEW1", "extra", "b", "old2", "new2"];
+        expect(edit(mgr, after, [2, 0, 2, 4], "NEW1\nextra")).toBe(true);
+
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.hunks[0].added).toEqual(["NEW1", "extra"]);
+        expect(review.hunks[1].modStart).toBe(5);
+        expect(review.modifiedContent).toBe("a\nNEW1\nextra\nb\nnew2");
+        expect(review.mergedLines).toEqual(after);
+        expect(review.hunkRanges[1]).toMatchObject({ removedStart: 5, addedStart: 6 });
+        expect(mockUndoHistory.pushUndoState).toHaveBeenCalledTimes(1);
+    });
+
+    it("Keep commits the user-adjusted lines", async () => {
+        const mgr = await setup();
+        edit(mgr, ["a", "old1", "mine", "b", "old2", "new2"], [2, 0, 2, 4], "mine");
+        await mgr.resolveHunk("/ws/f.ts", 0, true);
+        await mgr.resolveHunk("/ws/f.ts", 1, false);
+
+        expect(mgr.getConflicts()).toEqual([]);
+        expect(mockFs.writeFileSync).toHaveBeenLastCalledWith(
+            "/ws/f.ts",
+            "a\nmine\nb\nold2",
+            "utf8",
+        );
+    });
+
+    it("deleting all proposed lines turns the hunk into a pure removal", async () => {
+        const mgr = await setup();
+        expect(edit(mgr, ["a", "old1", "b", "old2", "new2"], [2, 0, 3, 0], "")).toBe(true);
+        expect(state.activeReviews.get("/ws/f.ts")!.hunks[0].added).toEqual([]);
+    });
+
+    it("refuses edits to removed or unchanged lines", async () => {
+        const mgr = await setup();
+        expect(edit(mgr, ["a", "OLD1", "new1", "b", "old2", "new2"], [1, 0, 1, 4], "OLD1")).toBe(
+            false,
+        );
+        expect(edit(mgr, ["A", "old1", "new1", "b", "old2", "new2"], [0, 0, 0, 1], "A")).toBe(
+            false,
+        );
+        expect(state.activeReviews.get("/ws/f.ts")!.modifiedContent).toBe("a\nnew1\nb\nnew2");
+    });
+});
+
+describe("exportPatch / importPatch", () => {
+    it("exports kept hunks and the pending remainder as separate patches", async () => {
+        const mgr = setupManager();
+        mockServer.getSnapshot.mockReturnValue("a\nold1\nold2\nb\nc\nd\ne\nf\ng\nold3\n");
+        mockFs.readFileSync.mockReturnValue("a\nnew1\nnew2\nb\nc\nd\ne\nf\ng\nnew3\n");
+        await mgr.addFile("/ws/src/f.ts");
+        await mgr.resolveHunk("/ws/src/f.ts", 0, true);
+
+        const accepted = mgr.exportPatch("accepted");
+        expect(accepted.files).toBe(1);
+        expect(accepted.patch).toContain("--- a/src/f.ts\n+++ b/src/f.ts\n");
+        expect(accepted.patch).toContain("-old1\n-old2\n+new1\n+new2\n");
+        expect(accepted.patch).not.toContain("old3");
+
+        const pending = mgr.exportPatch("pending");
+        expect(pending.patch).toContain("-old3\n+new3\n");
+        expect(pending.patch).not.toContain("old1");
+    });
+
+    it("imports a patch as a review of the patched file", async () => {
+        const mgr = setupManager();
+        const open = vi.spyOn(mgr, "openFileForReview").mockResolvedValue();
+        mockFs.readFileSync.mockReturnValue("a\nb\nc\n");
+        const patch =
+            "diff --git a/f.ts b/f.ts\n--- a/f.ts\n+++ b/f.ts\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n";
+        await mgr.importPatch(patch);
+
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith("/ws/f.ts", "a\nB\nc\n", "utf8");
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.hunks.map((h) => [h.removed, h.added])).toEqual([[["b"], ["B"]]]);
+        expect(mgr.getReviewFiles()).toEqual(["/ws/f.ts"]);
+        expect(mockUndoHistory.initHistory).toHaveBeenCalledWith("/ws/f.ts");
+        expect(open).toHaveBeenCalledWith("/ws/f.ts");
+    });
+
+    it("skips files already under review or that don't apply, and reports them", async () => {
+        const mgr = setupManager();
+        await mgr.addFile("/ws/file.ts");
+        mockFs.readFileSync.mockReturnValue("x\n");
+        const patch =
+            "--- a/file.ts\n+++ b/file.ts\n@@ -1 +1 @@\n-modified content\n+m\n" +
+            "--- a/other.ts\n+++ b/other.ts\n@@ -1 +1 @@\n-a\n+b\n";
+        await mgr.importPatch(patch);
+
+        expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+        expect(mgr.getReviewFiles()).toEqual(["/ws/file.ts"]);
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+            expect.stringContaining("2 file(s) not imported"),
+        );
+    });
+
+    it("drops the review of a file the patch could not be written to", async () => {
+        const mgr = setupManager();
+        const open = vi.spyOn(mgr, "openFileForReview").mockResolvedValue();
+        mockFs.readFileSync.mockReturnValue("a\n");
+        mockFs.writeFileSync.mockImplementationOnce(() => {
+            throw new Error("EACCES: permission denied");
+        });
+        await mgr.importPatch("--- a/f.ts\n+++ b/f.ts\n@@ -1 +1 @@\n-a\n+b\n");
+
+        expect(state.activeReviews.has("/ws/f.ts")).toBe(false);
+        expect(mgr.getReviewFiles()).toEqual([]);
+        expect(open).not.toHaveBeenCalled();
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+            expect.stringContaining("f.ts: EACCES"),
+        );
+    });
+});
+
+describe("keepAndStage", () => {
+    const ORIGINAL = "a\nold1\nb\nc\nd\ne\nf\ng\nold2\n";
+    let index: string;
+
+    beforeEach(() => {
+        index = ORIGINAL;
+        mockServer.getSnapshot.mockReturnValue(ORIGINAL);
+        mockFs.readFileSync.mockReturnValue("a\nnew1\nb\nc\nd\ne\nf\ng\nnew2\n");
+        mockExecFileSync.mockImplementation((_git: string, args: string[]) => {
+            if (args.join(" ") === "show :src/f.ts") return index;
+            return "";
+        });
+    });
+
+    function stagedPatches(): string[] {
+        return mockExecFileSync.mock.calls
+            .filter(([, args]) => args.join(" ") === "apply --cached -")
+            .map(([, , opts]) => opts.input);
+    }
+
+    it("stages only the kept hunk, leaving pending hunks unstaged", async () => {
+        const mgr = setupManager();
+        await mgr.addFile("/ws/src/f.ts");
+        await mgr.keepAndStage("/ws/src/f.ts", 0);
+
+        const [patch] = stagedPatches();
+        expect(patch).toContain("-old1\n+new1\n");
+        expect(patch).not.toContain("new2");
+        const review = state.activeReviews.get("/ws/src/f.ts")!;
+        expect(review.hunks[0]).toMatchObject({ resolved: true, accepted: true });
+        expect(review.hunks[1].resolved).toBe(false);
+    });
+
+    it("stages the next hunk on top of what was staged before", async () => {
+        const mgr = setupManager();
+        await mgr.addFile("/ws/src/f.ts");
+        await mgr.keepAndStage("/ws/src/f.ts", 0);
+        index = "a\nnew1\nb\nc\nd\ne\nf\ng\nold2\n";
+        await mgr.keepAndStage("/ws/src/f.ts", 1);
+
+        const patch = stagedPatches()[1];
+        expect(patch).toContain("-old2\n+new2\n");
+        expect(patch).not.toContain("old1");
+        expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+    });
+
+    it("still keeps, and reports it, when the index has diverged", async () => {
+        const mgr = setupManager();
+        await mgr.addFile("/ws/src/f.ts");
+        index = "something\nelse\n";
+        await mgr.keepAndStage("/ws/src/f.ts", 0);
+
+        expect(stagedPatches()).toEqual([]);
+        expect(state.activeReviews.get("/ws/src/f.ts")!.hunks[0].accepted).toBe(true);
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+            expect.stringContaining("the index has diverged"),
+        );
+    });
+});
+
+describe("commitReviewedChanges", () => {
+    beforeEach(() => {
+        state.clearReviewedFiles();
+    });
+
+    /** The message editor: the prefilled text as the user leaves it; returns the prefill */
+    function editMessage(edit: (text: string) => string): () => string {
+        let prefilled = "";
+        vi.mocked(vscode.workspace.openTextDocument).mockImplementationOnce((async (init: {
+            content: string;
+        }) => {
+            prefilled = init.content;
+            return { uri: { fsPath: "" }, getText: () => edit(init.content) };
+        }) as never);
+        return () => prefilled;
+    }
+
+    it("does not commit an emptied message", async () => {
+        const mgr = setupManager();
+        await mgr.addFile("/ws/src/f.ts");
+        await mgr.resolveAllHunks("/ws/src/f.ts", true);
+        editMessage(() => "  \n");
+        vi.mocked(vscode.window.showInformationMessage).mockResolvedValueOnce("Commit" as never);
+        await mgr.commitReviewedChanges();
+
+        expect(mockExecFileSync.mock.calls.some(([, args]) => args[0] === "commit")).toBe(false);
+        expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+            expect.stringContaining("can't be empty"),
+        );
+    });
+
+    it("waits until every file is resolved", async () => {
+        const mgr = setupManager();
+        await mgr.addFile("/ws/src/f.ts");
+        await mgr.commitReviewedChanges();
+
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+            expect.stringContaining("1 file(s) still pending"),
+        );
+        expect(vscode.workspace.openTextDocument).not.toHaveBeenCalled();
+    });
+
+    it("commits kept files with the edited subject and a per-file summary", async () => {
+        const mgr = setupManager();
+        vi.spyOn(mgr, "openFileForReview").mockResolvedValue();
+        await mgr.addFile("/ws/src/f.ts");
+        await mgr.addFile("/ws/src/g.ts");
+        await mgr.resolveAllHunks("/ws/src/f.ts", true);
+        await mgr.resolveAllHunks("/ws/src/g.ts", false);
+        const message = editMessage((text) => text.replace("Apply reviewed changes", "Tidy up f"));
+        vi.mocked(vscode.window.showInformationMessage).mockResolvedValueOnce("Commit" as never);
+        await mgr.commitReviewedChanges();
+
+        expect(message()).toContain("Reviewed files:\n- src/f.ts: 1 kept, 0 undone");
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+            "workbench.action.revertAndCloseActiveEditor",
+        );
+
+        expect(mockExecFileSync).toHaveBeenCalledWith(
+            "git",
+            ["add", "-A", "--", "src/f.ts"],
+            expect.anything(),
+        );
+        const commit = mockExecFileSync.mock.calls.find(([, args]) => args[0] === "commit")!;
+        expect(commit[1]).toEqual(["commit", "-F", "-", "--", "src/f.ts"]);
+        expect(commit[2].input).toBe(
+            "Tidy up f\n\nReviewed files:\n- src/f.ts: 1 kept, 0 undone\n- src/g.ts: 0 kept, 1 undone\n",
+        );
+        expect(state.getReviewedFiles()).toEqual([]);
+    });
+
+    it("keeps the reviewed files when the commit is cancelled", async () => {
+        const mgr = setupManager();
+        await mgr.addFile("/ws/src/f.ts");
+        await mgr.resolveAllHunks("/ws/src/f.ts", true);
+        editMessage((text) => text);
+        vi.mocked(vscode.window.showInformationMessage).mockResolvedValueOnce("Cancel" as never);
+        await mgr.commitReviewedChanges();
+
+        expect(mockExecFileSync.mock.calls.some(([, args]) => args[0] === "commit")).toBe(false);
+        expect(state.getReviewedFiles()).toHaveLength(1);
+    });
+});
+
+describe("session scope", () => {
+    beforeEach(() => {
+        state.setActiveSessionProvider(() => "sess-a");
+        state.setScopedToActiveSession(true);
+    });
+    afterEach(() => {
+        state.setScopedToActiveSession(false);
+    });
+
+    it("navigates only between the scoped session's files", async () => {
+        const mgr = setupManager();
+        const open = vi.spyOn(mgr, "openFileForReview").mockResolvedValue();
+        await mgr.addFile("/ws/a1.ts", "sess-a");
+        await mgr.addFile("/ws/b.ts", "sess-b");
+        await mgr.addFile("/ws/a2.ts", "sess-a");
+        mgr.currentFileIndex = 0;
+        await mgr.navigateFile(1);
+
+        expect(open).toHaveBeenLastCalledWith("/ws/a2.ts");
+        expect(mgr.getSessionGroups().map((g) => [g.sessionId, g.files])).toEqual([
+            ["sess-a", ["/ws/a1.ts", "/ws/a2.ts"]],
+            ["sess-b", ["/ws/b.ts"]],
+        ]);
+    });
+
+    it("stays put when the scoped session is done and others remain", async () => {
+        const mgr = setupManager();
+        const open = vi.spyOn(mgr, "openFileForReview").mockResolvedValue();
+        await mgr.addFile("/ws/a1.ts", "sess-a");
+        await mgr.addFile("/ws/b.ts", "sess-b");
+        open.mockClear();
+        await mgr.resolveAllHunks("/ws/a1.ts", true);
+
+        expect(open).not.toHaveBeenCalled();
+        expect(mgr.getReviewFiles()).toEqual(["/ws/a1.ts", "/ws/b.ts"]);
+        expect(state.activeReviews.has("/ws/b.ts")).toBe(true);
+    });
+});
+
+describe("whole-file review (binary / large files)", () => {
+    const BEFORE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]);
+    const AFTER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x02, 0x03]);
+    let disk: Map<string, Buffer>;
+
+    function setupDisk(files: Record<string, Buffer>, headContent?: Buffer) {
+        disk = new Map(Object.entries(files));
+        mockFs.readFileSync.mockImplementation((p: string, enc?: BufferEncoding) => {
+            const bytes = disk.get(p);
+            if (!bytes) throw new Error("ENOENT");
+            return enc ? bytes.toString(enc) : bytes;
+        });
+        mockFs.writeFileSync.mockImplementation((p: string, data: Buffer | string) =>
+            disk.set(p, Buffer.from(data)),
+        );
+        mockFs.existsSync.mockImplementation((p: string) => disk.has(p));
+        mockFs.unlinkSync.mockImplementation((p: string) => disk.delete(p));
+        mockServer.getSnapshot.mockReturnValue(undefined);
+        mockExecSync.mockImplementation((cmd: string, opts?: { encoding?: BufferEncoding }) => {
+            if (!cmd.includes("git show HEAD") || !headContent) throw new Error("not found");
+            return opts?.encoding ? headContent.toString(opts.encoding) : headContent;
+        });
+    }
+
+    afterEach(() => {
+        mockFs.writeFileSync.mockReset();
+        mockFs.unlinkSync.mockReset();
+        mockFs.existsSync.mockReset().mockReturnValue(true);
+    });
+
+    it("reviews a binary file with a single whole-file hunk", async () => {
+        const mgr = setupManager();
+        setupDisk({ "/ws/logo.png": AFTER }, BEFORE);
+        await mgr.addFile("/ws/logo.png");
+
+        const review = state.activeReviews.get("/ws/logo.png");
+        expect(review?.wholeFile?.reason).toBe("binary");
+        expect(review?.changeType).toBe("edit");
+        expect(review?.hunks).toHaveLength(1);
+        expect(review?.hunks[0].label).toBe("Binary file · 6 B → 7 B");
+        expect(review?.originalContent).toBe("");
+    });
+
+    it("Undo restores the original bytes", async () => {
+        const mgr = setupManager();
+        setupDisk({ "/ws/logo.png": AFTER }, BEFORE);
+        await mgr.addFile("/ws/logo.png");
+        await mgr.resolveAllHunks("/ws/logo.png", false);
+        expect(disk.get("/ws/logo.png")).toEqual(BEFORE);
+    });
+
+    it("Keep leaves Claude's bytes untouched", async () => {
+        const mgr = setupManager();
+        setupDisk({ "/ws/logo.png": AFTER }, BEFORE);
+        await mgr.addFile("/ws/logo.png");
+        await mgr.resolveAllHunks("/ws/logo.png", true);
+        expect(disk.get("/ws/logo.png")).toEqual(AFTER);
+    });
+
+    it("Undo of a new binary file removes it", async () => {
+        const mgr = setupManager();
+        setupDisk({ "/ws/new.bin": AFTER });
+        await mgr.addFile("/ws/new.bin");
+        expect(state.activeReviews.get("/ws/new.bin")?.changeType).toBe("create");
+        await mgr.resolveAllHunks("/ws/new.bin", false);
+        expect(disk.has("/ws/new.bin")).toBe(false);
+    });
+
+    it("reviews oversized text files whole", async () => {
+        const mgr = setupManager();
+        setupDisk({ "/ws/dump.sql": Buffer.alloc(2 * 1024 * 1024, "x") }, Buffer.from("old"));
+        await mgr.addFile("/ws/dump.sql");
+        const review = state.activeReviews.get("/ws/dump.sql");
+        expect(review?.wholeFile?.reason).toBe("large");
+        expect(review?.mergedLines).toEqual([]);
+    });
+
+    it("does not open a text editor for whole-file reviews", async () => {
+        const mgr = setupManager();
+        setupDisk({ "/ws/data.bin": AFTER }, BEFORE);
+        await mgr.addFile("/ws/data.bin");
+        await mgr.openFileForReview("/ws/data.bin");
+        expect(vscode.workspace.openTextDocument).not.toHaveBeenCalled();
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+            expect.stringContaining("data.bin: Binary file"),
+            "Keep",
+            "Undo",
+        );
+    });
+});
+
 describe("undoResolve / redoResolve", () => {
     function makeSnapshot(
         review: ReturnType<typeof state.activeReviews.get>,
@@ -1276,11 +2027,6 @@ function addMultipleFiles(mgr: ReviewManager, count: number): string[] {
         mockExecSync.mockImplementation((cmd: string) => {
             if (cmd.includes("git ls-files")) return "";
             if (cmd.includes("git show HEAD")) return `orig${i}`;
-            if (cmd.includes("git diff --no-index")) {
-                const err = new Error("diff") as Error & { stdout: string };
-                err.stdout = `@@ -1,1 +1,1 @@\n-orig${i}\n+modified${i}`;
-                throw err;
-            }
             if (cmd.includes("git diff HEAD")) return `@@ -1,1 +1,1 @@\n-orig${i}\n+modified${i}`;
             return "";
         });
@@ -1623,3 +2369,543 @@ describe("reviewNextUnresolved — skip current file", () => {
         expect(openedFiles).toEqual([paths[2]]);
     });
 });
+
+describe("external changes", () => {
+    const orig = "a\nb\nc\nd\ne\nf\n";
+    const mod = "a\nb\nc\nd\nE\nf\n";
+
+    beforeEach(() => {
+        // Conflicts outlive a test's manager until it is disposed
+        new ReviewManager("/ws").dispose();
+        state.clearReviewedFiles();
+    });
+
+    async function setupReview(mgr: ReviewManager): Promise<void> {
+        mockExecSync.mockImplementation((cmd: string) =>
+            cmd.includes("git show HEAD") ? orig : "",
+        );
+        mockFs.readFileSync.mockReturnValue(mod);
+        await mgr.addFile("/ws/f.ts");
+    }
+
+    it("rebases pending hunks onto an edit outside them", async () => {
+        const mgr = setupManager();
+        await setupReview(mgr);
+        mockFs.readFileSync.mockReturnValue("x\n" + mod);
+        await mgr.checkExternalChange("/ws/f.ts");
+
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.originalContent).toBe("x\n" + orig);
+        expect(review.modifiedContent).toBe("x\n" + mod);
+        expect(review.hunks[0].origStart).toBe(6);
+        expect(review.hunks[0].modStart).toBe(6);
+        expect(mgr.getConflicts()).toEqual([]);
+        expect(mockFs.writeFileSync).not.toHaveBeenCalledWith(
+            "/ws/f.ts",
+            expect.anything(),
+            "utf8",
+        );
+    });
+
+    it("ignores content the review itself put on disk", async () => {
+        const mgr = setupManager();
+        await setupReview(mgr);
+        await mgr.checkExternalChange("/ws/f.ts");
+
+        expect(state.activeReviews.get("/ws/f.ts")!.originalContent).toBe(orig);
+        expect(mgr.getConflicts()).toEqual([]);
+    });
+
+    it("suspends the review without writing when a hunk was edited", async () => {
+        const mgr = setupManager();
+        await setupReview(mgr);
+        mockFs.readFileSync.mockReturnValue("a\nb\nc\nd\nEE\nf\n");
+        await mgr.checkExternalChange("/ws/f.ts");
+
+        expect(state.activeReviews.has("/ws/f.ts")).toBe(false);
+        expect(mgr.getReviewFiles()).not.toContain("/ws/f.ts");
+        expect(mgr.getConflicts()).toEqual(["/ws/f.ts"]);
+        expect(mockFs.writeFileSync).not.toHaveBeenCalledWith(
+            "/ws/f.ts",
+            expect.anything(),
+            "utf8",
+        );
+        expect(vscode.window.showWarningMessage).toHaveBeenCalled();
+    });
+
+    it("restores the review's version when asked", async () => {
+        const mgr = setupManager();
+        vi.spyOn(mgr, "openFileForReview").mockResolvedValue();
+        await setupReview(mgr);
+        mockFs.readFileSync.mockReturnValue("a\nb\nc\nd\nEE\nf\n");
+        (vscode.window.showWarningMessage as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+            "Restore Review",
+        );
+        await mgr.checkExternalChange("/ws/f.ts");
+        await vi.waitFor(() => expect(mgr.getConflicts()).toEqual([]));
+
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith("/ws/f.ts", mod, "utf8");
+        expect(state.activeReviews.has("/ws/f.ts")).toBe(true);
+        expect(mgr.openFileForReview).toHaveBeenCalledWith("/ws/f.ts");
+    });
+
+    it("does not write a decision over a hunk edited on disk the watcher hasn't reported", async () => {
+        const mgr = setupManager();
+        await setupReview(mgr);
+        mockFs.readFileSync.mockReturnValue("a\nb\nc\nd\nEE\nf\n");
+        await mgr.resolveAllHunks("/ws/f.ts", false);
+
+        expect(mgr.getConflicts()).toEqual(["/ws/f.ts"]);
+        expect(mockFs.writeFileSync).not.toHaveBeenCalledWith(
+            "/ws/f.ts",
+            expect.anything(),
+            "utf8",
+        );
+        expect(state.getReviewedFiles()).toEqual([]);
+    });
+
+    it("rebases onto an unreported edit outside the hunks before writing the decision", async () => {
+        const mgr = setupManager();
+        vi.spyOn(mgr, "openFileForReview").mockResolvedValue();
+        await setupReview(mgr);
+        mockFs.readFileSync.mockReturnValue("x\n" + mod);
+        await mgr.resolveAllHunks("/ws/f.ts", false);
+
+        expect(mgr.getConflicts()).toEqual([]);
+        expect(state.activeReviews.has("/ws/f.ts")).toBe(false);
+        expect(state.getReviewedFiles()[0]).toMatchObject({ filePath: "/ws/f.ts", undone: 1 });
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith("/ws/f.ts", "x\n" + orig, "utf8");
+    });
+
+    it("keeps a suspended review across a reload and asks again", async () => {
+        const mgr = setupManager();
+        await setupReview(mgr);
+        mockFs.readFileSync.mockReturnValue("a\nb\nc\nd\nEE\nf\n");
+        await mgr.checkExternalChange("/ws/f.ts");
+        mgr.dispose();
+
+        const saved = mockPersistence.saveReviewState.mock.calls.at(-1)!;
+        const suspended = (saved[4] as Map<string, IFileReview>).get("/ws/f.ts")!;
+        expect(suspended.modifiedContent).toBe(mod);
+        expect(mgr.getConflicts()).toEqual([]);
+
+        vi.mocked(vscode.window.showWarningMessage).mockClear();
+        mockPersistence.loadReviewState.mockReturnValueOnce({
+            version: 1,
+            timestamp: 0,
+            files: [],
+            currentFileIndex: 0,
+            conflicts: [
+                {
+                    filePath: "/ws/f.ts",
+                    originalContent: orig,
+                    modifiedContent: mod,
+                    hunks: suspended.hunks,
+                    changeType: "edit",
+                },
+            ],
+        });
+        const reloaded = setupManager();
+        await reloaded.restore();
+
+        expect(reloaded.getConflicts()).toEqual(["/ws/f.ts"]);
+        expect(state.activeReviews.has("/ws/f.ts")).toBe(false);
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+            expect.stringContaining("f.ts changed on disk"),
+            expect.anything(),
+            expect.anything(),
+            expect.anything(),
+            expect.anything(),
+        );
+    });
+
+    it("drops the review and keeps the disk on discard", async () => {
+        const mgr = setupManager();
+        await setupReview(mgr);
+        mockFs.readFileSync.mockReturnValue("a\nb\nc\nd\nEE\nf\n");
+        (vscode.window.showWarningMessage as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+            "Discard Review",
+        );
+        await mgr.checkExternalChange("/ws/f.ts");
+        await vi.waitFor(() => expect(mgr.getConflicts()).toEqual([]));
+
+        expect(state.activeReviews.has("/ws/f.ts")).toBe(false);
+        expect(mockFs.writeFileSync).not.toHaveBeenCalledWith(
+            "/ws/f.ts",
+            expect.anything(),
+            "utf8",
+        );
+    });
+});
+
+describe("edit layers", () => {
+    const orig = "a\nb\nc\nd\ne\nf\n";
+    const step1 = "a\nB\nc\nd\ne\nf\n";
+
+    async function addSteps(mgr: ReviewManager, ...steps: string[]): Promise<void> {
+        mockExecSync.mockImplementation((cmd: string) =>
+            cmd.includes("git show HEAD") ? orig : "",
+        );
+        for (const step of steps) {
+            mockFs.readFileSync.mockReturnValue(step);
+            await mgr.addFile("/ws/f.ts");
+        }
+    }
+
+    it("records each tool call as its own layer", async () => {
+        const mgr = setupManager();
+        await addSteps(mgr, step1, "a\nB\nc\nd\nE\nf\n");
+
+        const layers = mgr.getEditLayers("/ws/f.ts");
+        expect(layers.map((l) => [l.before, l.after])).toEqual([
+            [orig, step1],
+            [step1, "a\nB\nc\nd\nE\nf\n"],
+        ]);
+        // The review itself still spans every step
+        expect(state.activeReviews.get("/ws/f.ts")!.originalContent).toBe(orig);
+    });
+
+    it("undoes one step and keeps the later ones", async () => {
+        const mgr = setupManager();
+        await addSteps(mgr, step1, "a\nB\nc\nd\nE\nf\n");
+        mockFs.writeFileSync.mockImplementationOnce((_fp: string, content: string) =>
+            mockFs.readFileSync.mockReturnValue(content),
+        );
+        await mgr.undoEditLayer("/ws/f.ts", 0);
+
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith("/ws/f.ts", "a\nb\nc\nd\nE\nf\n", "utf8");
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.modifiedContent).toBe("a\nb\nc\nd\nE\nf\n");
+        expect(review.hunks).toHaveLength(1);
+        expect(review.hunks[0].added).toEqual(["E"]);
+        expect(mgr.getEditLayers("/ws/f.ts").map((l) => !!l.undone)).toEqual([true, false]);
+    });
+
+    it("refuses a step that a later step edited over", async () => {
+        const mgr = setupManager();
+        await addSteps(mgr, step1, "a\nBB\nc\nd\ne\nf\n");
+        await mgr.undoEditLayer("/ws/f.ts", 0);
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+            expect.stringContaining("overlaps later edits"),
+        );
+        expect(mockFs.writeFileSync).not.toHaveBeenCalledWith(
+            "/ws/f.ts",
+            expect.anything(),
+            "utf8",
+        );
+    });
+});
+
+describe("review policy", () => {
+    let mtime = 0;
+
+    function usePolicy(policy: object, content = "modified content") {
+        mockFs.statSync.mockReturnValue({ mtimeMs: ++mtime });
+        mockFs.readFileSync.mockImplementation((fp: string) =>
+            fp === "/ws/.claude/review-policy.json" ? JSON.stringify(policy) : content,
+        );
+    }
+
+    beforeEach(() => {
+        state.clearPolicySkips();
+        state.clearReviewedFiles();
+    });
+    afterEach(() => {
+        mockFs.statSync.mockReset();
+    });
+
+    it("auto-keep leaves the file out of the review and counts it as kept", async () => {
+        const mgr = setupManager();
+        usePolicy({ "auto-keep": ["*.lock"] });
+        await mgr.addFile("/ws/yarn.lock", "s1");
+
+        expect(state.activeReviews.has("/ws/yarn.lock")).toBe(false);
+        expect(mgr.getReviewFiles()).toEqual([]);
+        expect(state.getReviewedFiles()).toEqual([
+            { filePath: "/ws/yarn.lock", changeType: "edit", kept: 1, undone: 0, sessionId: "s1" },
+        ]);
+        expect(state.getPolicySkips()).toEqual([
+            { filePath: "/ws/yarn.lock", rule: "auto-keep", pattern: "*.lock" },
+        ]);
+        expect(mockServer.clearSnapshot).toHaveBeenCalledWith("/ws/yarn.lock");
+    });
+
+    it("auto-ignore leaves no trace but the reason", async () => {
+        const mgr = setupManager();
+        usePolicy({ "auto-ignore": ["dist/**"] });
+        await mgr.addFile("/ws/dist/app.js");
+
+        expect(state.activeReviews.has("/ws/dist/app.js")).toBe(false);
+        expect(state.getReviewedFiles()).toEqual([]);
+        expect(state.getPolicySkips()).toEqual([
+            { filePath: "/ws/dist/app.js", rule: "auto-ignore", pattern: "dist/**" },
+        ]);
+    });
+
+    it("require-review keeps whitespace-only changes up for review", async () => {
+        const mgr = setupManager();
+        vi.mocked(vscode.workspace.getConfiguration).mockReturnValueOnce({
+            get: (k: string, def?: unknown) => (k === "ignoreWhitespace" ? true : def),
+        } as unknown as vscode.WorkspaceConfiguration);
+        mockServer.getSnapshot.mockReturnValue("a\n  b\n");
+        usePolicy({ "auto-keep": ["**"], "require-review": ["migrations/**"] }, "a\n    b\n");
+        await mgr.addFile("/ws/migrations/001.sql");
+
+        const review = state.activeReviews.get("/ws/migrations/001.sql")!;
+        expect(review.hunks.map((h) => [h.whitespaceOnly, h.resolved])).toEqual([[true, false]]);
+        mockServer.getSnapshot.mockReturnValue(undefined);
+    });
+
+    it("Keep and Stage All holds back files that must be accepted one by one", async () => {
+        const mgr = setupManager();
+        vi.spyOn(mgr, "openFileForReview").mockResolvedValue();
+        await mgr.addFile("/ws/src/auth/login.ts");
+        await mgr.addFile("/ws/src/app.ts");
+        usePolicy({ "forbid-bulk-accept": ["src/auth/**"] });
+        await mgr.keepAndStageAll();
+
+        expect(state.activeReviews.has("/ws/src/app.ts")).toBe(false);
+        expect(state.activeReviews.get("/ws/src/auth/login.ts")!.unresolvedCount).toBe(1);
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+            expect.stringContaining("src/auth/login.ts"),
+        );
+    });
+});
+
+describe("review comments", () => {
+    const orig = "a\nb\nc\nd\n";
+    const step1 = "a\nB\nc\nd\n";
+
+    async function addStep(mgr: ReviewManager, content: string): Promise<void> {
+        mockExecSync.mockImplementation((cmd: string) =>
+            cmd.includes("git show HEAD") ? orig : "",
+        );
+        mockFs.readFileSync.mockReturnValue(content);
+        await mgr.addFile("/ws/f.ts", "s1");
+    }
+
+    beforeEach(() => {
+        state.clearFinishedComments();
+    });
+
+    it("anchors a comment to Claude's line under the buffer line", async () => {
+        const mgr = setupManager();
+        await addStep(mgr, step1);
+        // Buffer: a, b (removed), B (added), c, d
+        await mgr.addComment("/ws/f.ts", 3, 3, "  why c?  ");
+
+        const [comment] = state.activeReviews.get("/ws/f.ts")!.comments!;
+        expect(comment).toMatchObject({ startLine: 2, endLine: 2, body: "why c?" });
+        expect(mgr.getComments()).toMatchObject([
+            { filePath: "/ws/f.ts", sessionId: "s1", quote: ["c"] },
+        ]);
+    });
+
+    it("keeps its anchor when a hunk is resolved", async () => {
+        const mgr = setupManager();
+        await addStep(mgr, step1);
+        await mgr.addComment("/ws/f.ts", 3, 3, "note");
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        await mgr.resolveHunk("/ws/f.ts", review.hunks[0].id, true);
+
+        expect(mgr.getComments()[0].quote).toEqual(["c"]);
+    });
+
+    it("moves with Claude's later edits", async () => {
+        const mgr = setupManager();
+        await addStep(mgr, step1);
+        await mgr.addComment("/ws/f.ts", 3, 3, "note");
+        await addStep(mgr, "x\ny\na\nB\nc\nd\n");
+
+        const comment = state.activeReviews.get("/ws/f.ts")!.comments![0];
+        expect(comment.startLine).toBe(4);
+        expect(mgr.getComments()[0].quote).toEqual(["c"]);
+    });
+
+    it("outlives the file's review and goes once sent", async () => {
+        const mgr = setupManager();
+        await addStep(mgr, step1);
+        await mgr.addComment("/ws/f.ts", 3, 3, "note");
+        await mgr.resolveAllHunks("/ws/f.ts", true);
+
+        expect(state.activeReviews.has("/ws/f.ts")).toBe(false);
+        const comments = mgr.getComments();
+        expect(comments).toMatchObject([{ filePath: "/ws/f.ts", quote: ["c"] }]);
+
+        await mgr.removeComments(comments);
+        expect(mgr.getComments()).toEqual([]);
+    });
+
+    it("is saved and restored with the review", async () => {
+        const mgr = setupManager();
+        await addStep(mgr, step1);
+        await mgr.addComment("/ws/f.ts", 3, 3, "note");
+        mgr.saveNow();
+        const saved = mockPersistence.saveReviewState.mock.calls.at(-1)!;
+        const [, reviews] = saved as [string, Map<string, { comments?: unknown }>];
+        const comments = reviews.get("/ws/f.ts")!.comments;
+        expect(comments).toMatchObject([{ startLine: 2, body: "note" }]);
+
+        state.activeReviews.clear();
+        mgr.reviewFiles = [];
+        mockPersistence.loadReviewState.mockReturnValueOnce({
+            version: 1,
+            timestamp: 1,
+            currentFileIndex: 0,
+            files: [
+                {
+                    filePath: "/ws/f.ts",
+                    originalContent: orig,
+                    modifiedContent: step1,
+                    hunks: [makeHunk({ modStart: 2, origStart: 2, removed: ["b"], added: ["B"] })],
+                    changeType: "edit",
+                    comments,
+                },
+            ],
+        });
+        await mgr.restore();
+        expect(mgr.getComments()).toMatchObject([{ comment: { body: "note" }, quote: ["c"] }]);
+    });
+
+    it("keeps comments of finished files across a reload", async () => {
+        const mgr = setupManager();
+        await addStep(mgr, step1);
+        await mgr.addComment("/ws/f.ts", 3, 3, "note");
+        await mgr.resolveAllHunks("/ws/f.ts", true);
+        mgr.saveNow();
+
+        expect(mockPersistence.clearReviewState).not.toHaveBeenCalled();
+        const finished = mockPersistence.saveReviewState.mock.calls.at(-1)![5];
+        expect(finished).toMatchObject([{ filePath: "/ws/f.ts", comment: { body: "note" } }]);
+
+        state.clearFinishedComments();
+        mockPersistence.loadReviewState.mockReturnValueOnce({
+            version: 1,
+            timestamp: 1,
+            currentFileIndex: 0,
+            files: [],
+            finishedComments: finished,
+        });
+        await mgr.restore();
+        expect(mgr.getComments()).toMatchObject([{ comment: { body: "note" }, quote: ["c"] }]);
+    });
+});
+
+describe("side-by-side layout", () => {
+    // Claude replaced "old" with new1..new3
+    async function addHunk(mgr: ReviewManager) {
+        mockServer.getSnapshot.mockReturnValue("a\nold\nb");
+        mockFs.readFileSync.mockReturnValue("a\nnew1\nnew2\nnew3\nb");
+        await mgr.addFile("/ws/f.ts");
+        mockServer.getSnapshot.mockReturnValue(undefined);
+    }
+
+    afterEach(() => {
+        state.setReviewLayout("inline");
+    });
+
+    it("keeps only Claude's lines in the buffer", async () => {
+        const mgr = setupManager();
+        state.setReviewLayout("sideBySide");
+        await addHunk(mgr);
+
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.mergedLines).toEqual(["a", "new1", "new2", "new3", "b"]);
+        expect(review.hunkRanges).toEqual([
+            { hunkId: 0, removedStart: 1, removedEnd: 1, addedStart: 1, addedEnd: 4 },
+        ]);
+    });
+
+    it("opens a diff editor against the original and leaves the file on disk alone", async () => {
+        const mgr = setupManager();
+        state.setReviewLayout("sideBySide");
+        await addHunk(mgr);
+        const doc = mockOpenTextDocument("a\nnew1\nnew2\nnew3\nb");
+        doc.uri = vscode.Uri.file("/ws/f.ts") as unknown as typeof doc.uri;
+        mockShowTextDocument(doc);
+        mockFs.writeFileSync.mockClear();
+
+        await mgr.openFileForReview("/ws/f.ts");
+
+        expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+            "vscode.diff",
+            expect.objectContaining({ fsPath: "ccr-original:/f.ts?/ws/f.ts" }),
+            doc.uri,
+            "f.ts (Original ↔ Claude)",
+            expect.anything(),
+        );
+    });
+
+    it("undoing a hunk puts the original lines back", async () => {
+        const mgr = setupManager();
+        state.setReviewLayout("sideBySide");
+        mockServer.getSnapshot.mockReturnValue("a\nold1\nb\nold2");
+        mockFs.readFileSync.mockReturnValue("a\nnew1\nb\nnew2");
+        await mgr.addFile("/ws/f.ts");
+        mockServer.getSnapshot.mockReturnValue(undefined);
+        await mgr.resolveHunk("/ws/f.ts", 0, false);
+
+        expect(state.activeReviews.get("/ws/f.ts")!.mergedLines).toEqual([
+            "a",
+            "old1",
+            "b",
+            "new2",
+        ]);
+        expect(mockFs.writeFileSync).toHaveBeenLastCalledWith(
+            "/ws/f.ts",
+            "a\nold1\nb\nnew2",
+            "utf8",
+        );
+    });
+
+    it("Keep Selected Lines from the first line takes the removed lines along", async () => {
+        const mgr = setupManager();
+        state.setReviewLayout("sideBySide");
+        await addHunk(mgr);
+        await mgr.resolveLines("/ws/f.ts", 1, 2, true);
+
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        expect(review.hunks.map((h) => [h.removed, h.added, h.resolved])).toEqual([
+            [["old"], ["new1", "new2"], true],
+            [[], ["new3"], false],
+        ]);
+    });
+
+    it("splits inside the added lines, never at the first one", async () => {
+        const mgr = setupManager();
+        state.setReviewLayout("sideBySide");
+        await addHunk(mgr);
+        await mgr.splitHunk("/ws/f.ts", 1);
+        expect(state.activeReviews.get("/ws/f.ts")!.hunks).toHaveLength(1);
+
+        await mgr.splitHunk("/ws/f.ts", 3);
+        expect(state.activeReviews.get("/ws/f.ts")!.hunks.map((h) => [h.removed, h.added])).toEqual(
+            [
+                [["old"], ["new1", "new2"]],
+                [[], ["new3"]],
+            ],
+        );
+    });
+
+    it("switching layouts rebuilds the buffers of opened files", async () => {
+        const mgr = setupManager();
+        await addHunk(mgr);
+        const review = state.activeReviews.get("/ws/f.ts")!;
+        (review as { mergedApplied?: boolean }).mergedApplied = true;
+        vi.spyOn(mgr, "openFileForReview").mockResolvedValue();
+
+        await mgr.setReviewLayout("sideBySide");
+
+        expect(state.getReviewLayout()).toBe("sideBySide");
+        expect(review.mergedLines).toEqual(["a", "new1", "new2", "new3", "b"]);
+        expect(mockFs.writeFileSync).toHaveBeenLastCalledWith(
+            "/ws/f.ts",
+            "a\nnew1\nnew2\nnew3\nb",
+            "utf8",
+        );
+        expect(mockUndoHistory.clearHistory).toHaveBeenCalledWith("/ws/f.ts");
+        expect(mgr.openFileForReview).toHaveBeenCalledWith("/ws/f.ts");
+    });
+});
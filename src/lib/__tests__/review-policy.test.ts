@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockFs = vi.hoisted(() => ({
+    statSync: vi.fn(),
+    readFileSync: vi.fn(),
+}));
+
+vi.mock("fs", () => mockFs);
+vi.mock("vscode", () => import("./mocks/vscode"));
+vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
+
+import * as vscode from "vscode";
+import { globToRegExp, getPathPolicy, allowsBulkAccept } from "../review-policy";
+
+let mtime = 0;
+
+function usePolicy(policy: unknown): void {
+    // A new mtime each time so the cached policy is re-read
+    mockFs.statSync.mockReturnValue({ mtimeMs: ++mtime });
+    mockFs.readFileSync.mockReturnValue(
+        typeof policy === "string" ? policy : JSON.stringify(policy),
+    );
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe("globToRegExp", () => {
+    it.each([
+        ["**/*.snap", "src/__snapshots__/a.test.ts.snap", true],
+        ["**/*.snap", "a.snap", true],
+        ["dist/**", "dist/js/app.js", true],
+        ["dist/", "dist/app.js", true],
+        ["dist/**", "src/dist/app.js", false],
+        ["src/*.ts", "src/a.ts", true],
+        ["src/*.ts", "src/lib/a.ts", false],
+        ["*.lock", "packages/web/yarn.lock", true],
+        ["package-lock.json", "package-lock.json", true],
+        ["db/migrations/**/*.{sql,ts}", "db/migrations/2024/001_init.sql", true],
+        ["db/migrations/**/*.{sql,ts}", "db/migrations/001.js", false],
+        ["file?.txt", "file1.txt", true],
+        ["file?.txt", "file10.txt", false],
+    ])("%s matches %s: %s", (glob, relPath, expected) => {
+        expect(globToRegExp(glob).test(relPath)).toBe(expected);
+    });
+});
+
+describe("getPathPolicy", () => {
+    it("has no rules without a policy file", () => {
+        mockFs.statSync.mockImplementation(() => {
+            throw new Error("ENOENT");
+        });
+        expect(getPathPolicy("/ws", "/ws/yarn.lock")).toEqual({});
+        mockFs.statSync.mockReset();
+    });
+
+    it("returns the glob that put a file in auto-keep or auto-ignore", () => {
+        usePolicy({ "auto-keep": ["*.lock"], "auto-ignore": ["dist/**"] });
+        expect(getPathPolicy("/ws", "/ws/yarn.lock")).toEqual({
+            skip: { rule: "auto-keep", pattern: "*.lock" },
+        });
+        expect(getPathPolicy("/ws", "/ws/dist/app.js")).toEqual({
+            skip: { rule: "auto-ignore", pattern: "dist/**" },
+        });
+        expect(getPathPolicy("/ws", "/ws/src/app.ts")).toEqual({});
+    });
+
+    it("lets require-review win over the auto rules and hold the file back from bulk accept", () => {
+        usePolicy({ "auto-keep": ["**/*.sql"], "require-review": ["migrations/**"] });
+        expect(getPathPolicy("/ws", "/ws/migrations/001.sql")).toEqual({
+            requireReview: "migrations/**",
+        });
+        expect(allowsBulkAccept("/ws", "/ws/migrations/001.sql")).toBe(false);
+    });
+
+    it("holds forbid-bulk-accept files back from bulk accept only", () => {
+        usePolicy({ "forbid-bulk-accept": ["src/auth/**"] });
+        expect(getPathPolicy("/ws", "/ws/src/auth/login.ts")).toEqual({
+            forbidBulkAccept: "src/auth/**",
+        });
+        expect(allowsBulkAccept("/ws", "/ws/src/auth/login.ts")).toBe(false);
+        expect(allowsBulkAccept("/ws", "/ws/src/app.ts")).toBe(true);
+    });
+
+    it("ignores files outside the workspace", () => {
+        usePolicy({ "auto-ignore": ["**"] });
+        expect(getPathPolicy("/ws", "/tmp/scratch.txt")).toEqual({});
+    });
+
+    it("reads the file once until it changes", () => {
+        usePolicy({ "auto-ignore": ["dist/**"] });
+        getPathPolicy("/ws", "/ws/dist/a.js");
+        getPathPolicy("/ws", "/ws/dist/b.js");
+        expect(mockFs.readFileSync).toHaveBeenCalledTimes(1);
+    });
+
+    it("warns once about an unreadable policy and applies no rules", () => {
+        usePolicy("{ not json");
+        expect(getPathPolicy("/ws", "/ws/yarn.lock")).toEqual({});
+        expect(getPathPolicy("/ws", "/ws/yarn.lock")).toEqual({});
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+    });
+});
@@ -4,7 +4,18 @@ vi.mock("vscode", () => import("./mocks/vscode"));
 vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
 vi.mock("child_process", () => ({ execSync: vi.fn() }));
 
-import { FileReview, buildMergedContent, buildFinalContent, rebuildMerged } from "../review";
+import {
+    FileReview,
+    buildMergedContent,
+    buildFinalContent,
+    rebuildMerged,
+    splitHunk,
+    mergeHunks,
+    renumberHunks,
+    layoutOf,
+} from "../review";
+import * as state from "../state";
+import { computeDiff } from "../diff";
 import { makeHunk } from "./helpers";
 import type { Hunk } from "../../types";
 
@@ -149,6 +160,34 @@ describe("buildMergedContent", () => {
     });
 });
 
+describe("buildMergedContent — side by side", () => {
+    it("leaves a pending hunk's removed lines out of the buffer", () => {
+        const hunk = makeHunk({ id: 0, modStart: 2, removed: ["old"], added: ["new1", "new2"] });
+        const { lines, ranges } = buildMergedContent(["a", "new1", "new2"], [hunk], "sideBySide");
+        expect(lines).toEqual(["a", "new1", "new2"]);
+        expect(ranges).toEqual([
+            { hunkId: 0, removedStart: 1, removedEnd: 1, addedStart: 1, addedEnd: 3 },
+        ]);
+    });
+
+    it("shows an undone hunk's original lines", () => {
+        const hunk = makeHunk({
+            modStart: 1,
+            resolved: true,
+            removed: ["old"],
+            added: ["new"],
+        });
+        expect(buildMergedContent(["new", "b"], [hunk], "sideBySide").lines).toEqual(["old", "b"]);
+    });
+
+    it("keeps deletions inline", () => {
+        state.setReviewLayout("sideBySide");
+        expect(layoutOf("edit")).toBe("sideBySide");
+        expect(layoutOf("delete")).toBe("inline");
+        state.setReviewLayout("inline");
+    });
+});
+
 describe("buildFinalContent", () => {
     function makeReview(hunks: Hunk[], orig: string, mod: string) {
         return new FileReview("/f", orig, mod, hunks);
@@ -214,3 +253,76 @@ describe("rebuildMerged", () => {
         expect(review.hunkRanges).toHaveLength(0); // all resolved
     });
 });
+
+describe("splitHunk / mergeHunks", () => {
+    const ORIGINAL = "a\nold1\nold2\nb\nold3\nc";
+    const MODIFIED = "a\nnew1\nnew2\nnew3\nb\nnew4\nc";
+
+    function reviewWith(decide: (hunks: Hunk[]) => Hunk[]): FileReview {
+        const review = new FileReview("/f.ts", ORIGINAL, MODIFIED, []);
+        review.hunks = decide(computeDiff(ORIGINAL, MODIFIED, "/f.ts", "/"));
+        renumberHunks(review.hunks);
+        return review;
+    }
+
+    function finalWith(review: FileReview, accepted: boolean[]): string {
+        review.hunks.forEach((h, i) => {
+            h.resolved = true;
+            h.accepted = accepted[i];
+        });
+        return buildFinalContent(review);
+    }
+
+    it("splits inside the removed lines", () => {
+        const [hunk] = computeDiff(ORIGINAL, MODIFIED, "/f.ts", "/");
+        const [first, second] = splitHunk(hunk, 1)!;
+        expect(first).toMatchObject({ origStart: 2, modStart: 2, removed: ["old1"], added: [] });
+        expect(second).toMatchObject({
+            origStart: 3,
+            modStart: 2,
+            removed: ["old2"],
+            added: ["new1", "new2", "new3"],
+        });
+    });
+
+    it("splits inside the added lines", () => {
+        const [hunk] = computeDiff(ORIGINAL, MODIFIED, "/f.ts", "/");
+        const [first, second] = splitHunk(hunk, 4)!;
+        expect(first).toMatchObject({
+            origStart: 2,
+            removed: ["old1", "old2"],
+            added: ["new1", "new2"],
+        });
+        expect(second).toMatchObject({ origStart: 4, modStart: 4, removed: [], added: ["new3"] });
+    });
+
+    it("refuses to split at the edges of a hunk", () => {
+        const [hunk] = computeDiff(ORIGINAL, MODIFIED, "/f.ts", "/");
+        expect(splitHunk(hunk, 0)).toBeNull();
+        expect(splitHunk(hunk, 5)).toBeNull();
+    });
+
+    it("halves resolve independently to exact content", () => {
+        const split = () => reviewWith(([h, rest]) => [...splitHunk(h, 4)!, rest]);
+        expect(finalWith(split(), [true, true, true])).toBe(MODIFIED);
+        expect(finalWith(split(), [false, false, false])).toBe(ORIGINAL);
+        expect(finalWith(split(), [true, false, false])).toBe("a\nnew1\nnew2\nb\nold3\nc");
+    });
+
+    it("merges two hunks together with the unchanged lines between them", () => {
+        const [h1, h2] = computeDiff(ORIGINAL, MODIFIED, "/f.ts", "/");
+        const review = new FileReview("/f.ts", ORIGINAL, MODIFIED, [h1, h2]);
+        const merged = mergeHunks(review, h1, h2);
+        expect(merged).toMatchObject({
+            id: 0,
+            origStart: 2,
+            modStart: 2,
+            removed: ["old1", "old2", "b", "old3"],
+            added: ["new1", "new2", "new3", "b", "new4"],
+        });
+
+        const merge = () => reviewWith(([a, b]) => [mergeHunks(review, a, b)]);
+        expect(finalWith(merge(), [true])).toBe(MODIFIED);
+        expect(finalWith(merge(), [false])).toBe(ORIGINAL);
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const files = vi.hoisted(() => new Map<string, string>());
+const mtimes = vi.hoisted(() => new Map<string, number>());
+const mockFs = vi.hoisted(() => ({
+    readFileSync: vi.fn((p: string) => {
+        if (!files.has(p)) throw new Error("ENOENT");
+        return files.get(p);
+    }),
+    writeFileSync: vi.fn((p: string, data: string) => files.set(p, data)),
+    renameSync: vi.fn((from: string, to: string) => {
+        files.set(to, files.get(from)!);
+        files.delete(from);
+    }),
+    mkdirSync: vi.fn(),
+    openSync: vi.fn((p: string) => {
+        if (files.has(p)) throw Object.assign(new Error("EEXIST"), { code: "EEXIST" });
+        files.set(p, "");
+        mtimes.set(p, Date.now());
+        return 3;
+    }),
+    closeSync: vi.fn(),
+    unlinkSync: vi.fn((p: string) => files.delete(p)),
+    statSync: vi.fn((p: string) => ({ mtimeMs: mtimes.get(p) ?? 0 })),
+}));
+
+vi.mock("fs", () => mockFs);
+
+import {
+    isPathInside,
+    readRegistry,
+    registerServer,
+    resolveOwner,
+    unregisterServer,
+    STALE_LOCK_MS,
+    type ServerRegistry,
+} from "../hooks/registry";
+
+const REG = "/home/u/.claude/ccr-servers.json";
+const alive = () => true;
+
+beforeEach(() => {
+    files.clear();
+    mtimes.clear();
+    vi.clearAllMocks();
+});
+
+describe("isPathInside", () => {
+    it("matches the root itself and descendants", () => {
+        expect(isPathInside("/ws", "/ws")).toBe(true);
+        expect(isPathInside("/ws", "/ws/src/a.ts")).toBe(true);
+    });
+
+    it("rejects siblings sharing a prefix and parents", () => {
+        expect(isPathInside("/ws", "/ws2/a.ts")).toBe(false);
+        expect(isPathInside("/ws", "/")).toBe(false);
+        expect(isPathInside("/ws", "/ws/../etc/passwd")).toBe(false);
+    });
+});
+
+describe("resolveOwner", () => {
+    const registry: ServerRegistry = {
+        "/repo": { port: 1000, pid: 1 },
+        "/repo/packages/web": { port: 2000, pid: 2 },
+        "/other": { port: 3000, pid: 3 },
+    };
+
+    it("picks the most specific workspace containing cwd", () => {
+        expect(resolveOwner(registry, "/repo/packages/web/src", alive)?.entry.port).toBe(2000);
+        expect(resolveOwner(registry, "/repo/packages/api", alive)?.entry.port).toBe(1000);
+        expect(resolveOwner(registry, "/other", alive)?.root).toBe("/other");
+    });
+
+    it("returns null when no workspace contains cwd", () => {
+        expect(resolveOwner(registry, "/elsewhere", alive)).toBeNull();
+    });
+
+    it("ignores entries whose window process is gone", () => {
+        const owner = resolveOwner(registry, "/repo/packages/web", (pid) => pid !== 2);
+        expect(owner?.entry.port).toBe(1000);
+    });
+});
+
+describe("registerServer / unregisterServer", () => {
+    it("adds this process under the workspace root", () => {
+        registerServer("/ws", 27182, REG);
+        expect(readRegistry(REG)).toEqual({ "/ws": { port: 27182, pid: process.pid } });
+    });
+
+    it("keeps live entries of other windows and writes atomically", () => {
+        files.set(REG, JSON.stringify({ "/a": { port: 1, pid: process.pid } }));
+        registerServer("/b", 2, REG);
+        expect(Object.keys(readRegistry(REG)).sort()).toEqual(["/a", "/b"]);
+        expect(mockFs.renameSync).toHaveBeenCalledWith(expect.stringContaining(".tmp"), REG);
+    });
+
+    it("prunes entries of dead processes", () => {
+        files.set(REG, JSON.stringify({ "/dead": { port: 1, pid: -1 } }));
+        registerServer("/ws", 2, REG);
+        expect(readRegistry(REG)["/dead"]).toBeUndefined();
+    });
+
+    it("only unregisters entries owned by this process", () => {
+        files.set(
+            REG,
+            JSON.stringify({
+                "/mine": { port: 1, pid: process.pid },
+                "/theirs": { port: 2, pid: process.ppid },
+            }),
+        );
+        unregisterServer("/mine", REG);
+        unregisterServer("/theirs", REG);
+        expect(Object.keys(readRegistry(REG))).toEqual(["/theirs"]);
+    });
+
+    it("updates under a lockfile and releases it", () => {
+        registerServer("/ws", 1, REG);
+        expect(mockFs.openSync).toHaveBeenCalledWith(`${REG}.lock`, "wx");
+        expect(files.has(`${REG}.lock`)).toBe(false);
+    });
+
+    it("takes over a lock left by a window that died mid-update", () => {
+        files.set(`${REG}.lock`, "");
+        mtimes.set(`${REG}.lock`, Date.now() - STALE_LOCK_MS - 1);
+        registerServer("/ws", 1, REG);
+        expect(readRegistry(REG)["/ws"]).toBeDefined();
+        expect(mockFs.openSync).toHaveBeenCalledTimes(2);
+    });
+
+    it("waits for a live lock and still updates when it isn't released", () => {
+        files.set(`${REG}.lock`, "");
+        mtimes.set(`${REG}.lock`, Date.now() + 60_000);
+        registerServer("/ws", 1, REG);
+        expect(readRegistry(REG)["/ws"]).toBeDefined();
+        expect(mockFs.openSync.mock.calls.length).toBeGreaterThan(2);
+        // Not ours — left for its owner to remove
+        expect(files.has(`${REG}.lock`)).toBe(true);
+    });
+
+    it("treats a corrupt registry as empty", () => {
+        files.set(REG, "{not json");
+        expect(readRegistry(REG)).toEqual({});
+    });
+});
@@ -23,24 +23,44 @@ vi.mock("../state", () => ({
     getReviewFiles: vi.fn(() => []),
 }));
 vi.mock("../bash-file-parser", () => ({
-    parseBashCommand: vi.fn(() => ({ modified: [], deleted: [], created: [] })),
+    parseBashCommand: vi.fn(() => ({ modified: [], deleted: [], created: [], renamed: [] })),
+}));
+vi.mock("../workspace-fingerprint", () => ({
+    takeFingerprint: vi.fn(async () => null),
+    diffFingerprints: vi.fn(() => ({ created: [], modified: [], deleted: [] })),
 }));
 
 import {
     getSnapshot,
+    getSnapshotBytes,
     clearSnapshot,
     setAddFileHandler,
+    setAddRenameHandler,
+    setApprovalHandler,
+    setSessionStopHandler,
     setWorkspacePath,
     startServer,
+    getAuthToken,
 } from "../server";
 import * as state from "../state";
 import { parseBashCommand } from "../bash-file-parser";
+import { takeFingerprint, diffFingerprints } from "../workspace-fingerprint";
 import * as fs from "fs";
 
-function createMockReq(method: string, url: string, body?: string) {
-    const req = new EventEmitter() as EventEmitter & { method: string; url: string };
+function createMockReq(
+    method: string,
+    url: string,
+    body?: string,
+    headers: Record<string, string> = { "x-ccr-token": getAuthToken() },
+) {
+    const req = new EventEmitter() as EventEmitter & {
+        method: string;
+        url: string;
+        headers: Record<string, string>;
+    };
     req.method = method;
     req.url = url;
+    req.headers = headers;
     if (body !== undefined) {
         setTimeout(() => {
             req.emit("data", Buffer.from(body));
@@ -60,9 +80,14 @@ function createMockRes() {
     };
 }
 
-async function sendRequest(method: string, url: string, body?: unknown) {
+async function sendRequest(
+    method: string,
+    url: string,
+    body?: unknown,
+    headers?: Record<string, string>,
+) {
     const bodyStr = body !== undefined ? JSON.stringify(body) : undefined;
-    const req = createMockReq(method, url, bodyStr);
+    const req = createMockReq(method, url, bodyStr, headers);
     const res = createMockRes();
     requestHandler(req, res);
     await new Promise((r) => setTimeout(r, 10));
@@ -111,18 +136,39 @@ describe("POST /snapshot", () => {
             modified: ["/mod.ts"],
             deleted: [],
             created: [],
+            renamed: [],
         });
-        (fs.readFileSync as ReturnType<typeof vi.fn>).mockReturnValueOnce("mod-content");
+        (fs.readFileSync as ReturnType<typeof vi.fn>).mockReturnValueOnce(
+            Buffer.from("mod-content"),
+        );
         await sendRequest("POST", "/snapshot", { tool: "Bash", command: "sed -i s/a/b/ mod.ts" });
         expect(parseBashCommand).toHaveBeenCalled();
         expect(getSnapshot("/mod.ts")).toBe("mod-content");
     });
 
+    it("keeps raw bytes of binary snapshots (utf8 string is lossy)", async () => {
+        const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]);
+        await sendRequest("POST", "/snapshot", {
+            file: "/logo.png",
+            content: png.toString("base64"),
+        });
+        expect(getSnapshotBytes("/logo.png")).toEqual(png);
+        clearSnapshot("/logo.png");
+        expect(getSnapshotBytes("/logo.png")).toBeUndefined();
+    });
+
+    it("does not keep raw bytes for text snapshots", async () => {
+        const content = Buffer.from("plain text").toString("base64");
+        await sendRequest("POST", "/snapshot", { file: "/plain.ts", content });
+        expect(getSnapshotBytes("/plain.ts")).toBeUndefined();
+    });
+
     it("skips files that do not exist (Bash ENOENT)", async () => {
         (parseBashCommand as ReturnType<typeof vi.fn>).mockReturnValueOnce({
             modified: ["/missing.ts"],
             deleted: [],
             created: [],
+            renamed: [],
         });
         (fs.readFileSync as ReturnType<typeof vi.fn>).mockImplementationOnce(() => {
             throw new Error("ENOENT");
@@ -157,6 +203,7 @@ describe("POST /changed", () => {
             modified: ["/a.ts"],
             deleted: ["/b.ts"],
             created: [],
+            renamed: [],
         });
         await sendRequest("POST", "/changed", { tool: "Bash", command: "sed -i file" });
         expect(handler).toHaveBeenCalledWith("/a.ts", undefined);
@@ -170,6 +217,51 @@ describe("POST /changed", () => {
         expect(handler).not.toHaveBeenCalled();
     });
 
+    it("rejects files outside the workspace", async () => {
+        const handler = vi.fn();
+        setAddFileHandler(handler);
+        setWorkspacePath("/proj/a");
+        const res = await sendRequest("POST", "/changed", { file: "/proj/b/x.ts", tool: "Edit" });
+        expect(handler).not.toHaveBeenCalled();
+        expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({
+            ok: false,
+            error: "file outside workspace",
+        });
+    });
+
+    it("drops Bash-parsed files outside the workspace", async () => {
+        const handler = vi.fn();
+        setAddFileHandler(handler);
+        setWorkspacePath("/proj/a");
+        (parseBashCommand as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+            modified: ["/proj/a/in.ts", "/proj/ab/out.ts"],
+            deleted: ["/tmp/gone.ts"],
+            created: [],
+            renamed: [],
+        });
+        await sendRequest("POST", "/changed", { tool: "Bash", command: "sed -i x" });
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith("/proj/a/in.ts", undefined);
+    });
+
+    it("routes Bash renames to the rename handler instead of add/delete", async () => {
+        const handler = vi.fn();
+        const renameHandler = vi.fn();
+        setAddFileHandler(handler);
+        setAddRenameHandler(renameHandler);
+        setWorkspacePath("/proj/a");
+        (parseBashCommand as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+            modified: ["/proj/a/new.ts", "/proj/a/other.ts"],
+            deleted: ["/proj/a/old.ts"],
+            created: [],
+            renamed: [{ from: "/proj/a/old.ts", to: "/proj/a/new.ts" }],
+        });
+        await sendRequest("POST", "/changed", { tool: "Bash", command: "mv old.ts new.ts && x" });
+        expect(renameHandler).toHaveBeenCalledWith("/proj/a/old.ts", "/proj/a/new.ts", undefined);
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith("/proj/a/other.ts", undefined);
+    });
+
     it("returns error on malformed JSON", async () => {
         const req = createMockReq("POST", "/changed", "bad-json");
         const res = createMockRes();
@@ -181,6 +273,152 @@ describe("POST /changed", () => {
     });
 });
 
+describe("Bash filesystem fingerprint", () => {
+    const fingerprint = (contents: Record<string, string> = {}) => ({
+        files: new Map(),
+        contents: new Map(Object.entries(contents)),
+    });
+
+    it("adds files the command changed on disk even when parsing finds nothing", async () => {
+        const handler = vi.fn();
+        setAddFileHandler(handler);
+        setWorkspacePath("/ws");
+        (takeFingerprint as ReturnType<typeof vi.fn>)
+            .mockResolvedValueOnce(fingerprint({ "/ws/dirty.ts": "before" }))
+            .mockResolvedValueOnce(fingerprint());
+        (diffFingerprints as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+            created: ["/ws/gen.ts"],
+            modified: ["/ws/dirty.ts"],
+            deleted: [],
+        });
+        await sendRequest("POST", "/snapshot", { tool: "Bash", command: "npm run format" });
+        await sendRequest("POST", "/changed", { tool: "Bash", command: "npm run format" });
+        expect(handler).toHaveBeenCalledWith("/ws/dirty.ts", undefined);
+        expect(handler).toHaveBeenCalledWith("/ws/gen.ts", undefined);
+        // Dirty content captured at PreToolUse becomes the before-snapshot
+        expect(getSnapshot("/ws/dirty.ts")).toBe("before");
+        clearSnapshot("/ws/dirty.ts");
+    });
+
+    it("leaves out the extension's own files under .claude/", async () => {
+        const handler = vi.fn();
+        setAddFileHandler(handler);
+        setWorkspacePath("/ws");
+        (takeFingerprint as ReturnType<typeof vi.fn>)
+            .mockResolvedValueOnce(fingerprint())
+            .mockResolvedValueOnce(fingerprint());
+        (diffFingerprints as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+            created: ["/ws/.claude/ccr-blobs/abc"],
+            modified: ["/ws/.claude/logs/hooks.log", "/ws/src/a.ts"],
+            deleted: [],
+        });
+        await sendRequest("POST", "/snapshot", { tool: "Bash", command: "make" });
+        await sendRequest("POST", "/changed", { tool: "Bash", command: "make" });
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith("/ws/src/a.ts", undefined);
+    });
+
+    it("does not add parsed files twice", async () => {
+        const handler = vi.fn();
+        setAddFileHandler(handler);
+        setWorkspacePath("/ws");
+        (parseBashCommand as ReturnType<typeof vi.fn>).mockReturnValue({
+            modified: [],
+            deleted: ["/ws/old.ts"],
+            created: [],
+            renamed: [],
+        });
+        (takeFingerprint as ReturnType<typeof vi.fn>)
+            .mockResolvedValueOnce(fingerprint())
+            .mockResolvedValueOnce(fingerprint());
+        (diffFingerprints as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+            created: [],
+            modified: [],
+            deleted: ["/ws/old.ts"],
+        });
+        await sendRequest("POST", "/snapshot", { tool: "Bash", command: "rm old.ts" });
+        await sendRequest("POST", "/changed", { tool: "Bash", command: "rm old.ts" });
+        expect(handler).toHaveBeenCalledTimes(1);
+        (parseBashCommand as ReturnType<typeof vi.fn>).mockReturnValue({
+            modified: [],
+            deleted: [],
+            created: [],
+            renamed: [],
+        });
+    });
+
+    it("skips the diff when no fingerprint was recorded for the command", async () => {
+        const handler = vi.fn();
+        setAddFileHandler(handler);
+        (diffFingerprints as ReturnType<typeof vi.fn>).mockClear();
+        await sendRequest("POST", "/changed", { tool: "Bash", command: "never-snapshotted" });
+        expect(diffFingerprints).not.toHaveBeenCalled();
+        expect(handler).not.toHaveBeenCalled();
+    });
+});
+
+describe("POST /stop", () => {
+    it("reports the session that finished its turn", async () => {
+        const handler = vi.fn();
+        setSessionStopHandler(handler);
+        const res = await sendRequest("POST", "/stop", { session_id: "sess-a" });
+        expect(JSON.parse(res.end.mock.calls[0][0]).ok).toBe(true);
+        expect(handler).toHaveBeenCalledWith("sess-a");
+    });
+});
+
+describe("POST /approve", () => {
+    const edit = { tool: "Edit", file: "/ws/a.ts", input: { old_string: "a", new_string: "b" } };
+
+    it("allows right away when gated mode is off", async () => {
+        const handler = vi.fn();
+        setApprovalHandler(handler);
+        const res = await sendRequest("POST", "/approve", edit);
+        expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({ decision: "allow" });
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("answers with the user's decision in gated mode", async () => {
+        const vscode = await import("./mocks/vscode");
+        vscode.workspace.getConfiguration.mockReturnValueOnce({
+            get: vi.fn(() => true),
+            update: vi.fn(),
+        });
+        const handler = vi.fn(async () => ({ decision: "deny" as const, reason: "no" }));
+        setApprovalHandler(handler);
+        const res = await sendRequest("POST", "/approve", edit);
+        expect(handler).toHaveBeenCalledWith(edit);
+        expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({ decision: "deny", reason: "no" });
+    });
+
+    it("allows a gated call whose payload has no tool_input", async () => {
+        const vscode = await import("./mocks/vscode");
+        vscode.workspace.getConfiguration.mockReturnValueOnce({
+            get: vi.fn(() => true),
+            update: vi.fn(),
+        });
+        const handler = vi.fn(async () => ({ decision: "allow" as const }));
+        setApprovalHandler(handler);
+        const res = await sendRequest("POST", "/approve", { tool: "Bash" });
+        expect(handler).toHaveBeenCalledWith({ tool: "Bash", input: {} });
+        expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({ decision: "allow" });
+    });
+
+    it("tells the hook runner in the snapshot reply whether to ask", async () => {
+        const vscode = await import("./mocks/vscode");
+        setApprovalHandler(vi.fn());
+        let res = await sendRequest("POST", "/snapshot", { file: "/ws/a.ts" });
+        expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({ ok: true, gated: false });
+
+        vscode.workspace.getConfiguration.mockReturnValueOnce({
+            get: vi.fn(() => true),
+            update: vi.fn(),
+        });
+        res = await sendRequest("POST", "/snapshot", { file: "/ws/a.ts" });
+        expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({ ok: true, gated: true });
+    });
+});
+
 describe("POST /review (legacy)", () => {
     it("executes ccr.openReview command", async () => {
         const vscode = await import("./mocks/vscode");
@@ -189,23 +427,52 @@ describe("POST /review (legacy)", () => {
     });
 });
 
-describe("OPTIONS (CORS preflight)", () => {
-    it("returns 204 with CORS headers", async () => {
-        const res = await sendRequest("OPTIONS", "/anything");
-        expect(res.writeHead).toHaveBeenCalledWith(204);
-        expect(res.setHeader).toHaveBeenCalledWith("Access-Control-Allow-Origin", "*");
-        expect(res.setHeader).toHaveBeenCalledWith(
-            "Access-Control-Allow-Methods",
-            "POST,GET,OPTIONS",
+describe("authentication", () => {
+    it("generates a fresh token on every start", () => {
+        const first = getAuthToken();
+        startServer();
+        expect(getAuthToken()).toMatch(/^[0-9a-f]{64}$/);
+        expect(getAuthToken()).not.toBe(first);
+    });
+
+    it("returns 401 when the token header is missing", async () => {
+        const handler = vi.fn();
+        setAddFileHandler(handler);
+        const res = await sendRequest("POST", "/changed", { file: "/x.ts", tool: "Edit" }, {});
+        expect(res.writeHead).toHaveBeenCalledWith(401, { "Content-Type": "application/json" });
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("returns 401 for a wrong token", async () => {
+        const content = Buffer.from("evil").toString("base64");
+        const res = await sendRequest(
+            "POST",
+            "/snapshot",
+            { file: "/evil.ts", content },
+            { "x-ccr-token": "0".repeat(64) },
         );
-        expect(res.setHeader).toHaveBeenCalledWith("Access-Control-Allow-Headers", "Content-Type");
+        expect(res.writeHead).toHaveBeenCalledWith(401, { "Content-Type": "application/json" });
+        expect(getSnapshot("/evil.ts")).toBeUndefined();
+    });
+
+    it("protects GET /status too", async () => {
+        const res = await sendRequest("GET", "/status", undefined, {});
+        expect(res.writeHead).toHaveBeenCalledWith(401, { "Content-Type": "application/json" });
     });
 });
 
-describe("CORS headers on all responses", () => {
-    it("sets CORS headers on normal GET requests", async () => {
+describe("CORS", () => {
+    it("rejects browser requests (Origin header) with 403, even with a valid token", async () => {
+        const res = await sendRequest("OPTIONS", "/changed", undefined, {
+            origin: "https://example.com",
+            "x-ccr-token": getAuthToken(),
+        });
+        expect(res.writeHead).toHaveBeenCalledWith(403);
+    });
+
+    it("never sets Access-Control-* headers", async () => {
         const res = await sendRequest("GET", "/status");
-        expect(res.setHeader).toHaveBeenCalledWith("Access-Control-Allow-Origin", "*");
+        expect(res.setHeader).not.toHaveBeenCalled();
     });
 });
 
@@ -257,6 +524,7 @@ describe("setWorkspacePath", () => {
             modified: [],
             deleted: [],
             created: [],
+            renamed: [],
         });
         await sendRequest("POST", "/snapshot", { tool: "Bash", command: "echo hi" });
         expect(parseBashCommand).toHaveBeenCalledWith("echo hi", "/my/workspace");
@@ -12,6 +12,7 @@ vi.mock("../hooks", () => ({
     installHook: vi.fn(),
     checkAndPrompt: vi.fn().mockReturnValue("installed"),
 }));
+vi.mock("../review-base", () => ({ recordSessionStart: vi.fn() }));
 vi.mock("../sessions", () => ({
     listSessions: vi.fn().mockReturnValue({ sessions: [], archivedCount: 0 }),
     getSessionsDir: vi.fn().mockReturnValue("/tmp/sessions"),
@@ -25,6 +25,7 @@ vi.mock("child_process", () => ({ execSync: mockExecSync }));
 
 import {
     parseSessionMeta,
+    parseSessionPrompts,
     loadSessionNames,
     saveSessionName,
     listSessions,
@@ -222,6 +223,35 @@ describe("parseSessionMeta", () => {
 
 // ─── loadSessionNames ────────────────────────────────────────────────
 
+describe("parseSessionPrompts", () => {
+    it("returns the user's prompts in order, skipping tool results and context", () => {
+        const data = jsonl(
+            { type: "user", message: { content: "Add a login form" } },
+            { type: "assistant", message: { content: [{ type: "text", text: "Sure" }] } },
+            { type: "user", message: { content: [{ type: "tool_result", content: "ok" }] } },
+            {
+                type: "user",
+                message: {
+                    content: [
+                        { type: "text", text: "<ide_opened_file>a.ts</ide_opened_file>" },
+                        { type: "text", text: "Now validate the email" },
+                    ],
+                },
+            },
+            { type: "user", isMeta: true, message: { content: "Caveat: local command" } },
+        );
+        mockFs.readFileSync.mockReturnValue(data);
+        expect(parseSessionPrompts("/tmp/s.jsonl")).toEqual([
+            "Add a login form",
+            "Now validate the email",
+        ]);
+    });
+
+    it("returns an empty list when the session can't be read", () => {
+        expect(parseSessionPrompts("/tmp/missing.jsonl")).toEqual([]);
+    });
+});
+
 describe("loadSessionNames", () => {
     it("returns empty object when file does not exist", () => {
         mockFs.readFileSync.mockImplementation(() => {
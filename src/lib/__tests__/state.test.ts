@@ -68,3 +68,44 @@ describe("refresh functions", () => {
         expect(custom).toHaveBeenCalled();
     });
 });
+
+describe("review scope", () => {
+    beforeEach(() => {
+        state.clearReviewedFiles();
+        state.setScopedToActiveSession(false);
+        state.setActiveSessionProvider(() => "sess-a");
+        state.activeReviews.set("/ws/a.ts", { sessionId: "sess-a" } as never);
+        state.activeReviews.set("/ws/b.ts", { sessionId: "sess-b" } as never);
+    });
+
+    it("covers every session until scoped", () => {
+        expect(state.getReviewScope()).toBeNull();
+        expect(state.isInReviewScope("/ws/b.ts")).toBe(true);
+    });
+
+    it("limits the scope to the focused terminal's session", () => {
+        state.setScopedToActiveSession(true);
+        expect(state.getReviewScope()).toBe("sess-a");
+        expect(state.isInReviewScope("/ws/a.ts")).toBe(true);
+        expect(state.isInReviewScope("/ws/b.ts")).toBe(false);
+        expect(state.isInReviewScope("/ws/done.ts")).toBe(false);
+    });
+
+    it("falls back to every session when no terminal is focused", () => {
+        state.setScopedToActiveSession(true);
+        state.setActiveSessionProvider(() => undefined);
+        expect(state.isInReviewScope("/ws/b.ts")).toBe(true);
+    });
+
+    it("remembers the session of files that are already reviewed", () => {
+        state.recordReviewedFile({
+            filePath: "/ws/done.ts",
+            changeType: "edit",
+            kept: 1,
+            undone: 0,
+            sessionId: "sess-b",
+        });
+        expect(state.sessionOf("/ws/done.ts")).toBe("sess-b");
+        expect(state.sessionOf("/ws/a.ts")).toBe("sess-a");
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockExec = vi.hoisted(() => vi.fn());
+const mockFs = vi.hoisted(() => ({
+    promises: { stat: vi.fn(), readFile: vi.fn() },
+}));
+
+vi.mock("child_process", () => ({ execFile: mockExec }));
+vi.mock("fs", () => mockFs);
+vi.mock("../log", () => ({ log: vi.fn(), logCat: vi.fn() }));
+
+import { takeFingerprint, diffFingerprints } from "../workspace-fingerprint";
+
+type Stamp = { mtimeMs: number; size: number };
+type ExecCallback = (err: Error | null, stdout?: string) => void;
+
+function gitOutput(run: (args: string[]) => string) {
+    mockExec.mockImplementation(
+        (_file: string, args: string[], _opts: unknown, cb: ExecCallback) => {
+            try {
+                cb(null, run(args));
+            } catch (err) {
+                cb(err as Error);
+            }
+        },
+    );
+}
+
+function setup(listed: string[], status: string, stamps: Record<string, Stamp>, root = "/ws") {
+    gitOutput((args) => {
+        if (args[0] === "ls-files") return listed.join("\0") + "\0";
+        if (args[0] === "rev-parse") return root + "\n";
+        return status;
+    });
+    mockFs.promises.stat.mockImplementation(async (p: string) => {
+        const st = stamps[p];
+        if (!st) throw new Error("ENOENT");
+        return { ...st, isFile: () => true };
+    });
+    mockFs.promises.readFile.mockImplementation(async (p: string) => `content of ${p}`);
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe("takeFingerprint", () => {
+    it("stats every file git lists (tracked + untracked, ignores excluded)", async () => {
+        setup(["a.ts", "b.ts"], "", {
+            "/ws/a.ts": { mtimeMs: 1, size: 10 },
+            "/ws/b.ts": { mtimeMs: 2, size: 20 },
+        });
+        const fp = (await takeFingerprint("/ws"))!;
+        expect([...fp.files.keys()]).toEqual(["/ws/a.ts", "/ws/b.ts"]);
+        expect(mockExec).toHaveBeenCalledWith(
+            "git",
+            expect.arrayContaining(["--exclude-standard"]),
+            expect.objectContaining({ cwd: "/ws" }),
+            expect.any(Function),
+        );
+    });
+
+    it("snapshots content only for files that differ from HEAD", async () => {
+        setup(["clean.ts", "dirty.ts", "new.ts"], " M dirty.ts\0?? new.ts\0", {
+            "/ws/clean.ts": { mtimeMs: 1, size: 1 },
+            "/ws/dirty.ts": { mtimeMs: 1, size: 1 },
+            "/ws/new.ts": { mtimeMs: 1, size: 1 },
+        });
+        const fp = (await takeFingerprint("/ws"))!;
+        expect([...fp.contents.keys()].sort()).toEqual(["/ws/dirty.ts", "/ws/new.ts"]);
+    });
+
+    it("uses the destination of renamed entries", async () => {
+        setup(["new-name.ts"], "R  new-name.ts\0old-name.ts\0", {
+            "/ws/new-name.ts": { mtimeMs: 1, size: 1 },
+        });
+        expect([...(await takeFingerprint("/ws"))!.contents.keys()]).toEqual(["/ws/new-name.ts"]);
+    });
+
+    it("resolves status paths against the repository root in a subdirectory workspace", async () => {
+        // ls-files lists relative to cwd, status relative to the repository root
+        setup(
+            ["dirty.ts", "clean.ts"],
+            " M pkg/dirty.ts\0",
+            {
+                "/repo/pkg/dirty.ts": { mtimeMs: 1, size: 1 },
+                "/repo/pkg/clean.ts": { mtimeMs: 1, size: 1 },
+            },
+            "/repo",
+        );
+        const fp = (await takeFingerprint("/repo/pkg"))!;
+        expect([...fp.files.keys()]).toEqual(["/repo/pkg/dirty.ts", "/repo/pkg/clean.ts"]);
+        expect([...fp.contents.keys()]).toEqual(["/repo/pkg/dirty.ts"]);
+        expect(mockExec).toHaveBeenCalledWith(
+            "git",
+            expect.arrayContaining(["status", "--", "."]),
+            expect.anything(),
+            expect.any(Function),
+        );
+    });
+
+    it("skips tracked files deleted from the working tree", async () => {
+        setup(["gone.ts"], " D gone.ts\0", {});
+        const fp = (await takeFingerprint("/ws"))!;
+        expect(fp.files.size).toBe(0);
+        expect(fp.contents.size).toBe(0);
+    });
+
+    it("returns null outside a git repository", async () => {
+        gitOutput(() => {
+            throw new Error("fatal: not a git repository");
+        });
+        expect(await takeFingerprint("/ws")).toBeNull();
+    });
+});
+
+describe("diffFingerprints", () => {
+    const fp = (files: Record<string, Stamp>) => ({
+        files: new Map(Object.entries(files)),
+        contents: new Map<string, string>(),
+    });
+
+    it("classifies created, modified and deleted files", () => {
+        const before = fp({
+            "/ws/same.ts": { mtimeMs: 1, size: 1 },
+            "/ws/touched.ts": { mtimeMs: 1, size: 1 },
+            "/ws/resized.ts": { mtimeMs: 1, size: 1 },
+            "/ws/removed.ts": { mtimeMs: 1, size: 1 },
+        });
+        const after = fp({
+            "/ws/same.ts": { mtimeMs: 1, size: 1 },
+            "/ws/touched.ts": { mtimeMs: 2, size: 1 },
+            "/ws/resized.ts": { mtimeMs: 1, size: 5 },
+            "/ws/generated.ts": { mtimeMs: 3, size: 9 },
+        });
+        expect(diffFingerprints(before, after)).toEqual({
+            created: ["/ws/generated.ts"],
+            modified: ["/ws/touched.ts", "/ws/resized.ts"],
+            deleted: ["/ws/removed.ts"],
+        });
+    });
+});
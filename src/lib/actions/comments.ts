@@ -0,0 +1,159 @@
+// Comment actions — review comments and undo-with-comment feedback, delegates to ReviewManager
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as state from "../state";
+import { log } from "../log";
+import { composeFeedback, sendFeedback, type FeedbackResult } from "../feedback";
+import { formatCommentsMarkdown, formatCommentsPrompt } from "../review-manager/comments";
+import type { ReviewCommentItem } from "../comment-threads";
+import type { ReviewManager } from "../review-manager";
+import type { CollectedComment } from "../../types";
+
+let _manager: ReviewManager | null = null;
+
+/** Review comments waiting in the feedback queue — listed until written, but not sent twice */
+const queuedCommentIds = new Set<string>();
+
+const FEEDBACK_STATUS: Record<FeedbackResult, string> = {
+    sent: "$(comment) Sent your comment to Claude",
+    pasted: "$(comment) Comment pasted into Claude's prompt — press Enter to send",
+    queued: "$(comment) Comment queued until Claude's prompt is idle",
+};
+
+export function setReviewManager(manager: ReviewManager): void {
+    _manager = manager;
+}
+
+/** Undoes a hunk and tells the Claude session that made it why, so it isn't simply re-applied */
+export async function rejectHunkWithComment(filePath: string, hunkId: number): Promise<void> {
+    const review = state.activeReviews.get(filePath);
+    const hunk = review?.hunks.find((h) => h.id === hunkId);
+    if (!_manager || !review || !hunk || hunk.resolved) return;
+    const reason = await vscode.window.showInputBox({
+        prompt: `Why undo this change in ${path.basename(filePath)}? Claude gets your comment`,
+        placeHolder: "e.g. keep the old error message, callers match on it",
+        ignoreFocusOut: true,
+    });
+    if (reason === undefined) return;
+
+    // The review may be finalized by this undo — take what the message needs first
+    const sessionId = review.sessionId;
+    const message = composeFeedback(path.relative(_manager.wp, filePath), hunk, reason);
+    await _manager.resolveHunk(filePath, hunkId, false);
+    // A change found on disk first suspends the file instead — then nothing was undone
+    const after = state.activeReviews.get(filePath)?.hunks.find((h) => h.id === hunkId);
+    if (after ? !after.resolved : _manager.getConflicts().includes(filePath)) {
+        log(`rejectHunkWithComment: ${filePath} hunk ${hunkId} not undone, comment not sent`);
+        return;
+    }
+    if (!sessionId) {
+        vscode.window.showInformationMessage(
+            "Change undone. It isn't linked to a Claude session, so no comment was sent.",
+        );
+        return;
+    }
+    log(`rejectHunkWithComment: ${filePath} hunk ${hunkId} → session ${sessionId.slice(0, 8)}`);
+    vscode.window.setStatusBarMessage(FEEDBACK_STATUS[sendFeedback(sessionId, message)], 3000);
+}
+
+/** Comments on a hunk or line range: from the comment widget, or on the editor selection */
+export async function addReviewComment(reply?: vscode.CommentReply): Promise<void> {
+    if (!_manager) return;
+    if (reply) {
+        const range = reply.thread.range;
+        // The empty thread was only the input box — the comment gets a thread of its own
+        reply.thread.dispose();
+        await _manager.addComment(
+            reply.thread.uri.fsPath,
+            range?.start.line ?? 0,
+            range?.end.line ?? 0,
+            reply.text,
+        );
+        return;
+    }
+    const editor = vscode.window.activeTextEditor;
+    const filePath = editor?.document.uri.fsPath;
+    if (!editor || !filePath || !state.activeReviews.has(filePath)) {
+        vscode.window.showInformationMessage("Comments go on files under review.");
+        return;
+    }
+    const { start, end } = editor.selection;
+    const body = await vscode.window.showInputBox({
+        prompt: `Comment on ${path.basename(filePath)}:${start.line + 1}${end.line > start.line ? `-${end.line + 1}` : ""}`,
+        placeHolder: "What should change here? Sent with the other comments in one prompt",
+    });
+    if (body) await _manager.addComment(filePath, start.line, end.line, body);
+}
+
+export async function deleteReviewComment(item?: ReviewCommentItem): Promise<void> {
+    if (item) await _manager?.deleteComment(item.filePath, item.comment.id);
+}
+
+/** Sends every open comment to Claude — one prompt per originating session */
+export async function sendReviewComments(workspacePath: string): Promise<void> {
+    const all = _manager?.getComments() ?? [];
+    const comments = all.filter((c) => !queuedCommentIds.has(c.comment.id));
+    if (!_manager || comments.length === 0) {
+        vscode.window.showInformationMessage(
+            all.length > 0
+                ? "Review comments are already queued until Claude's prompt is idle."
+                : "No review comments to send.",
+        );
+        return;
+    }
+    const bySession = new Map<string, CollectedComment[]>();
+    const unrouted: CollectedComment[] = [];
+    for (const c of comments) {
+        const sessionId = c.sessionId ?? state.getActiveSessionId();
+        if (!sessionId) unrouted.push(c);
+        else bySession.set(sessionId, [...(bySession.get(sessionId) ?? []), c]);
+    }
+    const results = new Set<FeedbackResult>();
+    const sent: CollectedComment[] = [];
+    const manager = _manager;
+    for (const [sessionId, batch] of bySession) {
+        // A queued batch stays listed until it reaches the terminal
+        for (const c of batch) queuedCommentIds.add(c.comment.id);
+        const written = () => {
+            for (const c of batch) queuedCommentIds.delete(c.comment.id);
+            void manager.removeComments(batch);
+        };
+        results.add(sendFeedback(sessionId, formatCommentsPrompt(workspacePath, batch), written));
+        sent.push(...batch);
+    }
+    log(`sendReviewComments: ${sent.length} comment(s) to ${bySession.size} session(s)`);
+    if (unrouted.length > 0) {
+        vscode.window.showWarningMessage(
+            `${unrouted.length} comment(s) aren't linked to a Claude session — focus a session or export them.`,
+        );
+    }
+    if (sent.length > 0) {
+        vscode.window.setStatusBarMessage(
+            results.has("queued")
+                ? `$(comment) ${sent.length} comment(s) queued until Claude's prompt is idle`
+                : results.has("pasted")
+                  ? `$(comment) ${sent.length} comment(s) pasted into Claude's prompt — press Enter to send`
+                  : `$(comment) Sent ${sent.length} comment(s) to Claude`,
+            3000,
+        );
+    }
+}
+
+/** Saves every open comment, with the lines it is about, as a Markdown file */
+export async function exportReviewComments(workspacePath: string): Promise<void> {
+    const comments = _manager?.getComments() ?? [];
+    if (comments.length === 0) {
+        vscode.window.showInformationMessage("No review comments to export.");
+        return;
+    }
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(workspacePath, "review-comments.md")),
+        filters: { Markdown: ["md"] },
+    });
+    if (!uri) return;
+    fs.writeFileSync(uri.fsPath, formatCommentsMarkdown(workspacePath, comments), "utf8");
+    vscode.window.showInformationMessage(
+        `Exported ${comments.length} comment(s) to ${path.basename(uri.fsPath)}`,
+    );
+}
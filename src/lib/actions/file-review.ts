@@ -1,9 +1,9 @@
 // File review actions — delegates to ReviewManager
 import * as vscode from "vscode";
-import { execSync } from "child_process";
 import * as path from "path";
 import * as state from "../state";
 import { enterReviewMode } from "../review";
+import { currentReviewBase, changedSinceBase } from "../review-base";
 import { log } from "../log";
 import type { ReviewManager } from "../review-manager";
 
@@ -22,52 +22,19 @@ export async function startReviewSession(workspacePath: string): Promise<void> {
     state.setReviewFiles([]);
     state.setCurrentFileIndex(0);
 
-    const changedFiles = new Set<string>();
-
-    try {
-        const staged = execSync("git diff --name-only --cached", {
-            cwd: workspacePath,
-            encoding: "utf8",
-            timeout: 10000,
-            stdio: "pipe",
-        }).trim();
-        if (staged) {
-            staged.split("\n").forEach((f) => changedFiles.add(path.join(workspacePath, f)));
-        }
-    } catch {}
-
-    try {
-        const unstaged = execSync("git diff --name-only HEAD", {
-            cwd: workspacePath,
-            encoding: "utf8",
-            timeout: 10000,
-            stdio: "pipe",
-        }).trim();
-        if (unstaged) {
-            unstaged.split("\n").forEach((f) => changedFiles.add(path.join(workspacePath, f)));
-        }
-    } catch {}
-
-    try {
-        const untracked = execSync("git ls-files --others --exclude-standard", {
-            cwd: workspacePath,
-            encoding: "utf8",
-            timeout: 10000,
-            stdio: "pipe",
-        }).trim();
-        if (untracked) {
-            untracked.split("\n").forEach((f) => changedFiles.add(path.join(workspacePath, f)));
-        }
-    } catch {}
+    const base = currentReviewBase(workspacePath);
+    const changedFiles = new Set(
+        changedSinceBase(workspacePath, base).map((f) => path.join(workspacePath, f)),
+    );
 
     if (changedFiles.size === 0) {
-        vscode.window.showInformationMessage("No changes to review.");
+        vscode.window.showInformationMessage(`No changes to review against ${base.label}.`);
         return;
     }
 
     for (const fp of changedFiles) {
         try {
-            await enterReviewMode(fp, workspacePath);
+            await enterReviewMode(fp, workspacePath, base);
         } catch (e) {
             log(`[ccr] skip ${fp}: ${(e as Error).message}`);
         }
@@ -83,3 +50,68 @@ export async function startReviewSession(workspacePath: string): Promise<void> {
     state.refreshAll();
     await _manager?.openFileForReview(reviewable[0]);
 }
+
+/** Pending files grouped by the Claude session that changed them, then those skipped by policy */
+export async function showReviewFiles(workspacePath: string): Promise<void> {
+    if (!_manager) return;
+    const items: Array<vscode.QuickPickItem & { filePath?: string; skipped?: boolean }> = [];
+    for (const g of _manager.getSessionGroups()) {
+        items.push({ label: g.label, kind: vscode.QuickPickItemKind.Separator });
+        for (const f of g.files) {
+            const review = state.activeReviews.get(f);
+            items.push({
+                label: path.relative(workspacePath, f),
+                description: review ? `${review.unresolvedCount}/${review.hunks.length}` : "",
+                filePath: f,
+            });
+        }
+    }
+    const skips = state.getPolicySkips();
+    if (skips.length > 0) {
+        items.push({ label: "Skipped by review policy", kind: vscode.QuickPickItemKind.Separator });
+        for (const skip of skips) {
+            items.push({
+                label: path.relative(workspacePath, skip.filePath),
+                description: `${skip.rule} · ${skip.pattern}`,
+                filePath: skip.filePath,
+                skipped: true,
+            });
+        }
+    }
+    if (items.length === 0) {
+        vscode.window.showInformationMessage("No files under review.");
+        return;
+    }
+    const pick = await vscode.window.showQuickPick(items, {
+        placeHolder: "Files under review, by session",
+        matchOnDescription: true,
+    });
+    if (!pick?.filePath) return;
+    if (pick.skipped) {
+        await vscode.window.showTextDocument(vscode.Uri.file(pick.filePath));
+    } else {
+        await _manager.openFileForReview(pick.filePath);
+    }
+}
+
+/** Settles files that changed on disk while their review was pending */
+export async function resolveConflicts(workspacePath: string): Promise<void> {
+    const conflicts = _manager?.getConflicts() ?? [];
+    if (conflicts.length === 0) {
+        vscode.window.showInformationMessage("No review conflicts.");
+        return;
+    }
+    const filePath =
+        conflicts.length === 1
+            ? conflicts[0]
+            : (
+                  await vscode.window.showQuickPick(
+                      conflicts.map((f) => ({
+                          label: path.relative(workspacePath, f),
+                          filePath: f,
+                      })),
+                      { placeHolder: "Changed on disk while under review" },
+                  )
+              )?.filePath;
+    if (filePath) await _manager?.settleConflict(filePath);
+}
@@ -0,0 +1,128 @@
+// History actions — edit timeline and past reviews, delegates to ReviewManager
+import * as vscode from "vscode";
+import * as path from "path";
+import { lineChanges } from "../merge";
+import { AUDIT_SCHEME, readAuditLog, readAuditObject } from "../audit-log";
+import { getSessionTitle } from "../sessions";
+import type { ReviewManager } from "../review-manager";
+import type { AuditEntry } from "../../types";
+
+let _manager: ReviewManager | null = null;
+
+export function setReviewManager(manager: ReviewManager): void {
+    _manager = manager;
+}
+
+/**
+ * Timeline of Claude's tool calls on a file under review: pick a step to see its own diff
+ * or to undo just that step.
+ */
+export async function showEditTimeline(filePath?: string): Promise<void> {
+    const fp = filePath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+    const layers = fp ? (_manager?.getEditLayers(fp) ?? []) : [];
+    if (!fp || layers.length === 0) {
+        vscode.window.showInformationMessage("No Claude edits recorded for this file.");
+        return;
+    }
+    const items = layers.map((layer, index) => {
+        const changes = lineChanges(layer.before, layer.after);
+        const added = changes.reduce((n, c) => n + c.lines.length, 0);
+        const removed = changes.reduce((n, c) => n + c.end - c.start, 0);
+        return {
+            label: `${layer.undone ? "$(discard)" : "$(edit)"} Step ${index + 1}`,
+            description: `+${added} −${removed} · ${new Date(layer.at).toLocaleTimeString()}`,
+            detail: layer.undone ? "Undone" : undefined,
+            index,
+        };
+    });
+    const step = await vscode.window.showQuickPick(items, {
+        placeHolder: `${path.basename(fp)} — Claude's edits, oldest first`,
+    });
+    if (!step) return;
+    const layer = layers[step.index];
+    const action = await vscode.window.showQuickPick(
+        layer.undone ? ["Show Diff"] : ["Show Diff", "Undo This Step"],
+        { placeHolder: `Step ${step.index + 1}` },
+    );
+    if (action === "Undo This Step") {
+        await _manager?.undoEditLayer(fp, step.index);
+    } else if (action === "Show Diff") {
+        const language = vscode.window.activeTextEditor?.document.languageId;
+        const before = await vscode.workspace.openTextDocument({ content: layer.before, language });
+        const after = await vscode.workspace.openTextDocument({ content: layer.after, language });
+        await vscode.commands.executeCommand(
+            "vscode.diff",
+            before.uri,
+            after.uri,
+            `${path.basename(fp)} (Step ${step.index + 1})`,
+        );
+    }
+}
+
+/**
+ * Past reviews from the audit log, by Claude session: pick a session, then a file, to see
+ * the original next to what the review left — read-only.
+ */
+export async function showReviewHistory(workspacePath: string): Promise<void> {
+    const entries = readAuditLog(workspacePath);
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage("No finished reviews recorded yet.");
+        return;
+    }
+    const bySession = new Map<string | null, AuditEntry[]>();
+    for (const entry of entries) {
+        const key = entry.sessionId ?? null;
+        bySession.set(key, [...(bySession.get(key) ?? []), entry]);
+    }
+    const sessions = [...bySession]
+        .map(([sessionId, list]) => ({
+            label: sessionId ? getSessionTitle(workspacePath, sessionId) : "Outside a session",
+            description: `${list.length} file(s) · ${new Date(list[list.length - 1].timestamp).toLocaleString()}`,
+            list,
+        }))
+        .sort((a, b) => b.list[b.list.length - 1].timestamp - a.list[a.list.length - 1].timestamp);
+    const session = await vscode.window.showQuickPick(sessions, {
+        placeHolder: "Review history — pick a session",
+    });
+    if (!session) return;
+
+    const files = [...session.list].reverse().map((entry) => {
+        const kept = entry.hunks.filter((h) => h.decision === "kept").length;
+        return {
+            label: entry.filePath,
+            description: `${kept} kept, ${entry.hunks.length - kept} undone · ${new Date(entry.timestamp).toLocaleString()}`,
+            detail: `${entry.changeType} · final sha256 ${entry.finalHash?.slice(0, 8) ?? "— (deleted)"}`,
+            entry,
+        };
+    });
+    const file = await vscode.window.showQuickPick(files, {
+        placeHolder: `${session.label} — pick a file to see the decision`,
+        matchOnDescription: true,
+    });
+    if (!file) return;
+
+    const { entry } = file;
+    const side = (hash: string | null) => {
+        if (hash !== null && readAuditObject(workspacePath, hash) === null) return null;
+        return vscode.Uri.from({
+            scheme: AUDIT_SCHEME,
+            path: "/" + entry.filePath,
+            query: hash ?? "",
+        });
+    };
+    const before = side(entry.originalHash);
+    const after = side(entry.finalHash);
+    if (!before || !after) {
+        // Binary and large files are logged by hash only
+        vscode.window.showInformationMessage(
+            `${entry.filePath}: ${entry.originalHash?.slice(0, 8) ?? "—"} → ${entry.finalHash?.slice(0, 8) ?? "—"} (sha256; contents not logged)`,
+        );
+        return;
+    }
+    await vscode.commands.executeCommand(
+        "vscode.diff",
+        before,
+        after,
+        `${path.basename(entry.filePath)} (Original ↔ Reviewed, ${new Date(entry.timestamp).toLocaleString()})`,
+    );
+}
@@ -1,7 +1,14 @@
 export {
     resolveHunk,
     resolveAllHunks,
+    resolveLines,
+    keepAndStage,
+    keepAndStageAll,
+    commitReviewedChanges,
     openFileForReview,
+    toggleDiffOption,
+    splitHunk,
+    mergeWithNextHunk,
     setReviewManager as setReviewActionsManager,
 } from "./review-actions";
 export {
@@ -15,5 +22,35 @@ export {
 export {
     addFileToReview,
     startReviewSession,
+    showReviewFiles,
+    resolveConflicts,
     setReviewManager as setFileReviewManager,
 } from "./file-review";
+export {
+    selectReviewBase,
+    toggleReviewLayout,
+    setReviewManager as setReviewSettingsManager,
+} from "./review-settings";
+export {
+    toggleSessionScope,
+    resolveSession,
+    setReviewManager as setSessionsManager,
+} from "./sessions";
+export {
+    rejectHunkWithComment,
+    addReviewComment,
+    deleteReviewComment,
+    sendReviewComments,
+    exportReviewComments,
+    setReviewManager as setCommentsManager,
+} from "./comments";
+export {
+    showEditTimeline,
+    showReviewHistory,
+    setReviewManager as setHistoryManager,
+} from "./history";
+export {
+    exportReviewPatch,
+    importPatchFile,
+    setReviewManager as setPatchesManager,
+} from "./patches";
@@ -0,0 +1,70 @@
+// Patch actions — export and import of .patch files, delegates to ReviewManager
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as state from "../state";
+import { PatchError } from "../patch";
+import type { ReviewManager } from "../review-manager";
+
+let _manager: ReviewManager | null = null;
+
+export function setReviewManager(manager: ReviewManager): void {
+    _manager = manager;
+}
+
+/** Saves the kept-so-far or the pending part of all reviews as a .patch file */
+export async function exportReviewPatch(workspacePath: string): Promise<void> {
+    if (!_manager || state.activeReviews.size === 0) {
+        vscode.window.showInformationMessage("No active reviews to export.");
+        return;
+    }
+    const pick = await vscode.window.showQuickPick(
+        [
+            {
+                label: "Kept so far",
+                description: "original → changes you kept",
+                part: "accepted" as const,
+            },
+            {
+                label: "Pending",
+                description: "changes you kept → plus changes still to review",
+                part: "pending" as const,
+            },
+        ],
+        { placeHolder: "Which part of the review to export?" },
+    );
+    if (!pick) return;
+
+    const { patch, files, skipped } = _manager.exportPatch(pick.part);
+    if (files === 0) {
+        vscode.window.showInformationMessage(`Nothing ${pick.label.toLowerCase()} to export.`);
+        return;
+    }
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(workspacePath, `review-${pick.part}.patch`)),
+        filters: { Patches: ["patch", "diff"] },
+    });
+    if (!uri) return;
+    fs.writeFileSync(uri.fsPath, patch, "utf8");
+    vscode.window.showInformationMessage(
+        `Exported ${files} file(s) to ${path.basename(uri.fsPath)}` +
+            (skipped ? ` (${skipped} binary/notebook file(s) skipped)` : ""),
+    );
+}
+
+/** Applies a .patch file to the workspace and reviews its changes like Claude's */
+export async function importPatchFile(workspacePath: string): Promise<void> {
+    const [uri] =
+        (await vscode.window.showOpenDialog({
+            defaultUri: vscode.Uri.file(workspacePath),
+            filters: { Patches: ["patch", "diff"] },
+            openLabel: "Review Patch",
+        })) ?? [];
+    if (!uri) return;
+    try {
+        await _manager?.importPatch(fs.readFileSync(uri.fsPath, "utf8"));
+    } catch (e) {
+        if (!(e instanceof PatchError)) throw e;
+        vscode.window.showErrorMessage(`Can't read ${path.basename(uri.fsPath)}: ${e.message}`);
+    }
+}
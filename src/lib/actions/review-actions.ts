@@ -1,5 +1,6 @@
 // Review actions — delegates to ReviewManager
 import type { ReviewManager } from "../review-manager";
+import type { DiffOptions } from "../../types";
 
 let _manager: ReviewManager | null = null;
 
@@ -19,6 +20,39 @@ export async function resolveAllHunks(filePath: string, accept: boolean): Promis
     await _manager?.resolveAllHunks(filePath, accept);
 }
 
+export async function resolveLines(
+    filePath: string,
+    firstLine: number,
+    lastLine: number,
+    accept: boolean,
+): Promise<void> {
+    await _manager?.resolveLines(filePath, firstLine, lastLine, accept);
+}
+
+export async function keepAndStage(filePath: string, hunkId?: number): Promise<void> {
+    await _manager?.keepAndStage(filePath, hunkId);
+}
+
+export async function keepAndStageAll(): Promise<void> {
+    await _manager?.keepAndStageAll();
+}
+
+export async function commitReviewedChanges(): Promise<void> {
+    await _manager?.commitReviewedChanges();
+}
+
 export async function openFileForReview(filePath: string): Promise<void> {
     await _manager?.openFileForReview(filePath);
 }
+
+export async function toggleDiffOption(filePath: string, option: keyof DiffOptions): Promise<void> {
+    await _manager?.toggleDiffOption(filePath, option);
+}
+
+export async function splitHunk(filePath: string, bufferLine: number): Promise<void> {
+    await _manager?.splitHunk(filePath, bufferLine);
+}
+
+export async function mergeWithNextHunk(filePath: string, bufferLine: number): Promise<void> {
+    await _manager?.mergeWithNextHunk(filePath, bufferLine);
+}
@@ -0,0 +1,62 @@
+// Review settings actions — review base and layout, delegates to ReviewManager
+import * as vscode from "vscode";
+import * as state from "../state";
+import type { ReviewManager } from "../review-manager";
+import type { ReviewBaseKind } from "../../types";
+
+let _manager: ReviewManager | null = null;
+
+export function setReviewManager(manager: ReviewManager): void {
+    _manager = manager;
+}
+
+/** Picks the review base in settings — the review in progress keeps the base it started with */
+export async function selectReviewBase(): Promise<void> {
+    const config = vscode.workspace.getConfiguration("claudeCodeReview");
+    const current = config.get<ReviewBaseKind>("reviewBase", "head");
+    const items: Array<vscode.QuickPickItem & { base: ReviewBaseKind }> = [
+        { label: "HEAD", description: "last commit", base: "head" },
+        { label: "Index", description: "staged changes count as reviewed", base: "index" },
+        { label: "Merge-base", description: "everything this branch changed", base: "mergeBase" },
+        {
+            label: "Session start",
+            description: "working tree when Claude started",
+            base: "session",
+        },
+    ];
+    for (const item of items) if (item.base === current) item.detail = "current";
+    const pick = await vscode.window.showQuickPick(items, {
+        placeHolder: "Review changes against",
+    });
+    if (!pick) return;
+
+    if (pick.base === "mergeBase") {
+        const branch = await vscode.window.showInputBox({
+            prompt: "Branch to take the merge-base with",
+            value: config.get<string>("reviewBaseBranch", "main"),
+        });
+        if (!branch) return;
+        await config.update("reviewBaseBranch", branch, vscode.ConfigurationTarget.Workspace);
+    }
+    await config.update("reviewBase", pick.base, vscode.ConfigurationTarget.Workspace);
+    if (state.activeReviews.size > 0) {
+        vscode.window.showInformationMessage(
+            `Review base set to ${pick.label} — it applies once the current review is finished.`,
+        );
+    }
+}
+
+/** Switches between the inline buffer and a side-by-side diff editor, in workspace settings too */
+export async function toggleReviewLayout(): Promise<void> {
+    const layout = state.getReviewLayout() === "inline" ? "sideBySide" : "inline";
+    await vscode.workspace
+        .getConfiguration("claudeCodeReview")
+        .update("reviewLayout", layout, vscode.ConfigurationTarget.Workspace);
+    await _manager?.setReviewLayout(layout);
+    vscode.window.setStatusBarMessage(
+        layout === "sideBySide"
+            ? "$(split-horizontal) Reviewing side by side"
+            : "$(list-flat) Reviewing inline",
+        2000,
+    );
+}
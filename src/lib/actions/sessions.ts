@@ -0,0 +1,74 @@
+// Session actions — scope and bulk resolution per Claude session, delegates to ReviewManager
+import * as vscode from "vscode";
+import * as state from "../state";
+import { log } from "../log";
+import { allowsBulkAccept, reportHeldBack } from "../review-policy";
+import type { ReviewManager, SessionGroup } from "../review-manager";
+
+let _manager: ReviewManager | null = null;
+
+export function setReviewManager(manager: ReviewManager): void {
+    _manager = manager;
+}
+
+/** Limits navigation, counters and Keep/Undo All to the focused terminal's Claude session */
+export async function toggleSessionScope(): Promise<void> {
+    const scoped = !state.isScopedToActiveSession();
+    state.setScopedToActiveSession(scoped);
+    if (scoped && !state.getActiveSessionId()) {
+        vscode.window.showInformationMessage(
+            "No Claude session is focused — changes from every session are shown.",
+        );
+    } else {
+        vscode.window.setStatusBarMessage(
+            scoped
+                ? "$(filter) Reviewing this session's changes"
+                : "$(info) Reviewing all sessions",
+            2000,
+        );
+    }
+    state.refreshAll();
+    if (scoped) await _manager?.openCurrentOrNext();
+}
+
+/** Keeps or undoes every pending file of one session — asks which when not given */
+export async function resolveSession(
+    sessionId: string | null | undefined,
+    accept: boolean,
+): Promise<void> {
+    if (!_manager) return;
+    const groups = _manager.getSessionGroups();
+    const group =
+        sessionId === undefined
+            ? await pickSessionGroup(groups, accept ? "Keep all changes of" : "Undo all changes of")
+            : groups.find((g) => g.sessionId === sessionId);
+    if (!group) return;
+    log(
+        `resolveSession: ${accept ? "keep" : "undo"} ${group.files.length} file(s) of ${group.label}`,
+    );
+    const heldBack: string[] = [];
+    for (const f of group.files) {
+        if (!state.activeReviews.has(f)) continue;
+        if (accept && !allowsBulkAccept(_manager.wp, f)) heldBack.push(f);
+        else await _manager.resolveAllHunks(f, accept);
+    }
+    reportHeldBack(_manager.wp, heldBack);
+}
+
+async function pickSessionGroup(
+    groups: SessionGroup[],
+    placeHolder: string,
+): Promise<SessionGroup | undefined> {
+    if (groups.length <= 1) return groups[0];
+    const activeSession = state.getActiveSessionId();
+    const pick = await vscode.window.showQuickPick(
+        groups.map((g) => ({
+            label: g.label,
+            description: `${g.files.length} file(s)`,
+            detail: g.sessionId !== null && g.sessionId === activeSession ? "focused" : undefined,
+            group: g,
+        })),
+        { placeHolder },
+    );
+    return pick?.group;
+}
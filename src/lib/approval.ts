@@ -0,0 +1,166 @@
+// Gated mode — Claude's Edit/Write/Bash calls wait for the user before they run
+//
+// The PreToolUse hook asks /approve; the proposed change is shown as a read-only diff
+// (current file ↔ file after the call) with Allow / Deny. A denial is sent back to Claude
+// with the user's reason. Allowed edits still land in the regular review afterwards.
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { logCat } from "./log";
+import { APPROVAL_TIMEOUT_MS } from "./hooks/runner";
+import type { ApprovalDecision, ApprovalRequest } from "../types";
+
+/** URI scheme of the read-only sides of a proposed change */
+export const PROPOSAL_SCHEME = "ccr-proposed";
+
+/** Document contents by URI path while their approval is pending */
+const proposals = new Map<string, string>();
+let nextProposalId = 0;
+
+export function getProposalContent(uri: vscode.Uri): string {
+    return proposals.get(uri.path) ?? "";
+}
+
+function replaceText(content: string, oldText: string, newText: string, all?: boolean): string {
+    if (all) return content.split(oldText).join(newText);
+    const at = content.indexOf(oldText);
+    return content.slice(0, at) + newText + content.slice(at + oldText.length);
+}
+
+/**
+ * File content after the call, from its tool_input. Null when it can't be known up front
+ * (Bash, or an old_string missing from the file — the tool itself will fail on that).
+ */
+export function proposedContent(req: ApprovalRequest, current: string): string | null {
+    const input = req.input;
+    switch (req.tool) {
+        case "Write":
+            return input.content ?? "";
+        case "Edit":
+            if (input.old_string === undefined || !current.includes(input.old_string)) return null;
+            return replaceText(
+                current,
+                input.old_string,
+                input.new_string ?? "",
+                input.replace_all,
+            );
+        case "MultiEdit": {
+            let content = current;
+            for (const edit of input.edits ?? []) {
+                if (!content.includes(edit.old_string)) return null;
+                content = replaceText(content, edit.old_string, edit.new_string, edit.replace_all);
+            }
+            return content;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Shows the proposed call and waits for Allow or Deny; dismissing the prompt denies.
+ * Given up after APPROVAL_TIMEOUT_MS, when the hook runner lets the call through anyway.
+ */
+export async function requestApproval(
+    workspacePath: string,
+    req: ApprovalRequest,
+): Promise<ApprovalDecision> {
+    const target = req.file ? path.relative(workspacePath, req.file) : undefined;
+    let question: string;
+    const opened: string[] = [];
+    if (req.tool === "Bash") {
+        question = `Claude wants to run: ${req.input.command ?? ""}`;
+    } else {
+        let current = "";
+        try {
+            current = req.file ? fs.readFileSync(req.file, "utf8") : "";
+        } catch {}
+        const proposed = proposedContent(req, current);
+        if (proposed === null || !target) {
+            logCat("review", `approval: no preview for ${req.tool} ${target ?? ""}, allowing`);
+            return { decision: "allow" };
+        }
+        const id = nextProposalId++;
+        const before = `/${id}/before/${target}`;
+        const after = `/${id}/after/${target}`;
+        proposals.set(before, current);
+        proposals.set(after, proposed);
+        opened.push(before, after);
+        await vscode.commands.executeCommand(
+            "vscode.diff",
+            vscode.Uri.from({ scheme: PROPOSAL_SCHEME, path: before }),
+            vscode.Uri.from({ scheme: PROPOSAL_SCHEME, path: after }),
+            `${path.basename(target)} (Claude wants to ${req.tool === "Write" ? "write" : "edit"})`,
+            { preview: true },
+        );
+        question = `Allow Claude's ${req.tool} of ${target}?`;
+    }
+
+    const cancel = new vscode.CancellationTokenSource();
+    let timer: NodeJS.Timeout | undefined;
+    // The hook runner stops waiting by then and lets the call run — the prompt must go too
+    const abandoned = new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), APPROVAL_TIMEOUT_MS);
+    });
+    try {
+        const decision = await Promise.race([ask(req, target, question, cancel.token), abandoned]);
+        if (decision) return decision;
+        logCat("review", `approval: ${req.tool} ${target ?? ""} timed out, the call went ahead`);
+        cancel.cancel();
+        closeProposalTabs(opened);
+        // A single notification can't be dismissed through the API; a late click is ignored
+        await vscode.commands.executeCommand("notifications.hideToasts");
+        vscode.window.setStatusBarMessage(
+            `$(clock) Nobody answered — Claude's ${req.tool} ran without approval`,
+            5000,
+        );
+        return { decision: "allow" };
+    } finally {
+        clearTimeout(timer);
+        cancel.dispose();
+        for (const p of opened) proposals.delete(p);
+    }
+}
+
+async function ask(
+    req: ApprovalRequest,
+    target: string | undefined,
+    question: string,
+    token: vscode.CancellationToken,
+): Promise<ApprovalDecision> {
+    const choice = await vscode.window.showWarningMessage(question, "Allow", "Deny…");
+    if (choice === "Allow") {
+        logCat("review", `approval: ${req.tool} ${target ?? ""} allowed`);
+        return { decision: "allow" };
+    }
+    const why =
+        choice === "Deny…"
+            ? await vscode.window.showInputBox(
+                  {
+                      prompt: "Tell Claude why (optional)",
+                      placeHolder: "e.g. keep the public API unchanged",
+                  },
+                  token,
+              )
+            : undefined;
+    logCat("review", `approval: ${req.tool} ${target ?? ""} denied`);
+    return {
+        decision: "deny",
+        reason: why
+            ? `The user rejected this change in review: ${why}`
+            : "The user rejected this change in review.",
+    };
+}
+
+/** Closes the diff tabs showing the given proposal sides */
+function closeProposalTabs(paths: string[]): void {
+    const tabs = vscode.window.tabGroups.all
+        .flatMap((group) => group.tabs)
+        .filter(
+            (tab) =>
+                tab.input instanceof vscode.TabInputTextDiff &&
+                tab.input.modified.scheme === PROPOSAL_SCHEME &&
+                paths.includes(tab.input.modified.path),
+        );
+    if (tabs.length > 0) void vscode.window.tabGroups.close(tabs);
+}
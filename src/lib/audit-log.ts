@@ -0,0 +1,132 @@
+// Audit log — append-only record of every finished file review, kept per workspace
+//
+// One JSON line per file in .claude/review-audit/log.jsonl. The original, Claude's and the
+// final text are stored once per sha256 under objects/, so any decision can be shown again.
+// Nothing is pruned: the directory keeps every stored content until it is deleted by hand. It
+// is git-ignored, and files the review policy marks auto-ignore get no stored contents.
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { logCat } from "./log";
+import { buildFinalContent } from "./review";
+import { getPathPolicy } from "./review-policy";
+import type { AuditEntry, IFileReview } from "../types";
+
+/** URI scheme of the read-only documents that show logged contents */
+export const AUDIT_SCHEME = "ccr-audit";
+const AUDIT_DIRNAME = "review-audit";
+const LOG_FILENAME = "log.jsonl";
+
+function getAuditDir(workspacePath: string): string {
+    return path.join(workspacePath, ".claude", AUDIT_DIRNAME);
+}
+
+function getObjectPath(workspacePath: string, hash: string): string {
+    return path.join(getAuditDir(workspacePath), "objects", hash);
+}
+
+/** Creates the audit dir with a .gitignore — stored contents may hold secrets */
+function ensureAuditDir(workspacePath: string): void {
+    const ignorePath = path.join(getAuditDir(workspacePath), ".gitignore");
+    if (fs.existsSync(ignorePath)) return;
+    fs.mkdirSync(path.dirname(ignorePath), { recursive: true });
+    fs.writeFileSync(ignorePath, "*\n", "utf8");
+}
+
+/** Hash of the content, written under objects/ unless the content must not be kept */
+function storeObject(workspacePath: string, content: string | null, keep: boolean): string | null {
+    if (content === null) return null;
+    const hash = crypto.createHash("sha256").update(content, "utf8").digest("hex");
+    const objectPath = getObjectPath(workspacePath, hash);
+    if (keep && !fs.existsSync(objectPath)) {
+        fs.mkdirSync(path.dirname(objectPath), { recursive: true });
+        fs.writeFileSync(objectPath, content, "utf8");
+    }
+    return hash;
+}
+
+/** Blob names are sha256 + extension */
+function blobHash(blob: string | undefined): string | null {
+    return blob ? blob.slice(0, 64) : null;
+}
+
+/** File content once the review is applied — null when the file ends up deleted */
+function finalContent(review: IFileReview): string | null {
+    const allRejected = review.hunks.every((h) => !h.accepted);
+    if (review.changeType === "delete") return allRejected ? review.originalContent : null;
+    if (review.changeType === "create" && allRejected) return null;
+    return buildFinalContent(review);
+}
+
+/** Appends the decisions of a fully resolved review. Never throws — the review goes on */
+export function recordAudit(workspacePath: string, review: IFileReview, base?: string): void {
+    try {
+        ensureAuditDir(workspacePath);
+        const info = review.wholeFile;
+        const allRejected = review.hunks.every((h) => !h.accepted);
+        // Decisions on auto-ignore paths are logged, their contents are not
+        const keep = getPathPolicy(workspacePath, review.filePath).skip?.rule !== "auto-ignore";
+        const store = (content: string | null) => storeObject(workspacePath, content, keep);
+        const entry: AuditEntry = {
+            version: 1,
+            timestamp: Date.now(),
+            startedAt: review.layers?.[0]?.at,
+            filePath: path.relative(workspacePath, review.filePath),
+            renamedFrom: review.renamedFrom && path.relative(workspacePath, review.renamedFrom),
+            changeType: review.changeType,
+            sessionId: review.sessionId,
+            base,
+            hunks: review.hunks.map((h) => ({
+                origStart: h.origStart,
+                modStart: h.modStart,
+                removed: h.removed,
+                added: h.added,
+                label: h.label,
+                decision: h.accepted ? "kept" : "undone",
+            })),
+            originalHash: info
+                ? blobHash(info.originalBlob)
+                : store(review.changeType === "create" ? null : review.originalContent),
+            modifiedHash: info
+                ? blobHash(info.modifiedBlob)
+                : store(review.changeType === "delete" ? null : review.modifiedContent),
+            finalHash: info
+                ? blobHash(allRejected ? info.originalBlob : info.modifiedBlob)
+                : store(finalContent(review)),
+        };
+        const logPath = path.join(getAuditDir(workspacePath), LOG_FILENAME);
+        fs.mkdirSync(path.dirname(logPath), { recursive: true });
+        fs.appendFileSync(logPath, JSON.stringify(entry) + "\n", "utf8");
+        logCat("review", `audit: recorded ${entry.filePath} (${entry.hunks.length} hunks)`);
+    } catch (err) {
+        logCat("review", `audit: failed to record ${review.filePath}: ${(err as Error).message}`);
+    }
+}
+
+/** Every recorded entry, oldest first; unreadable lines are skipped */
+export function readAuditLog(workspacePath: string): AuditEntry[] {
+    let raw: string;
+    try {
+        raw = fs.readFileSync(path.join(getAuditDir(workspacePath), LOG_FILENAME), "utf8");
+    } catch {
+        return [];
+    }
+    const entries: AuditEntry[] = [];
+    for (const line of raw.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            const entry = JSON.parse(line) as AuditEntry;
+            if (entry.version === 1) entries.push(entry);
+        } catch {}
+    }
+    return entries;
+}
+
+/** Stored text for a hash from the log; null for binary files and missing objects */
+export function readAuditObject(workspacePath: string, hash: string): string | null {
+    try {
+        return fs.readFileSync(getObjectPath(workspacePath, hash), "utf8");
+    } catch {
+        return null;
+    }
+}
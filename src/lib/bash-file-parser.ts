@@ -1,9 +1,16 @@
 // Bash command parser — extracts file paths affected by bash commands
 import * as path from "path";
 
+export interface BashRename {
+    from: string;
+    to: string;
+}
+
 export interface BashFileChanges {
     deleted: string[];
     modified: string[];
+    /** Single-source `mv` / `git mv` — also reported in deleted (from) + modified (to) */
+    renamed: BashRename[];
 }
 
 const DEV_PATHS = new Set(["/dev/null", "/dev/stdout", "/dev/stderr", "/dev/stdin"]);
@@ -12,23 +19,25 @@ const SHELL_REDIRECT_PATTERN = /^[0-9]*>|2>&1|>&/;
 export function parseBashCommand(command: string, workspacePath?: string): BashFileChanges {
     const deleted: string[] = [];
     const modified: string[] = [];
+    const renamed: BashRename[] = [];
 
-    if (!command.trim()) return { deleted, modified };
+    if (!command.trim()) return { deleted, modified, renamed };
 
     const subCommands = splitCommands(command);
     for (const sub of subCommands) {
         const tokens = tokenize(sub);
         if (tokens.length === 0) continue;
-        parseTokens(tokens, deleted, modified, workspacePath);
+        parseTokens(tokens, deleted, modified, renamed, workspacePath);
     }
 
-    return { deleted, modified };
+    return { deleted, modified, renamed };
 }
 
 function parseTokens(
     tokens: string[],
     deleted: string[],
     modified: string[],
+    renamed: BashRename[],
     workspacePath?: string,
 ): void {
     // Check for redirections first (> file, >> file)
@@ -43,6 +52,7 @@ function parseTokens(
     }
 
     const cmd = tokens[0];
+    const isGitMv = cmd === "git" && tokens[1] === "mv";
 
     if (cmd === "rm") {
         const files = filterArgs(tokens.slice(1), [
@@ -56,13 +66,18 @@ function parseTokens(
             "--recursive",
         ]);
         for (const f of files) addFile(deleted, f, workspacePath);
-    } else if (cmd === "mv") {
-        const files = filterArgs(tokens.slice(1), ["-f", "-n", "-v", "--force"]);
+    } else if (cmd === "mv" || isGitMv) {
+        const files = filterArgs(tokens.slice(isGitMv ? 2 : 1), ["-f", "-n", "-v", "--force"]);
         if (files.length >= 2) {
             // All but last are sources (deleted), last is dest (modified)
             for (let i = 0; i < files.length - 1; i++) addFile(deleted, files[i], workspacePath);
             addFile(modified, files[files.length - 1], workspacePath);
         }
+        if (files.length === 2) {
+            const from = resolvePath(files[0], workspacePath);
+            const to = resolvePath(files[1], workspacePath);
+            if (from && to) renamed.push({ from, to });
+        }
     } else if (cmd === "cp") {
         const files = filterArgs(tokens.slice(1), [
             "-r",
@@ -146,20 +161,25 @@ function filterArgs(args: string[], flags: string[]): string[] {
 }
 
 function addFile(list: string[], file: string, workspacePath?: string): void {
-    if (!file || DEV_PATHS.has(file)) return;
+    const resolved = resolvePath(file, workspacePath);
+    if (resolved && !list.includes(resolved)) list.push(resolved);
+}
+
+/** Absolute path for a command argument, or null for redirects, devices and garbage */
+function resolvePath(file: string, workspacePath?: string): string | null {
+    if (!file || DEV_PATHS.has(file)) return null;
     // Skip shell redirects captured as file paths (e.g. "2>/dev/null" split into "2>" and "/dev/null")
-    if (SHELL_REDIRECT_PATTERN.test(file)) return;
+    if (SHELL_REDIRECT_PATTERN.test(file)) return null;
     // Skip paths containing newlines or null bytes
-    if (file.includes("\n") || file.includes("\0")) return;
+    if (file.includes("\n") || file.includes("\0")) return null;
     // Normalize trailing slash (e.g. "dest/" → "dest" for cp -r)
     const clean = file.endsWith("/") ? file.slice(0, -1) : file;
-    if (!clean) return;
-    const resolved = path.isAbsolute(clean)
+    if (!clean) return null;
+    return path.isAbsolute(clean)
         ? clean
         : workspacePath
           ? path.resolve(workspacePath, clean)
           : clean;
-    if (!list.includes(resolved)) list.push(resolved);
 }
 
 /**
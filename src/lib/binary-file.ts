@@ -0,0 +1,115 @@
+// Binary and large files — reviewed as a whole (one Keep/Undo) instead of as text hunks
+//
+// Line diffs of binary data are meaningless and round-tripping it through a utf8 string
+// corrupts it, so both sides are kept as raw bytes in a content-addressed blob store under
+// .claude/ccr-blobs. Reviews only carry blob names, sizes and hashes.
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { logCat } from "./log";
+import type { WholeFileInfo, WholeFileReason } from "../types";
+
+/** Above this size a file is reviewed whole — text hunks would blow the decoration budget */
+export const MAX_TEXT_REVIEW_BYTES = 1024 * 1024;
+/** Same window git uses to decide a file is binary */
+const BINARY_SNIFF_BYTES = 8000;
+const BLOB_DIRNAME = "ccr-blobs";
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp", ".bmp", ".ico"]);
+
+/** Classifies raw bytes; null means the file is reviewable as text */
+export function wholeFileReason(bytes: Buffer): WholeFileReason | null {
+    if (bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return "binary";
+    if (bytes.length > MAX_TEXT_REVIEW_BYTES) return "large";
+    return null;
+}
+
+/** Same classification for content already decoded as utf8 (NUL survives decoding) */
+export function wholeFileReasonForText(content: string): WholeFileReason | null {
+    if (content.slice(0, BINARY_SNIFF_BYTES).includes("\0")) return "binary";
+    if (Buffer.byteLength(content, "utf8") > MAX_TEXT_REVIEW_BYTES) return "large";
+    return null;
+}
+
+export function isImagePath(filePath: string): boolean {
+    return IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+export function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Short hash shown to the user — blob names start with the full sha256 */
+export function shortHash(blob: string | undefined): string {
+    return blob ? blob.slice(0, 8) : "—";
+}
+
+/** Hunk label: what kind of whole-file change this is and how big each side is */
+export function describeWholeFile(info: WholeFileInfo): string {
+    const kind = info.reason === "binary" ? "Binary file" : "Large file";
+    if (!info.originalBlob) return `New ${kind.toLowerCase()} · ${formatSize(info.modifiedSize)}`;
+    if (!info.modifiedBlob) return `${kind} deleted · ${formatSize(info.originalSize)}`;
+    return `${kind} · ${formatSize(info.originalSize)} → ${formatSize(info.modifiedSize)}`;
+}
+
+/** One-line preview for non-image files: sizes plus sha256 prefixes of both sides */
+export function summarizeWholeFile(info: WholeFileInfo): string {
+    return `${describeWholeFile(info)} (sha256 ${shortHash(info.originalBlob)} → ${shortHash(info.modifiedBlob)})`;
+}
+
+function getBlobDir(workspacePath: string): string {
+    return path.join(workspacePath, ".claude", BLOB_DIRNAME);
+}
+
+/** Absolute path of a stored blob — keeps the file extension so image previews work */
+export function getBlobPath(workspacePath: string, blob: string): string {
+    return path.join(getBlobDir(workspacePath), blob);
+}
+
+/** Content-addressed name for bytes of filePath: sha256 + the file's extension */
+export function blobName(filePath: string, bytes: Buffer): string {
+    const hash = crypto.createHash("sha256").update(bytes).digest("hex");
+    return hash + path.extname(filePath).toLowerCase();
+}
+
+/** Stores bytes once per content hash; returns the blob name */
+export function storeBlob(workspacePath: string, filePath: string, bytes: Buffer): string {
+    const blob = blobName(filePath, bytes);
+    const blobPath = getBlobPath(workspacePath, blob);
+    if (!fs.existsSync(blobPath)) {
+        fs.mkdirSync(path.dirname(blobPath), { recursive: true });
+        fs.writeFileSync(blobPath, bytes);
+        logCat("file-add", `blob stored: ${blob} (${formatSize(bytes.length)}) for ${filePath}`);
+    }
+    return blob;
+}
+
+export function readBlob(workspacePath: string, blob: string): Buffer | null {
+    try {
+        return fs.readFileSync(getBlobPath(workspacePath, blob));
+    } catch (err) {
+        logCat("file-add", `blob missing: ${blob}: ${(err as Error).message}`);
+        return null;
+    }
+}
+
+/** Deletes blobs no review references — called on restore, when no undo history exists yet */
+export function pruneBlobs(workspacePath: string, keep: Set<string>): void {
+    const dir = getBlobDir(workspacePath);
+    let names: string[];
+    try {
+        names = fs.readdirSync(dir);
+    } catch {
+        return;
+    }
+    let removed = 0;
+    for (const name of names) {
+        if (keep.has(name)) continue;
+        try {
+            fs.unlinkSync(path.join(dir, name));
+            removed++;
+        } catch {}
+    }
+    if (removed > 0) logCat("review", `pruned ${removed} unreferenced blobs`);
+}
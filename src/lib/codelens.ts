@@ -18,7 +18,14 @@ export class ReviewCodeLensProvider implements vscode.CodeLensProvider {
         if (!review) return [];
 
         const lenses: vscode.CodeLens[] = [];
+        let hunkCount = 0;
         const filePath = document.uri.fsPath;
+        // A comment needs a Claude session to go to
+        const withComment =
+            !!review.sessionId &&
+            vscode.workspace
+                .getConfiguration("claudeCodeReview")
+                .get<boolean>("undoWithComment", true);
 
         for (const range of review.hunkRanges) {
             const hunk = review.hunks.find((h) => h.id === range.hunkId);
@@ -39,6 +46,11 @@ export class ReviewCodeLensProvider implements vscode.CodeLensProvider {
             );
 
             const lensRange = new vscode.Range(lensLine, 0, lensLine, 0);
+            hunkCount++;
+
+            if (hunk.label) {
+                lenses.push(new vscode.CodeLens(lensRange, { title: hunk.label, command: "" }));
+            }
 
             lenses.push(
                 new vscode.CodeLens(lensRange, {
@@ -57,10 +69,21 @@ export class ReviewCodeLensProvider implements vscode.CodeLensProvider {
                     arguments: [filePath, hunk.id],
                 }),
             );
+
+            if (withComment) {
+                lenses.push(
+                    new vscode.CodeLens(lensRange, {
+                        title: "$(comment) Undo with comment",
+                        tooltip: "Reject this change and tell Claude why",
+                        command: "ccr.rejectHunkWithComment",
+                        arguments: [filePath, hunk.id],
+                    }),
+                );
+            }
         }
 
         log.log(
-            `CodeLens.provide: ${document.uri.fsPath.split("/").pop()}, ${lenses.length / 2} hunks, ${(performance.now() - t0).toFixed(1)}ms`,
+            `CodeLens.provide: ${document.uri.fsPath.split("/").pop()}, ${hunkCount} hunks, ${(performance.now() - t0).toFixed(1)}ms`,
         );
         return lenses;
     }
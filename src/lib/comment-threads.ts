@@ -0,0 +1,82 @@
+// Comment threads — shows review comments in the editor through VS Code's Comments API
+//
+// Threads are rebuilt from the reviews whenever the CodeLens refreshes; a thread whose
+// comment and position didn't change is kept, so open threads don't flicker.
+import * as vscode from "vscode";
+import * as state from "./state";
+import { toBufferLine } from "./review-manager/comments";
+import type { ReviewComment } from "../types";
+
+export const COMMENT_CONTROLLER_ID = "ccr.reviewComments";
+
+/** A review comment as shown in its thread — carries what the delete command needs */
+export class ReviewCommentItem implements vscode.Comment {
+    readonly mode = vscode.CommentMode.Preview;
+    readonly author = { name: "Review" };
+    readonly contextValue = "ccr-comment";
+    readonly body: string;
+    readonly timestamp: Date;
+
+    constructor(
+        readonly filePath: string,
+        readonly comment: ReviewComment,
+    ) {
+        this.body = comment.body;
+        this.timestamp = new Date(comment.at);
+    }
+}
+
+export class ReviewCommentThreads implements vscode.Disposable {
+    private readonly controller = vscode.comments.createCommentController(
+        COMMENT_CONTROLLER_ID,
+        "Claude Code Review",
+    );
+    /** Shown threads by filePath, comment id, position and text */
+    private threads = new Map<string, vscode.CommentThread>();
+
+    constructor() {
+        this.controller.commentingRangeProvider = {
+            provideCommentingRanges: (document) => {
+                const review = state.activeReviews.get(document.uri.fsPath);
+                if (!review || review.wholeFile) return [];
+                return [new vscode.Range(0, 0, Math.max(document.lineCount - 1, 0), 0)];
+            },
+        };
+        this.controller.options = {
+            prompt: "Comment for Claude",
+            placeHolder: "What should change here? Sent with the other comments in one prompt",
+        };
+    }
+
+    refresh(): void {
+        const next = new Map<string, vscode.CommentThread>();
+        for (const review of state.activeReviews.values()) {
+            for (const comment of review.comments ?? []) {
+                const start = toBufferLine(review, comment.startLine);
+                const end = Math.max(toBufferLine(review, comment.endLine), start);
+                const key = JSON.stringify([review.filePath, comment.id, start, end, comment.body]);
+                let thread = this.threads.get(key);
+                if (thread) {
+                    this.threads.delete(key);
+                } else {
+                    thread = this.controller.createCommentThread(
+                        vscode.Uri.file(review.filePath),
+                        new vscode.Range(start, 0, end, 0),
+                        [new ReviewCommentItem(review.filePath, comment)],
+                    );
+                    thread.canReply = false;
+                    thread.contextValue = "ccr-comment-thread";
+                }
+                next.set(key, thread);
+            }
+        }
+        for (const stale of this.threads.values()) stale.dispose();
+        this.threads = next;
+    }
+
+    dispose(): void {
+        for (const thread of this.threads.values()) thread.dispose();
+        this.threads.clear();
+        this.controller.dispose();
+    }
+}
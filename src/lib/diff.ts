@@ -1,15 +1,27 @@
 // Diff computation and unified diff parsing
-import { execSync } from "child_process";
-import * as path from "path";
-import * as fs from "fs";
-import * as os from "os";
-import type { Hunk } from "../types";
+//
+// Line diff runs in-process: common prefix/suffix are trimmed, large regions are split at
+// lines unique to both sides (patience anchors), and each remaining chunk goes through
+// Myers' O((N+M)·D) algorithm with a cost cap. A chunk over the cap becomes one replace
+// hunk instead of stalling the extension host — no temp files, no git, no timeout.
+//
+// It stays synchronous on purpose: the cap bounds a chunk at (N+M)·MAX_EDIT_COST steps, and the
+// worst case `yarn bench` measures — 20k lines completely rewritten — takes under 100ms, once per
+// file added to review. A yielding variant would make every caller async (merge, patch import,
+// restore) for that one pause.
+import type { DiffOptions, Hunk } from "../types";
+
+/** Regions up to this many lines (both sides) go straight to Myers, larger ones are anchored first */
+const MAX_DIRECT_LINES = 2000;
+/** Edit distance after which a chunk is reported as a single replace */
+const MAX_EDIT_COST = 2000;
 
 export function computeDiff(
     originalContent: string,
     modifiedContent: string,
     _filePath: string,
     _workspacePath: string,
+    options: DiffOptions = {},
 ): Hunk[] {
     // New file creation: no original content, everything is added
     if (!originalContent && modifiedContent) {
@@ -29,46 +41,257 @@ export function computeDiff(
         ];
     }
 
-    // Always use diffTempFiles with the provided content (from snapshot or git show HEAD).
-    // This is more accurate than `git diff HEAD` which:
-    // 1. Includes prior uncommitted changes (not just Claude's edit)
-    // 2. Produces trailing-newline artifacts when file's final \n changes
-    const diffOutput = diffTempFiles(originalContent, modifiedContent);
-    if (!diffOutput) return [];
-    return parseUnifiedDiff(diffOutput);
+    // A missing final newline is not a change of its own — otherwise the last line of the
+    // file would show up as removed and re-added
+    const origLines = splitLines(originalContent);
+    const modLines = splitLines(modifiedContent);
+    const [a, b] = internLines(origLines, modLines, options);
+    const matches: Array<[number, number]> = [];
+    matchRegion(a, 0, a.length, b, 0, b.length, matches);
+    return hunksFromMatches(origLines, modLines, matches);
+}
+
+function splitLines(content: string): string[] {
+    if (!content) return [];
+    return (content.endsWith("\n") ? content.slice(0, -1) : content).split("\n");
 }
 
-function diffTempFiles(original: string, modified: string): string {
-    // Normalize trailing newlines so the last unchanged line isn't treated as changed
-    const normOrig = original && !original.endsWith("\n") ? original + "\n" : original;
-    const normMod = modified && !modified.endsWith("\n") ? modified + "\n" : modified;
-
-    const tmpOrig = path.join(os.tmpdir(), `dp-orig-${Date.now()}`);
-    const tmpMod = path.join(os.tmpdir(), `dp-mod-${Date.now()}`);
-    try {
-        fs.writeFileSync(tmpOrig, normOrig, "utf8");
-        fs.writeFileSync(tmpMod, normMod, "utf8");
-        try {
-            return execSync(`git diff --no-index -- "${tmpOrig}" "${tmpMod}"`, {
-                encoding: "utf8",
-                timeout: 5000,
-                stdio: "pipe",
-            });
-        } catch (e) {
-            return (e as { stdout?: string })?.stdout ?? "";
+/** Maps lines to integer ids so the diff compares numbers, not strings */
+function internLines(
+    origLines: string[],
+    modLines: string[],
+    options: DiffOptions,
+): [Int32Array, Int32Array] {
+    const ids = new Map<string, number>();
+    const key = options.ignoreWhitespace
+        ? (line: string) => line.replace(/\s+/g, "")
+        : options.ignoreLineEndings
+          ? (line: string) => line.replace(/\r$/, "")
+          : (line: string) => line;
+    const intern = (lines: string[]) => {
+        const out = new Int32Array(lines.length);
+        lines.forEach((line, i) => {
+            const k = key(line);
+            let id = ids.get(k);
+            if (id === undefined) {
+                id = ids.size;
+                ids.set(k, id);
+            }
+            out[i] = id;
+        });
+        return out;
+    };
+    return [intern(origLines), intern(modLines)];
+}
+
+/** Appends matched (orig, mod) index pairs for a[aLo..aHi) vs b[bLo..bHi), in order */
+function matchRegion(
+    a: Int32Array,
+    aLo: number,
+    aHi: number,
+    b: Int32Array,
+    bLo: number,
+    bHi: number,
+    out: Array<[number, number]>,
+): void {
+    let prefix = 0;
+    while (aLo + prefix < aHi && bLo + prefix < bHi && a[aLo + prefix] === b[bLo + prefix]) {
+        out.push([aLo + prefix, bLo + prefix]);
+        prefix++;
+    }
+    aLo += prefix;
+    bLo += prefix;
+    let suffix = 0;
+    while (
+        aHi - suffix > aLo &&
+        bHi - suffix > bLo &&
+        a[aHi - suffix - 1] === b[bHi - suffix - 1]
+    ) {
+        suffix++;
+    }
+    aHi -= suffix;
+    bHi -= suffix;
+
+    if (aLo < aHi && bLo < bHi) {
+        const anchors =
+            aHi - aLo + (bHi - bLo) > MAX_DIRECT_LINES ? findAnchors(a, aLo, aHi, b, bLo, bHi) : [];
+        if (anchors.length > 0) {
+            let ai = aLo;
+            let bi = bLo;
+            for (const [x, y] of anchors) {
+                matchRegion(a, ai, x, b, bi, y, out);
+                out.push([x, y]);
+                ai = x + 1;
+                bi = y + 1;
+            }
+            matchRegion(a, ai, aHi, b, bi, bHi, out);
+        } else {
+            myers(a, aLo, aHi, b, bLo, bHi, out);
         }
-    } catch {
-        return "";
-    } finally {
-        try {
-            fs.unlinkSync(tmpOrig);
-        } catch {}
-        try {
-            fs.unlinkSync(tmpMod);
-        } catch {}
     }
+
+    for (let i = suffix; i > 0; i--) out.push([aHi + suffix - i, bHi + suffix - i]);
+}
+
+/**
+ * Patience anchors: lines occurring exactly once on each side, reduced to the longest
+ * run that keeps the same order on both sides.
+ */
+function findAnchors(
+    a: Int32Array,
+    aLo: number,
+    aHi: number,
+    b: Int32Array,
+    bLo: number,
+    bHi: number,
+): Array<[number, number]> {
+    const countA = new Map<number, number>();
+    for (let i = aLo; i < aHi; i++) countA.set(a[i], (countA.get(a[i]) ?? 0) + 1);
+    const countB = new Map<number, number>();
+    const posB = new Map<number, number>();
+    for (let j = bLo; j < bHi; j++) {
+        countB.set(b[j], (countB.get(b[j]) ?? 0) + 1);
+        posB.set(b[j], j);
+    }
+    const pairs: Array<[number, number]> = [];
+    for (let i = aLo; i < aHi; i++) {
+        if (countA.get(a[i]) === 1 && countB.get(a[i]) === 1) pairs.push([i, posB.get(a[i])!]);
+    }
+
+    // Longest increasing subsequence on b positions (pairs are already sorted by a)
+    const tails: number[] = [];
+    const prev = new Int32Array(pairs.length).fill(-1);
+    for (let p = 0; p < pairs.length; p++) {
+        let lo = 0;
+        let hi = tails.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (pairs[tails[mid]][1] < pairs[p][1]) lo = mid + 1;
+            else hi = mid;
+        }
+        if (lo > 0) prev[p] = tails[lo - 1];
+        tails[lo] = p;
+    }
+    const result: Array<[number, number]> = [];
+    for (let p = tails.length ? tails[tails.length - 1] : -1; p !== -1; p = prev[p]) {
+        result.push(pairs[p]);
+    }
+    return result.reverse();
+}
+
+/** Greedy Myers with backtracking; past MAX_EDIT_COST the chunk gets no matches (one replace) */
+function myers(
+    a: Int32Array,
+    aLo: number,
+    aHi: number,
+    b: Int32Array,
+    bLo: number,
+    bHi: number,
+    out: Array<[number, number]>,
+): void {
+    const n = aHi - aLo;
+    const m = bHi - bLo;
+    const max = Math.min(n + m, MAX_EDIT_COST);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    let found = -1;
+    for (let d = 0; d <= max && found < 0; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x =
+                k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                    ? v[offset + k + 1]
+                    : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = d;
+                break;
+            }
+        }
+        // Only diagonals -d..d are reachable at step d
+        trace.push(v.slice(offset - d, offset + d + 1));
+    }
+    if (found < 0) return;
+
+    const matched: Array<[number, number]> = [];
+    let x = n;
+    let y = m;
+    for (let d = found; d > 0; d--) {
+        const prevV = trace[d - 1];
+        const at = (k: number) => prevV[k + d - 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+            matched.push([aLo + x, bLo + y]);
+        }
+        x = prevX;
+        y = prevY;
+    }
+    while (x > 0 && y > 0) {
+        x--;
+        y--;
+        matched.push([aLo + x, bLo + y]);
+    }
+    for (let i = matched.length - 1; i >= 0; i--) out.push(matched[i]);
+}
+
+/**
+ * Every gap between consecutive matches is one hunk: removed lines, then added lines.
+ * In ignore modes a run of matched lines whose text still differs becomes its own
+ * whitespaceOnly hunk, so the exact bytes of either side stay reproducible.
+ */
+function hunksFromMatches(
+    origLines: string[],
+    modLines: string[],
+    matches: Array<[number, number]>,
+): Hunk[] {
+    const hunks: Hunk[] = [];
+    const push = (ai: number, bi: number, x: number, y: number, whitespaceOnly: boolean) => {
+        const hunk = makeHunk(
+            hunks.length,
+            ai + 1,
+            bi + 1,
+            origLines.slice(ai, x),
+            modLines.slice(bi, y),
+        );
+        if (whitespaceOnly) hunk.whitespaceOnly = true;
+        hunks.push(hunk);
+    };
+    let ai = 0;
+    let bi = 0;
+    let wsStart: [number, number] | null = null;
+    const flushWhitespace = (x: number, y: number) => {
+        if (wsStart) push(wsStart[0], wsStart[1], x, y, true);
+        wsStart = null;
+    };
+    const sentinel: [number, number] = [origLines.length, modLines.length];
+    for (const [x, y] of [...matches, sentinel]) {
+        if (x > ai || y > bi) {
+            flushWhitespace(ai, bi);
+            push(ai, bi, x, y, false);
+        }
+        if (x < origLines.length && origLines[x] !== modLines[y]) {
+            wsStart ??= [x, y];
+        } else {
+            flushWhitespace(x, y);
+        }
+        ai = x + 1;
+        bi = y + 1;
+    }
+    return hunks;
 }
 
+/** Parses `git diff` output into hunks — used for diffs produced by git itself */
 export function parseUnifiedDiff(diffText: string): Hunk[] {
     const hunks: Hunk[] = [];
     const lines = diffText.split("\n");
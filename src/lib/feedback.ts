@@ -0,0 +1,138 @@
+// Rejection feedback — tells the Claude session that made a change why the user undid it
+//
+// The comment goes into the session's terminal as a prompt, so Claude doesn't simply re-apply
+// the change. While Claude is working (its terminal keeps printing) or the session isn't open,
+// comments wait and go out together once the terminal has been quiet for a moment. Enter is
+// only sent when the prompt is known to be empty — Claude stopped (Stop hook) and nobody typed
+// since. A quiet terminal alone may be a permission dialog or the user's half-typed prompt, so
+// otherwise the comment is pasted and left for the user to submit.
+import { logCat } from "./log";
+import type { Hunk } from "../types";
+
+/** How the session's terminal is reached — wired to PtyManager and the session map */
+export interface FeedbackTarget {
+    findPty(claudeSessionId: string): number | null;
+    isIdle(ptyId: number): boolean;
+    /** Last time anything was typed or written into the terminal (ms epoch, 0 = never) */
+    lastInputAt(ptyId: number): number;
+    write(ptyId: number, data: string): void;
+}
+
+/** sent: pasted and submitted; pasted: left in the prompt for the user; queued: not written yet */
+export type FeedbackResult = "sent" | "pasted" | "queued";
+
+/** Longer undone hunks are cut — the comment matters more than the full text */
+const MAX_DIFF_LINES = 40;
+const RETRY_MS = 1000;
+/** Claude's prompt takes a moment to accept a paste before Enter submits it */
+const SUBMIT_DELAY_MS = 150;
+
+let target: FeedbackTarget | null = null;
+interface PendingFeedback {
+    message: string;
+    /** Called once the message is in the terminal */
+    onWritten?: () => void;
+}
+
+/** Comments waiting per Claude session, oldest first */
+const pending = new Map<string, PendingFeedback[]>();
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+/** When each Claude session last finished its turn, per the Stop hook */
+const stoppedAt = new Map<string, number>();
+
+export function setFeedbackTarget(t: FeedbackTarget | null): void {
+    target = t;
+}
+
+/** Prompt text: where the change was, what it was, and the user's reason */
+export function composeFeedback(relPath: string, hunk: Hunk, reason: string): string {
+    const lines = [...hunk.removed.map((l) => `- ${l}`), ...hunk.added.map((l) => `+ ${l}`)];
+    const shown = lines.slice(0, MAX_DIFF_LINES);
+    if (lines.length > shown.length) shown.push(`… ${lines.length - shown.length} more lines`);
+    const at =
+        hunk.added.length > 1
+            ? `lines ${hunk.modStart}-${hunk.modStart + hunk.added.length - 1}`
+            : `line ${hunk.modStart}`;
+    return [
+        `I undid your change to ${relPath} (${at}) in review.`,
+        reason.trim() ? `Reason: ${reason.trim()}` : "No reason given.",
+        "",
+        "Undone change:",
+        "```diff",
+        ...shown,
+        "```",
+        "Don't re-apply it unless I ask; take the reason into account for related changes.",
+    ].join("\n");
+}
+
+/**
+ * Writes the comment into the session's prompt when it is idle, queues it otherwise. onWritten
+ * runs when it reaches the terminal — right away or once the queue is flushed.
+ */
+export function sendFeedback(
+    sessionId: string,
+    message: string,
+    onWritten?: () => void,
+): FeedbackResult {
+    pending.set(sessionId, [...(pending.get(sessionId) ?? []), { message, onWritten }]);
+    const result = flush().get(sessionId);
+    if (result) return result;
+    logCat("review", `feedback: queued for ${sessionId.slice(0, 8)} until its prompt is idle`);
+    scheduleRetry();
+    return "queued";
+}
+
+/** Claude finished its turn — its prompt is empty until someone types into the terminal */
+export function markSessionStopped(sessionId: string): void {
+    stoppedAt.set(sessionId, Date.now());
+    if (pending.has(sessionId)) flush();
+}
+
+/** Comments still waiting for their session */
+export function pendingFeedbackCount(): number {
+    let count = 0;
+    for (const queue of pending.values()) count += queue.length;
+    return count;
+}
+
+export function clearFeedback(): void {
+    pending.clear();
+    stoppedAt.clear();
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+}
+
+/** Writes every session's waiting comments whose terminal is idle; returns what was written */
+function flush(): Map<string, FeedbackResult> {
+    const written = new Map<string, FeedbackResult>();
+    if (!target) return written;
+    for (const [sessionId, messages] of pending) {
+        const ptyId = target.findPty(sessionId);
+        if (ptyId === null || !target.isIdle(ptyId)) continue;
+        pending.delete(sessionId);
+        const t = target;
+        const stopped = stoppedAt.get(sessionId);
+        const submit = stopped !== undefined && t.lastInputAt(ptyId) < stopped;
+        // Our own paste makes the prompt non-empty until Claude stops again
+        stoppedAt.delete(sessionId);
+        // Bracketed paste keeps the message one prompt; Enter follows once it has landed
+        t.write(ptyId, `\x1b[200~${messages.map((p) => p.message).join("\n\n")}\x1b[201~`);
+        if (submit) setTimeout(() => t.write(ptyId, "\r"), SUBMIT_DELAY_MS);
+        written.set(sessionId, submit ? "sent" : "pasted");
+        for (const p of messages) p.onWritten?.();
+        logCat(
+            "review",
+            `feedback: ${submit ? "sent" : "pasted, not submitted,"} ${messages.length} comment(s) to pty #${ptyId}`,
+        );
+    }
+    return written;
+}
+
+function scheduleRetry(): void {
+    if (retryTimer) return;
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        flush();
+        if (pending.size > 0) scheduleRetry();
+    }, RETRY_MS);
+}
@@ -1,9 +1,11 @@
 // Hook commands — VS Code-dependent check & install logic
 import * as vscode from "vscode";
 import * as fs from "fs";
+import * as path from "path";
 import * as log from "../log";
 import type { HookStatus, HookStatusCallback } from "../../types";
-import { getHookPath } from "./paths";
+import { getHooksDir } from "./paths";
+import { HOOK_RUNNER_FILENAME, LEGACY_HOOK_SCRIPT_FILENAMES } from "./constants";
 import { isHookInstalled } from "./validation";
 import { installHook } from "./installation";
 
@@ -17,7 +19,9 @@ export function checkAndPrompt(
         return "installed";
     }
 
-    const exists = fs.existsSync(getHookPath(workspacePath));
+    const exists = [HOOK_RUNNER_FILENAME, ...LEGACY_HOOK_SCRIPT_FILENAMES].some((f) =>
+        fs.existsSync(path.join(getHooksDir(workspacePath), f)),
+    );
     const status: HookStatus = exists ? "outdated" : "missing";
     log.log(`checkAndPrompt: hooks ${status}, auto-installing...`);
 
@@ -1,8 +1,14 @@
 // Hook constants — version, filenames, legacy markers
-export const HOOK_VERSION = "9.0";
-export const POST_HOOK_FILENAME = "ccr-review-hook.sh";
-export const PRE_HOOK_FILENAME = "ccr-pre-hook.sh";
-export const NOTIFY_HOOK_FILENAME = "ccr-notify-hook.sh";
+export const HOOK_VERSION = "14.0";
+// The bundle is CommonJS — a .js name would load as ESM in a "type": "module" project
+export const HOOK_RUNNER_FILENAME = "ccr-hook.cjs";
+export const BUNDLED_RUNNER_PATH = ["dist", "hook-runner.js"];
 // Legacy filenames for cleanup during migration
+export const LEGACY_HOOK_SCRIPT_FILENAMES = [
+    "ccr-review-hook.sh",
+    "ccr-pre-hook.sh",
+    "ccr-notify-hook.sh",
+    "ccr-hook.js",
+];
 export const LEGACY_PROMPT_GUARD_FILENAME = "ccr-prompt-guard.sh";
 export const LEGACY_PROMPT_BLOCKER_MARKER = "BLOCKED by Claude Code Review";
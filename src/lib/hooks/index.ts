@@ -1,6 +1,7 @@
 // Barrel re-exports for hooks module
-export { getPostHookScript, getPreHookScript, getNotifyHookScript } from "./scripts";
-export { getHookPath, getPreHookPath, getNotifyHookPath } from "./paths";
+export { getHookRunnerScript, getHookCommand } from "./scripts";
+export { getHookRunnerPath, initHookRunner } from "./paths";
 export { isHookInstalled } from "./validation";
 export { installHook } from "./installation";
 export { checkAndPrompt, doInstall } from "./commands";
+export { registerServer, unregisterServer } from "./registry";
@@ -1,55 +1,62 @@
-// Hook installation — writes scripts to disk and registers in Claude settings
+// Hook installation — writes the hook runner to disk and registers it in Claude settings
 import * as fs from "fs";
 import * as path from "path";
 import * as log from "../log";
 import {
-    POST_HOOK_FILENAME,
-    PRE_HOOK_FILENAME,
-    NOTIFY_HOOK_FILENAME,
+    HOOK_RUNNER_FILENAME,
+    LEGACY_HOOK_SCRIPT_FILENAMES,
     LEGACY_PROMPT_GUARD_FILENAME,
     LEGACY_PROMPT_BLOCKER_MARKER,
 } from "./constants";
-import {
-    getHooksDir,
-    getHookPath,
-    getPreHookPath,
-    getNotifyHookPath,
-    getClaudeSettingsPath,
-} from "./paths";
-import { getPostHookScript, getPreHookScript, getNotifyHookScript } from "./scripts";
+import { getHooksDir, getHookRunnerPath, getClaudeSettingsPath } from "./paths";
+import { getHookRunnerScript, getHookCommand, getToolMatcher } from "./scripts";
+import { APPROVAL_TIMEOUT_MS } from "./runner";
+
+/** Above the runner's own approval timeout, so the runner gives up first and fails open */
+const PRE_HOOK_TIMEOUT_S = APPROVAL_TIMEOUT_MS / 1000 + 30;
+
+/** Filenames of every script this extension has ever registered as a hook */
+const MANAGED_FILENAMES = [HOOK_RUNNER_FILENAME, ...LEGACY_HOOK_SCRIPT_FILENAMES];
 
 export function installHook(workspacePath: string): string {
     const hooksDir = getHooksDir(workspacePath);
-    const postHookPath = getHookPath(workspacePath);
-    const preHookPath = getPreHookPath(workspacePath);
-    const notifyHookPath = getNotifyHookPath(workspacePath);
+    const runnerPath = getHookRunnerPath(workspacePath);
+
+    // Resolve the script first — a missing bundle must fail before touching settings
+    const script = getHookRunnerScript();
 
     fs.mkdirSync(hooksDir, { recursive: true });
+    fs.writeFileSync(runnerPath, script, { mode: 0o755 });
+    log.log(`Hook runner written to ${runnerPath}`);
 
-    fs.writeFileSync(postHookPath, getPostHookScript(), { mode: 0o755 });
-    fs.writeFileSync(preHookPath, getPreHookScript(), { mode: 0o755 });
-    fs.writeFileSync(notifyHookPath, getNotifyHookScript(), { mode: 0o755 });
-    log.log(`Hook scripts written to ${hooksDir}`);
+    // Clean up legacy bash scripts and the runner's old .js name (replaced by the .cjs runner)
+    // and the prompt guard (slash commands are blocked at webview level now)
+    for (const legacy of [...LEGACY_HOOK_SCRIPT_FILENAMES, LEGACY_PROMPT_GUARD_FILENAME]) {
+        const legacyPath = path.join(hooksDir, legacy);
+        try {
+            if (fs.existsSync(legacyPath)) {
+                fs.unlinkSync(legacyPath);
+                log.log(`Removed legacy hook script: ${legacyPath}`);
+            }
+        } catch {}
+    }
 
-    // Clean up legacy prompt guard file (slash commands are blocked at webview level now)
-    const legacyGuardPath = path.join(hooksDir, LEGACY_PROMPT_GUARD_FILENAME);
-    try {
-        if (fs.existsSync(legacyGuardPath)) {
-            fs.unlinkSync(legacyGuardPath);
-            log.log(`Removed legacy prompt guard: ${legacyGuardPath}`);
-        }
-    } catch {}
+    registerHooksInSettings(workspacePath);
+    return runnerPath;
+}
 
-    registerHooksInSettings(workspacePath, postHookPath, preHookPath, notifyHookPath);
-    return postHookPath;
+/** Drop entries pointing at any script managed by this extension (current or legacy) */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function withoutManagedEntries(entries: any[]): any[] {
+    return entries.filter((entry) => {
+        const isManaged = (cmd?: string) => MANAGED_FILENAMES.some((f) => cmd?.includes(f));
+        if (entry.type === "command" && isManaged(entry.command)) return false;
+        if (entry.hooks?.some((h: { command?: string }) => isManaged(h.command))) return false;
+        return true;
+    });
 }
 
-function registerHooksInSettings(
-    workspacePath: string,
-    postHookPath: string,
-    preHookPath: string,
-    notifyHookPath: string,
-): void {
+function registerHooksInSettings(workspacePath: string): void {
     const settingsPath = getClaudeSettingsPath(workspacePath);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let settings: Record<string, any> = {};
@@ -61,44 +68,25 @@ function registerHooksInSettings(
 
     // PostToolUse
     if (!Array.isArray(settings.hooks.PostToolUse)) settings.hooks.PostToolUse = [];
-    settings.hooks.PostToolUse = settings.hooks.PostToolUse.filter(
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (entry: any) => {
-            if (entry.type === "command" && entry.command?.includes(POST_HOOK_FILENAME))
-                return false;
-            if (
-                entry.hooks?.some((h: { command?: string }) =>
-                    h.command?.includes(POST_HOOK_FILENAME),
-                )
-            )
-                return false;
-            return true;
-        },
-    );
+    settings.hooks.PostToolUse = withoutManagedEntries(settings.hooks.PostToolUse);
     settings.hooks.PostToolUse.push({
-        matcher: "Edit|Write|Bash",
-        hooks: [{ type: "command", command: postHookPath }],
+        matcher: getToolMatcher(),
+        hooks: [{ type: "command", command: getHookCommand(workspacePath, "post") }],
     });
 
     // PreToolUse
     if (!Array.isArray(settings.hooks.PreToolUse)) settings.hooks.PreToolUse = [];
-    settings.hooks.PreToolUse = settings.hooks.PreToolUse.filter(
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (entry: any) => {
-            if (entry.type === "command" && entry.command?.includes(PRE_HOOK_FILENAME))
-                return false;
-            if (
-                entry.hooks?.some((h: { command?: string }) =>
-                    h.command?.includes(PRE_HOOK_FILENAME),
-                )
-            )
-                return false;
-            return true;
-        },
-    );
+    settings.hooks.PreToolUse = withoutManagedEntries(settings.hooks.PreToolUse);
     settings.hooks.PreToolUse.push({
-        matcher: "Edit|Write|Bash",
-        hooks: [{ type: "command", command: preHookPath }],
+        matcher: getToolMatcher(),
+        hooks: [
+            {
+                type: "command",
+                command: getHookCommand(workspacePath, "pre"),
+                // Gated mode holds the call while the user reviews it (seconds)
+                timeout: PRE_HOOK_TIMEOUT_S,
+            },
+        ],
     });
 
     // Clean up legacy UserPromptSubmit entries (prompt guard moved to webview level)
@@ -128,23 +116,17 @@ function registerHooksInSettings(
 
     // Notification — OS-level notifications when Claude needs attention
     if (!Array.isArray(settings.hooks.Notification)) settings.hooks.Notification = [];
-    settings.hooks.Notification = settings.hooks.Notification.filter(
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (entry: any) => {
-            if (entry.type === "command" && entry.command?.includes(NOTIFY_HOOK_FILENAME))
-                return false;
-            if (
-                entry.hooks?.some((h: { command?: string }) =>
-                    h.command?.includes(NOTIFY_HOOK_FILENAME),
-                )
-            )
-                return false;
-            return true;
-        },
-    );
+    settings.hooks.Notification = withoutManagedEntries(settings.hooks.Notification);
     settings.hooks.Notification.push({
         matcher: "*",
-        hooks: [{ type: "command", command: notifyHookPath }],
+        hooks: [{ type: "command", command: getHookCommand(workspacePath, "notify") }],
+    });
+
+    // Stop — Claude finished its turn; review comments may then be submitted to its prompt
+    if (!Array.isArray(settings.hooks.Stop)) settings.hooks.Stop = [];
+    settings.hooks.Stop = withoutManagedEntries(settings.hooks.Stop);
+    settings.hooks.Stop.push({
+        hooks: [{ type: "command", command: getHookCommand(workspacePath, "stop") }],
     });
 
     fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 4), "utf8");
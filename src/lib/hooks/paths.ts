@@ -1,23 +1,28 @@
 // Hook paths — resolve file system locations for hook scripts and settings
 import * as path from "path";
-import { POST_HOOK_FILENAME, PRE_HOOK_FILENAME, NOTIFY_HOOK_FILENAME } from "./constants";
+import { HOOK_RUNNER_FILENAME, BUNDLED_RUNNER_PATH } from "./constants";
 
-export function getClaudeSettingsPath(workspacePath: string): string {
-    return path.join(workspacePath, ".claude", "settings.local.json");
+/** Extension root path, set during activation */
+let extensionPath = "";
+
+/** Must be called during activation to locate the bundled hook runner */
+export function initHookRunner(extPath: string): void {
+    extensionPath = extPath;
 }
 
-export function getHooksDir(workspacePath: string): string {
-    return path.join(workspacePath, ".claude", "hooks");
+/** Path of dist/hook-runner.js inside the installed extension (undefined before activation) */
+export function getBundledRunnerPath(): string | undefined {
+    return extensionPath ? path.join(extensionPath, ...BUNDLED_RUNNER_PATH) : undefined;
 }
 
-export function getHookPath(workspacePath: string): string {
-    return path.join(getHooksDir(workspacePath), POST_HOOK_FILENAME);
+export function getClaudeSettingsPath(workspacePath: string): string {
+    return path.join(workspacePath, ".claude", "settings.local.json");
 }
 
-export function getPreHookPath(workspacePath: string): string {
-    return path.join(getHooksDir(workspacePath), PRE_HOOK_FILENAME);
+export function getHooksDir(workspacePath: string): string {
+    return path.join(workspacePath, ".claude", "hooks");
 }
 
-export function getNotifyHookPath(workspacePath: string): string {
-    return path.join(getHooksDir(workspacePath), NOTIFY_HOOK_FILENAME);
+export function getHookRunnerPath(workspacePath: string): string {
+    return path.join(getHooksDir(workspacePath), HOOK_RUNNER_FILENAME);
 }
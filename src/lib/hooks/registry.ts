@@ -0,0 +1,150 @@
+// Server registry — maps workspace roots to hook server ports across VS Code windows.
+// Shared by the extension (writes) and the hook runner (reads), so Node built-ins only.
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export interface ServerEntry {
+    port: number;
+    pid: number;
+}
+
+/** Workspace root → live hook server */
+export type ServerRegistry = Record<string, ServerEntry>;
+
+export const REGISTRY_FILENAME = "ccr-servers.json";
+
+export function getRegistryPath(): string {
+    return path.join(os.homedir(), ".claude", REGISTRY_FILENAME);
+}
+
+/** True when `target` is `root` itself or lies below it */
+export function isPathInside(root: string, target: string): boolean {
+    const rel = path.relative(path.resolve(root), path.resolve(target));
+    return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
+
+export function readRegistry(registryPath = getRegistryPath()): ServerRegistry {
+    try {
+        const data = JSON.parse(fs.readFileSync(registryPath, "utf8")) as unknown;
+        return data && typeof data === "object" ? (data as ServerRegistry) : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Owning window for a hook call: the registered root that contains `cwd` most specifically.
+ * Nested workspaces (monorepo package opened in its own window) win over their parents.
+ */
+export function resolveOwner(
+    registry: ServerRegistry,
+    cwd: string,
+    isAlive: (pid: number) => boolean = isProcessAlive,
+): { root: string; entry: ServerEntry } | null {
+    let best: { root: string; entry: ServerEntry } | null = null;
+    for (const [root, entry] of Object.entries(registry)) {
+        if (!entry || typeof entry.port !== "number" || !isPathInside(root, cwd)) continue;
+        if (!isAlive(entry.pid)) continue;
+        if (!best || root.length > best.root.length) best = { root, entry };
+    }
+    return best;
+}
+
+/** Record this window's server for `workspaceRoot`, pruning entries of dead processes */
+export function registerServer(
+    workspaceRoot: string,
+    port: number,
+    registryPath = getRegistryPath(),
+): void {
+    updateRegistry(registryPath, (registry) => {
+        registry[path.resolve(workspaceRoot)] = { port, pid: process.pid };
+    });
+}
+
+/** Remove `workspaceRoot` — only if the entry still belongs to this process */
+export function unregisterServer(workspaceRoot: string, registryPath = getRegistryPath()): void {
+    updateRegistry(registryPath, (registry) => {
+        const root = path.resolve(workspaceRoot);
+        if (registry[root]?.pid === process.pid) delete registry[root];
+    });
+}
+
+/** A lock older than this was left by a window that died mid-update */
+export const STALE_LOCK_MS = 5000;
+const LOCK_WAIT_MS = 2000;
+const LOCK_RETRY_MS = 20;
+
+function updateRegistry(registryPath: string, mutate: (registry: ServerRegistry) => void): void {
+    fs.mkdirSync(path.dirname(registryPath), { recursive: true });
+    // Windows starting together must not each write back a registry without the other's entry
+    withLock(`${registryPath}.lock`, () => {
+        const registry = readRegistry(registryPath);
+        for (const [root, entry] of Object.entries(registry)) {
+            if (!entry || !isProcessAlive(entry.pid)) delete registry[root];
+        }
+        mutate(registry);
+        // Write-then-rename so a concurrently starting window never reads a half-written file
+        const tmp = `${registryPath}.${process.pid}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(registry, null, 4), "utf8");
+        fs.renameSync(tmp, registryPath);
+    });
+}
+
+/**
+ * Runs fn holding an O_EXCL lockfile. A stale lock is taken over; when the lock can't be had
+ * in time, fn runs anyway — a lost entry is re-added on the next start, a hung window isn't.
+ */
+export function withLock(lockPath: string, fn: () => void): void {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    let fd: number | null = null;
+    while (fd === null) {
+        try {
+            fd = fs.openSync(lockPath, "wx");
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== "EEXIST") break;
+            if (isStale(lockPath)) {
+                try {
+                    fs.unlinkSync(lockPath);
+                } catch {}
+                continue;
+            }
+            if (Date.now() >= deadline) break;
+            sleep(LOCK_RETRY_MS);
+        }
+    }
+    try {
+        fn();
+    } finally {
+        if (fd !== null) {
+            fs.closeSync(fd);
+            try {
+                fs.unlinkSync(lockPath);
+            } catch {}
+        }
+    }
+}
+
+function isStale(lockPath: string): boolean {
+    try {
+        return Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS;
+    } catch {
+        // Released between open and stat — just retry
+        return false;
+    }
+}
+
+function sleep(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+    if (!Number.isInteger(pid) || pid <= 0) return false;
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (err) {
+        // EPERM: process exists but belongs to another user
+        return (err as NodeJS.ErrnoException).code === "EPERM";
+    }
+}
@@ -0,0 +1,336 @@
+// Hook runner — Node logic executed by Claude CLI for PreToolUse, PostToolUse, Notification and Stop.
+// Bundled separately (src/hook-runner.ts → dist/hook-runner.js) and copied into .claude/hooks.
+// Must only depend on Node built-ins: it runs outside VS Code, in Claude CLI's process tree.
+import * as fs from "fs";
+import * as path from "path";
+import * as http from "http";
+import { readRegistry, resolveOwner } from "./registry";
+import type { ApprovalDecision, ApprovalRequest } from "../../types";
+
+export type HookMode = "pre" | "post" | "notify" | "stop";
+
+export type HookErrorCode =
+    | "bad-mode"
+    | "parse-failed"
+    | "no-port-file"
+    | "read-failed"
+    | "request-failed"
+    | "unauthorized"
+    | "http-error";
+
+export interface HookInput {
+    cwd?: string;
+    session_id?: string;
+    tool_name?: string;
+    tool_input?: {
+        file_path?: string;
+        notebook_path?: string;
+        command?: string;
+    } & ApprovalRequest["input"];
+    [key: string]: unknown;
+}
+
+export interface HookRunResult {
+    ok: boolean;
+    mode: string;
+    endpoint?: string;
+    status?: number;
+    skipped?: string;
+    /** Set when the user denied the tool call in gated mode — the reason Claude is given */
+    denied?: string;
+    error?: { code: HookErrorCode; message: string };
+}
+
+/** Server that owns a hook call and the .claude dir holding its ccr-token */
+export interface ServerLocation {
+    port: number;
+    claudeDir: string;
+}
+
+/** Dependencies that touch the outside world — replaced in tests */
+export interface HookRunnerDeps {
+    readFile(filePath: string): Buffer;
+    isFile(filePath: string): boolean;
+    locateServer(hooksDir: string, cwd: string | undefined): ServerLocation | null;
+    readToken(claudeDir: string): string | null;
+    post(port: number, token: string, endpoint: string, body: string): Promise<HookResponse>;
+    /** Like post, but waits as long as a review may take */
+    ask(port: number, token: string, endpoint: string, body: string): Promise<HookResponse>;
+}
+
+export interface HookResponse {
+    status: number;
+    body: string;
+}
+
+/** Tools that modify a single file named in tool_input (file_path / notebook_path) */
+export const FILE_TOOLS = ["Edit", "Write", "MultiEdit", "NotebookEdit"];
+/** Every tool routed through PreToolUse/PostToolUse — also the hook matcher */
+export const REVIEWED_TOOLS = [...FILE_TOOLS, "Bash"];
+/** Tools gated mode asks about before they run */
+export const GATED_TOOLS = ["Edit", "Write", "MultiEdit", "Bash"];
+/** Must match AUTH_HEADER in src/lib/server.ts */
+const AUTH_HEADER = "X-CCR-Token";
+const REQUEST_TIMEOUT_MS = 5000;
+/** The user reviews the proposed change meanwhile — stays under the PreToolUse hook timeout */
+export const APPROVAL_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function isHookMode(mode: string | undefined): mode is HookMode {
+    return mode === "pre" || mode === "post" || mode === "notify" || mode === "stop";
+}
+
+function targetPath(input: HookInput): string | undefined {
+    return input.tool_input?.file_path ?? input.tool_input?.notebook_path;
+}
+
+/** PostToolUse payload: {file, tool} for file tools, {tool, command} for Bash */
+export function buildChangedPayload(input: HookInput): Record<string, unknown> | null {
+    const tool = input.tool_name ?? "";
+    if (FILE_TOOLS.includes(tool)) {
+        const fp = targetPath(input);
+        return fp ? { file: fp, tool } : null;
+    }
+    if (tool === "Bash") {
+        return { tool: "Bash", command: input.tool_input?.command ?? "" };
+    }
+    return null;
+}
+
+/** PreToolUse payload: {file, tool, content(base64)} for file tools, {tool, command} for Bash */
+export function buildSnapshotPayload(
+    input: HookInput,
+    deps: Pick<HookRunnerDeps, "readFile" | "isFile">,
+): Record<string, unknown> | null {
+    const tool = input.tool_name ?? "";
+    if (FILE_TOOLS.includes(tool)) {
+        const fp = targetPath(input);
+        if (!fp) return null;
+        const content = deps.isFile(fp) ? deps.readFile(fp).toString("base64") : "";
+        return { file: fp, tool, content };
+    }
+    if (tool === "Bash") {
+        return { tool: "Bash", command: input.tool_input?.command ?? "" };
+    }
+    return null;
+}
+
+/** /approve payload for gated tools; null for tools that run without asking */
+export function buildApprovalPayload(input: HookInput): ApprovalRequest | null {
+    const tool = input.tool_name ?? "";
+    if (!GATED_TOOLS.includes(tool)) return null;
+    return { tool, file: targetPath(input), input: input.tool_input ?? {} };
+}
+
+/** PreToolUse hook output that blocks the tool call and tells Claude why */
+export function formatDenyOutput(reason: string): string {
+    return JSON.stringify({
+        hookSpecificOutput: {
+            hookEventName: "PreToolUse",
+            permissionDecision: "deny",
+            permissionDecisionReason: reason,
+        },
+    });
+}
+
+export async function runHook(
+    mode: string | undefined,
+    rawInput: string,
+    hooksDir: string,
+    deps: HookRunnerDeps = defaultDeps,
+): Promise<HookRunResult> {
+    if (!isHookMode(mode)) {
+        return fail(String(mode), "bad-mode", `unknown hook mode "${mode}"`);
+    }
+
+    let input: HookInput;
+    try {
+        input = JSON.parse(rawInput) as HookInput;
+    } catch (err) {
+        return fail(mode, "parse-failed", (err as Error).message);
+    }
+
+    const server = deps.locateServer(hooksDir, input.cwd);
+    if (server === null) {
+        return { ok: true, mode, skipped: "no ccr-port file (VS Code not running?)" };
+    }
+    const { port } = server;
+    const token = deps.readToken(server.claudeDir);
+    if (token === null) {
+        return { ok: true, mode, skipped: "no ccr-token file (extension outdated?)" };
+    }
+
+    let endpoint: string;
+    let payload: Record<string, unknown> | null;
+    if (mode === "notify") {
+        endpoint = "/notify";
+        payload = input;
+    } else if (mode === "stop") {
+        endpoint = "/stop";
+        payload = { session_id: input.session_id };
+    } else if (mode === "pre") {
+        endpoint = "/snapshot";
+        try {
+            payload = buildSnapshotPayload(input, deps);
+        } catch (err) {
+            return fail(mode, "read-failed", (err as Error).message);
+        }
+    } else {
+        endpoint = "/changed";
+        payload = buildChangedPayload(input);
+    }
+
+    if (!payload) {
+        return { ok: true, mode, skipped: `unsupported tool "${input.tool_name ?? ""}"` };
+    }
+
+    let reply: HookResponse;
+    try {
+        reply = await deps.post(port, token, endpoint, JSON.stringify(payload));
+    } catch (err) {
+        return { ...fail(mode, "request-failed", (err as Error).message), endpoint };
+    }
+    const { status } = reply;
+    if (status === 401) {
+        return { ...fail(mode, "unauthorized", "server rejected ccr-token"), endpoint, status };
+    }
+    if (status < 200 || status >= 300) {
+        return { ...fail(mode, "http-error", `server responded ${status}`), endpoint, status };
+    }
+
+    // Gated mode: the /snapshot reply says whether the extension asks before tools run
+    const approval =
+        mode === "pre" && isGatedReply(reply.body) ? buildApprovalPayload(input) : null;
+    if (approval) {
+        let answer: HookResponse;
+        try {
+            answer = await deps.ask(port, token, "/approve", JSON.stringify(approval));
+        } catch (err) {
+            // A review that can't be asked must not block Claude — same as every other failure
+            return {
+                ...fail(mode, "request-failed", (err as Error).message),
+                endpoint: "/approve",
+            };
+        }
+        if (answer.status >= 200 && answer.status < 300) {
+            let decision: ApprovalDecision | null = null;
+            try {
+                decision = JSON.parse(answer.body) as ApprovalDecision;
+            } catch {}
+            if (decision?.decision === "deny") {
+                return {
+                    ok: true,
+                    mode,
+                    endpoint: "/approve",
+                    status: answer.status,
+                    denied: decision.reason || "The user rejected this change in review.",
+                };
+            }
+        }
+    }
+    return { ok: true, mode, endpoint, status };
+}
+
+function isGatedReply(body: string): boolean {
+    try {
+        return (JSON.parse(body) as { gated?: unknown }).gated === true;
+    } catch {
+        return false;
+    }
+}
+
+/** Append one JSON line per invocation to .claude/logs/hooks.log */
+export function logHookResult(hooksDir: string, result: HookRunResult): void {
+    try {
+        const logDir = path.join(hooksDir, "..", "logs");
+        fs.mkdirSync(logDir, { recursive: true });
+        const line = JSON.stringify({ ts: new Date().toISOString(), ...result });
+        fs.appendFileSync(path.join(logDir, "hooks.log"), line + "\n", "utf8");
+    } catch {
+        // Logging must never break Claude's tool call
+    }
+}
+
+function fail(mode: string, code: HookErrorCode, message: string): HookRunResult {
+    return { ok: false, mode, error: { code, message } };
+}
+
+function readPortFile(claudeDir: string): number | null {
+    try {
+        const port = parseInt(fs.readFileSync(path.join(claudeDir, "ccr-port"), "utf8"));
+        return Number.isFinite(port) && port > 0 ? port : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The window whose workspace contains the hook's cwd (via the server registry) owns the call.
+ * Falls back to the ccr-port file next to the installed runner.
+ */
+function locateServerDefault(hooksDir: string, cwd: string | undefined): ServerLocation | null {
+    if (cwd) {
+        const owner = resolveOwner(readRegistry(), cwd);
+        if (owner) return { port: owner.entry.port, claudeDir: path.join(owner.root, ".claude") };
+    }
+    const claudeDir = path.join(hooksDir, "..");
+    const port = readPortFile(claudeDir);
+    return port === null ? null : { port, claudeDir };
+}
+
+function readTokenFile(claudeDir: string): string | null {
+    try {
+        const token = fs.readFileSync(path.join(claudeDir, "ccr-token"), "utf8").trim();
+        return token || null;
+    } catch {
+        return null;
+    }
+}
+
+function request(
+    port: number,
+    token: string,
+    endpoint: string,
+    body: string,
+    timeoutMs: number,
+): Promise<HookResponse> {
+    return new Promise((resolve, reject) => {
+        const req = http.request(
+            {
+                host: "127.0.0.1",
+                port,
+                path: endpoint,
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "Content-Length": Buffer.byteLength(body),
+                    [AUTH_HEADER]: token,
+                },
+                timeout: timeoutMs,
+            },
+            (res) => {
+                let data = "";
+                res.setEncoding("utf8");
+                res.on("data", (chunk: string) => (data += chunk));
+                res.on("end", () => resolve({ status: res.statusCode ?? 0, body: data }));
+            },
+        );
+        req.on("timeout", () => req.destroy(new Error(`timeout after ${timeoutMs}ms`)));
+        req.on("error", reject);
+        req.end(body);
+    });
+}
+
+const defaultDeps: HookRunnerDeps = {
+    readFile: (fp) => fs.readFileSync(fp),
+    isFile: (fp) => {
+        try {
+            return fs.statSync(fp).isFile();
+        } catch {
+            return false;
+        }
+    },
+    locateServer: locateServerDefault,
+    readToken: readTokenFile,
+    post: (port, token, endpoint, body) => request(port, token, endpoint, body, REQUEST_TIMEOUT_MS),
+    ask: (port, token, endpoint, body) => request(port, token, endpoint, body, APPROVAL_TIMEOUT_MS),
+};
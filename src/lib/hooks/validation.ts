@@ -1,36 +1,42 @@
 // Hook validation — checks whether hooks are correctly installed
 import * as fs from "fs";
 import * as log from "../log";
-import { POST_HOOK_FILENAME, PRE_HOOK_FILENAME, NOTIFY_HOOK_FILENAME } from "./constants";
-import { getHookPath, getPreHookPath, getNotifyHookPath, getClaudeSettingsPath } from "./paths";
-import { getPostHookScript, getPreHookScript, getNotifyHookScript } from "./scripts";
+import { getHookRunnerPath, getClaudeSettingsPath } from "./paths";
+import { getHookRunnerScript, getHookCommand, getToolMatcher } from "./scripts";
 
-export function isHookInstalled(workspacePath: string): boolean {
-    const postHookPath = getHookPath(workspacePath);
-    const preHookPath = getPreHookPath(workspacePath);
-    const notifyHookPath = getNotifyHookPath(workspacePath);
+type HookEntries = Array<{
+    matcher?: string;
+    hooks?: Array<{ type?: string; command?: string }>;
+}>;
 
-    if (
-        !fs.existsSync(postHookPath) ||
-        !fs.existsSync(preHookPath) ||
-        !fs.existsSync(notifyHookPath)
-    ) {
-        log.log("isHookInstalled: script file(s) missing");
-        return false;
-    }
+/** `matcher` undefined = any matcher accepted; otherwise must match exactly (new tools added) */
+function hasCommand(entries: HookEntries | undefined, command: string, matcher?: string) {
+    return !!entries?.some(
+        (e) =>
+            (matcher === undefined || e.matcher === matcher) &&
+            e.hooks?.some((h) => h.type === "command" && h.command === command),
+    );
+}
+
+export function isHookInstalled(workspacePath: string): boolean {
+    const runnerPath = getHookRunnerPath(workspacePath);
 
-    if (fs.readFileSync(postHookPath, "utf8") !== getPostHookScript()) {
-        log.log("isHookInstalled: post hook content mismatch");
+    if (!fs.existsSync(runnerPath)) {
+        log.log("isHookInstalled: hook runner missing");
         return false;
     }
 
-    if (fs.readFileSync(preHookPath, "utf8") !== getPreHookScript()) {
-        log.log("isHookInstalled: pre hook content mismatch");
+    // Byte-for-byte comparison with the bundled runner — any extension update that
+    // changes the runner (or HOOK_VERSION) marks the installed copy as outdated.
+    let expected: string;
+    try {
+        expected = getHookRunnerScript();
+    } catch (err) {
+        log.log(`isHookInstalled: cannot read bundled runner: ${(err as Error).message}`);
         return false;
     }
-
-    if (fs.readFileSync(notifyHookPath, "utf8") !== getNotifyHookScript()) {
-        log.log("isHookInstalled: notify hook content mismatch");
+    if (fs.readFileSync(runnerPath, "utf8") !== expected) {
+        log.log("isHookInstalled: hook runner content mismatch");
         return false;
     }
 
@@ -38,41 +44,31 @@ export function isHookInstalled(workspacePath: string): boolean {
     try {
         const settings = JSON.parse(fs.readFileSync(settingsPath, "utf8")) as {
             hooks?: {
-                PostToolUse?: Array<{
-                    matcher?: string;
-                    hooks?: Array<{ type?: string; command?: string }>;
-                }>;
-                PreToolUse?: Array<{
-                    matcher?: string;
-                    hooks?: Array<{ type?: string; command?: string }>;
-                }>;
-                Notification?: Array<{
-                    matcher?: string;
-                    hooks?: Array<{ type?: string; command?: string }>;
-                }>;
+                PostToolUse?: HookEntries;
+                PreToolUse?: HookEntries;
+                Notification?: HookEntries;
+                Stop?: HookEntries;
             };
         };
 
-        const hasPost = settings?.hooks?.PostToolUse?.some(
-            (e) =>
-                e.matcher &&
-                e.hooks?.some(
-                    (h) => h.type === "command" && h.command?.includes(POST_HOOK_FILENAME),
-                ),
+        const hasPost = hasCommand(
+            settings?.hooks?.PostToolUse,
+            getHookCommand(workspacePath, "post"),
+            getToolMatcher(),
         );
-        const hasPre = settings?.hooks?.PreToolUse?.some(
-            (e) =>
-                e.matcher &&
-                e.hooks?.some(
-                    (h) => h.type === "command" && h.command?.includes(PRE_HOOK_FILENAME),
-                ),
+        const hasPre = hasCommand(
+            settings?.hooks?.PreToolUse,
+            getHookCommand(workspacePath, "pre"),
+            getToolMatcher(),
         );
-
-        const hasNotify = settings?.hooks?.Notification?.some((e) =>
-            e.hooks?.some((h) => h.type === "command" && h.command?.includes(NOTIFY_HOOK_FILENAME)),
+        const hasNotify = hasCommand(
+            settings?.hooks?.Notification,
+            getHookCommand(workspacePath, "notify"),
         );
 
-        if (!hasPost || !hasPre || !hasNotify) {
+        const hasStop = hasCommand(settings?.hooks?.Stop, getHookCommand(workspacePath, "stop"));
+
+        if (!hasPost || !hasPre || !hasNotify || !hasStop) {
             log.log("isHookInstalled: missing hook entries in settings");
             return false;
         }
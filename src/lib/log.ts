@@ -54,7 +54,8 @@ export type LogCategory =
     | "session"
     | "resolve"
     | "content"
-    | "file-add";
+    | "file-add"
+    | "fingerprint";
 
 export function logCat(category: LogCategory, ...args: unknown[]): void {
     const msg = args.map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a))).join(" ");
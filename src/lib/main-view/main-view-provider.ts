@@ -90,6 +90,11 @@ export class MainViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /** PTY running the given Claude session, null when it isn't open */
+    findPtyByClaudeId(claudeId: string): number | null {
+        return this._sessionMgr.findPtyByClaudeId(claudeId);
+    }
+
     sendSelectionToTerminal(text: string): void {
         this._postMessage({ type: "insert-text", text });
     }
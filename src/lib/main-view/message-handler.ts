@@ -517,6 +517,8 @@ export function handleWebviewMessage(
         case "set-active-session": {
             const claudeId = (msg.claudeId as string | null) || null;
             ctx.sessionMgr.persistActiveSession(claudeId);
+            // A scoped review follows the focused terminal
+            if (state.isScopedToActiveSession()) state.refreshAll();
             break;
         }
 
@@ -610,6 +612,25 @@ export function handleWebviewMessage(
             vscode.commands.executeCommand("ccr.dismissAll");
             break;
 
+        case "select-review-base":
+            vscode.commands.executeCommand("ccr.selectReviewBase");
+            break;
+
+        case "toggle-session-scope":
+            vscode.commands.executeCommand("ccr.toggleSessionScope");
+            break;
+
+        case "show-review-files":
+            vscode.commands.executeCommand("ccr.showReviewFiles");
+            break;
+
+        case "resolve-session":
+            vscode.commands.executeCommand(
+                msg.accept ? "ccr.acceptSession" : "ccr.rejectSession",
+                (msg.sessionId as string | null) ?? null,
+            );
+            break;
+
         case "open-external-url":
             vscode.env.openExternal(vscode.Uri.parse(msg.url as string));
             break;
@@ -6,6 +6,7 @@ import * as state from "../state";
 import { isProjectTrusted } from "../claude-settings";
 import { isHookInstalled } from "../hooks";
 import { listSessions } from "../sessions";
+import { recordSessionStart } from "../review-base";
 import { detectNewSessionId } from "./session-detector";
 import { SessionNameWatcher } from "./session-name-watcher";
 import type { PtyManager } from "../pty-manager";
@@ -78,6 +79,7 @@ export class SessionManager {
             .get<string>("cliCommand", "claude");
         const cmd = resumeId ? `${cli} --resume ${resumeId}` : cli;
         log.log(`startNewClaudeSession: resumeId=${resumeId || "none"}, cmd=${cmd}`);
+        if (!restoring) recordSessionStart(this._wp);
 
         const info = this._ptyManager.createSession(
             resumeId ? `resume:${resumeId.slice(0, 8)}` : "new",
@@ -9,6 +9,7 @@ import type {
     KeybindingInfo,
     ReviewStateUpdate,
     ReviewFileInfo,
+    ReviewSessionGroup,
     PtySessionInfo,
 } from "../../types";
 
@@ -24,7 +25,10 @@ export function buildStateUpdate(
 ): StateUpdatePayload {
     const files = state.getReviewFiles();
     const idx = state.getCurrentFileIndex();
-    const remaining = files.filter((f) => state.activeReviews.has(f)).length;
+    // Counters follow the session scope; the file list always covers every session
+    const scope = state.getReviewScope();
+    const scopedFiles = scope === null ? files : files.filter((f) => state.sessionOf(f) === scope);
+    const remaining = scopedFiles.filter((f) => state.activeReviews.has(f)).length;
     const currentFile = files[idx];
     const review = currentFile ? state.activeReviews.get(currentFile) : undefined;
 
@@ -53,10 +57,10 @@ export function buildStateUpdate(
 
     // Current hunk index from review manager
     const currentHunkIndex = reviewManager ? reviewManager.getCurrentHunkIndex() : 0;
-    const currentFileIndex = reviewManager ? reviewManager.getCurrentFileIndex() : idx;
-
-    // Count unresolved files
-    const unresolvedFileCount = files.filter((f) => state.activeReviews.has(f)).length;
+    const currentFileIndex = Math.max(
+        0,
+        scopedFiles.indexOf(files[reviewManager ? reviewManager.getCurrentFileIndex() : idx]),
+    );
 
     const fileList: ReviewFileInfo[] = files.map((f, i) => {
         const r = state.activeReviews.get(f);
@@ -70,29 +74,47 @@ export function buildStateUpdate(
             done: !r,
             unresolved: r ? r.unresolvedCount : 0,
             total: r ? r.hunks.length : 0,
-            sessionId: r?.sessionId,
+            sessionId: state.sessionOf(f),
         };
     });
 
     return {
         review: {
             remaining,
-            total: files.length,
+            total: scopedFiles.length,
             currentFile: currentFile ? path.relative(wp, currentFile) : null,
             unresolvedHunks: review ? review.unresolvedCount : 0,
             totalHunks: review ? review.hunks.length : 0,
             files: fileList,
             currentHunkIndex,
             currentFileIndex,
-            unresolvedFileCount,
+            unresolvedFileCount: remaining,
             canUndo,
             canRedo,
             activeEditorInReview,
+            base: state.activeReviews.size > 0 ? (state.getReviewBase()?.label ?? null) : null,
+            sessions: buildSessionGroups(reviewManager),
+            scopedToSession: state.isScopedToActiveSession(),
+            skipped: state.getPolicySkips().map((s) => ({
+                name: path.relative(wp, s.filePath),
+                rule: s.rule,
+                pattern: s.pattern,
+            })),
         },
         activeSessions: ptyManager.getSessions(),
     };
 }
 
+function buildSessionGroups(reviewManager?: ReviewManager): ReviewSessionGroup[] {
+    const activeSession = state.getActiveSessionId();
+    return (reviewManager?.getSessionGroups() ?? []).map((g) => ({
+        sessionId: g.sessionId,
+        label: g.label,
+        files: g.files.length,
+        active: g.sessionId !== null && g.sessionId === activeSession,
+    }));
+}
+
 export function getKeybindings(): KeybindingInfo[] {
     const isMac = process.platform === "darwin";
     const ext = vscode.extensions.getExtension("local.claude-code-review");
@@ -0,0 +1,101 @@
+// Three-way merge — combines two edits of the same base line by line, diff3 style
+import { computeDiff } from "./diff";
+
+export interface MergeLabels {
+    ours: string;
+    base: string;
+    theirs: string;
+}
+
+export interface MergeResult {
+    /** Merged text; overlapping edits appear as <<<<<<< / ||||||| / ======= / >>>>>>> blocks */
+    text: string;
+    conflicts: number;
+}
+
+/** Base lines [start, end) replaced by `lines` */
+interface Change {
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+/** Changes that turn `base` into `other`, in base line coordinates */
+export function lineChanges(base: string, other: string): Change[] {
+    // The extra "\n" keeps a final-newline difference as a line change of its own —
+    // computeDiff ignores a missing final newline
+    return computeDiff(base + "\n", other + "\n", "", "").map((h) => ({
+        start: h.origStart - 1,
+        end: h.origStart - 1 + h.origCount,
+        lines: h.added,
+    }));
+}
+
+/** Base lines [start, end) with the given changes (all inside that range) applied */
+function applyWithin(baseLines: string[], start: number, end: number, changes: Change[]): string[] {
+    const out: string[] = [];
+    let pos = start;
+    for (const c of changes) {
+        out.push(...baseLines.slice(pos, c.start), ...c.lines);
+        pos = c.end;
+    }
+    out.push(...baseLines.slice(pos, end));
+    return out;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+export function mergeThreeWay(
+    base: string,
+    ours: string,
+    theirs: string,
+    labels: MergeLabels,
+): MergeResult {
+    const baseLines = base.split("\n");
+    const pending = [
+        ...lineChanges(base, ours).map((c) => ({ ...c, side: "ours" as const })),
+        ...lineChanges(base, theirs).map((c) => ({ ...c, side: "theirs" as const })),
+    ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    const out: string[] = [];
+    let conflicts = 0;
+    let pos = 0;
+    let i = 0;
+    while (i < pending.length) {
+        // Group changes that overlap or touch — a shared boundary is a conflict too
+        const start = pending[i].start;
+        let end = pending[i].end;
+        const group = [pending[i++]];
+        while (i < pending.length && pending[i].start <= end) {
+            end = Math.max(end, pending[i].end);
+            group.push(pending[i++]);
+        }
+        out.push(...baseLines.slice(pos, start));
+        pos = end;
+
+        const oursChanges = group.filter((c) => c.side === "ours");
+        const theirsChanges = group.filter((c) => c.side === "theirs");
+        const oursLines = applyWithin(baseLines, start, end, oursChanges);
+        const theirsLines = applyWithin(baseLines, start, end, theirsChanges);
+        if (theirsChanges.length === 0 || sameLines(oursLines, theirsLines)) {
+            out.push(...oursLines);
+        } else if (oursChanges.length === 0) {
+            out.push(...theirsLines);
+        } else {
+            conflicts++;
+            out.push(
+                `<<<<<<< ${labels.ours}`,
+                ...oursLines,
+                `||||||| ${labels.base}`,
+                ...baseLines.slice(start, end),
+                "=======",
+                ...theirsLines,
+                `>>>>>>> ${labels.theirs}`,
+            );
+        }
+    }
+    out.push(...baseLines.slice(pos));
+    return { text: out.join("\n"), conflicts };
+}
@@ -0,0 +1,193 @@
+// Notebook support — cell-aware hunks for .ipynb files (NotebookEdit tool)
+//
+// Notebooks are reviewed in their canonical nbformat serialization (JSON, indent 1).
+// Hunks are snapped to whole cell blocks, so accepting/rejecting any subset of hunks
+// always produces a notebook that still parses — a raw line diff would split cells
+// and JSON punctuation across hunks.
+import type { Hunk } from "../types";
+
+/** A cell object inside the canonical serialization: lines [start, end) */
+interface CellBlock {
+    start: number;
+    end: number;
+    /** Block text without the trailing separator comma — equality key for the cell diff */
+    key: string;
+    label: string;
+}
+
+interface NotebookLayout {
+    lines: string[];
+    /** Index of the first line after `"cells": [` */
+    cellsStart: number;
+    /** Index of the ` ]` / ` ],` line closing the cells array */
+    cellsEnd: number;
+    cells: CellBlock[];
+}
+
+const CELLS_OPEN = ' "cells": [';
+const CELL_OPEN = "  {";
+const CELL_CLOSE_RE = /^ {2}\},?$/;
+const CELLS_CLOSE_RE = /^ \],?$/;
+
+export function isNotebookPath(filePath: string): boolean {
+    return filePath.toLowerCase().endsWith(".ipynb");
+}
+
+/**
+ * nbformat's on-disk serialization (what Jupyter writes): 1-space indent + trailing newline.
+ * Returns null for content that is not a JSON notebook.
+ */
+export function canonicalizeNotebook(content: string): string | null {
+    if (!content) return content;
+    try {
+        const nb = JSON.parse(content) as { cells?: unknown };
+        if (!nb || typeof nb !== "object" || !Array.isArray(nb.cells)) return null;
+        return JSON.stringify(nb, null, 1) + "\n";
+    } catch {
+        return null;
+    }
+}
+
+function parseLayout(content: string): NotebookLayout | null {
+    const lines = content.split("\n");
+    const open = lines.indexOf(CELLS_OPEN);
+    if (open === -1) return null;
+
+    const cells: CellBlock[] = [];
+    let i = open + 1;
+    while (i < lines.length && lines[i] === CELL_OPEN) {
+        const start = i;
+        while (i < lines.length && !CELL_CLOSE_RE.test(lines[i])) i++;
+        if (i >= lines.length) return null;
+        i++;
+        const block = lines.slice(start, i);
+        block[block.length - 1] = "  }";
+        cells.push({ start, end: i, key: block.join("\n"), label: "" });
+    }
+    if (i >= lines.length || !CELLS_CLOSE_RE.test(lines[i])) return null;
+
+    cells.forEach((cell, idx) => {
+        let type = "cell";
+        try {
+            type = (JSON.parse(cell.key) as { cell_type?: string }).cell_type ?? type;
+        } catch {}
+        cell.label = `Cell ${idx + 1} · ${type}`;
+    });
+    return { lines, cellsStart: open + 1, cellsEnd: i, cells };
+}
+
+/** Longest common subsequence of cell keys → matched index pairs in order */
+function matchCells(a: CellBlock[], b: CellBlock[]): Array<[number, number]> {
+    const dp: number[][] = Array.from({ length: a.length + 1 }, () =>
+        new Array<number>(b.length + 1).fill(0),
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            dp[i][j] =
+                a[i].key === b[j].key ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+        }
+    }
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i].key === b[j].key) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (dp[i + 1][j] >= dp[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+}
+
+function describeRun(removed: CellBlock[], added: CellBlock[]): string {
+    if (removed.length && added.length) {
+        return added.length === 1 && removed.length === 1
+            ? `${added[0].label} (modified)`
+            : `${added.map((c) => c.label).join(", ")} (replaced ${removed.length})`;
+    }
+    if (added.length) return `${added.map((c) => c.label).join(", ")} (added)`;
+    return `${removed.map((c) => c.label).join(", ")} (deleted)`;
+}
+
+/**
+ * Cell-level hunks between two canonical notebooks. Returns null when either side does not
+ * have the canonical layout (empty cells array, hand-written JSON) — callers fall back to
+ * the plain line diff.
+ */
+export function computeNotebookHunks(original: string, modified: string): Hunk[] | null {
+    const a = parseLayout(original);
+    const b = parseLayout(modified);
+    if (!a || !b || a.cells.length === 0 || b.cells.length === 0) return null;
+
+    const hunks: Hunk[] = [];
+    const push = (
+        origStart: number,
+        origEnd: number,
+        modStart: number,
+        modEnd: number,
+        label: string,
+    ) => {
+        hunks.push({
+            id: hunks.length,
+            origStart: origStart + 1,
+            origCount: origEnd - origStart,
+            modStart: modStart + 1,
+            modCount: modEnd - modStart,
+            removed: a.lines.slice(origStart, origEnd),
+            added: b.lines.slice(modStart, modEnd),
+            resolved: false,
+            accepted: false,
+            label,
+        });
+    };
+
+    // Notebook-level header (everything before the cells) — rarely differs
+    if (a.lines.slice(0, a.cellsStart).join("\n") !== b.lines.slice(0, b.cellsStart).join("\n")) {
+        push(0, a.cellsStart, 0, b.cellsStart, "Notebook header");
+    }
+
+    const pairs = matchCells(a.cells, b.cells);
+    pairs.push([a.cells.length, b.cells.length]);
+    let ai = 0;
+    let bi = 0;
+    for (const [pa, pb] of pairs) {
+        if (pa > ai || pb > bi) {
+            const removed = a.cells.slice(ai, pa);
+            const added = b.cells.slice(bi, pb);
+            const origStart = ai < a.cells.length ? a.cells[ai].start : a.cellsEnd;
+            const modStart = bi < b.cells.length ? b.cells[bi].start : b.cellsEnd;
+            const origEnd = pa < a.cells.length ? a.cells[pa].start : a.cellsEnd;
+            const modEnd = pb < b.cells.length ? b.cells[pb].start : b.cellsEnd;
+            push(origStart, origEnd, modStart, modEnd, describeRun(removed, added));
+        }
+        ai = pa + 1;
+        bi = pb + 1;
+    }
+
+    // Notebook metadata / nbformat version (everything after the cells)
+    const aTail = a.lines.slice(a.cellsEnd).join("\n");
+    const bTail = b.lines.slice(b.cellsEnd).join("\n");
+    if (aTail !== bTail) {
+        push(a.cellsEnd, a.lines.length, b.cellsEnd, b.lines.length, "Notebook metadata");
+    }
+    return hunks;
+}
+
+/**
+ * Re-punctuate the cells array after hunks were stitched together: every cell closer gets a
+ * separator comma except the last. Mixed accept/reject can otherwise leave `}` `{` adjacent.
+ */
+export function normalizeCellSeparators(content: string): string {
+    const lines = content.split("\n");
+    const layout = parseLayout(content);
+    if (!layout) return content;
+    layout.cells.forEach((cell, idx) => {
+        lines[cell.end - 1] = idx === layout.cells.length - 1 ? "  }" : "  },";
+    });
+    return lines.join("\n");
+}
@@ -0,0 +1,257 @@
+// Unified diff patches — export review state, import .patch files as reviews
+//
+// Patches use git's layout (`diff --git a/x b/x`, `--- a/x`, `+++ b/x`, `/dev/null` for
+// created and deleted files) so `git apply` accepts what we write. On import, plain
+// `diff -u` output is understood as well.
+import { computeDiff } from "./diff";
+
+/** Lines of context around each hunk, as in `git diff` */
+const CONTEXT_LINES = 3;
+const NO_NEWLINE = "\\ No newline at end of file";
+
+export interface PatchLine {
+    op: " " | "-" | "+";
+    text: string;
+}
+
+export interface PatchHunk {
+    oldStart: number;
+    newStart: number;
+    lines: PatchLine[];
+    /** `\ No newline` marker after the last old-side / new-side line */
+    oldNoNewline: boolean;
+    newNoNewline: boolean;
+}
+
+export interface FilePatch {
+    /** Workspace-relative path, null for a created file */
+    oldPath: string | null;
+    /** Workspace-relative path, null for a deleted file */
+    newPath: string | null;
+    hunks: PatchHunk[];
+}
+
+export class PatchError extends Error {}
+
+/** Content as lines plus whether it ends with a newline — "" has no lines */
+function toLines(content: string): { lines: string[]; newline: boolean } {
+    if (!content) return { lines: [], newline: true };
+    const newline = content.endsWith("\n");
+    return { lines: (newline ? content.slice(0, -1) : content).split("\n"), newline };
+}
+
+/**
+ * Unified diff for one file; "" when before and after are equal. oldPath/newPath null mark
+ * a created/deleted file.
+ */
+export function formatFilePatch(
+    oldPath: string | null,
+    newPath: string | null,
+    before: string,
+    after: string,
+): string {
+    if (before === after && oldPath === newPath) return "";
+    const a = toLines(before);
+    const b = toLines(after);
+    const hunks = before ? computeDiff(before, after, newPath ?? oldPath ?? "", "") : [];
+    if (!before && b.lines.length > 0) {
+        hunks.push({
+            id: 0,
+            origStart: 1,
+            origCount: 0,
+            modStart: 1,
+            modCount: b.lines.length,
+            removed: [],
+            added: b.lines,
+            resolved: false,
+            accepted: false,
+        });
+    }
+
+    const header = [`diff --git a/${oldPath ?? newPath} b/${newPath ?? oldPath}`];
+    if (oldPath === null) header.push("new file mode 100644");
+    if (newPath === null) header.push("deleted file mode 100644");
+    if (oldPath !== null && newPath !== null && oldPath !== newPath) {
+        header.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+    }
+    if (hunks.length === 0) {
+        // Only a rename or an empty created/deleted file says anything without hunks
+        return oldPath !== null && oldPath === newPath ? "" : header.join("\n") + "\n";
+    }
+    header.push(
+        oldPath === null ? "--- /dev/null" : `--- a/${oldPath}`,
+        newPath === null ? "+++ /dev/null" : `+++ b/${newPath}`,
+    );
+
+    // Hunks closer than twice the context share one @@ block
+    const groups: (typeof hunks)[] = [];
+    for (const h of hunks) {
+        const group = groups[groups.length - 1];
+        const prev = group?.[group.length - 1];
+        if (prev && h.origStart - (prev.origStart + prev.removed.length) <= 2 * CONTEXT_LINES) {
+            group.push(h);
+        } else {
+            groups.push([h]);
+        }
+    }
+
+    const out = header;
+    for (const group of groups) {
+        const first = group[0];
+        const last = group[group.length - 1];
+        const lead = Math.min(CONTEXT_LINES, first.origStart - 1);
+        const lastEnd = last.origStart - 1 + last.removed.length;
+        const trail = Math.min(CONTEXT_LINES, a.lines.length - lastEnd);
+        const body: PatchLine[] = [];
+        let oi = first.origStart - 1 - lead;
+        for (const h of group) {
+            for (; oi < h.origStart - 1; oi++) body.push({ op: " ", text: a.lines[oi] });
+            for (const text of h.removed) body.push({ op: "-", text });
+            for (const text of h.added) body.push({ op: "+", text });
+            oi += h.removed.length;
+        }
+        for (; oi < lastEnd + trail; oi++) body.push({ op: " ", text: a.lines[oi] });
+
+        const oldCount = body.filter((l) => l.op !== "+").length;
+        const newCount = body.filter((l) => l.op !== "-").length;
+        const oldStart = first.origStart - lead;
+        const newStart = first.modStart - lead;
+        out.push(
+            `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`,
+        );
+
+        // Walk both sides to know which line is the last one of its file
+        let oldLine = oldStart - 1;
+        let newLine = newStart - 1;
+        for (const line of body) {
+            out.push(line.op + line.text);
+            const oldLast = line.op !== "+" && ++oldLine === a.lines.length && !a.newline;
+            const newLast = line.op !== "-" && ++newLine === b.lines.length && !b.newline;
+            if (oldLast || newLast) out.push(NO_NEWLINE);
+        }
+    }
+    return out.join("\n") + "\n";
+}
+
+/** Splits a patch into per-file parts; text outside file sections (mail headers etc.) is skipped */
+export function parsePatch(text: string): FilePatch[] {
+    const files: FilePatch[] = [];
+    const lines = text.split("\n");
+    let file: FilePatch | null = null;
+    let hunk: PatchHunk | null = null;
+    let oldLeft = 0;
+    let newLeft = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (hunk && (oldLeft > 0 || newLeft > 0)) {
+            const op = line[0] ?? " ";
+            if (op === " " || op === "-" || op === "+") {
+                hunk.lines.push({ op, text: line.slice(1) });
+                if (op !== "+") oldLeft--;
+                if (op !== "-") newLeft--;
+                continue;
+            }
+            if (!line.startsWith("\\")) {
+                throw new PatchError(`Truncated hunk at line ${i + 1}`);
+            }
+        }
+        if (line.startsWith("\\") && hunk) {
+            const prev = hunk.lines[hunk.lines.length - 1];
+            if (prev?.op !== "+") hunk.oldNoNewline = true;
+            if (prev?.op !== "-") hunk.newNoNewline = true;
+            continue;
+        }
+        hunk = null;
+
+        if (line.startsWith("diff --git ")) {
+            const m = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+            file = { oldPath: m?.[1] ?? null, newPath: m?.[2] ?? null, hunks: [] };
+            files.push(file);
+        } else if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+            const oldPath = patchPath(line.slice(4));
+            const newPath = patchPath(lines[++i].slice(4));
+            if (!file || file.hunks.length > 0) {
+                file = { oldPath, newPath, hunks: [] };
+                files.push(file);
+            } else {
+                file.oldPath = oldPath;
+                file.newPath = newPath;
+            }
+        } else if (file && line.startsWith("new file mode")) {
+            file.oldPath = null;
+        } else if (file && line.startsWith("deleted file mode")) {
+            file.newPath = null;
+        } else if (file && line.startsWith("rename from ")) {
+            file.oldPath = line.slice("rename from ".length);
+        } else if (file && line.startsWith("rename to ")) {
+            file.newPath = line.slice("rename to ".length);
+        } else if (file && line.startsWith("@@")) {
+            const m = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+            if (!m) throw new PatchError(`Malformed hunk header at line ${i + 1}`);
+            oldLeft = m[2] === undefined ? 1 : parseInt(m[2]);
+            newLeft = m[4] === undefined ? 1 : parseInt(m[4]);
+            hunk = {
+                oldStart: oldLeft ? parseInt(m[1]) : parseInt(m[1]) + 1,
+                newStart: newLeft ? parseInt(m[3]) : parseInt(m[3]) + 1,
+                lines: [],
+                oldNoNewline: false,
+                newNoNewline: false,
+            };
+            file.hunks.push(hunk);
+        }
+    }
+    if (hunk && (oldLeft > 0 || newLeft > 0))
+        throw new PatchError("Truncated hunk at end of patch");
+    return files;
+}
+
+/** `a/src/x.ts` → `src/x.ts`, `/dev/null` → null; drops the timestamp of `diff -u` headers */
+function patchPath(raw: string): string | null {
+    const p = raw.split("\t")[0].trim();
+    if (p === "/dev/null") return null;
+    return p.replace(/^[ab]\//, "");
+}
+
+/**
+ * Applies one file's hunks to its current content. A hunk whose context moved is applied
+ * at the nearest place it matches; one that matches nowhere throws PatchError.
+ */
+export function applyFilePatch(content: string, patch: FilePatch): string {
+    const { lines, newline } = toLines(content);
+    const result: string[] = [];
+    let endsWithNewline = newline;
+    let pos = 0;
+
+    for (const hunk of patch.hunks) {
+        const oldSide = hunk.lines.filter((l) => l.op !== "+").map((l) => l.text);
+        const newSide = hunk.lines.filter((l) => l.op !== "-").map((l) => l.text);
+        const at = findHunk(lines, oldSide, hunk.oldStart - 1, pos);
+        if (at < 0) {
+            throw new PatchError(
+                `${patch.newPath ?? patch.oldPath}: hunk at line ${hunk.oldStart} doesn't apply`,
+            );
+        }
+        result.push(...lines.slice(pos, at), ...newSide);
+        pos = at + oldSide.length;
+        if (pos === lines.length) {
+            endsWithNewline = hunk.newNoNewline ? false : hunk.oldNoNewline ? true : newline;
+        }
+    }
+    result.push(...lines.slice(pos));
+    if (result.length === 0) return "";
+    return result.join("\n") + (endsWithNewline ? "\n" : "");
+}
+
+/** Index nearest to `preferred` (not before `from`) where `expected` matches, or -1 */
+function findHunk(lines: string[], expected: string[], preferred: number, from: number): number {
+    const matchesAt = (at: number): boolean =>
+        at >= from &&
+        at + expected.length <= lines.length &&
+        expected.every((text, k) => lines[at + k] === text);
+    for (let delta = 0; delta <= lines.length; delta++) {
+        if (matchesAt(preferred - delta)) return preferred - delta;
+        if (delta > 0 && matchesAt(preferred + delta)) return preferred + delta;
+    }
+    return -1;
+}
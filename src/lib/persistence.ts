@@ -2,7 +2,12 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as log from "./log";
-import type { PersistedReviewState, PersistedFileReview } from "../types";
+import type {
+    CollectedComment,
+    PersistedReviewState,
+    PersistedFileReview,
+    ReviewBase,
+} from "../types";
 import type { IFileReview } from "../types";
 
 const STATE_FILENAME = "review-state.json";
@@ -11,28 +16,42 @@ function getStatePath(workspacePath: string): string {
     return path.join(workspacePath, ".claude", STATE_FILENAME);
 }
 
+function persistReview(review: IFileReview): PersistedFileReview {
+    return {
+        filePath: review.filePath,
+        originalContent: review.originalContent,
+        modifiedContent: review.modifiedContent,
+        hunks: review.hunks,
+        changeType: review.changeType,
+        renamedFrom: review.renamedFrom,
+        wholeFile: review.wholeFile,
+        diffOptions: review.diffOptions,
+        sessionId: review.sessionId,
+        layers: review.layers,
+        comments: review.comments,
+        rawOriginal: review.rawOriginal,
+        rawModified: review.rawModified,
+    };
+}
+
 export function saveReviewState(
     workspacePath: string,
     reviews: Map<string, IFileReview>,
     currentFileIndex: number,
+    base?: ReviewBase | null,
+    conflicts: Map<string, IFileReview> = new Map(),
+    finishedComments: CollectedComment[] = [],
 ): void {
-    const files: PersistedFileReview[] = [];
-    for (const [, review] of reviews) {
-        files.push({
-            filePath: review.filePath,
-            originalContent: review.originalContent,
-            modifiedContent: review.modifiedContent,
-            hunks: review.hunks,
-            changeType: review.changeType,
-            sessionId: review.sessionId,
-        });
-    }
+    const files = [...reviews.values()].map(persistReview);
 
     const state: PersistedReviewState = {
         version: 1,
         timestamp: Date.now(),
         files,
         currentFileIndex,
+        base: base ?? undefined,
+        conflicts: conflicts.size > 0 ? [...conflicts.values()].map(persistReview) : undefined,
+        finishedComments: finishedComments.length > 0 ? finishedComments : undefined,
     };
 
     const statePath = getStatePath(workspacePath);
@@ -13,6 +13,9 @@ import type {
 
 let nodePty: INodePty | null = null;
 
+/** A Claude prompt that printed nothing for this long is waiting for input, not working */
+const IDLE_QUIET_MS = 2000;
+
 function loadNodePty(): INodePty {
     if (nodePty) return nodePty;
 
@@ -37,6 +40,9 @@ class PtySession {
     readonly name: string;
     readonly process: IPtyProcess;
     readonly createdAt: number = Date.now();
+    lastOutputAt: number = Date.now();
+    /** Last keystroke or paste sent to the process — 0 until the first one */
+    lastInputAt = 0;
 
     constructor(
         id: number,
@@ -87,6 +93,7 @@ class PtySession {
 
         let firstData = true;
         this.process.onData((data) => {
+            this.lastOutputAt = Date.now();
             if (firstData) {
                 fileLog.log("terminal", `first-data #${id}`, { bytes: data.length });
                 firstData = false;
@@ -114,6 +121,7 @@ class PtySession {
     }
 
     write(data: string): void {
+        this.lastInputAt = Date.now();
         this.process.write(data);
     }
 
@@ -212,6 +220,17 @@ export class PtyManager {
         return s ? Date.now() - s.createdAt : 0;
     }
 
+    /** When the session last received input; 0 when unknown or never */
+    getLastInputAt(id: number): number {
+        return this._sessions.get(id)?.lastInputAt ?? 0;
+    }
+
+    /** Session exists and its output has been quiet long enough to take a prompt */
+    isIdle(id: number, quietMs = IDLE_QUIET_MS): boolean {
+        const s = this._sessions.get(id);
+        return !!s && Date.now() - s.lastOutputAt >= quietMs;
+    }
+
     dispose(): void {
         for (const s of this._sessions.values()) s.kill();
         this._sessions.clear();
@@ -0,0 +1,110 @@
+// Review base — the revision git-sourced originals are read from
+//
+// HEAD by default. The index reviews only what isn't staged yet; a merge-base shows
+// everything the branch changed; the session base is a `git stash create` commit of the
+// working tree taken when the first Claude session of this window started, so commits made
+// during a long session still show up as changes. Untracked files aren't part of that
+// commit and review as new files.
+import * as vscode from "vscode";
+import { execSync } from "child_process";
+import { logCat } from "./log";
+import * as state from "./state";
+import type { ReviewBase, ReviewBaseKind } from "../types";
+
+export const HEAD_BASE: ReviewBase = { kind: "head", rev: "HEAD", label: "HEAD" };
+
+let sessionStartRev: string | null = null;
+
+function git(args: string, cwd: string): string {
+    return execSync(`git ${args}`, {
+        cwd,
+        encoding: "utf8",
+        timeout: 5000,
+        stdio: "pipe",
+    });
+}
+
+/** Snapshots the working tree for the "session" base — only the first session counts */
+export function recordSessionStart(workspacePath: string): void {
+    if (sessionStartRev) return;
+    try {
+        // Commit of index + working tree that touches neither; empty output when clean
+        sessionStartRev =
+            git("stash create", workspacePath).trim() ||
+            git("rev-parse HEAD", workspacePath).trim();
+        logCat("review", `recordSessionStart: session base ${sessionStartRev.slice(0, 8)}`);
+    } catch (err) {
+        logCat("review", `recordSessionStart: no git snapshot: ${(err as Error).message}`);
+    }
+}
+
+/** Session base of a restored review state — a session started since then wins */
+export function restoreSessionStart(rev: string): void {
+    sessionStartRev ??= rev;
+}
+
+/** Base chosen in settings; falls back to HEAD when it can't be resolved */
+export function resolveReviewBase(workspacePath: string): ReviewBase {
+    const config = vscode.workspace.getConfiguration("claudeCodeReview");
+    const kind = config.get<ReviewBaseKind>("reviewBase", "head");
+    switch (kind) {
+        case "index":
+            return { kind, rev: "", label: "index" };
+        case "mergeBase": {
+            const branch = config.get<string>("reviewBaseBranch", "main");
+            try {
+                const rev = git(`merge-base HEAD "${branch}"`, workspacePath).trim();
+                return { kind, rev, label: `merge-base with ${branch}` };
+            } catch (err) {
+                logCat(
+                    "review",
+                    `resolveReviewBase: merge-base with ${branch} failed: ${(err as Error).message}, using HEAD`,
+                );
+                return HEAD_BASE;
+            }
+        }
+        case "session":
+            if (sessionStartRev) return { kind, rev: sessionStartRev, label: "session start" };
+            logCat("review", "resolveReviewBase: no session started yet, using HEAD");
+            return HEAD_BASE;
+        default:
+            return HEAD_BASE;
+    }
+}
+
+/**
+ * Base of the review in progress. It is fixed from settings when the first file enters
+ * review, so changing the setting mid-review doesn't mix bases.
+ */
+export function currentReviewBase(workspacePath: string): ReviewBase {
+    let base = state.getReviewBase();
+    if (!base || state.activeReviews.size === 0) {
+        base = resolveReviewBase(workspacePath);
+        state.setReviewBase(base);
+        logCat("review", `currentReviewBase: ${base.label} (${base.rev || "index"})`);
+    }
+    return base;
+}
+
+/** File content at the base — throws when the file doesn't exist there */
+export function readAtBase(workspacePath: string, relPath: string, base: ReviewBase): string {
+    return git(`show ${base.rev}:"${relPath}"`, workspacePath);
+}
+
+/** Workspace-relative paths that differ from the base, untracked files included */
+export function changedSinceBase(workspacePath: string, base: ReviewBase): string[] {
+    const changed = new Set<string>();
+    for (const cmd of [
+        base.kind === "index" ? "diff --name-only" : `diff --name-only ${base.rev}`,
+        "ls-files --others --exclude-standard",
+    ]) {
+        try {
+            for (const f of git(cmd, workspacePath).split("\n")) {
+                if (f.trim()) changed.add(f.trim());
+            }
+        } catch (err) {
+            logCat("review", `changedSinceBase: git ${cmd} failed: ${(err as Error).message}`);
+        }
+    }
+    return [...changed];
+}
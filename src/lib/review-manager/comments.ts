@@ -0,0 +1,195 @@
+// Review comments — reviewer notes anchored to lines of Claude's version of a file
+//
+// Anchors live in modifiedContent lines, which resolving hunks never changes, so a comment
+// stays on its lines however the buffer shifts. Edits that do change Claude's version (a new
+// tool call, an in-place edit, a rebase) move the anchors with shiftComments.
+import * as path from "path";
+import { logCat } from "../log";
+import * as state from "../state";
+import { lineChanges } from "../merge";
+import { layoutOf } from "../review";
+import type { CollectedComment, Hunk, IFileReview, ReviewComment } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+let nextId = 0;
+
+/** Removed lines of a hunk in the buffer — side by side, a pending hunk shows none */
+function removedLinesShown(h: Hunk, inline: boolean): number {
+    if (h.resolved) return h.accepted ? 0 : h.removed.length;
+    return inline ? h.removed.length : 0;
+}
+
+/** Line of Claude's version shown at a buffer line; removed lines map to where their hunk is */
+export function toModifiedLine(review: IFileReview, bufferLine: number): number {
+    const inline = layoutOf(review.changeType) === "inline";
+    let buf = 0;
+    let mod = 0;
+    for (const h of [...review.hunks].sort((a, b) => a.modStart - b.modStart)) {
+        const start = h.modStart - 1;
+        if (bufferLine < buf + start - mod) return bufferLine - buf + mod;
+        buf += start - mod;
+        mod = start;
+        const removedShown = removedLinesShown(h, inline);
+        const addedShown = h.resolved && !h.accepted ? 0 : h.added.length;
+        if (bufferLine < buf + removedShown) return start;
+        if (bufferLine < buf + removedShown + addedShown)
+            return start + bufferLine - buf - removedShown;
+        buf += removedShown + addedShown;
+        mod = start + h.added.length;
+    }
+    return bufferLine - buf + mod;
+}
+
+/** Buffer line showing a line of Claude's version; lines of an undone hunk map to its place */
+export function toBufferLine(review: IFileReview, modifiedLine: number): number {
+    const inline = layoutOf(review.changeType) === "inline";
+    let buf = 0;
+    let mod = 0;
+    for (const h of [...review.hunks].sort((a, b) => a.modStart - b.modStart)) {
+        const start = h.modStart - 1;
+        if (modifiedLine < start) break;
+        buf += start - mod;
+        mod = start;
+        const removedShown = removedLinesShown(h, inline);
+        const addedShown = h.resolved && !h.accepted ? 0 : h.added.length;
+        if (modifiedLine < start + h.added.length) {
+            return addedShown > 0 ? buf + removedShown + modifiedLine - start : buf;
+        }
+        buf += removedShown + addedShown;
+        mod = start + h.added.length;
+    }
+    return buf + modifiedLine - mod;
+}
+
+/** Comments moved along when Claude's version changes from `before` to `after` */
+export function shiftComments(
+    comments: ReviewComment[] | undefined,
+    before: string,
+    after: string,
+): ReviewComment[] | undefined {
+    if (!comments?.length || before === after) return comments;
+    const changes = lineChanges(before, after);
+    const lastLine = Math.max(after.split("\n").length - 1, 0);
+    const shift = (line: number) => {
+        let delta = 0;
+        for (const c of changes) {
+            if (line < c.start) break;
+            // A rewritten line stays with the change that replaced it
+            if (line < c.end) return c.start + delta;
+            delta += c.lines.length - (c.end - c.start);
+        }
+        return line + delta;
+    };
+    return comments.map((c) => {
+        const startLine = Math.min(shift(c.startLine), lastLine);
+        const endLine = Math.min(Math.max(shift(c.endLine), startLine), lastLine);
+        return { ...c, startLine, endLine };
+    });
+}
+
+/** Comments on the buffer lines firstLine..lastLine (0-based, inclusive) of a file under review */
+export function addComment(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    firstLine: number,
+    lastLine: number,
+    body: string,
+): void {
+    const review = state.activeReviews.get(filePath);
+    if (!review || review.wholeFile || !body.trim()) return;
+    const startLine = toModifiedLine(review, firstLine);
+    const comment: ReviewComment = {
+        id: `${Date.now().toString(36)}-${nextId++}`,
+        startLine,
+        endLine: Math.max(toModifiedLine(review, lastLine), startLine),
+        body: body.trim(),
+        at: Date.now(),
+    };
+    review.comments = [...(review.comments ?? []), comment];
+    logCat("review", `comment: added on ${filePath} lines ${comment.startLine}-${comment.endLine}`);
+    mgr.refreshUI();
+    mgr.scheduleSave();
+}
+
+export function deleteComment(mgr: ReviewManagerInternal, filePath: string, id: string): void {
+    const review = state.activeReviews.get(filePath);
+    if (review?.comments) review.comments = review.comments.filter((c) => c.id !== id);
+    state.removeFinishedComments(new Set([id]));
+    mgr.refreshUI();
+    mgr.scheduleSave();
+}
+
+/** A review's comments with their quoted lines — taken when the file is finalized */
+export function collectReviewComments(review: IFileReview): CollectedComment[] {
+    const lines = review.modifiedContent.split("\n");
+    return (review.comments ?? []).map((comment) => ({
+        filePath: review.filePath,
+        sessionId: review.sessionId,
+        comment,
+        quote: lines.slice(comment.startLine, comment.endLine + 1),
+    }));
+}
+
+/** Every comment not yet sent: finished files first, then files still under review */
+export function getAllComments(): CollectedComment[] {
+    return [
+        ...state.getFinishedComments(),
+        ...[...state.activeReviews.values()].flatMap(collectReviewComments),
+    ];
+}
+
+/** Drops comments once they were sent */
+export function removeComments(mgr: ReviewManagerInternal, sent: CollectedComment[]): void {
+    const ids = new Set(sent.map((c) => c.comment.id));
+    state.removeFinishedComments(ids);
+    for (const review of state.activeReviews.values()) {
+        if (review.comments) review.comments = review.comments.filter((c) => !ids.has(c.id));
+    }
+    mgr.refreshUI();
+    mgr.scheduleSave();
+}
+
+function location(workspacePath: string, c: CollectedComment): string {
+    const rel = path.relative(workspacePath, c.filePath);
+    const { startLine, endLine } = c.comment;
+    return startLine === endLine
+        ? `${rel}:${startLine + 1}`
+        : `${rel}:${startLine + 1}-${endLine + 1}`;
+}
+
+/** One follow-up prompt with every comment, quoting the lines each is about */
+export function formatCommentsPrompt(workspacePath: string, comments: CollectedComment[]): string {
+    const parts = comments.map((c) =>
+        [location(workspacePath, c), "```", ...c.quote, "```", c.comment.body].join("\n"),
+    );
+    return [
+        `Review comments on your changes (${comments.length}). Please address each one:`,
+        ...parts,
+    ].join("\n\n");
+}
+
+/** Markdown document of the comments, grouped by file */
+export function formatCommentsMarkdown(
+    workspacePath: string,
+    comments: CollectedComment[],
+): string {
+    const out = ["# Review comments", ""];
+    let file = "";
+    for (const c of [...comments].sort((a, b) => a.filePath.localeCompare(b.filePath))) {
+        if (c.filePath !== file) {
+            file = c.filePath;
+            out.push(`## ${path.relative(workspacePath, file)}`, "");
+        }
+        out.push(
+            `**${location(workspacePath, c)}** — ${new Date(c.comment.at).toLocaleString()}`,
+            "",
+            "```",
+            ...c.quote,
+            "```",
+            "",
+            c.comment.body,
+            "",
+        );
+    }
+    return out.join("\n");
+}
@@ -0,0 +1,136 @@
+// Commit — commits the outcome of a finished review with a message built from the session
+import * as vscode from "vscode";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { logCat } from "../log";
+import * as state from "../state";
+import { getSessionsDir, parseSessionMeta, parseSessionPrompts } from "../sessions";
+import type { ReviewedFile } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+const DEFAULT_SUBJECT = "Apply reviewed changes";
+const MAX_PROMPTS = 10;
+const MAX_PROMPT_LENGTH = 200;
+
+/**
+ * Prefilled commit message: the originating Claude session's title as the subject, then the
+ * prompts that led to the change and what was kept or undone in each file.
+ */
+export function buildCommitMessage(wp: string, files: ReviewedFile[]): string {
+    const sessionIds = [...new Set(files.map((f) => f.sessionId).filter((id) => !!id))];
+    const sessionsDir = getSessionsDir(wp);
+    let subject: string | null = null;
+    const prompts: string[] = [];
+    for (const id of sessionIds) {
+        const jsonl = path.join(sessionsDir, `${id}.jsonl`);
+        subject ??= parseSessionMeta(jsonl).title;
+        prompts.push(...parseSessionPrompts(jsonl));
+    }
+
+    const lines = [subject ?? DEFAULT_SUBJECT, ""];
+    if (prompts.length > 0) {
+        lines.push("Prompts:");
+        for (const prompt of prompts.slice(0, MAX_PROMPTS)) {
+            const oneLine = prompt.replace(/\s+/g, " ");
+            lines.push(
+                `- ${oneLine.length > MAX_PROMPT_LENGTH ? oneLine.slice(0, MAX_PROMPT_LENGTH - 1) + "…" : oneLine}`,
+            );
+        }
+        if (prompts.length > MAX_PROMPTS) lines.push(`- … ${prompts.length - MAX_PROMPTS} more`);
+        lines.push("");
+    }
+    lines.push("Reviewed files:");
+    for (const f of files) {
+        const rel = path.relative(wp, f.filePath);
+        const what =
+            f.changeType === "rename" && f.renamedFrom
+                ? `${path.relative(wp, f.renamedFrom)} → ${rel}`
+                : f.changeType === "edit"
+                  ? rel
+                  : `${rel} (${f.changeType === "create" ? "new" : "deleted"})`;
+        lines.push(`- ${what}: ${f.kept} kept, ${f.undone} undone`);
+    }
+    return lines.join("\n") + "\n";
+}
+
+/** Paths the commit covers — only files where something was kept; both sides of a move */
+function commitPaths(wp: string, files: ReviewedFile[]): string[] {
+    const paths: string[] = [];
+    for (const f of files) {
+        if (f.kept === 0) continue;
+        paths.push(path.relative(wp, f.filePath));
+        if (f.renamedFrom) paths.push(path.relative(wp, f.renamedFrom));
+    }
+    return paths;
+}
+
+/**
+ * Opens the whole prefilled message — subject and body — in an editor and commits what it
+ * holds once the user confirms. undefined when cancelled or left empty.
+ */
+async function editCommitMessage(message: string, pathCount: number): Promise<string | undefined> {
+    const doc = await vscode.workspace.openTextDocument({
+        content: message,
+        language: "git-commit",
+    });
+    await vscode.window.showTextDocument(doc, { preview: false });
+    const choice = await vscode.window.showInformationMessage(
+        `Edit the commit message, then commit ${pathCount} reviewed path(s)`,
+        "Commit",
+        "Cancel",
+    );
+    const edited = doc.getText().trim();
+    // The untitled message editor must not linger or ask to be saved
+    await vscode.window.showTextDocument(doc, { preview: false });
+    await vscode.commands.executeCommand("workbench.action.revertAndCloseActiveEditor");
+    if (choice !== "Commit") return undefined;
+    if (!edited) {
+        vscode.window.showErrorMessage("The commit message can't be empty");
+        return undefined;
+    }
+    return edited + "\n";
+}
+
+/**
+ * "Commit Reviewed Changes": once nothing is pending, stages the files touched by the review
+ * and commits them with a prefilled message the user can edit.
+ */
+export async function commitReviewedChanges(mgr: ReviewManagerInternal): Promise<void> {
+    if (state.activeReviews.size > 0) {
+        vscode.window.showInformationMessage(
+            `Finish the review first — ${state.activeReviews.size} file(s) still pending`,
+        );
+        return;
+    }
+    const files = state.getReviewedFiles();
+    const paths = commitPaths(mgr.wp, files);
+    if (paths.length === 0) {
+        vscode.window.showInformationMessage("No kept changes to commit");
+        return;
+    }
+
+    const message = await editCommitMessage(buildCommitMessage(mgr.wp, files), paths.length);
+    if (message === undefined) return;
+    // File names come from Claude — passed as arguments, never through a shell
+    try {
+        execFileSync("git", ["add", "-A", "--", ...paths], {
+            cwd: mgr.wp,
+            timeout: 5000,
+            stdio: "pipe",
+        });
+        execFileSync("git", ["commit", "-F", "-", "--", ...paths], {
+            cwd: mgr.wp,
+            timeout: 10000,
+            stdio: "pipe",
+            input: message,
+        });
+    } catch (err) {
+        const stderr = (err as { stderr?: Buffer }).stderr?.toString().trim();
+        logCat("review", `commitReviewedChanges: git failed: ${(err as Error).message}`);
+        vscode.window.showErrorMessage(`Commit failed: ${stderr || (err as Error).message}`);
+        return;
+    }
+    logCat("review", `commitReviewedChanges: committed ${paths.length} path(s)`);
+    state.clearReviewedFiles();
+    vscode.window.setStatusBarMessage(`$(check) Committed ${paths.length} reviewed file(s)`, 2000);
+}
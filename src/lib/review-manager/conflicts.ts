@@ -0,0 +1,305 @@
+// Conflicts — files changed on disk by the user or another tool while their review is pending
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { logCat } from "../log";
+import * as state from "../state";
+import { getSnapshot } from "../server";
+import { buildContentWith, buildMergedContent, isMarkerHunk, layoutOf } from "../review";
+import { lineChanges, mergeThreeWay } from "../merge";
+import { isNotebookPath } from "../notebook";
+import { applyDecorations, clearDecorations } from "../decorations";
+import { clearHistory, initHistory, isApplyingEdit } from "../undo-history";
+import { addFile } from "./file-addition";
+import { shiftComments } from "./comments";
+import type { Hunk, IFileReview, ReviewLayout } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+/** What to do with a review whose file changed underneath it */
+export type ConflictAction = "review-disk" | "restore" | "discard";
+
+/** Reviews taken out of the flow until the user decides — nothing writes their file meanwhile */
+const conflicts = new Map<string, IFileReview>();
+
+export function getConflicts(): string[] {
+    return [...conflicts.keys()];
+}
+
+/** Suspended reviews by file — persisted with the review state until each is settled */
+export function getConflictReviews(): Map<string, IFileReview> {
+    return new Map(conflicts);
+}
+
+/** Puts reviews suspended before a reload back in place */
+export function restoreConflicts(reviews: IFileReview[]): void {
+    for (const review of reviews) conflicts.set(review.filePath, review);
+}
+
+/** Forgets suspended reviews — their files already hold whatever is on disk */
+export function clearConflicts(): void {
+    conflicts.clear();
+}
+
+/**
+ * Called when a file under review changed on disk. Content the review expects there (Claude's
+ * version, or the inline diff once the file was opened) is fine. Anything else is rebased:
+ * edits away from every hunk are applied to both sides of the review. Edits touching a hunk
+ * suspend the review as a conflict — the file is left as it is on disk.
+ */
+export async function checkExternalChange(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+): Promise<void> {
+    const review = state.activeReviews.get(filePath);
+    // Notebooks are reviewed in canonical form, so disk never matches them verbatim
+    if (!review || review.wholeFile || isNotebookPath(filePath)) return;
+    // Our own writes, and Claude mid-edit — the hook re-adds the file when the tool finishes
+    if (isApplyingEdit(filePath) || getSnapshot(filePath) !== undefined) return;
+
+    // Lines edited in place (trackUserEdit) sit unsaved in the buffer — newer than the disk
+    const dirty = vscode.workspace.textDocuments.find(
+        (d) => d.isDirty && d.uri.fsPath === filePath,
+    );
+    let disk: string;
+    try {
+        disk = dirty ? dirty.getText() : fs.readFileSync(filePath, "utf8");
+    } catch {
+        return;
+    }
+    const merged = review.mergedLines.join("\n");
+    if (disk === review.modifiedContent || disk === merged) return;
+
+    const name = path.basename(filePath);
+    if (rebase(review, disk)) {
+        logCat("review", `checkExternalChange: ${name} changed on disk, review rebased`);
+        // Undo snapshots predate the change — restoring one would write stale content
+        clearHistory(filePath);
+        initHistory(filePath);
+        const editor = vscode.window.visibleTextEditors.find(
+            (e) => e.document.uri.fsPath === filePath,
+        );
+        if (editor) applyDecorations(editor, review);
+        mgr.codeLens?.refresh();
+        mgr.syncState();
+        mgr.refreshUI();
+        mgr.scheduleSave();
+        vscode.window.setStatusBarMessage(
+            `$(sync) ${name} changed on disk — pending changes rebased onto it`,
+            3000,
+        );
+        return;
+    }
+
+    logCat("review", `checkExternalChange: ${name} changed on disk inside a hunk — conflict`);
+    state.activeReviews.delete(filePath);
+    mgr.reviewFiles = mgr.reviewFiles.filter((f) => f !== filePath);
+    conflicts.set(filePath, review);
+    clearHistory(filePath);
+    const editor = vscode.window.visibleTextEditors.find((e) => e.document.uri.fsPath === filePath);
+    if (editor) clearDecorations(editor);
+    mgr.syncState();
+    mgr.refreshUI();
+    mgr.scheduleSave();
+    if (state.activeReviews.size === 0) mgr._onReviewStateChange.fire(false);
+}
+
+/**
+ * Run right before a decision writes the file: a change on disk the watcher hasn't reported
+ * yet is rebased or suspended first, so the write can't overwrite it. False when the review
+ * was suspended as a conflict — the file must not be written then.
+ */
+export async function settleExternalChange(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+): Promise<boolean> {
+    await checkExternalChange(mgr, filePath);
+    return state.activeReviews.has(filePath);
+}
+
+/**
+ * Applies the on-disk edit to both the original and Claude's version when it only touches
+ * lines outside every hunk; hunk positions shift, decisions are kept. Returns false (review
+ * untouched) when any edit reaches into a hunk or sits right next to one.
+ */
+function rebase(review: IFileReview, disk: string): boolean {
+    const inline = review.mergedApplied === true;
+    const layout = layoutOf(review.changeType);
+    const expected = inline ? review.mergedLines.join("\n") : review.modifiedContent;
+    const positions = linePositions(review, inline, layout);
+    if (!positions) return false;
+
+    const orig = review.originalContent.split("\n");
+    const mod = review.modifiedContent.split("\n");
+    const hunks: Hunk[] = review.hunks.map((h) => ({ ...h }));
+    // Bottom-up, so positions above each change stay valid
+    for (const c of lineChanges(expected, disk).reverse()) {
+        // The change and its neighbours must be plain lines, consecutive on both sides —
+        // otherwise a hunk sits in between
+        const from = Math.max(c.start - 1, 0);
+        const to = Math.min(c.end, positions.length - 1);
+        for (let i = from; i <= to; i++) {
+            const p = positions[i];
+            const prev = i > from ? positions[i - 1] : null;
+            if (!p || (prev && (p.o !== prev.o + 1 || p.m !== prev.m + 1))) return false;
+        }
+        const at =
+            c.start < positions.length ? positions[c.start]! : { o: orig.length, m: mod.length };
+        const count = c.end - c.start;
+        const delta = c.lines.length - count;
+        orig.splice(at.o, count, ...c.lines);
+        mod.splice(at.m, count, ...c.lines);
+        for (const h of hunks) {
+            if (isMarkerHunk(h)) continue;
+            if (h.origStart - 1 >= at.o + count) h.origStart += delta;
+            if (h.modStart - 1 >= at.m + count) h.modStart += delta;
+        }
+    }
+
+    const { lines, ranges } = buildMergedContent(mod, hunks, layout);
+    if ((inline ? lines.join("\n") : mod.join("\n")) !== disk) return false;
+    review.originalContent = orig.join("\n");
+    review.comments = shiftComments(review.comments, review.modifiedContent, mod.join("\n"));
+    review.modifiedContent = mod.join("\n");
+    review.hunks = hunks;
+    review.mergedLines = lines;
+    review.hunkRanges = ranges;
+    return true;
+}
+
+/**
+ * Position in the original and in Claude's version of each line the review put on disk —
+ * null for lines that belong to a hunk. Null overall if the lines don't add up.
+ */
+function linePositions(
+    review: IFileReview,
+    inline: boolean,
+    layout: ReviewLayout,
+): Array<{ o: number; m: number } | null> | null {
+    const mod = review.modifiedContent.split("\n");
+    const lines: string[] = [];
+    const positions: Array<{ o: number; m: number } | null> = [];
+    let o = 0;
+    let m = 0;
+    const plainUntil = (end: number) => {
+        for (; m < end && m < mod.length; o++, m++) {
+            lines.push(mod[m]);
+            positions.push({ o, m });
+        }
+    };
+    const textHunks = review.hunks.filter((h) => !isMarkerHunk(h));
+    for (const h of textHunks.sort((a, b) => a.modStart - b.modStart)) {
+        plainUntil(h.modStart - 1);
+        const shown = !inline
+            ? h.added
+            : h.resolved
+              ? h.accepted
+                  ? h.added
+                  : h.removed
+              : layout === "inline"
+                ? [...h.removed, ...h.added]
+                : h.added;
+        for (const line of shown) {
+            lines.push(line);
+            positions.push(null);
+        }
+        o = h.origStart - 1 + h.removed.length;
+        m += h.added.length;
+    }
+    plainUntil(mod.length);
+    const expected = inline ? review.mergedLines.join("\n") : review.modifiedContent;
+    return lines.join("\n") === expected ? positions : null;
+}
+
+/** Asks what to do with a conflicted file; "Show Conflict" opens the three-way view first */
+export async function promptConflict(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+): Promise<ConflictAction | undefined> {
+    const review = conflicts.get(filePath);
+    if (!review) return undefined;
+    const name = path.basename(filePath);
+    for (;;) {
+        const choice = await vscode.window.showWarningMessage(
+            `${name} changed on disk where Claude's changes are still pending. The file was left as it is on disk.`,
+            "Show Conflict",
+            "Review Disk Version",
+            "Restore Review",
+            "Discard Review",
+        );
+        switch (choice) {
+            case "Show Conflict":
+                await showThreeWay(mgr, filePath, review);
+                continue;
+            case "Review Disk Version":
+                return "review-disk";
+            case "Restore Review":
+                return "restore";
+            case "Discard Review":
+                return "discard";
+            default:
+                return undefined;
+        }
+    }
+}
+
+/** Original, the review's result and the disk content merged with diff3 conflict markers */
+async function showThreeWay(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    review: IFileReview,
+): Promise<void> {
+    let disk = "";
+    try {
+        disk = fs.readFileSync(filePath, "utf8");
+    } catch {}
+    const reviewed = buildContentWith(review, (h) => !h.resolved || h.accepted);
+    const { text, conflicts: count } = mergeThreeWay(review.originalContent, reviewed, disk, {
+        ours: "review (Claude's changes)",
+        base: "original",
+        theirs: "on disk",
+    });
+    logCat(
+        "review",
+        `showThreeWay: ${path.relative(mgr.wp, filePath)} — ${count} conflicting region(s)`,
+    );
+    const doc = await vscode.workspace.openTextDocument({ content: text });
+    await vscode.window.showTextDocument(doc, { preview: true });
+}
+
+/**
+ * Ends a conflict: review the disk version against the original, put the review's version
+ * back on disk, or drop the review and keep the disk as it is.
+ */
+export async function resolveConflict(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    action: ConflictAction,
+): Promise<void> {
+    const review = conflicts.get(filePath);
+    if (!review) return;
+    conflicts.delete(filePath);
+    logCat("review", `resolveConflict: ${filePath} — ${action}`);
+
+    if (action === "discard") {
+        mgr.syncState();
+        mgr.refreshUI();
+        mgr.scheduleSave();
+        return;
+    }
+
+    state.activeReviews.set(filePath, review);
+    if (!mgr.reviewFiles.includes(filePath)) mgr.reviewFiles.push(filePath);
+    if (action === "review-disk") {
+        // Re-reads the disk as Claude's side; the review keeps its original
+        await addFile(mgr, filePath, review.sessionId);
+    } else {
+        fs.writeFileSync(filePath, review.modifiedContent, "utf8");
+        review.mergedApplied = false;
+        initHistory(filePath);
+        mgr.syncState();
+        mgr.refreshUI();
+        mgr.scheduleSave();
+        mgr._onReviewStateChange.fire(true);
+    }
+    if (state.activeReviews.has(filePath)) await mgr.openFileForReview(filePath);
+}
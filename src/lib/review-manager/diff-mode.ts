@@ -0,0 +1,108 @@
+// Diff mode — ignore-whitespace / ignore-line-endings reviews
+import * as vscode from "vscode";
+import { logCat } from "../log";
+import * as state from "../state";
+import { FileReview, rebuildMerged, isMarkerHunk } from "../review";
+import { computeDiff } from "../diff";
+import { isNotebookPath } from "../notebook";
+import { pushUndoState } from "../undo-history";
+import { applyContentViaEdit } from "./content-application";
+import { finalizeFile } from "./hunk-resolution";
+import type { DiffOptions, Hunk } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+/** Mode for new reviews, from settings — undefined when both ignore modes are off */
+export function defaultDiffOptions(): DiffOptions | undefined {
+    const config = vscode.workspace.getConfiguration("claudeCodeReview");
+    const options: DiffOptions = {
+        ignoreWhitespace: config.get<boolean>("ignoreWhitespace", false),
+        ignoreLineEndings: config.get<boolean>("ignoreLineEndings", false),
+    };
+    return options.ignoreWhitespace || options.ignoreLineEndings ? options : undefined;
+}
+
+/** Whitespace-only hunks need no decision in an ignore mode — they keep Claude's formatting */
+export function autoAcceptWhitespace(hunks: Hunk[]): number {
+    let count = 0;
+    for (const h of hunks) {
+        if (h.whitespaceOnly && !h.resolved) {
+            h.resolved = true;
+            h.accepted = true;
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * Flips one ignore mode for a review and re-diffs it. Decisions already made carry over to
+ * hunks with identical lines; with the mode off, formatting changes become reviewable again.
+ */
+export async function toggleDiffOption(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    option: keyof DiffOptions,
+): Promise<void> {
+    const review = state.activeReviews.get(filePath);
+    if (!review) return;
+    if (review.wholeFile || isNotebookPath(filePath)) {
+        vscode.window.setStatusBarMessage(
+            "$(info) Whitespace modes don't apply to this file",
+            2000,
+        );
+        return;
+    }
+
+    const diffOptions: DiffOptions = {
+        ...review.diffOptions,
+        [option]: !review.diffOptions?.[option],
+    };
+    // User decisions only — auto-accepted whitespace hunks must come back unresolved
+    const decided = new Map<string, Hunk>();
+    for (const h of review.hunks) {
+        if (h.resolved && !h.whitespaceOnly && !isMarkerHunk(h)) decided.set(hunkKey(h), h);
+    }
+
+    const markers = review.hunks.filter(isMarkerHunk);
+    const hunks = computeDiff(
+        review.originalContent,
+        review.modifiedContent,
+        filePath,
+        mgr.wp,
+        diffOptions,
+    );
+    for (const h of hunks) {
+        h.id += markers.length;
+        const prev = decided.get(hunkKey(h));
+        if (prev) {
+            h.resolved = true;
+            h.accepted = prev.accepted;
+        }
+    }
+    const autoAccepted = autoAcceptWhitespace(hunks);
+
+    pushUndoState(filePath, review);
+    review.hunks = [...markers, ...hunks];
+    review.diffOptions =
+        diffOptions.ignoreWhitespace || diffOptions.ignoreLineEndings ? diffOptions : undefined;
+    logCat(
+        "review",
+        `toggleDiffOption: ${filePath} ${option}=${diffOptions[option]} → ${hunks.length} hunks, ${autoAccepted} whitespace-only auto-accepted`,
+    );
+
+    if (review.isFullyResolved) {
+        await finalizeFile(mgr, filePath);
+    } else {
+        rebuildMerged(review as FileReview);
+        const count = review.hunkRanges.length;
+        if (mgr.currentHunkIndex >= count) mgr.currentHunkIndex = Math.max(0, count - 1);
+        await applyContentViaEdit(mgr, filePath, review.mergedLines.join("\n"));
+    }
+    mgr.syncState();
+    mgr.refreshUI();
+    mgr.scheduleSave();
+}
+
+function hunkKey(h: Hunk): string {
+    return `${h.origStart}\0${h.removed.join("\n")}\0${h.added.join("\n")}`;
+}
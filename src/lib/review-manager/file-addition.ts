@@ -1,15 +1,24 @@
 // File addition — handles adding files to review (called from PostToolUse hook)
+import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import { execSync } from "child_process";
 import { log, logCat } from "../log";
 import { fileLog } from "../file-logger";
 import * as state from "../state";
 import { getSnapshot, clearSnapshot } from "../server";
-import { FileReview, buildMergedContent } from "../review";
+import { FileReview, buildMergedContent, layoutOf, makeMarkerHunk } from "../review";
 import { computeDiff } from "../diff";
+import { isNotebookPath, canonicalizeNotebook, computeNotebookHunks } from "../notebook";
 import { initHistory } from "../undo-history";
-import type { ChangeType } from "../../types";
+import { currentReviewBase, readAtBase } from "../review-base";
+import { wholeFileReasonForText } from "../binary-file";
+import { getPathPolicy } from "../review-policy";
+import { recordAudit } from "../audit-log";
+import { addWholeFile } from "./whole-file";
+import { defaultDiffOptions, autoAcceptWhitespace } from "./diff-mode";
+import { appendLayer } from "./layers";
+import { shiftComments } from "./comments";
+import type { ChangeType, PathPolicy } from "../../types";
 import type { ReviewManagerInternal } from "./types";
 
 export async function addFile(
@@ -43,10 +52,40 @@ export async function addFile(
         return;
     }
 
+    // Binary and oversized files can't be reviewed as text hunks
+    const existing = state.activeReviews.get(absFilePath);
+    if (existing?.wholeFile || wholeFileReasonForText(modifiedContent)) {
+        await addWholeFile(mgr, absFilePath, sessionId);
+        return;
+    }
+
+    // Content right before this tool call — the start of its layer
+    const before = getSnapshot(absFilePath) ?? existing?.modifiedContent;
+
     // Get "before" content via fallback chain.
     // Preserve existing review's original before deleting it.
-    const existingOriginal = state.activeReviews.get(absFilePath)?.originalContent;
-    const originalContent = getOriginalContent(mgr, absFilePath, existingOriginal);
+    let originalContent = getOriginalContent(mgr, absFilePath, existing?.originalContent);
+    if (wholeFileReasonForText(originalContent)) {
+        await addWholeFile(mgr, absFilePath, sessionId);
+        return;
+    }
+
+    // Notebooks (NotebookEdit) are reviewed in canonical nbformat serialization so both
+    // sides line up cell by cell regardless of how the writer formatted the JSON
+    const notebook = isNotebookPath(absFilePath);
+    let raw: { original: string; modified: string } | undefined;
+    if (notebook) {
+        const canonOrig = canonicalizeNotebook(originalContent);
+        const canonMod = canonicalizeNotebook(modifiedContent);
+        if (canonOrig !== null && canonMod !== null) {
+            // A re-edit's original is the canonical one — its bytes came with the first edit
+            raw = { original: existing?.rawOriginal ?? originalContent, modified: modifiedContent };
+            originalContent = canonOrig;
+            modifiedContent = canonMod;
+        } else {
+            logCat("file-add", `${absFilePath}: not a parseable notebook, using line diff`);
+        }
+    }
 
     if (originalContent === modifiedContent) {
         logCat(
@@ -79,7 +118,12 @@ export async function addFile(
         `${absFilePath}: changeType=${changeType}, original=${originalContent.length}chars, modified=${modifiedContent.length}chars`,
     );
 
-    const hunks = computeDiff(originalContent, modifiedContent, absFilePath, mgr.wp);
+    // A review keeps its whitespace mode across re-edits; new reviews take it from settings
+    const diffOptions = notebook ? undefined : (existing?.diffOptions ?? defaultDiffOptions());
+    const notebookHunks = notebook ? computeNotebookHunks(originalContent, modifiedContent) : null;
+    const hunks =
+        notebookHunks ??
+        computeDiff(originalContent, modifiedContent, absFilePath, mgr.wp, diffOptions);
     if (hunks.length === 0) {
         logCat(
             "file-add",
@@ -87,14 +131,63 @@ export async function addFile(
         );
         return;
     }
+    // Review policy: generated files skip the review, sensitive paths get no auto-accept
+    const policy = getPathPolicy(mgr.wp, absFilePath);
+    if (policy.skip) {
+        const skipped = new FileReview(
+            absFilePath,
+            originalContent,
+            modifiedContent,
+            hunks,
+            changeType,
+        );
+        skipped.sessionId = sessionId;
+        skipByPolicy(mgr, skipped, policy.skip);
+        return;
+    }
+    const autoAccepted = policy.requireReview ? 0 : autoAcceptWhitespace(hunks);
+    if (autoAccepted === hunks.length) {
+        // Nothing left to decide — Claude's formatting stays on disk as is
+        logCat(
+            "file-add",
+            `SKIP ${absFilePath}: all ${autoAccepted} hunks are whitespace-only (auto-accepted)`,
+        );
+        const accepted = new FileReview(
+            absFilePath,
+            originalContent,
+            modifiedContent,
+            hunks,
+            changeType,
+        );
+        accepted.sessionId = sessionId;
+        recordAudit(mgr.wp, accepted, state.getReviewBase()?.label);
+        mgr.reviewFiles = mgr.reviewFiles.filter((f) => f !== absFilePath);
+        clearSnapshot(absFilePath);
+        mgr.syncState();
+        mgr.refreshUI();
+        return;
+    }
 
     const modLines = modifiedContent.split("\n");
-    const { lines, ranges } = buildMergedContent(modLines, hunks);
-
     const review = new FileReview(absFilePath, originalContent, modifiedContent, hunks, changeType);
+    const { lines, ranges } = buildMergedContent(modLines, hunks, layoutOf(changeType));
     review.mergedLines = lines;
     review.hunkRanges = ranges;
     review.sessionId = sessionId;
+    review.diffOptions = diffOptions;
+    review.rawOriginal = raw?.original;
+    review.rawModified = raw?.modified;
+    // Notebooks are diffed in canonical form, which the raw snapshot isn't
+    if (!notebook) {
+        review.layers = appendLayer(existing?.layers, before ?? originalContent, modifiedContent);
+    }
+    if (existing) {
+        review.comments = shiftComments(
+            existing.comments,
+            existing.modifiedContent,
+            modifiedContent,
+        );
+    }
     state.activeReviews.set(absFilePath, review);
 
     if (!mgr.reviewFiles.includes(absFilePath)) {
@@ -116,17 +209,164 @@ export async function addFile(
 
     logCat(
         "file-add",
-        `ADDED ${absFilePath}: ${hunks.length} hunks, type=${changeType}, mergedLines=${lines.length}, ranges=${ranges.length}, session=${sessionId ?? "none"}`,
+        `ADDED ${absFilePath}: ${hunks.length} hunks (${autoAccepted} whitespace-only auto-accepted), type=${changeType}, mergedLines=${lines.length}, ranges=${ranges.length}, session=${sessionId ?? "none"}`,
+    );
+    mgr.scheduleSave();
+    mgr._onReviewStateChange.fire(true);
+}
+
+/**
+ * Rename/move (`mv a b`): one review at the destination that pairs both paths. The first hunk
+ * is the move itself; the rest is the content diff between source-before and destination-now.
+ */
+export async function addRename(
+    mgr: ReviewManagerInternal,
+    fromPath: string,
+    toPath: string,
+    sessionId?: string,
+): Promise<void> {
+    fileLog.log("review", `addRename: ${fromPath} → ${toPath}`);
+
+    let modifiedContent: string;
+    try {
+        modifiedContent = fs.readFileSync(toPath, "utf8");
+    } catch (err) {
+        logCat(
+            "file-add",
+            `addRename: cannot read destination ${toPath}: ${(err as Error).message} — move failed?`,
+        );
+        await addFile(mgr, fromPath, sessionId);
+        return;
+    }
+
+    // Claude may have edited (or already moved) the source earlier in this review —
+    // carry over the true original and the true origin path
+    const existing = state.activeReviews.get(fromPath);
+    const originPath =
+        existing?.changeType === "rename" && existing.renamedFrom ? existing.renamedFrom : fromPath;
+    const originalContent = getOriginalContent(mgr, fromPath, existing?.originalContent);
+
+    // Whole-file (binary/large) moves are reviewed as a deletion plus a new file
+    if (
+        existing?.wholeFile ||
+        wholeFileReasonForText(modifiedContent) ||
+        wholeFileReasonForText(originalContent)
+    ) {
+        logCat(
+            "file-add",
+            `addRename: ${fromPath} → ${toPath} is binary/large, reviewing both ends`,
+        );
+        await addFile(mgr, fromPath, sessionId);
+        await addFile(mgr, toPath, sessionId);
+        return;
+    }
+    dropReview(mgr, fromPath);
+    clearSnapshot(fromPath);
+
+    if (!originalContent || originPath === toPath) {
+        // Moving a file Claude just created (or moving it back) is not a rename from the
+        // user's point of view — review the destination as a plain create/edit
+        logCat("file-add", `addRename: ${toPath} has no prior content at origin, adding as file`);
+        await addFile(mgr, toPath, sessionId);
+        return;
+    }
+
+    dropReview(mgr, toPath);
+    const relFrom = path.relative(mgr.wp, originPath);
+    const diffOptions = existing?.diffOptions ?? defaultDiffOptions();
+    const contentHunks =
+        originalContent === modifiedContent
+            ? []
+            : computeDiff(originalContent, modifiedContent, toPath, mgr.wp, diffOptions);
+    autoAcceptWhitespace(contentHunks);
+    const hunks = [
+        makeMarkerHunk(0, `Renamed from ${relFrom}`),
+        ...contentHunks.map((h) => ({ ...h, id: h.id + 1 })),
+    ];
+
+    const review = new FileReview(toPath, originalContent, modifiedContent, hunks, "rename");
+    review.renamedFrom = originPath;
+    review.sessionId = sessionId;
+    review.diffOptions = diffOptions;
+    if (existing) {
+        review.comments = shiftComments(
+            existing.comments,
+            existing.modifiedContent,
+            modifiedContent,
+        );
+    }
+    const { lines, ranges } = buildMergedContent(
+        modifiedContent.split("\n"),
+        hunks,
+        layoutOf("rename"),
+    );
+    review.mergedLines = lines;
+    review.hunkRanges = ranges;
+    state.activeReviews.set(toPath, review);
+    if (!mgr.reviewFiles.includes(toPath)) mgr.reviewFiles.push(toPath);
+
+    clearSnapshot(toPath);
+    initHistory(toPath);
+    mgr.syncState();
+    mgr.refreshUI();
+
+    logCat(
+        "file-add",
+        `ADDED rename ${relFrom} → ${toPath}: ${contentHunks.length} content hunks, session=${sessionId ?? "none"}`,
     );
     mgr.scheduleSave();
     mgr._onReviewStateChange.fire(true);
 }
 
+/** Keeps a file out of the review per policy — auto-keep still records it as reviewed and kept */
+function skipByPolicy(
+    mgr: ReviewManagerInternal,
+    review: FileReview,
+    skip: NonNullable<PathPolicy["skip"]>,
+): void {
+    const filePath = review.filePath;
+    mgr.reviewFiles = mgr.reviewFiles.filter((f) => f !== filePath);
+    clearSnapshot(filePath);
+    if (skip.rule === "auto-keep") {
+        for (const h of review.hunks) {
+            h.resolved = true;
+            h.accepted = true;
+        }
+        state.recordReviewedFile({
+            filePath,
+            changeType: review.changeType,
+            kept: review.hunks.length,
+            undone: 0,
+            sessionId: review.sessionId,
+        });
+        recordAudit(mgr.wp, review, state.getReviewBase()?.label);
+    }
+    state.recordPolicySkip({ filePath, ...skip });
+    logCat("file-add", `SKIP ${filePath}: ${skip.rule} by review policy (${skip.pattern})`);
+    vscode.window.setStatusBarMessage(
+        `$(filter) ${path.basename(filePath)}: ${skip.rule} by review policy`,
+        3000,
+    );
+    mgr.syncState();
+    mgr.refreshUI();
+}
+
+function dropReview(mgr: ReviewManagerInternal, filePath: string): void {
+    if (!state.activeReviews.has(filePath)) return;
+    state.activeReviews.delete(filePath);
+    mgr.reviewFiles = mgr.reviewFiles.filter((f) => f !== filePath);
+}
+
 export async function handleMissingFile(
     mgr: ReviewManagerInternal,
     absFilePath: string,
     sessionId?: string,
 ): Promise<void> {
+    if (state.activeReviews.get(absFilePath)?.wholeFile) {
+        await addWholeFile(mgr, absFilePath, sessionId);
+        return;
+    }
+
     // Try to find original content from snapshot or existing review
     const snapshot = getSnapshot(absFilePath);
     const existingOrig = state.activeReviews.get(absFilePath)?.originalContent;
@@ -142,19 +382,15 @@ export async function handleMissingFile(
         return;
     }
 
-    // Try git show HEAD
+    // Try the review base
+    const base = currentReviewBase(mgr.wp);
     try {
         const relPath = path.relative(mgr.wp, absFilePath);
         if (!relPath.startsWith("..")) {
-            const gitContent = execSync(`git show HEAD:"${relPath}"`, {
-                cwd: mgr.wp,
-                encoding: "utf8",
-                timeout: 5000,
-                stdio: "pipe",
-            });
+            const gitContent = readAtBase(mgr.wp, relPath, base);
             logCat(
                 "file-add",
-                `handleMissingFile: ${absFilePath} — found via git show HEAD (${gitContent.length} chars)`,
+                `handleMissingFile: ${absFilePath} — found via git show ${base.label} (${gitContent.length} chars)`,
             );
             await handleDeletion(mgr, absFilePath, gitContent, sessionId);
             return;
@@ -166,7 +402,7 @@ export async function handleMissingFile(
     } catch (err) {
         logCat(
             "file-add",
-            `handleMissingFile: ${absFilePath} — git show HEAD failed: ${(err as Error).message}`,
+            `handleMissingFile: ${absFilePath} — git show ${base.label} failed: ${(err as Error).message}`,
         );
     }
 
@@ -182,6 +418,11 @@ export async function handleDeletion(
     originalContent: string,
     sessionId?: string,
 ): Promise<void> {
+    if (wholeFileReasonForText(originalContent)) {
+        await addWholeFile(mgr, absFilePath, sessionId);
+        return;
+    }
+
     // Remove old review if present
     if (state.activeReviews.has(absFilePath)) {
         state.activeReviews.delete(absFilePath);
@@ -263,19 +504,15 @@ export function getOriginalContent(
         return snapshot;
     }
 
-    // 3. git show HEAD:path (only for files inside the workspace)
+    // 3. Content at the review base (HEAD unless configured; only inside the workspace)
+    const base = currentReviewBase(mgr.wp);
     try {
         const relPath = path.relative(mgr.wp, absFilePath);
         if (!relPath.startsWith("..")) {
-            const content = execSync(`git show HEAD:"${relPath}"`, {
-                cwd: mgr.wp,
-                encoding: "utf8",
-                timeout: 5000,
-                stdio: "pipe",
-            });
+            const content = readAtBase(mgr.wp, relPath, base);
             logCat(
                 "file-add",
-                `original source: git show HEAD for ${absFilePath} (${content.length} chars)`,
+                `original source: git show ${base.label} for ${absFilePath} (${content.length} chars)`,
             );
             return content;
         }
@@ -286,7 +523,7 @@ export function getOriginalContent(
     } catch (err) {
         logCat(
             "file-add",
-            `original source: git show HEAD failed for ${absFilePath}: ${(err as Error).message}, falling back to empty`,
+            `original source: git show ${base.label} failed for ${absFilePath}: ${(err as Error).message}, falling back to empty`,
         );
     }
 
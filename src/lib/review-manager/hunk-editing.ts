@@ -0,0 +1,181 @@
+// Hunk editing — split a hunk at the cursor, merge it with the next one, resolve single lines
+import * as vscode from "vscode";
+import { logCat } from "../log";
+import * as state from "../state";
+import {
+    FileReview,
+    rebuildMerged,
+    isMarkerHunk,
+    splitHunk as splitHunkModel,
+    mergeHunks,
+    renumberHunks,
+} from "../review";
+import { pushUndoState } from "../undo-history";
+import { applyContentViaEdit } from "./content-application";
+import { resolveHunk } from "./hunk-resolution";
+import { settleExternalChange } from "./conflicts";
+import type { Hunk, HunkRange, IFileReview } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+/** Splits the unresolved hunk under bufferLine so the lines from bufferLine on form a new hunk */
+export async function splitHunk(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    bufferLine: number,
+): Promise<void> {
+    if (!(await settleExternalChange(mgr, filePath))) return;
+    const review = state.activeReviews.get(filePath);
+    const found = review && findHunkAt(review, bufferLine);
+    if (!review || !found) {
+        vscode.window.setStatusBarMessage("$(info) Place the cursor inside a change", 2000);
+        return;
+    }
+    const { hunk, range } = found;
+    const halves = splitHunkModel(hunk, startOffset(hunk, range, bufferLine));
+    if (!halves) {
+        vscode.window.setStatusBarMessage(
+            "$(info) Can't split at the first line of a change",
+            2000,
+        );
+        return;
+    }
+
+    pushUndoState(filePath, review);
+    const index = review.hunks.indexOf(hunk);
+    review.hunks.splice(index, 1, ...halves);
+    renumberHunks(review.hunks);
+    logCat(
+        "resolve",
+        `splitHunk: ${filePath} hunk ${hunk.id} at line ${bufferLine} → ${halves[0].removed.length}-/${halves[0].added.length}+ and ${halves[1].removed.length}-/${halves[1].added.length}+`,
+    );
+    await applyHunkEdit(mgr, review, halves[1].id);
+}
+
+/** Merges the unresolved hunk under bufferLine with the next hunk, if that one is unresolved too */
+export async function mergeWithNextHunk(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    bufferLine: number,
+): Promise<void> {
+    if (!(await settleExternalChange(mgr, filePath))) return;
+    const review = state.activeReviews.get(filePath);
+    const found = review && findHunkAt(review, bufferLine);
+    if (!review || !found) {
+        vscode.window.setStatusBarMessage("$(info) Place the cursor inside a change", 2000);
+        return;
+    }
+    const index = review.hunks.indexOf(found.hunk);
+    const next = review.hunks[index + 1];
+    if (!next || next.resolved || isMarkerHunk(next)) {
+        vscode.window.setStatusBarMessage(
+            "$(info) No unresolved change right after this one",
+            2000,
+        );
+        return;
+    }
+
+    pushUndoState(filePath, review);
+    const merged = mergeHunks(review, found.hunk, next);
+    review.hunks.splice(index, 2, merged);
+    renumberHunks(review.hunks);
+    logCat(
+        "resolve",
+        `mergeWithNextHunk: ${filePath} hunks ${found.hunk.id}+${next.id} → ${merged.removed.length}-/${merged.added.length}+`,
+    );
+    await applyHunkEdit(mgr, review, merged.id);
+}
+
+/**
+ * Keep or Undo only the buffer lines firstLine..lastLine of one unresolved hunk. The hunk is
+ * split around the selection and the selected part is resolved; the rest stays unresolved.
+ */
+export async function resolveLines(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    firstLine: number,
+    lastLine: number,
+    accept: boolean,
+): Promise<void> {
+    if (!(await settleExternalChange(mgr, filePath))) return;
+    const review = state.activeReviews.get(filePath);
+    const found = review && findHunkAt(review, firstLine, lastLine);
+    if (!review || !found) {
+        vscode.window.setStatusBarMessage("$(info) Select lines inside a change", 2000);
+        return;
+    }
+    const { hunk, range } = found;
+    const total = hunk.removed.length + hunk.added.length;
+    // A selection running past the hunk only covers the hunk's own lines
+    const from = Math.max(startOffset(hunk, range, firstLine), 0);
+    const to = Math.min(inlineOffset(hunk, range, lastLine) + 1, total);
+    if (from === 0 && to === total) {
+        await resolveHunk(mgr, filePath, hunk.id, accept);
+        return;
+    }
+
+    pushUndoState(filePath, review);
+    const [head, tail] = to < total ? splitHunkModel(hunk, to)! : [hunk, null];
+    const [before, selected] = from > 0 ? splitHunkModel(head, from)! : [null, head];
+    selected.resolved = true;
+    selected.accepted = accept;
+    const pieces = [before, selected, tail].filter((h): h is Hunk => h !== null);
+    review.hunks.splice(review.hunks.indexOf(hunk), 1, ...pieces);
+    renumberHunks(review.hunks);
+    logCat(
+        "resolve",
+        `resolveLines: ${filePath} hunk ${hunk.id} lines ${from}..${to - 1} of ${total} ${accept ? "kept" : "undone"}, ${selected.removed.length}-/${selected.added.length}+`,
+    );
+
+    // The unselected part is still unresolved, so the file can't be finalized here
+    await applyHunkEdit(mgr, review, (tail ?? before)!.id);
+}
+
+/** Position of a buffer line in the hunk's inline view: removed lines, then added lines */
+function inlineOffset(hunk: Hunk, range: HunkRange, line: number): number {
+    return line < range.addedStart
+        ? line - range.removedStart
+        : hunk.removed.length + line - range.addedStart;
+}
+
+/**
+ * Like inlineOffset, for the first line of a selection or split. A side-by-side buffer has
+ * no removed lines — they go with the hunk's first added line.
+ */
+function startOffset(hunk: Hunk, range: HunkRange, line: number): number {
+    const offset = inlineOffset(hunk, range, line);
+    const removedShown = range.removedEnd > range.removedStart;
+    return !removedShown && offset === hunk.removed.length ? 0 : offset;
+}
+
+/** First unresolved content hunk whose inline lines (removed + added) overlap firstLine..lastLine */
+function findHunkAt(
+    review: IFileReview,
+    firstLine: number,
+    lastLine = firstLine,
+): { hunk: Hunk; range: HunkRange } | null {
+    for (const range of review.hunkRanges) {
+        if (lastLine < range.removedStart || firstLine >= range.addedEnd) continue;
+        const hunk = review.hunks.find((h) => h.id === range.hunkId);
+        if (hunk && !hunk.resolved && !isMarkerHunk(hunk)) return { hunk, range };
+    }
+    return null;
+}
+
+async function applyHunkEdit(
+    mgr: ReviewManagerInternal,
+    review: IFileReview,
+    focusHunkId: number,
+): Promise<void> {
+    rebuildMerged(review as FileReview);
+    const focus = review.hunkRanges.findIndex((r) => r.hunkId === focusHunkId);
+    mgr.currentHunkIndex = Math.max(0, focus);
+    await applyContentViaEdit(
+        mgr,
+        review.filePath,
+        review.mergedLines.join("\n"),
+        review.hunkRanges[mgr.currentHunkIndex]?.removedStart,
+    );
+    mgr.syncState();
+    mgr.refreshUI();
+    mgr.scheduleSave();
+}
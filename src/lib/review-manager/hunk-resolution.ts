@@ -1,14 +1,19 @@
 // Hunk resolution — accept/reject individual or all hunks, finalize files
 import * as vscode from "vscode";
 import * as fs from "fs";
+import * as path from "path";
 import { log, logCat } from "../log";
 import * as state from "../state";
-import { buildFinalContent, rebuildMerged } from "../review";
+import { buildFinalContent, rebuildMerged, isMarkerHunk } from "../review";
 import { clearDecorations } from "../decorations";
 import { pushUndoState, hasUndoState, hasRedoState } from "../undo-history";
 import { clearReviewState } from "../persistence";
+import { recordAudit } from "../audit-log";
 import { FileReview } from "../review";
 import { applyContentViaEdit } from "./content-application";
+import { finalizeWholeFile } from "./whole-file";
+import { collectReviewComments } from "./comments";
+import { getConflicts, settleExternalChange } from "./conflicts";
 import type { ReviewManagerInternal } from "./types";
 
 export async function resolveHunk(
@@ -18,6 +23,7 @@ export async function resolveHunk(
     accept: boolean,
 ): Promise<void> {
     const tResolve = performance.now();
+    if (!(await settleExternalChange(mgr, filePath))) return;
     const review = state.activeReviews.get(filePath);
     if (!review) return;
     const hunk = review.hunks.find((h) => h.id === hunkId);
@@ -84,6 +90,7 @@ export async function resolveAllHunks(
     filePath: string,
     accept: boolean,
 ): Promise<void> {
+    if (!(await settleExternalChange(mgr, filePath))) return;
     const review = state.activeReviews.get(filePath);
     if (!review) return;
     const unresolvedCount = review.hunks.filter((h) => !h.resolved).length;
@@ -107,6 +114,8 @@ export async function resolveAllHunks(
 }
 
 export async function finalizeFile(mgr: ReviewManagerInternal, filePath: string): Promise<void> {
+    // Callers decided already — a conflict found now keeps those decisions in the suspended review
+    if (!(await settleExternalChange(mgr, filePath))) return;
     const review = state.activeReviews.get(filePath);
     if (!review) return;
 
@@ -119,12 +128,24 @@ export async function finalizeFile(mgr: ReviewManagerInternal, filePath: string)
     );
 
     state.activeReviews.delete(filePath);
+    state.recordReviewedFile({
+        filePath,
+        renamedFrom: review.renamedFrom,
+        changeType,
+        kept: review.hunks.filter((h) => h.accepted).length,
+        undone: review.hunks.filter((h) => !h.accepted).length,
+        sessionId: review.sessionId,
+    });
+    recordAudit(mgr.wp, review, state.getReviewBase()?.label);
+    state.recordFinishedComments(collectReviewComments(review));
     logCat(
         "resolve",
         `finalizeFile: after delete — review=false, hasUndo=${hasUndoState(filePath)}, hasRedo=${hasRedoState(filePath)}`,
     );
 
-    if (changeType === "create" && allRejected) {
+    if (review.wholeFile) {
+        finalizeWholeFile(mgr, review);
+    } else if (changeType === "create" && allRejected) {
         try {
             fs.unlinkSync(filePath);
             logCat("resolve", `finalizeFile: deleted created file ${filePath} (rejected new file)`);
@@ -153,6 +174,34 @@ export async function finalizeFile(mgr: ReviewManagerInternal, filePath: string)
                 `finalizeFile: failed to confirm-delete ${filePath}: ${(err as Error).message}`,
             );
         }
+    } else if (changeType === "rename" && review.renamedFrom) {
+        // The move is all-or-nothing: the rename hunk decides where the file ends up,
+        // content hunks decide what it contains
+        const finalContent = buildFinalContent(review);
+        const renameHunk = review.hunks.find(isMarkerHunk);
+        const keepMove = renameHunk ? renameHunk.accepted : !allRejected;
+        if (keepMove) {
+            logCat(
+                "resolve",
+                `finalizeFile: completed rename ${review.renamedFrom} → ${filePath} (${finalContent.length} chars)`,
+            );
+            await applyContentViaEdit(mgr, filePath, finalContent);
+        } else {
+            try {
+                fs.mkdirSync(path.dirname(review.renamedFrom), { recursive: true });
+                fs.writeFileSync(review.renamedFrom, finalContent, "utf8");
+                fs.unlinkSync(filePath);
+                logCat(
+                    "resolve",
+                    `finalizeFile: reverted rename, restored ${review.renamedFrom} (${finalContent.length} chars)`,
+                );
+            } catch (err) {
+                logCat(
+                    "resolve",
+                    `finalizeFile: failed to revert rename of ${filePath}: ${(err as Error).message}`,
+                );
+            }
+        }
     } else {
         const finalContent = buildFinalContent(review);
         const acceptedCount = review.hunks.filter((h) => h.accepted).length;
@@ -173,16 +222,25 @@ export async function finalizeFile(mgr: ReviewManagerInternal, filePath: string)
     // NOTE: We defer refreshUI until AFTER the next file is opened (or confirmed absent).
     // Calling refreshUI here would briefly show "Review next file" in the webview
     // because the current file is already finalized but the next hasn't opened yet.
-    const next = mgr.reviewFiles.find((f) => state.activeReviews.has(f));
+    const next = mgr.reviewFiles.find(state.isInReviewScope);
     if (next) {
         mgr.currentFileIndex = mgr.reviewFiles.indexOf(next);
         mgr.currentHunkIndex = 0;
         await mgr.openFileForReview(next);
+    } else if (state.activeReviews.size > 0) {
+        // Scoped session is done — other sessions' files wait until the scope changes
+        logCat("review", `Scoped session reviewed, ${state.activeReviews.size} file(s) remain`);
+        mgr.syncState();
+        mgr.refreshUI();
     } else {
         logCat("review", "All files reviewed — clearing review state");
         mgr.reviewFiles = [];
         mgr.currentFileIndex = 0;
-        clearReviewState(mgr.wp);
+        // Suspended conflicts and unsent comments stay in the saved state
+        if (getConflicts().length === 0 && state.getFinishedComments().length === 0) {
+            clearReviewState(mgr.wp);
+        }
+        state.clearPolicySkips();
         mgr.syncState();
         mgr.refreshUI();
         mgr._onReviewStateChange.fire(false);
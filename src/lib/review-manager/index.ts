@@ -1,2 +1,3 @@
 // Barrel re-export for review-manager module
 export { ReviewManager } from "./review-manager";
+export type { SessionGroup } from "./queries";
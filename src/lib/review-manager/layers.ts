@@ -0,0 +1,114 @@
+// Edit layers — each Claude tool call on a file under review, kept so one step can be undone alone
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { logCat } from "../log";
+import * as state from "../state";
+import { buildMergedContent, layoutOf } from "../review";
+import { mergeThreeWay } from "../merge";
+import { clearHistory } from "../undo-history";
+import { addFile } from "./file-addition";
+import { finalizeFile } from "./hunk-resolution";
+import type { EditLayer } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+/** Older steps are folded together past this — each layer holds two copies of the file */
+const MAX_LAYERS = 20;
+
+/** Layers with the change from `before` to `after` appended; no-op when nothing changed */
+export function appendLayer(
+    layers: EditLayer[] | undefined,
+    before: string,
+    after: string,
+): EditLayer[] {
+    const next = [...(layers ?? [])];
+    if (before === after) return next;
+    next.push({ before, after, at: Date.now() });
+    while (next.length > MAX_LAYERS) {
+        const [first, second] = next.splice(0, 2);
+        next.unshift({ ...second, before: first.before, undone: first.undone && second.undone });
+    }
+    return next;
+}
+
+export function getLayers(filePath: string): EditLayer[] {
+    return state.activeReviews.get(filePath)?.layers ?? [];
+}
+
+/**
+ * Reverts one step and keeps every later one: the step's change is undone on top of Claude's
+ * current version (three-way, the step's result as base). Refused when a later step edited
+ * the same lines. Decisions on hunks that survive the rebuild unchanged are kept.
+ */
+export async function undoLayer(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    index: number,
+): Promise<void> {
+    const review = state.activeReviews.get(filePath);
+    const layer = review?.layers?.[index];
+    if (!review || !layer || layer.undone || review.wholeFile) return;
+    const name = path.basename(filePath);
+
+    const { text, conflicts } = mergeThreeWay(layer.after, review.modifiedContent, layer.before, {
+        ours: "current",
+        base: `step ${index + 1}`,
+        theirs: `before step ${index + 1}`,
+    });
+    if (conflicts > 0) {
+        logCat("review", `undoLayer: ${name} step ${index + 1} overlaps later edits`);
+        vscode.window.showWarningMessage(
+            `Step ${index + 1} of ${name} overlaps later edits and can't be undone on its own.`,
+        );
+        return;
+    }
+
+    const decisions = new Map(
+        review.hunks
+            .filter((h) => h.resolved)
+            .map((h) => [hunkKey(h.origStart, h.removed, h.added), h.accepted]),
+    );
+    try {
+        fs.writeFileSync(filePath, text, "utf8");
+    } catch (err) {
+        logCat("review", `undoLayer: failed to write ${filePath}: ${(err as Error).message}`);
+        return;
+    }
+    logCat("review", `undoLayer: ${name} step ${index + 1} undone`);
+    layer.undone = true;
+    review.mergedApplied = false;
+    // Claude's side already is the new content, so addFile records no new step for it
+    review.modifiedContent = text;
+    clearHistory(filePath);
+    await addFile(mgr, filePath, review.sessionId);
+
+    const rebuilt = state.activeReviews.get(filePath);
+    if (rebuilt) {
+        for (const h of rebuilt.hunks) {
+            const accepted = decisions.get(hunkKey(h.origStart, h.removed, h.added));
+            if (accepted === undefined) continue;
+            h.resolved = true;
+            h.accepted = accepted;
+        }
+        const { lines, ranges } = buildMergedContent(
+            rebuilt.modifiedContent.split("\n"),
+            rebuilt.hunks,
+            layoutOf(rebuilt.changeType),
+        );
+        rebuilt.mergedLines = lines;
+        rebuilt.hunkRanges = ranges;
+        if (rebuilt.isFullyResolved) {
+            await finalizeFile(mgr, filePath);
+        } else if (vscode.window.activeTextEditor?.document.uri.fsPath === filePath) {
+            await mgr.openFileForReview(filePath);
+        }
+    }
+    mgr.syncState();
+    mgr.refreshUI();
+    mgr.scheduleSave();
+    vscode.window.setStatusBarMessage(`$(discard) Undid step ${index + 1} of ${name}`, 2000);
+}
+
+function hunkKey(origStart: number, removed: string[], added: string[]): string {
+    return JSON.stringify([origStart, removed, added]);
+}
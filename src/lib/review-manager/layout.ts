@@ -0,0 +1,37 @@
+// Review layout — switches files under review between the inline buffer and side by side
+import { logCat } from "../log";
+import * as state from "../state";
+import { FileReview, rebuildMerged } from "../review";
+import { clearHistory, initHistory } from "../undo-history";
+import { applyContentViaEdit } from "./content-application";
+import type { ReviewLayout } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+/** Rebuilds every review's buffer for the layout and reopens the current file in it */
+export async function setLayout(mgr: ReviewManagerInternal, layout: ReviewLayout): Promise<void> {
+    if (state.getReviewLayout() === layout) return;
+    state.setReviewLayout(layout);
+    logCat("review", `setLayout: ${layout}, ${state.activeReviews.size} file(s) under review`);
+
+    for (const review of state.activeReviews.values()) {
+        if (review.wholeFile) continue;
+        rebuildMerged(review as FileReview);
+        // Undo snapshots hold buffers of the other layout — restoring one would mix them
+        clearHistory(review.filePath);
+        initHistory(review.filePath);
+        // A file not opened for review yet still holds Claude's version — nothing to redo
+        if (review.mergedApplied) {
+            await applyContentViaEdit(mgr, review.filePath, review.mergedLines.join("\n"));
+        }
+    }
+
+    mgr.currentHunkIndex = 0;
+    const current = mgr.reviewFiles[mgr.currentFileIndex];
+    if (current && state.activeReviews.has(current)) {
+        await mgr.openFileForReview(current);
+    } else {
+        mgr.syncState();
+        mgr.refreshUI();
+    }
+    mgr.scheduleSave();
+}
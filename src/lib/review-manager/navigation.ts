@@ -1,11 +1,14 @@
 // Navigation — hunk/file navigation and file opening for review
 import * as vscode from "vscode";
 import * as fs from "fs";
+import * as path from "path";
 import { log, logCat } from "../log";
 import * as state from "../state";
 import { applyDecorations } from "../decorations";
-import { FileReview } from "../review";
+import { FileReview, layoutOf } from "../review";
+import { originalUri } from "../side-by-side";
 import { initHistory, setApplyingEdit } from "../undo-history";
+import { openWholeFilePreview } from "./whole-file";
 import type { ReviewManagerInternal } from "./types";
 
 /** Clamp currentFileIndex to valid bounds after reviewFiles mutations */
@@ -40,7 +43,7 @@ export function navigateHunk(mgr: ReviewManagerInternal, delta: number): void {
 }
 
 export async function navigateFile(mgr: ReviewManagerInternal, delta: number): Promise<void> {
-    const files = mgr.reviewFiles.filter((f) => state.activeReviews.has(f));
+    const files = mgr.reviewFiles.filter(state.isInReviewScope);
     if (files.length === 0) return;
     const current = mgr.reviewFiles[mgr.currentFileIndex];
     let curIdx = files.indexOf(current);
@@ -66,7 +69,7 @@ export async function reviewNextUnresolved(mgr: ReviewManagerInternal): Promise<
     // Start from i=1 to skip the current file (go to NEXT unresolved)
     for (let i = 1; i <= total; i++) {
         const idx = (startIdx + i) % total;
-        if (state.activeReviews.has(files[idx])) {
+        if (state.isInReviewScope(files[idx])) {
             logCat(
                 "navigation",
                 `reviewNextUnresolved: from index ${startIdx} → opening index ${idx} (${files[idx]})`,
@@ -80,11 +83,11 @@ export async function reviewNextUnresolved(mgr: ReviewManagerInternal): Promise<
 
 export async function openCurrentOrNext(mgr: ReviewManagerInternal): Promise<void> {
     clampFileIndex(mgr);
-    const files = mgr.reviewFiles.filter((f) => state.activeReviews.has(f));
+    const files = mgr.reviewFiles.filter(state.isInReviewScope);
     if (files.length === 0) return;
     // Try to open the file at the saved currentFileIndex
     const target = mgr.reviewFiles[mgr.currentFileIndex];
-    if (target && state.activeReviews.has(target)) {
+    if (target && state.isInReviewScope(target)) {
         await mgr.openFileForReview(target);
     } else {
         await mgr.openFileForReview(files[0]);
@@ -109,18 +112,29 @@ export async function openFileForReview(
 
     initHistory(filePath);
 
+    if (review.wholeFile) {
+        await openWholeFilePreview(mgr, filePath, review);
+        return;
+    }
+
     const mergedContent = review.mergedLines.join("\n");
-    fs.writeFileSync(filePath, mergedContent, "utf8");
+    const sideBySide = layoutOf(review.changeType) === "sideBySide";
+    // Side by side, the file holds Claude's version until a hunk is undone — leave it be
+    if (!sideBySide || readFile(filePath) !== mergedContent) {
+        fs.writeFileSync(filePath, mergedContent, "utf8");
+        logCat(
+            "navigation",
+            `openFileForReview: wrote merged content to disk (${mergedContent.length} chars)`,
+        );
+    }
     (review as FileReview).mergedApplied = true;
-    logCat(
-        "navigation",
-        `openFileForReview: wrote merged content to disk (${mergedContent.length} chars)`,
-    );
     const doc = await vscode.workspace.openTextDocument(filePath);
-    const editor = await vscode.window.showTextDocument(doc, {
-        preview: false,
-        viewColumn: vscode.ViewColumn.One,
-    });
+    const editor = sideBySide
+        ? await openSideBySide(mgr, filePath, doc)
+        : await vscode.window.showTextDocument(doc, {
+              preview: false,
+              viewColumn: vscode.ViewColumn.One,
+          });
 
     // If the file was already open, the editor may have stale cached content.
     if (doc.getText() !== mergedContent) {
@@ -168,3 +182,33 @@ export async function openFileForReview(
     mgr.syncState();
     mgr.refreshUI();
 }
+
+function readFile(filePath: string): string | null {
+    try {
+        return fs.readFileSync(filePath, "utf8");
+    } catch {
+        return null;
+    }
+}
+
+/** Opens the file as the modified side of a diff editor against its original side */
+async function openSideBySide(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    doc: vscode.TextDocument,
+): Promise<vscode.TextEditor> {
+    await vscode.commands.executeCommand(
+        "vscode.diff",
+        originalUri(mgr.wp, filePath),
+        doc.uri,
+        `${path.basename(filePath)} (Original ↔ Claude)`,
+        { preview: false, viewColumn: vscode.ViewColumn.One },
+    );
+    const editor = vscode.window.visibleTextEditors.find((e) => e.document === doc);
+    if (editor) return editor;
+    logCat("navigation", `openSideBySide: no diff editor for ${filePath}, opening the file`);
+    return vscode.window.showTextDocument(doc, {
+        preview: false,
+        viewColumn: vscode.ViewColumn.One,
+    });
+}
@@ -0,0 +1,153 @@
+// Patch exchange — export review state as unified diffs, import .patch files as reviews
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { logCat } from "../log";
+import * as state from "../state";
+import { buildContentWith, createReview, isMarkerHunk } from "../review";
+import { isNotebookPath } from "../notebook";
+import { initHistory } from "../undo-history";
+import { formatFilePatch, parsePatch, applyFilePatch } from "../patch";
+import type { Hunk, IFileReview } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+/** "accepted": original → what was kept so far. "pending": kept so far → kept + unresolved. */
+export type PatchPart = "accepted" | "pending";
+
+/**
+ * One patch over all active reviews. Rejected hunks appear in neither part; applying
+ * "accepted" then "pending" to the originals gives the review's outcome if every pending
+ * hunk is kept. Whole-file and notebook reviews are skipped (no line-exact text form).
+ */
+export function exportPatch(
+    mgr: ReviewManagerInternal,
+    part: PatchPart,
+): { patch: string; files: number; skipped: number } {
+    const kept = (h: Hunk) => h.resolved && h.accepted;
+    const keptOrPending = (h: Hunk) => !h.resolved || h.accepted;
+    const ordered = [
+        ...mgr.reviewFiles,
+        ...[...state.activeReviews.keys()].filter((f) => !mgr.reviewFiles.includes(f)),
+    ];
+
+    const patches: string[] = [];
+    let skipped = 0;
+    for (const filePath of ordered) {
+        const review = state.activeReviews.get(filePath);
+        if (!review) continue;
+        if (review.wholeFile || isNotebookPath(filePath)) {
+            skipped++;
+            continue;
+        }
+        const [from, to] = part === "accepted" ? [null, kept] : [kept, keptOrPending];
+        const before = from ? buildContentWith(review, from) : review.originalContent;
+        const after = buildContentWith(review, to);
+        const patch = formatFilePatch(
+            patchPathOf(mgr, review, before, from),
+            patchPathOf(mgr, review, after, to),
+            before,
+            after,
+        );
+        if (patch) patches.push(patch);
+    }
+    logCat(
+        "review",
+        `exportPatch: ${part} — ${patches.length} file(s), ${skipped} skipped (whole-file/notebook)`,
+    );
+    return { patch: patches.join(""), files: patches.length, skipped };
+}
+
+/**
+ * Workspace-relative path of one side of the patch, or null when the file doesn't exist on
+ * that side (a created file with nothing kept, a kept deletion). `include` null is the
+ * original side.
+ */
+function patchPathOf(
+    mgr: ReviewManagerInternal,
+    review: IFileReview,
+    content: string,
+    include: ((h: Hunk) => boolean) | null,
+): string | null {
+    if (review.changeType === "create" && (!include || content === "")) return null;
+    if (review.changeType === "delete" && include && content === "") return null;
+    const move = review.renamedFrom ? review.hunks.find(isMarkerHunk) : undefined;
+    const filePath =
+        review.renamedFrom && !(move && include?.(move)) ? review.renamedFrom : review.filePath;
+    return path.relative(mgr.wp, filePath).split(path.sep).join("/");
+}
+
+/**
+ * Applies each file of a patch to the workspace and opens it as a review: the file on
+ * disk before the patch is the original side, the patched content Claude's side. Files
+ * that are already under review, renames and hunks that don't apply are skipped and reported.
+ */
+export async function importPatch(mgr: ReviewManagerInternal, text: string): Promise<void> {
+    const imported: string[] = [];
+    const failed: string[] = [];
+
+    for (const filePatch of parsePatch(text)) {
+        const relPath = filePatch.newPath ?? filePatch.oldPath;
+        if (!relPath) continue;
+        if (filePatch.oldPath && filePatch.newPath && filePatch.oldPath !== filePatch.newPath) {
+            failed.push(`${relPath}: renames can't be imported`);
+            continue;
+        }
+        const absPath = path.resolve(mgr.wp, relPath);
+        if (path.relative(mgr.wp, absPath).startsWith("..")) {
+            failed.push(`${relPath}: outside the workspace`);
+            continue;
+        }
+        if (state.activeReviews.has(absPath)) {
+            failed.push(`${relPath}: already under review`);
+            continue;
+        }
+
+        let before = "";
+        let after: string;
+        try {
+            if (filePatch.oldPath) before = fs.readFileSync(absPath, "utf8");
+            after = filePatch.newPath ? applyFilePatch(before, filePatch) : "";
+        } catch (err) {
+            failed.push((err as Error).message);
+            continue;
+        }
+        if (!createReview(absPath, before, after, mgr.wp)) continue;
+
+        try {
+            if (filePatch.newPath) {
+                fs.mkdirSync(path.dirname(absPath), { recursive: true });
+                fs.writeFileSync(absPath, after, "utf8");
+            } else {
+                fs.unlinkSync(absPath);
+            }
+        } catch (err) {
+            // The review is registered already — drop it, the file on disk was not patched
+            state.activeReviews.delete(absPath);
+            failed.push(`${relPath}: ${(err as Error).message}`);
+            continue;
+        }
+        if (!mgr.reviewFiles.includes(absPath)) mgr.reviewFiles.push(absPath);
+        initHistory(absPath);
+        imported.push(absPath);
+    }
+
+    logCat(
+        "review",
+        `importPatch: ${imported.length} file(s) imported, ${failed.length} failed${failed.length ? ` — ${failed.join("; ")}` : ""}`,
+    );
+    if (failed.length > 0) {
+        vscode.window.showWarningMessage(
+            `Patch: ${failed.length} file(s) not imported — ${failed.join("; ")}`,
+        );
+    }
+    if (imported.length === 0) {
+        if (failed.length === 0) vscode.window.showInformationMessage("Patch has no changes.");
+        return;
+    }
+
+    mgr.syncState();
+    mgr.refreshUI();
+    mgr.scheduleSave();
+    mgr._onReviewStateChange.fire(true);
+    await mgr.openFileForReview(imported[0]);
+}
@@ -3,15 +3,57 @@ import * as fs from "fs";
 import { logCat } from "../log";
 import * as state from "../state";
 import { loadReviewState } from "../persistence";
-import { FileReview, buildMergedContent } from "../review";
+import { FileReview, buildMergedContent, layoutOf } from "../review";
 import { initHistory } from "../undo-history";
+import { pruneBlobs } from "../binary-file";
+import { HEAD_BASE, restoreSessionStart } from "../review-base";
+import { restoreConflicts } from "./conflicts";
+import type { PersistedFileReview } from "../../types";
 import type { ReviewManagerInternal } from "./types";
 
+function reviveReview(pf: PersistedFileReview): FileReview {
+    const review = new FileReview(
+        pf.filePath,
+        pf.originalContent,
+        pf.modifiedContent,
+        pf.hunks,
+        pf.changeType,
+    );
+    review.sessionId = pf.sessionId;
+    review.renamedFrom = pf.renamedFrom;
+    review.wholeFile = pf.wholeFile;
+    review.diffOptions = pf.diffOptions;
+    review.layers = pf.layers;
+    review.comments = pf.comments;
+    review.rawOriginal = pf.rawOriginal;
+    review.rawModified = pf.rawModified;
+    // For delete reviews, modifiedContent is "" — use empty array to match handleDeletion behavior
+    const modLines = pf.changeType === "delete" ? [] : pf.modifiedContent.split("\n");
+    const { lines, ranges } = buildMergedContent(modLines, pf.hunks, layoutOf(pf.changeType));
+    review.mergedLines = lines;
+    review.hunkRanges = ranges;
+    return review;
+}
+
 export async function restore(mgr: ReviewManagerInternal): Promise<boolean> {
     const saved = loadReviewState(mgr.wp);
+    // Undo history does not survive a reload, so only persisted reviews still need their blobs
+    const blobs = [...(saved?.files ?? []), ...(saved?.conflicts ?? [])].flatMap((pf) =>
+        pf.wholeFile ? [pf.wholeFile.originalBlob, pf.wholeFile.modifiedBlob] : [],
+    );
+    pruneBlobs(mgr.wp, new Set(blobs.filter((b): b is string => !!b)));
+    // Suspended files are left as they are on disk — they come back waiting for a decision
+    restoreConflicts((saved?.conflicts ?? []).map(reviveReview));
+    state.recordFinishedComments(saved?.finishedComments ?? []);
     if (!saved || saved.files.length === 0) return false;
 
-    logCat("review", `ReviewManager.restore: restoring ${saved.files.length} files`);
+    logCat(
+        "review",
+        `ReviewManager.restore: restoring ${saved.files.length} files, base=${saved.base?.label ?? "HEAD"}`,
+    );
+    // States saved before review bases existed were reviewed against HEAD
+    state.setReviewBase(saved.base ?? HEAD_BASE);
+    if (saved.base?.kind === "session") restoreSessionStart(saved.base.rev);
 
     for (const pf of saved.files) {
         // Check file still exists for edit/create types
@@ -20,20 +62,7 @@ export async function restore(mgr: ReviewManagerInternal): Promise<boolean> {
             continue;
         }
 
-        const review = new FileReview(
-            pf.filePath,
-            pf.originalContent,
-            pf.modifiedContent,
-            pf.hunks,
-            pf.changeType,
-        );
-        review.sessionId = pf.sessionId;
-        // For delete reviews, modifiedContent is "" — use empty array to match handleDeletion behavior
-        const modLines = pf.changeType === "delete" ? [] : pf.modifiedContent.split("\n");
-        const { lines, ranges } = buildMergedContent(modLines, pf.hunks);
-        review.mergedLines = lines;
-        review.hunkRanges = ranges;
-        state.activeReviews.set(pf.filePath, review);
+        state.activeReviews.set(pf.filePath, reviveReview(pf));
         mgr.reviewFiles.push(pf.filePath);
         initHistory(pf.filePath);
     }
@@ -1,5 +1,6 @@
 // Queries — read-only accessors for review state
 import * as state from "../state";
+import { getSessionTitle } from "../sessions";
 import type { ReviewManagerInternal } from "./types";
 
 export function getReview(filePath: string) {
@@ -10,6 +11,42 @@ export function getUnresolvedFiles(mgr: ReviewManagerInternal): string[] {
     return mgr.reviewFiles.filter((f) => state.activeReviews.has(f));
 }
 
+export interface SessionGroup {
+    /** null for changes made outside a tracked session */
+    sessionId: string | null;
+    label: string;
+    files: string[];
+}
+
+// Titles are read from session .jsonl files — cached, since the toolbar asks on every update
+const sessionTitles = new Map<string, string>();
+
+function sessionLabel(wp: string, sessionId: string | null): string {
+    if (!sessionId) return "Outside a session";
+    let title = sessionTitles.get(sessionId);
+    if (!title) {
+        title = getSessionTitle(wp, sessionId);
+        sessionTitles.set(sessionId, title);
+    }
+    return title;
+}
+
+/** Pending files grouped by originating Claude session, in review order */
+export function getSessionGroups(mgr: ReviewManagerInternal): SessionGroup[] {
+    const groups = new Map<string | null, string[]>();
+    for (const f of mgr.reviewFiles) {
+        const review = state.activeReviews.get(f);
+        if (!review) continue;
+        const key = review.sessionId ?? null;
+        groups.set(key, [...(groups.get(key) ?? []), f]);
+    }
+    return [...groups].map(([sessionId, files]) => ({
+        sessionId,
+        label: sessionLabel(mgr.wp, sessionId),
+        files,
+    }));
+}
+
 export function hasActiveReview(): boolean {
     return state.activeReviews.size > 0;
 }
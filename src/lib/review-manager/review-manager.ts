@@ -6,7 +6,7 @@ import * as state from "../state";
 import { saveReviewState } from "../persistence";
 import { clearAllHistories } from "../undo-history";
 import type { ICodeLensProvider, IMainView, ReviewManagerInternal } from "./types";
-import { addFile as addFileImpl } from "./file-addition";
+import { addFile as addFileImpl, addRename as addRenameImpl } from "./file-addition";
 import { applyContentViaEdit } from "./content-application";
 import {
     resolveHunk as resolveHunkImpl,
@@ -26,8 +26,45 @@ import {
     restoreFromSnapshot as restoreFromSnapshotImpl,
 } from "./undo-redo";
 import { restore as restoreImpl } from "./persistence";
+import { toggleDiffOption as toggleDiffOptionImpl } from "./diff-mode";
+import { setLayout as setLayoutImpl } from "./layout";
+import { trackUserEdit as trackUserEditImpl } from "./user-edits";
+import {
+    keepAndStage as keepAndStageImpl,
+    keepAndStageAll as keepAndStageAllImpl,
+} from "./staging";
+import { commitReviewedChanges as commitReviewedChangesImpl } from "./commit";
+import { getLayers, undoLayer as undoLayerImpl } from "./layers";
+import {
+    addComment as addCommentImpl,
+    deleteComment as deleteCommentImpl,
+    removeComments as removeCommentsImpl,
+    getAllComments,
+} from "./comments";
+import {
+    checkExternalChange as checkExternalChangeImpl,
+    promptConflict as promptConflictImpl,
+    resolveConflict as resolveConflictImpl,
+    getConflicts,
+    getConflictReviews,
+    clearConflicts,
+} from "./conflicts";
+import { exportPatch as exportPatchImpl, importPatch as importPatchImpl } from "./patch-exchange";
+import {
+    splitHunk as splitHunkImpl,
+    mergeWithNextHunk as mergeWithNextHunkImpl,
+    resolveLines as resolveLinesImpl,
+} from "./hunk-editing";
 import * as queries from "./queries";
-import type { ReviewSnapshot } from "../../types";
+import type { SessionGroup } from "./queries";
+import type { PatchPart } from "./patch-exchange";
+import type {
+    CollectedComment,
+    DiffOptions,
+    EditLayer,
+    ReviewLayout,
+    ReviewSnapshot,
+} from "../../types";
 
 export class ReviewManager implements vscode.Disposable {
     reviewFiles: string[] = [];
@@ -110,6 +147,10 @@ export class ReviewManager implements vscode.Disposable {
         await addFileImpl(this.internal, absFilePath, sessionId);
     }
 
+    async addRename(fromPath: string, toPath: string, sessionId?: string): Promise<void> {
+        await addRenameImpl(this.internal, fromPath, toPath, sessionId);
+    }
+
     // --- Content validation ---
     async ensureMergedContent(filePath: string): Promise<void> {
         const review = state.activeReviews.get(filePath);
@@ -117,6 +158,10 @@ export class ReviewManager implements vscode.Disposable {
             logCat("content", `ensureMergedContent: no review for ${filePath}, skipping`);
             return;
         }
+        if (review.wholeFile) {
+            logCat("content", `ensureMergedContent: ${filePath} is reviewed whole, skipping`);
+            return;
+        }
         const editor = vscode.window.visibleTextEditors.find(
             (e) => e.document.uri.fsPath === filePath,
         );
@@ -134,6 +179,15 @@ export class ReviewManager implements vscode.Disposable {
         }
     }
 
+    /** Typing inside a pending hunk's added lines edits that hunk; false if not trackable */
+    trackUserEdit(
+        document: vscode.TextDocument,
+        changes: readonly vscode.TextDocumentContentChangeEvent[],
+    ): boolean {
+        const review = state.activeReviews.get(document.uri.fsPath);
+        return !!review && trackUserEditImpl(this.internal, review, document, changes);
+    }
+
     // --- Resolve hunks (serialized to prevent overlapping editor.edit calls) ---
     async resolveHunk(filePath: string, hunkId: number, accept: boolean): Promise<void> {
         await this.serialized(() =>
@@ -150,6 +204,136 @@ export class ReviewManager implements vscode.Disposable {
         );
     }
 
+    /** Keep or Undo only buffer lines firstLine..lastLine of the hunk they belong to */
+    async resolveLines(
+        filePath: string,
+        firstLine: number,
+        lastLine: number,
+        accept: boolean,
+    ): Promise<void> {
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() =>
+                resolveLinesImpl(this.internal, filePath, firstLine, lastLine, accept),
+            ),
+        );
+    }
+
+    /** Split the hunk under bufferLine into two independently resolvable hunks */
+    async splitHunk(filePath: string, bufferLine: number): Promise<void> {
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() => splitHunkImpl(this.internal, filePath, bufferLine)),
+        );
+    }
+    async mergeWithNextHunk(filePath: string, bufferLine: number): Promise<void> {
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() =>
+                mergeWithNextHunkImpl(this.internal, filePath, bufferLine),
+            ),
+        );
+    }
+
+    /** Toggle ignore-whitespace / ignore-line-endings for one review (re-diffs the file) */
+    async toggleDiffOption(filePath: string, option: keyof DiffOptions): Promise<void> {
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() =>
+                toggleDiffOptionImpl(this.internal, filePath, option),
+            ),
+        );
+    }
+
+    /** Shows files under review inline or in a side-by-side diff editor */
+    async setReviewLayout(layout: ReviewLayout): Promise<void> {
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() => setLayoutImpl(this.internal, layout)),
+        );
+    }
+
+    /** Keep one hunk, or every unresolved hunk of the file, and stage it in the git index */
+    async keepAndStage(filePath: string, hunkId?: number): Promise<void> {
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() => keepAndStageImpl(this.internal, filePath, hunkId)),
+        );
+    }
+    async keepAndStageAll(): Promise<void> {
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() => keepAndStageAllImpl(this.internal)),
+        );
+    }
+
+    /** Commit the files of a finished review with a message built from the Claude session */
+    async commitReviewedChanges(): Promise<void> {
+        await this.serialized(() => commitReviewedChangesImpl(this.internal));
+    }
+
+    // --- Edit layers ---
+    /** Claude's tool calls on a file under review, oldest first */
+    getEditLayers(filePath: string): EditLayer[] {
+        return getLayers(filePath);
+    }
+    /** Undoes one tool call's change and keeps the later ones */
+    async undoEditLayer(filePath: string, index: number): Promise<void> {
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() => undoLayerImpl(this.internal, filePath, index)),
+        );
+    }
+
+    // --- Review comments ---
+    /** Comments on buffer lines firstLine..lastLine of a file under review */
+    async addComment(
+        filePath: string,
+        firstLine: number,
+        lastLine: number,
+        body: string,
+    ): Promise<void> {
+        await this.serialized(async () =>
+            addCommentImpl(this.internal, filePath, firstLine, lastLine, body),
+        );
+    }
+    async deleteComment(filePath: string, id: string): Promise<void> {
+        await this.serialized(async () => deleteCommentImpl(this.internal, filePath, id));
+    }
+    /** Comments not yet sent, of finished files and of files still under review */
+    getComments(): CollectedComment[] {
+        return getAllComments();
+    }
+    async removeComments(sent: CollectedComment[]): Promise<void> {
+        await this.serialized(async () => removeCommentsImpl(this.internal, sent));
+    }
+
+    // --- External changes ---
+    /** Rebases or suspends the review of a file that changed on disk */
+    async checkExternalChange(filePath: string): Promise<void> {
+        const wasConflict = getConflicts().includes(filePath);
+        await this.serialized(() => checkExternalChangeImpl(this.internal, filePath));
+        if (!wasConflict && getConflicts().includes(filePath)) {
+            void this.settleConflict(filePath);
+        }
+    }
+    /** Files whose review is suspended because they changed on disk inside a hunk */
+    getConflicts(): string[] {
+        return getConflicts();
+    }
+    /** Asks how to settle a conflicted file and applies the answer */
+    async settleConflict(filePath: string): Promise<void> {
+        const action = await promptConflictImpl(this.internal, filePath);
+        if (!action) return;
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() =>
+                resolveConflictImpl(this.internal, filePath, action),
+            ),
+        );
+    }
+
+    // --- Patches ---
+    exportPatch(part: PatchPart): { patch: string; files: number; skipped: number } {
+        return exportPatchImpl(this.internal, part);
+    }
+    async importPatch(text: string): Promise<void> {
+        await this.serialized(() =>
+            this.withSuppressedTabSwitch(() => importPatchImpl(this.internal, text)),
+        );
+    }
+
     // --- Navigation ---
     navigateHunk(delta: number): void {
         navigateHunkImpl(this.internal, delta);
@@ -189,6 +373,9 @@ export class ReviewManager implements vscode.Disposable {
     getUnresolvedFiles(): string[] {
         return queries.getUnresolvedFiles(this.internal);
     }
+    getSessionGroups(): SessionGroup[] {
+        return queries.getSessionGroups(this.internal);
+    }
     get hasActiveReview(): boolean {
         return queries.hasActiveReview();
     }
@@ -206,7 +393,14 @@ export class ReviewManager implements vscode.Disposable {
     scheduleSave(): void {
         if (this.persistTimer) clearTimeout(this.persistTimer);
         this.persistTimer = setTimeout(() => {
-            saveReviewState(this.wp, state.activeReviews, this.currentFileIndex);
+            saveReviewState(
+                this.wp,
+                state.activeReviews,
+                this.currentFileIndex,
+                state.getReviewBase(),
+                getConflictReviews(),
+                state.getFinishedComments(),
+            );
         }, 500);
     }
 
@@ -215,12 +409,20 @@ export class ReviewManager implements vscode.Disposable {
             clearTimeout(this.persistTimer);
             this.persistTimer = null;
         }
-        saveReviewState(this.wp, state.activeReviews, this.currentFileIndex);
+        saveReviewState(
+            this.wp,
+            state.activeReviews,
+            this.currentFileIndex,
+            state.getReviewBase(),
+            getConflictReviews(),
+            state.getFinishedComments(),
+        );
     }
 
     async restore(): Promise<boolean> {
         const ok = await restoreImpl(this.internal);
         clampFileIndex(this.internal);
+        for (const filePath of getConflicts()) void this.settleConflict(filePath);
         return ok;
     }
 
@@ -245,6 +447,8 @@ export class ReviewManager implements vscode.Disposable {
         const count = state.activeReviews.size;
         logCat("review", `ReviewManager.dispose: restoring ${count} files to modifiedContent`);
         for (const [fp, review] of state.activeReviews) {
+            // Whole-file reviews never put merged content on disk — nothing to restore
+            if (review.wholeFile) continue;
             try {
                 fs.writeFileSync(fp, review.modifiedContent, "utf8");
                 logCat(
@@ -264,6 +468,7 @@ export class ReviewManager implements vscode.Disposable {
             this.persistTimer = null;
         }
         clearAllHistories();
+        clearConflicts();
         this._onReviewStateChange.dispose();
     }
 }
@@ -0,0 +1,148 @@
+// Staging — Keep and Stage writes accepted hunks to the git index as a partial patch
+import * as vscode from "vscode";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { logCat } from "../log";
+import * as state from "../state";
+import { buildContentWith, isMarkerHunk } from "../review";
+import { isNotebookPath } from "../notebook";
+import { allowsBulkAccept, reportHeldBack } from "../review-policy";
+import { formatFilePatch, parsePatch, applyFilePatch, PatchError } from "../patch";
+import { resolveHunk, resolveAllHunks } from "./hunk-resolution";
+import type { Hunk, IFileReview } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+/**
+ * Keep one hunk (or every unresolved hunk of the file) and stage exactly those lines.
+ * Rejected and pending hunks stay unstaged. When the index no longer matches the review
+ * around the hunk, the Keep still happens and the staging failure is reported.
+ */
+export async function keepAndStage(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    hunkId?: number,
+): Promise<void> {
+    const review = state.activeReviews.get(filePath);
+    if (!review) return;
+    const targets = review.hunks.filter((h) =>
+        hunkId === undefined ? !h.resolved : h.id === hunkId && !h.resolved,
+    );
+    if (targets.length === 0) return;
+
+    // Stage before resolving — the last Keep finalizes the file and drops the review
+    const error = stageHunks(mgr.wp, review, new Set(targets));
+    if (hunkId === undefined) {
+        await resolveAllHunks(mgr, filePath, true);
+    } else {
+        await resolveHunk(mgr, filePath, hunkId, true);
+    }
+    if (error) {
+        vscode.window.showWarningMessage(`Kept, but not staged — ${error}`);
+        return;
+    }
+    vscode.window.setStatusBarMessage(
+        `$(check) Kept and staged ${targets.length} change${targets.length === 1 ? "" : "s"}`,
+        2000,
+    );
+}
+
+/** Keep and Stage every file under review; failures are reported together */
+export async function keepAndStageAll(mgr: ReviewManagerInternal): Promise<void> {
+    const errors: string[] = [];
+    const heldBack: string[] = [];
+    let staged = 0;
+    for (const filePath of [...mgr.reviewFiles]) {
+        const review = state.activeReviews.get(filePath);
+        if (!review) continue;
+        if (!allowsBulkAccept(mgr.wp, filePath)) {
+            heldBack.push(filePath);
+            continue;
+        }
+        const error = stageHunks(mgr.wp, review, new Set(review.hunks.filter((h) => !h.resolved)));
+        await resolveAllHunks(mgr, filePath, true);
+        if (error) errors.push(error);
+        else staged++;
+    }
+    logCat("resolve", `keepAndStageAll: ${staged} file(s) staged, ${errors.length} failed`);
+    reportHeldBack(mgr.wp, heldBack);
+    if (errors.length > 0) {
+        vscode.window.showWarningMessage(
+            `Kept all; ${errors.length} file(s) not staged — ${errors.join("; ")}`,
+        );
+    } else {
+        vscode.window.setStatusBarMessage(`$(check) Kept and staged ${staged} file(s)`, 2000);
+    }
+}
+
+/**
+ * Applies `targets` to the file's index version and writes the result with
+ * `git apply --cached`. The hunks are cut from the review as a patch whose context is the
+ * already-kept state (what earlier Keep and Stage calls put in the index) or, failing
+ * that, the original. Returns an error message, or null when staged.
+ */
+function stageHunks(wp: string, review: IFileReview, targets: Set<Hunk>): string | null {
+    const relPath = path.relative(wp, review.filePath).split(path.sep).join("/");
+    if (relPath.startsWith("..")) return `${relPath}: outside the workspace`;
+    if (review.wholeFile) {
+        // No text hunks — the file on disk is Claude's version once kept
+        return git(["add", "--", relPath], wp) === null ? `${relPath}: git add failed` : null;
+    }
+    if (review.changeType === "rename" || isNotebookPath(review.filePath)) {
+        return `${relPath}: renames and notebooks can't be staged by hunk`;
+    }
+    const lines = [...targets].filter((h) => !isMarkerHunk(h));
+    if (lines.length === 0) return null;
+
+    const indexContent = git(["show", `:${relPath}`], wp);
+    const kept = (h: Hunk) => h.resolved && h.accepted && !targets.has(h);
+    let staged: string | null = null;
+    for (const context of [kept, () => false]) {
+        const before = buildContentWith(review, context);
+        const after = buildContentWith(review, (h) => context(h) || targets.has(h));
+        const [filePatch] = parsePatch(formatFilePatch(relPath, relPath, before, after));
+        if (!filePatch) return null;
+        try {
+            staged = applyFilePatch(indexContent ?? "", filePatch);
+            break;
+        } catch (err) {
+            if (!(err instanceof PatchError)) throw err;
+        }
+    }
+    if (staged === null) {
+        logCat("resolve", `stageHunks: ${relPath} — hunks don't apply to the index`);
+        return `${relPath}: the index has diverged from the review`;
+    }
+
+    const deleted = review.changeType === "delete" && staged === "";
+    const patch = formatFilePatch(
+        indexContent === null ? null : relPath,
+        deleted ? null : relPath,
+        indexContent ?? "",
+        staged,
+    );
+    if (!patch) return null;
+    if (git(["apply", "--cached", "-"], wp, patch) === null) {
+        return `${relPath}: git apply --cached failed`;
+    }
+    logCat(
+        "resolve",
+        `stageHunks: ${relPath} — staged ${lines.length} hunk(s)${deleted ? " (deletion)" : ""}`,
+    );
+    return null;
+}
+
+/** Output of a git command, or null when it fails; arguments never pass through a shell */
+function git(args: string[], cwd: string, input?: string): string | null {
+    try {
+        return execFileSync("git", args, {
+            cwd,
+            encoding: "utf8",
+            timeout: 5000,
+            stdio: "pipe",
+            input,
+        });
+    } catch (err) {
+        logCat("resolve", `git ${args.join(" ")} failed: ${(err as Error).message}`);
+        return null;
+    }
+}
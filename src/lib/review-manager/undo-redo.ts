@@ -1,5 +1,6 @@
 // Undo/Redo — manages undo and redo for hunk resolution
 import * as vscode from "vscode";
+import * as fs from "fs";
 import { logCat } from "../log";
 import * as state from "../state";
 
@@ -16,6 +17,8 @@ import {
 import { FileReview } from "../review";
 import { applyContentViaEdit } from "./content-application";
 import { finalizeFile } from "./hunk-resolution";
+import { reapplyWholeFile } from "./whole-file";
+import { shiftComments } from "./comments";
 import type { ReviewManagerInternal } from "./types";
 import type { ReviewSnapshot } from "../../types";
 
@@ -37,12 +40,6 @@ export async function undoResolve(mgr: ReviewManagerInternal): Promise<void> {
         return;
     }
 
-    // If target file is different from active editor, open it first
-    if (fsPath !== activeFile) {
-        logCat("resolve", `ReviewManager.undoResolve: cross-file undo, opening ${fsPath}`);
-        await vscode.window.showTextDocument(vscode.Uri.file(fsPath));
-    }
-
     const currentReview = state.activeReviews.get(fsPath);
 
     const snapshot = popUndoState(fsPath);
@@ -51,6 +48,22 @@ export async function undoResolve(mgr: ReviewManagerInternal): Promise<void> {
         return;
     }
 
+    // Undoing a finalized rename that was reverted: move the file back to the destination
+    // before opening it — the review lives at the destination path
+    if (!currentReview && snapshot.changeType === "rename" && snapshot.renamedFrom) {
+        reapplyRename(fsPath, snapshot);
+    }
+    if (!currentReview && snapshot.wholeFile) {
+        reapplyWholeFile(mgr, fsPath, snapshot.wholeFile);
+    }
+
+    // If target file is different from active editor, open it first (whole-file reviews
+    // have no text editor — their preview is reopened below)
+    if (fsPath !== activeFile && !snapshot.wholeFile) {
+        logCat("resolve", `ReviewManager.undoResolve: cross-file undo, opening ${fsPath}`);
+        await vscode.window.showTextDocument(vscode.Uri.file(fsPath));
+    }
+
     // Push current state to redo
     if (currentReview) {
         pushRedoState(fsPath, currentReview);
@@ -71,6 +84,10 @@ export async function undoResolve(mgr: ReviewManagerInternal): Promise<void> {
         `ReviewManager.undoResolve: restoring ${fsPath}, unresolved=${snapshot.hunks.filter((h) => !h.resolved).length}, snapshot hunks=[${snapshotHunkState}], mergedLines=${snapshot.mergedLines.length}`,
     );
     restoreFromSnapshot(mgr, fsPath, snapshot);
+    if (snapshot.wholeFile) {
+        await mgr.openFileForReview(fsPath);
+        return;
+    }
     // Reveal first unresolved hunk from the restored snapshot
     const firstRange = snapshot.hunkRanges[0];
     const revealLine = firstRange
@@ -103,12 +120,6 @@ export async function redoResolve(mgr: ReviewManagerInternal): Promise<void> {
         return;
     }
 
-    // If target file is different from active editor, open it first
-    if (fsPath !== activeFile) {
-        logCat("resolve", `ReviewManager.redoResolve: cross-file redo, opening ${fsPath}`);
-        await vscode.window.showTextDocument(vscode.Uri.file(fsPath));
-    }
-
     const currentReview = state.activeReviews.get(fsPath);
     const snapshot = popRedoState(fsPath);
     if (!snapshot) {
@@ -116,6 +127,12 @@ export async function redoResolve(mgr: ReviewManagerInternal): Promise<void> {
         return;
     }
 
+    // If target file is different from active editor, open it first
+    if (fsPath !== activeFile && !snapshot.wholeFile) {
+        logCat("resolve", `ReviewManager.redoResolve: cross-file redo, opening ${fsPath}`);
+        await vscode.window.showTextDocument(vscode.Uri.file(fsPath));
+    }
+
     // Push current to undo (preserve redo stack — we're inside a redo operation)
     if (currentReview) {
         pushUndoState(fsPath, currentReview, true);
@@ -158,6 +175,22 @@ export async function redoResolve(mgr: ReviewManagerInternal): Promise<void> {
     );
 }
 
+function reapplyRename(fsPath: string, snapshot: ReviewSnapshot): void {
+    const from = snapshot.renamedFrom!;
+    try {
+        if (!fs.existsSync(fsPath)) {
+            fs.writeFileSync(fsPath, snapshot.modifiedContent, "utf8");
+        }
+        if (fs.existsSync(from)) fs.unlinkSync(from);
+        logCat("resolve", `ReviewManager.undoResolve: re-applied rename ${from} → ${fsPath}`);
+    } catch (err) {
+        logCat(
+            "resolve",
+            `ReviewManager.undoResolve: failed to re-apply rename ${from} → ${fsPath}: ${(err as Error).message}`,
+        );
+    }
+}
+
 export function restoreFromSnapshot(
     mgr: ReviewManagerInternal,
     fsPath: string,
@@ -177,6 +210,18 @@ export function restoreFromSnapshot(
             JSON.parse(JSON.stringify(snapshot.hunks)),
             snapshot.changeType,
         );
+        review.renamedFrom = snapshot.renamedFrom;
+        review.wholeFile = snapshot.wholeFile;
+        review.sessionId = snapshot.sessionId;
+        // Comments went to the finished list with the file — take back those not sent yet
+        const unsent = new Set(
+            state
+                .getFinishedComments()
+                .filter((c) => c.filePath === fsPath)
+                .map((c) => c.comment.id),
+        );
+        review.comments = snapshot.comments?.filter((c) => unsent.has(c.id)).map((c) => ({ ...c }));
+        state.removeFinishedComments(new Set(review.comments?.map((c) => c.id)));
         state.activeReviews.set(fsPath, review);
         if (!mgr.reviewFiles.includes(fsPath)) mgr.reviewFiles.push(fsPath);
         mgr._onReviewStateChange.fire(true);
@@ -189,6 +234,17 @@ export function restoreFromSnapshot(
         );
     }
     review.hunks = JSON.parse(JSON.stringify(snapshot.hunks));
+    // In-place edits change the added side — restore it together with the hunks
+    review.comments = shiftComments(
+        review.comments,
+        review.modifiedContent,
+        snapshot.modifiedContent,
+    );
+    review.modifiedContent = snapshot.modifiedContent;
+    review.diffOptions = snapshot.diffOptions;
+    review.layers = snapshot.layers?.map((l) => ({ ...l }));
+    review.rawOriginal = snapshot.rawOriginal;
+    review.rawModified = snapshot.rawModified;
     (review as FileReview).mergedLines = [...snapshot.mergedLines];
     (review as FileReview).hunkRanges = snapshot.hunkRanges.map((r) => ({ ...r }));
 
@@ -0,0 +1,109 @@
+// User edits — typing inside Claude's proposed lines of a pending hunk edits that hunk
+import * as vscode from "vscode";
+import { logCat } from "../log";
+import { buildMergedContent, layoutOf } from "../review";
+import { applyDecorations } from "../decorations";
+import { pushUndoState } from "../undo-history";
+import { shiftComments } from "./comments";
+import type { Hunk, HunkRange, IFileReview } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+/** Keystrokes closer together than this share one undo step */
+const EDIT_UNDO_COALESCE_MS = 1000;
+const lastEditUndoPush = new Map<string, number>();
+
+/**
+ * Folds a buffer change into the review when every change lies inside the added lines of
+ * unresolved hunks: the hunk's `added` lines (and modifiedContent) take the new text, so
+ * Keep commits the user's version. Returns false for anything else — the caller restores
+ * the merged buffer as before.
+ */
+export function trackUserEdit(
+    mgr: ReviewManagerInternal,
+    review: IFileReview,
+    document: vscode.TextDocument,
+    changes: readonly vscode.TextDocumentContentChangeEvent[],
+): boolean {
+    if (review.wholeFile || changes.length === 0) return false;
+
+    // Line delta per edited hunk, in pre-change buffer coordinates
+    const deltas = new Map<HunkRange, number>();
+    for (const change of changes) {
+        const range = review.hunkRanges.find((r) => isInsideAdded(r, change));
+        if (!range) {
+            vscode.window.setStatusBarMessage(
+                "$(info) Only lines Claude proposed can be edited during review",
+                3000,
+            );
+            return false;
+        }
+        const removedLines = change.range.end.line - change.range.start.line;
+        const addedLines = change.text.split("\n").length - 1;
+        deltas.set(range, (deltas.get(range) ?? 0) + addedLines - removedLines);
+    }
+
+    // Read each edited hunk's new added lines from the post-change buffer. Hunks are in
+    // position order; everything below an edit moves by its line delta.
+    const bufferLines = document.getText().split("\n");
+    const rangeOf = new Map(review.hunkRanges.map((r) => [r.hunkId, r]));
+    const hunks: Hunk[] = review.hunks.map((h) => ({ ...h }));
+    const modLines = review.modifiedContent.split("\n");
+    let shift = 0;
+    for (const hunk of hunks) {
+        hunk.modStart += shift;
+        const range = rangeOf.get(hunk.id);
+        const delta = range && deltas.get(range);
+        if (range && delta !== undefined) {
+            const start = range.addedStart + shift;
+            const added = bufferLines.slice(start, start + hunk.added.length + delta);
+            modLines.splice(hunk.modStart - 1, hunk.added.length, ...added);
+            hunk.added = added;
+            hunk.modCount = added.length;
+            shift += delta;
+        }
+    }
+
+    const { lines, ranges } = buildMergedContent(modLines, hunks, layoutOf(review.changeType));
+    if (lines.join("\n") !== bufferLines.join("\n")) {
+        logCat(
+            "content",
+            `trackUserEdit: rebuilt buffer doesn't match ${review.filePath}, ignoring edit`,
+        );
+        return false;
+    }
+
+    const now = Date.now();
+    if (now - (lastEditUndoPush.get(review.filePath) ?? 0) > EDIT_UNDO_COALESCE_MS) {
+        pushUndoState(review.filePath, review);
+    }
+    lastEditUndoPush.set(review.filePath, now);
+
+    review.hunks = hunks;
+    review.comments = shiftComments(review.comments, review.modifiedContent, modLines.join("\n"));
+    review.modifiedContent = modLines.join("\n");
+    review.mergedLines = lines;
+    review.hunkRanges = ranges;
+    logCat(
+        "content",
+        `trackUserEdit: ${review.filePath} — ${deltas.size} hunk(s) edited, mergedLines=${lines.length}`,
+    );
+
+    const editor = vscode.window.visibleTextEditors.find((e) => e.document === document);
+    if (editor) applyDecorations(editor, review);
+    mgr.codeLens?.refresh();
+    mgr.scheduleSave();
+    return true;
+}
+
+/** Whole-line edits may end at column 0 of the line after the added region */
+function isInsideAdded(range: HunkRange, change: vscode.TextDocumentContentChangeEvent): boolean {
+    const { start, end } = change.range;
+    if (range.addedStart === range.addedEnd || start.line < range.addedStart) return false;
+    if (end.line < range.addedEnd) return true;
+    return (
+        end.line === range.addedEnd &&
+        end.character === 0 &&
+        start.character === 0 &&
+        (change.text === "" || change.text.endsWith("\n"))
+    );
+}
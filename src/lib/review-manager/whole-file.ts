@@ -0,0 +1,223 @@
+// Whole-file review — binary and large files get a single Keep/Undo and a preview
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+import { logCat } from "../log";
+import * as state from "../state";
+import { getSnapshot, getSnapshotBytes, clearSnapshot } from "../server";
+import { FileReview, makeMarkerHunk } from "../review";
+import {
+    wholeFileReason,
+    blobName,
+    storeBlob,
+    readBlob,
+    getBlobPath,
+    isImagePath,
+    describeWholeFile,
+    summarizeWholeFile,
+} from "../binary-file";
+import { initHistory } from "../undo-history";
+import { currentReviewBase } from "../review-base";
+import type { ChangeType, IFileReview, WholeFileInfo } from "../../types";
+import type { ReviewManagerInternal } from "./types";
+
+/** Max bytes `git show` may return for an original — larger HEAD blobs are treated as new files */
+const GIT_SHOW_MAX_BUFFER = 256 * 1024 * 1024;
+
+export async function addWholeFile(
+    mgr: ReviewManagerInternal,
+    absFilePath: string,
+    sessionId?: string,
+): Promise<void> {
+    let modified: Buffer | null = null;
+    try {
+        modified = fs.readFileSync(absFilePath);
+    } catch {
+        // Deleted — the review restores the original bytes on Undo
+    }
+
+    // Claude may touch the same file repeatedly — keep the true original from the first review
+    const existing = state.activeReviews.get(absFilePath);
+    let originalBlob = existing?.wholeFile?.originalBlob;
+    let originalSize = existing?.wholeFile?.originalSize ?? 0;
+    let binary = existing?.wholeFile?.reason === "binary";
+    if (!existing?.wholeFile) {
+        const original = getOriginalBytes(mgr, absFilePath, existing);
+        if (original && original.length > 0) {
+            originalBlob = storeBlob(mgr.wp, absFilePath, original);
+            originalSize = original.length;
+            binary = wholeFileReason(original) === "binary";
+        }
+    }
+    if (modified && wholeFileReason(modified) === "binary") binary = true;
+
+    const unchanged = modified
+        ? originalBlob === blobName(absFilePath, modified)
+        : originalBlob === undefined;
+    if (unchanged) {
+        logCat("file-add", `whole-file: no change for ${absFilePath}`);
+        if (existing) {
+            state.activeReviews.delete(absFilePath);
+            mgr.reviewFiles = mgr.reviewFiles.filter((f) => f !== absFilePath);
+            mgr.syncState();
+            mgr.refreshUI();
+        }
+        return;
+    }
+
+    const info: WholeFileInfo = {
+        reason: binary ? "binary" : "large",
+        originalBlob,
+        originalSize,
+        modifiedBlob: modified ? storeBlob(mgr.wp, absFilePath, modified) : undefined,
+        modifiedSize: modified?.length ?? 0,
+    };
+    const changeType: ChangeType = !info.originalBlob
+        ? "create"
+        : !info.modifiedBlob
+          ? "delete"
+          : "edit";
+
+    // Content fields stay empty: nothing is ever written to disk from mergedLines
+    const review = new FileReview(
+        absFilePath,
+        "",
+        "",
+        [makeMarkerHunk(0, describeWholeFile(info))],
+        changeType,
+    );
+    review.wholeFile = info;
+    review.sessionId = sessionId;
+    state.activeReviews.set(absFilePath, review);
+    if (!mgr.reviewFiles.includes(absFilePath)) mgr.reviewFiles.push(absFilePath);
+
+    clearSnapshot(absFilePath);
+    initHistory(absFilePath);
+    mgr.syncState();
+    mgr.refreshUI();
+
+    logCat(
+        "file-add",
+        `ADDED whole-file ${absFilePath}: ${summarizeWholeFile(info)}, type=${changeType}, session=${sessionId ?? "none"}`,
+    );
+    mgr.scheduleSave();
+    mgr._onReviewStateChange.fire(true);
+}
+
+/** Original bytes via the same fallback chain as getOriginalContent, without utf8 decoding */
+function getOriginalBytes(
+    mgr: ReviewManagerInternal,
+    absFilePath: string,
+    existing: IFileReview | undefined,
+): Buffer | null {
+    // A text review turning binary/large — its original is still valid text
+    if (existing) return Buffer.from(existing.originalContent, "utf8");
+
+    const snapshotBytes = getSnapshotBytes(absFilePath);
+    if (snapshotBytes) return snapshotBytes;
+    const snapshot = getSnapshot(absFilePath);
+    if (snapshot !== undefined) return Buffer.from(snapshot, "utf8");
+
+    const relPath = path.relative(mgr.wp, absFilePath);
+    if (relPath.startsWith("..")) return null;
+    try {
+        return execSync(`git show ${currentReviewBase(mgr.wp).rev}:"${relPath}"`, {
+            cwd: mgr.wp,
+            timeout: 5000,
+            stdio: "pipe",
+            maxBuffer: GIT_SHOW_MAX_BUFFER,
+        });
+    } catch {
+        return null;
+    }
+}
+
+/** Keep leaves Claude's bytes on disk; Undo restores the original bytes (or removes a new file) */
+export function finalizeWholeFile(mgr: ReviewManagerInternal, review: IFileReview): void {
+    const info = review.wholeFile!;
+    const filePath = review.filePath;
+    const keep = review.hunks.every((h) => h.accepted);
+    const targetBlob = keep ? info.modifiedBlob : info.originalBlob;
+    writeBlobToDisk(mgr, filePath, targetBlob);
+    logCat(
+        "resolve",
+        `finalizeFile: whole-file ${keep ? "kept" : "reverted"} ${filePath} (${targetBlob ?? "removed"})`,
+    );
+}
+
+/** Undo of a finalized whole-file review: put Claude's version back on disk */
+export function reapplyWholeFile(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    info: WholeFileInfo,
+): void {
+    writeBlobToDisk(mgr, filePath, info.modifiedBlob);
+    logCat("resolve", `ReviewManager.undoResolve: re-applied whole-file change to ${filePath}`);
+}
+
+/** Makes filePath hold the blob's bytes; an absent blob means the file must not exist */
+function writeBlobToDisk(mgr: ReviewManagerInternal, filePath: string, blob?: string): void {
+    try {
+        if (!blob) {
+            if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+            return;
+        }
+        const bytes = readBlob(mgr.wp, blob);
+        if (!bytes) {
+            vscode.window.showWarningMessage(
+                `Claude Code Review: stored content for ${path.basename(filePath)} is missing — file left as is.`,
+            );
+            return;
+        }
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, bytes);
+    } catch (err) {
+        logCat("resolve", `whole-file: failed to update ${filePath}: ${(err as Error).message}`);
+    }
+}
+
+/**
+ * Preview instead of an inline diff: images open side by side (original blob ↔ file on disk),
+ * everything else gets a size/hash summary. Both come with Keep/Undo for the whole file.
+ */
+export async function openWholeFilePreview(
+    mgr: ReviewManagerInternal,
+    filePath: string,
+    review: IFileReview,
+): Promise<void> {
+    const info = review.wholeFile!;
+    mgr.currentFileIndex = mgr.reviewFiles.indexOf(filePath);
+    mgr.currentHunkIndex = 0;
+    mgr.syncState();
+    mgr.refreshUI();
+
+    const image = isImagePath(filePath);
+    if (image) {
+        const before = info.originalBlob && vscode.Uri.file(getBlobPath(mgr.wp, info.originalBlob));
+        const after = info.modifiedBlob && vscode.Uri.file(filePath);
+        if (before && after) {
+            await vscode.commands.executeCommand(
+                "vscode.diff",
+                before,
+                after,
+                `${path.basename(filePath)} (Original ↔ Claude)`,
+            );
+        } else {
+            await vscode.commands.executeCommand("vscode.open", before || after);
+        }
+    }
+    logCat("navigation", `openFileForReview: whole-file preview for ${filePath}, image=${image}`);
+    void promptKeepUndo(
+        filePath,
+        `${path.relative(mgr.wp, filePath)}: ${image ? describeWholeFile(info) : summarizeWholeFile(info)}`,
+    );
+}
+
+async function promptKeepUndo(filePath: string, message: string): Promise<void> {
+    const choice = await vscode.window.showInformationMessage(message, "Keep", "Undo");
+    if (!choice || !state.activeReviews.has(filePath)) return;
+    await vscode.commands.executeCommand(choice === "Keep" ? "ccr.acceptFile" : "ccr.rejectFile", {
+        filePath,
+    });
+}
@@ -0,0 +1,138 @@
+// Review policy — per-workspace glob rules for files that skip review or must be reviewed by hand
+//
+// .claude/review-policy.json:
+//   { "auto-keep": ["**/*.snap"], "auto-ignore": ["dist/**"],
+//     "require-review": ["migrations/**"], "forbid-bulk-accept": ["src/auth/**"] }
+// Patterns match the workspace-relative path; a pattern without "/" matches the file name in
+// any directory. require-review wins over auto-keep and auto-ignore.
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { logCat } from "./log";
+import type { PathPolicy, PolicyRule } from "../types";
+
+const POLICY_FILENAME = "review-policy.json";
+const RULES: PolicyRule[] = ["auto-keep", "auto-ignore", "require-review", "forbid-bulk-accept"];
+
+interface CompiledRule {
+    rule: PolicyRule;
+    pattern: string;
+    re: RegExp;
+}
+
+/** Parsed policy per workspace, reloaded when the file's mtime changes */
+const cache = new Map<string, { mtimeMs: number; rules: CompiledRule[] }>();
+
+export function getPolicyPath(workspacePath: string): string {
+    return path.join(workspacePath, ".claude", POLICY_FILENAME);
+}
+
+/** `**` spans directories, `*` and `?` stay within one, `{a,b}` picks an alternative */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim().replace(/^\.?\//, "");
+    if (pattern.endsWith("/")) pattern += "**";
+    let re = "";
+    let inGroup = false;
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === "*" && pattern[i + 1] === "*") {
+            if (pattern[i + 2] === "/") {
+                re += "(?:.*/)?";
+                i += 2;
+            } else {
+                re += ".*";
+                i += 1;
+            }
+        } else if (c === "*") {
+            re += "[^/]*";
+        } else if (c === "?") {
+            re += "[^/]";
+        } else if (c === "{" && !inGroup) {
+            re += "(?:";
+            inGroup = true;
+        } else if (c === "}" && inGroup) {
+            re += ")";
+            inGroup = false;
+        } else if (c === "," && inGroup) {
+            re += "|";
+        } else {
+            re += c.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+        }
+    }
+    if (inGroup) re += ")";
+    return new RegExp(pattern.includes("/") ? `^${re}$` : `^(?:.*/)?${re}$`);
+}
+
+function loadRules(workspacePath: string): CompiledRule[] {
+    const policyPath = getPolicyPath(workspacePath);
+    let mtimeMs: number;
+    try {
+        mtimeMs = fs.statSync(policyPath).mtimeMs;
+    } catch {
+        cache.delete(workspacePath);
+        return [];
+    }
+    const cached = cache.get(workspacePath);
+    if (cached?.mtimeMs === mtimeMs) return cached.rules;
+
+    const rules: CompiledRule[] = [];
+    try {
+        const raw = JSON.parse(fs.readFileSync(policyPath, "utf8")) as Record<string, unknown>;
+        for (const rule of RULES) {
+            const patterns = raw[rule];
+            if (!Array.isArray(patterns)) continue;
+            for (const pattern of patterns) {
+                if (typeof pattern !== "string" || !pattern.trim()) continue;
+                rules.push({ rule, pattern, re: globToRegExp(pattern) });
+            }
+        }
+        logCat("review", `policy: loaded ${rules.length} rule(s) from ${POLICY_FILENAME}`);
+    } catch (err) {
+        logCat("review", `policy: ignoring ${policyPath}: ${(err as Error).message}`);
+        vscode.window.showWarningMessage(
+            `Review policy .claude/${POLICY_FILENAME} is not valid JSON and is ignored.`,
+        );
+    }
+    cache.set(workspacePath, { mtimeMs, rules });
+    return rules;
+}
+
+/** Rules that apply to a file; files outside the workspace have none */
+export function getPathPolicy(workspacePath: string, filePath: string): PathPolicy {
+    const relPath = path.relative(workspacePath, filePath).split(path.sep).join("/");
+    if (!relPath || relPath.startsWith("..")) return {};
+    const rules = loadRules(workspacePath);
+    if (rules.length === 0) return {};
+    const match = (rule: PolicyRule) =>
+        rules.find((r) => r.rule === rule && r.re.test(relPath))?.pattern;
+
+    const policy: PathPolicy = {};
+    const requireReview = match("require-review");
+    if (requireReview) {
+        policy.requireReview = requireReview;
+    } else {
+        const keep = match("auto-keep");
+        const ignore = match("auto-ignore");
+        if (keep) policy.skip = { rule: "auto-keep", pattern: keep };
+        else if (ignore) policy.skip = { rule: "auto-ignore", pattern: ignore };
+    }
+    const forbid = match("forbid-bulk-accept");
+    if (forbid) policy.forbidBulkAccept = forbid;
+    return policy;
+}
+
+/** Whether Accept All and the other multi-file Keep actions may resolve this file */
+export function allowsBulkAccept(workspacePath: string, filePath: string): boolean {
+    const policy = getPathPolicy(workspacePath, filePath);
+    return !policy.requireReview && !policy.forbidBulkAccept;
+}
+
+/** Tells the user which files a bulk Keep left for review one by one */
+export function reportHeldBack(workspacePath: string, heldBack: string[]): void {
+    if (heldBack.length === 0) return;
+    logCat("resolve", `policy: bulk accept held back ${heldBack.length} file(s)`);
+    const names = heldBack.map((f) => path.relative(workspacePath, f)).join(", ");
+    vscode.window.showInformationMessage(
+        `Review policy: ${heldBack.length} file(s) need review one by one — ${names}`,
+    );
+}
@@ -2,8 +2,21 @@
 import * as fs from "fs";
 import * as path from "path";
 import { execSync } from "child_process";
-import type { ChangeType, Hunk, HunkRange, MergedResult, IFileReview } from "../types";
+import type {
+    ChangeType,
+    DiffOptions,
+    EditLayer,
+    Hunk,
+    HunkRange,
+    MergedResult,
+    IFileReview,
+    ReviewBase,
+    ReviewComment,
+    ReviewLayout,
+    WholeFileInfo,
+} from "../types";
 import { computeDiff } from "./diff";
+import { canonicalizeNotebook, isNotebookPath, normalizeCellSeparators } from "./notebook";
 import { logCat } from "./log";
 import * as state from "./state";
 
@@ -12,12 +25,20 @@ export class FileReview implements IFileReview {
     hunkRanges: HunkRange[] = [];
     mergedApplied = false;
     changeType: ChangeType;
+    renamedFrom?: string;
+    wholeFile?: WholeFileInfo;
+    diffOptions?: DiffOptions;
     sessionId?: string;
+    layers?: EditLayer[];
+    comments?: ReviewComment[];
+    rawOriginal?: string;
+    rawModified?: string;
 
     constructor(
         public readonly filePath: string,
         public readonly originalContent: string,
-        public readonly modifiedContent: string,
+        /** Claude's version — in-place edits during review update its added lines */
+        public modifiedContent: string,
         public hunks: Hunk[],
         changeType?: ChangeType,
     ) {
@@ -41,7 +62,116 @@ export class FileReview implements IFileReview {
     }
 }
 
-export function buildMergedContent(modifiedLines: string[], hunks: Hunk[]): MergedResult {
+/**
+ * Placeholder hunk for a file-level decision with no lines of its own — a rename (Keep
+ * completes the move, Undo moves the file back) or a whole-file binary/large change.
+ * Content hunks of the same review are independent.
+ */
+export function makeMarkerHunk(id: number, label: string): Hunk {
+    return {
+        id,
+        origStart: 1,
+        origCount: 0,
+        modStart: 1,
+        modCount: 0,
+        removed: [],
+        added: [],
+        resolved: false,
+        accepted: false,
+        label,
+    };
+}
+
+export function isMarkerHunk(hunk: Hunk): boolean {
+    return hunk.removed.length === 0 && hunk.added.length === 0;
+}
+
+/**
+ * Splits an unresolved hunk before line `at` of its inline view (removed lines, then added
+ * lines). Both halves keep their exact lines and positions, so the final content is the
+ * same as for the whole hunk when both halves get the same decision.
+ */
+export function splitHunk(hunk: Hunk, at: number): [Hunk, Hunk] | null {
+    const removed = hunk.removed.length;
+    const total = removed + hunk.added.length;
+    if (at <= 0 || at >= total) return null;
+    const cutRemoved = Math.min(at, removed);
+    const cutAdded = at - cutRemoved;
+    const half = (
+        origStart: number,
+        modStart: number,
+        removedLines: string[],
+        addedLines: string[],
+    ): Hunk => ({
+        id: hunk.id,
+        origStart,
+        origCount: removedLines.length,
+        modStart,
+        modCount: addedLines.length,
+        removed: removedLines,
+        added: addedLines,
+        resolved: false,
+        accepted: false,
+        label: hunk.label,
+    });
+    return [
+        half(
+            hunk.origStart,
+            hunk.modStart,
+            hunk.removed.slice(0, cutRemoved),
+            hunk.added.slice(0, cutAdded),
+        ),
+        half(
+            hunk.origStart + cutRemoved,
+            hunk.modStart + cutAdded,
+            hunk.removed.slice(cutRemoved),
+            hunk.added.slice(cutAdded),
+        ),
+    ];
+}
+
+/**
+ * Joins two consecutive hunks into one. Unchanged lines between them become part of the
+ * merged hunk on both sides (taken from each side, so the bytes stay exact).
+ */
+export function mergeHunks(review: IFileReview, first: Hunk, second: Hunk): Hunk {
+    const origBetween = review.originalContent
+        .split("\n")
+        .slice(first.origStart - 1 + first.removed.length, second.origStart - 1);
+    const modBetween = review.modifiedContent
+        .split("\n")
+        .slice(first.modStart - 1 + first.added.length, second.modStart - 1);
+    const removed = [...first.removed, ...origBetween, ...second.removed];
+    const added = [...first.added, ...modBetween, ...second.added];
+    return {
+        id: first.id,
+        origStart: first.origStart,
+        origCount: removed.length,
+        modStart: first.modStart,
+        modCount: added.length,
+        removed,
+        added,
+        resolved: false,
+        accepted: false,
+        label: first.label === second.label ? first.label : undefined,
+    };
+}
+
+/** Hunk ids are positions in review.hunks — reassign them after hunks were split or merged */
+export function renumberHunks(hunks: Hunk[]): void {
+    hunks.forEach((h, i) => (h.id = i));
+}
+
+/** Layout of a review's buffer — a deletion stays inline, there is no file to diff against */
+export function layoutOf(changeType: ChangeType): ReviewLayout {
+    return changeType === "delete" ? "inline" : state.getReviewLayout();
+}
+
+export function buildMergedContent(
+    modifiedLines: string[],
+    hunks: Hunk[],
+    layout: ReviewLayout = "inline",
+): MergedResult {
     const result: string[] = [];
     const ranges: HunkRange[] = [];
     let modIdx = 0;
@@ -61,9 +191,10 @@ export function buildMergedContent(modifiedLines: string[], hunks: Hunk[]): Merg
         } else {
             // Inline diff approach: both removed and added lines go into the buffer.
             // Removed lines are shown with red background, added with green.
-            // This gives the user a complete diff view inline.
+            // This gives the user a complete diff view inline. Side by side, the removed
+            // lines are on the diff editor's original side only (empty removed range).
             const removedStart = result.length;
-            for (const line of hunk.removed) result.push(line);
+            if (layout === "inline") for (const line of hunk.removed) result.push(line);
             const removedEnd = result.length;
             const addedStart = result.length;
             for (const line of hunk.added) result.push(line);
@@ -88,14 +219,16 @@ export function buildMergedContent(modifiedLines: string[], hunks: Hunk[]): Merg
     return { lines: result, ranges };
 }
 
+/** Reviews a file on disk against its content at `base` (no content there = new file) */
 export async function enterReviewMode(
     filePath: string,
     workspacePath: string,
+    base: ReviewBase,
 ): Promise<FileReview | null> {
     let originalContent = "";
     const relPath = path.relative(workspacePath, filePath);
     try {
-        originalContent = execSync(`git show HEAD:"${relPath}"`, {
+        originalContent = execSync(`git show ${base.rev}:"${relPath}"`, {
             cwd: workspacePath,
             encoding: "utf8",
             timeout: 5000,
@@ -103,12 +236,12 @@ export async function enterReviewMode(
         });
         logCat(
             "review",
-            `enterReviewMode: git show HEAD for ${relPath} → ${originalContent.length} chars`,
+            `enterReviewMode: git show ${base.label} for ${relPath} → ${originalContent.length} chars`,
         );
     } catch (err) {
         logCat(
             "review",
-            `enterReviewMode: git show HEAD failed for ${relPath}: ${(err as Error).message} (treating as new file)`,
+            `enterReviewMode: git show ${base.label} failed for ${relPath}: ${(err as Error).message} (treating as new file)`,
         );
     }
 
@@ -144,9 +277,8 @@ export function createReview(
     }
 
     const modLines = modifiedContent.split("\n");
-    const { lines, ranges } = buildMergedContent(modLines, hunks);
-
     const review = new FileReview(filePath, originalContent, modifiedContent, hunks);
+    const { lines, ranges } = buildMergedContent(modLines, hunks, layoutOf(review.changeType));
     review.mergedLines = lines;
     review.hunkRanges = ranges;
     state.activeReviews.set(filePath, review);
@@ -157,6 +289,14 @@ export function createReview(
     return review;
 }
 
+/**
+ * A side taken whole keeps its bytes: a notebook is written as it was on disk, not as the
+ * canonical JSON it was reviewed in — unless an edit during review changed that side.
+ */
+function wholeSide(raw: string | undefined, reviewed: string): string {
+    return raw !== undefined && canonicalizeNotebook(raw) === reviewed ? raw : reviewed;
+}
+
 export function buildFinalContent(review: IFileReview): string {
     const allAccepted = review.hunks.every((h) => h.accepted);
     if (allAccepted) {
@@ -164,7 +304,7 @@ export function buildFinalContent(review: IFileReview): string {
             "review",
             `buildFinalContent: all accepted → using modifiedContent (${review.modifiedContent.length} chars)`,
         );
-        return review.modifiedContent;
+        return wholeSide(review.rawModified, review.modifiedContent);
     }
 
     const allRejected = review.hunks.every((h) => !h.accepted);
@@ -173,7 +313,7 @@ export function buildFinalContent(review: IFileReview): string {
             "review",
             `buildFinalContent: all rejected → using originalContent (${review.originalContent.length} chars)`,
         );
-        return review.originalContent;
+        return wholeSide(review.rawOriginal, review.originalContent);
     }
 
     const origLines = review.originalContent.split("\n");
@@ -195,7 +335,8 @@ export function buildFinalContent(review: IFileReview): string {
         result.push(origLines[oi]);
         oi++;
     }
-    const finalContent = result.join("\n");
+    let finalContent = result.join("\n");
+    if (isNotebookPath(review.filePath)) finalContent = normalizeCellSeparators(finalContent);
     const accepted = review.hunks.filter((h) => h.accepted).length;
     const rejected = review.hunks.filter((h) => !h.accepted).length;
     logCat(
@@ -205,9 +346,27 @@ export function buildFinalContent(review: IFileReview): string {
     return finalContent;
 }
 
+/** File content with exactly the hunks matching `include` applied, whatever their state */
+export function buildContentWith(review: IFileReview, include: (h: Hunk) => boolean): string {
+    const hunks = review.hunks.map((h) => ({ ...h, resolved: true, accepted: include(h) }));
+    return buildFinalContent(
+        new FileReview(
+            review.filePath,
+            review.originalContent,
+            review.modifiedContent,
+            hunks,
+            review.changeType,
+        ),
+    );
+}
+
 export function rebuildMerged(review: FileReview): void {
     const modLines = review.modifiedContent.split("\n");
-    const { lines, ranges } = buildMergedContent(modLines, review.hunks);
+    const { lines, ranges } = buildMergedContent(
+        modLines,
+        review.hunks,
+        layoutOf(review.changeType),
+    );
     review.mergedLines = lines;
     review.hunkRanges = ranges;
 }
@@ -2,18 +2,34 @@
 import * as http from "http";
 import * as fs from "fs";
 import * as path from "path";
+import * as crypto from "crypto";
 import { exec } from "child_process";
 import * as vscode from "vscode";
 import * as state from "./state";
 import { log, logCat } from "./log";
 import { fileLog } from "./file-logger";
-import { parseBashCommand } from "./bash-file-parser";
+import { parseBashCommand, type BashRename } from "./bash-file-parser";
+import { isPathInside } from "./hooks/registry";
+import { wholeFileReason, blobName } from "./binary-file";
+import {
+    takeFingerprint,
+    diffFingerprints,
+    type WorkspaceFingerprint,
+} from "./workspace-fingerprint";
+import type { ApprovalDecision, ApprovalRequest } from "../types";
 
 const DEFAULT_PORT = 27182;
+/** Header carrying the per-session secret from .claude/ccr-token (Node lowercases header names) */
+export const AUTH_HEADER = "x-ccr-token";
 let server: http.Server | null = null;
 let serverPort = 0;
+let authToken = "";
 let _addFileToReview: ((filePath: string, sessionId?: string) => void) | null = null;
+let _addRenameToReview: ((fromPath: string, toPath: string, sessionId?: string) => void) | null =
+    null;
 let _getActiveSessionId: (() => string | undefined) | null = null;
+let _onSessionStop: ((sessionId: string) => void) | null = null;
+let _requestApproval: ((req: ApprovalRequest) => Promise<ApprovalDecision>) | null = null;
 let _workspacePath: string | undefined;
 let _getActiveReview: ((filePath: string) => import("../types").IFileReview | undefined) | null =
     null;
@@ -22,15 +38,35 @@ let _extensionPath: string | undefined;
 
 // Before-content snapshots from PreToolUse hook
 const beforeSnapshots = new Map<string, string>();
+// Raw bytes of binary/large snapshots — the utf8 string above is lossy for them
+const beforeSnapshotBytes = new Map<string, Buffer>();
+
+// Workspace fingerprints taken at PreToolUse(Bash), keyed by command, consumed by PostToolUse
+const bashFingerprints = new Map<string, WorkspaceFingerprint>();
+const MAX_PENDING_FINGERPRINTS = 5;
 
 export function setAddFileHandler(fn: (filePath: string, sessionId?: string) => void): void {
     _addFileToReview = fn;
 }
 
+export function setAddRenameHandler(
+    fn: (fromPath: string, toPath: string, sessionId?: string) => void,
+): void {
+    _addRenameToReview = fn;
+}
+
+export function setApprovalHandler(fn: (req: ApprovalRequest) => Promise<ApprovalDecision>): void {
+    _requestApproval = fn;
+}
+
 export function setGetActiveSessionHandler(fn: () => string | undefined): void {
     _getActiveSessionId = fn;
 }
 
+export function setSessionStopHandler(fn: (sessionId: string) => void): void {
+    _onSessionStop = fn;
+}
+
 export function setWorkspacePath(wp: string): void {
     _workspacePath = wp;
 }
@@ -53,20 +89,40 @@ export function getSnapshot(filePath: string): string | undefined {
     return beforeSnapshots.get(filePath);
 }
 
+export function getSnapshotBytes(filePath: string): Buffer | undefined {
+    return beforeSnapshotBytes.get(filePath);
+}
+
 export function clearSnapshot(filePath: string): void {
     beforeSnapshots.delete(filePath);
+    beforeSnapshotBytes.delete(filePath);
+}
+
+function storeSnapshot(filePath: string, bytes: Buffer): string {
+    const content = bytes.toString("utf8");
+    beforeSnapshots.set(filePath, content);
+    if (wholeFileReason(bytes)) beforeSnapshotBytes.set(filePath, bytes);
+    else beforeSnapshotBytes.delete(filePath);
+    return content;
 }
 
 function createServer(): http.Server {
     return http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
         fileLog.log("server", `${req.method} ${req.url}`);
-        res.setHeader("Access-Control-Allow-Origin", "*");
-        res.setHeader("Access-Control-Allow-Methods", "POST,GET,OPTIONS");
-        res.setHeader("Access-Control-Allow-Headers", "Content-Type");
 
-        if (req.method === "OPTIONS") {
-            res.writeHead(204);
-            res.end();
+        // Only the hook runner talks to this server. Browsers always send Origin (including
+        // CORS preflights) — refuse them outright and never emit Access-Control-* headers.
+        if (req.headers.origin) {
+            logCat("server", `rejecting browser request from origin ${req.headers.origin}`);
+            res.writeHead(403);
+            res.end("Forbidden");
+            return;
+        }
+
+        if (!isAuthorized(req)) {
+            logCat("server", `rejecting unauthenticated ${req.method} ${req.url}`);
+            res.writeHead(401, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ ok: false, error: "unauthorized" }));
             return;
         }
 
@@ -86,7 +142,7 @@ function createServer(): http.Server {
 
         // PreToolUse snapshot — captures file content before Claude modifies it
         if (req.method === "POST" && req.url === "/snapshot") {
-            readBody(req, (body) => {
+            readBody(req, async (body) => {
                 try {
                     const data = JSON.parse(body) as {
                         file?: string;
@@ -129,8 +185,7 @@ function createServer(): http.Server {
                                 }
                             } else {
                                 try {
-                                    const content = fs.readFileSync(file, "utf8");
-                                    beforeSnapshots.set(file, content);
+                                    const content = storeSnapshot(file, fs.readFileSync(file));
                                     log(
                                         `/snapshot: stored ${content.length} chars for ${file} (Bash)`,
                                     );
@@ -142,6 +197,9 @@ function createServer(): http.Server {
                                 }
                             }
                         }
+                        // Taken after restoring reviewed files so our own writes are not diffed,
+                        // and answered only once taken — the hook runs the command after the reply
+                        await recordBashFingerprint(data.command);
                     } else if (data.file) {
                         const review = _getActiveReview?.(data.file);
                         if (review) {
@@ -164,26 +222,58 @@ function createServer(): http.Server {
                                 }
                             }
                         } else {
-                            const content = data.content
-                                ? Buffer.from(data.content, "base64").toString("utf8")
-                                : "";
-                            beforeSnapshots.set(data.file, content);
+                            const content = storeSnapshot(
+                                data.file,
+                                Buffer.from(data.content ?? "", "base64"),
+                            );
                             log(`/snapshot: stored ${content.length} chars for ${data.file}`);
                         }
                     }
                 } catch (err) {
                     logCat("server", `/snapshot error: ${(err as Error).message}`);
-                    json(res, { ok: false, error: (err as Error).message });
+                    json(res, { ok: false, error: (err as Error).message, gated: isGated() });
                     return;
                 }
-                json(res, { ok: true });
+                // The hook runner asks /approve only when gated — saves a request per tool call
+                json(res, { ok: true, gated: isGated() });
+            });
+            return;
+        }
+
+        // PreToolUse gate — answered once the user has reviewed the proposed call (gated mode),
+        // right away otherwise. Anything unexpected allows the call: review must not block Claude.
+        if (req.method === "POST" && req.url === "/approve") {
+            readBody(req, (body) => {
+                const allow = () => json(res, { decision: "allow" });
+                let data: ApprovalRequest;
+                try {
+                    data = JSON.parse(body) as ApprovalRequest;
+                    if (typeof data?.tool !== "string") throw new Error("no tool named");
+                    data.input ??= {};
+                } catch (err) {
+                    logCat("server", `/approve: bad payload: ${(err as Error).message}`);
+                    allow();
+                    return;
+                }
+                if (!isGated() || !_requestApproval || (data.file && !isInWorkspace(data.file))) {
+                    allow();
+                    return;
+                }
+                logCat("server", `/approve: ${data.tool} ${data.file ?? data.input.command ?? ""}`);
+                _requestApproval(data).then(
+                    (decision) => json(res, decision),
+                    (err) => {
+                        logCat("server", `/approve error: ${(err as Error).message}`);
+                        allow();
+                    },
+                );
             });
             return;
         }
 
         // PostToolUse — hook sends {file, tool} after Edit/Write, or {tool, command} for Bash
         if (req.method === "POST" && req.url === "/changed") {
-            readBody(req, (body) => {
+            readBody(req, async (body) => {
                 try {
                     const data = JSON.parse(body) as {
                         file?: string;
@@ -201,14 +291,34 @@ function createServer(): http.Server {
                         json(res, { ok: false, error: "malformed file path" });
                         return;
                     }
+                    if (data.file && !isInWorkspace(data.file)) {
+                        logCat(
+                            "server",
+                            `/changed: rejecting path outside workspace: ${data.file}`,
+                        );
+                        json(res, { ok: false, error: "file outside workspace" });
+                        return;
+                    }
 
                     const activeSession = _getActiveSessionId?.();
                     if (data.tool === "Bash" && data.command) {
                         const changes = parseBashCommand(data.command, _workspacePath);
-                        const allChanged = [...changes.modified, ...changes.deleted];
+                        const renames = resolveRenames(changes.renamed);
+                        const renamed = new Set(renames.flatMap((r) => [r.from, r.to]));
+                        const parsed = [...changes.modified, ...changes.deleted].filter(
+                            (f) => !renamed.has(f),
+                        );
+                        const detected = (await detectBashChanges(data.command)).filter(
+                            (f) => !parsed.includes(f) && !renamed.has(f),
+                        );
+                        for (const r of renames) {
+                            logCat("server", `/changed Bash: rename ${r.from} → ${r.to}`);
+                            _addRenameToReview!(r.from, r.to, activeSession);
+                        }
+                        const allChanged = [...parsed, ...detected].filter((f) => isInWorkspace(f));
                         logCat(
                             "server",
-                            `/changed Bash: parsed ${allChanged.length} files [${allChanged.map((f) => f.split("/").pop()).join(", ")}], session=${activeSession?.slice(0, 8) ?? "none"}`,
+                            `/changed Bash: parsed ${parsed.length} + detected ${detected.length} files [${allChanged.map((f) => f.split("/").pop()).join(", ")}], session=${activeSession?.slice(0, 8) ?? "none"}`,
                         );
                         for (const file of allChanged) {
                             if (_addFileToReview) _addFileToReview(file, activeSession);
@@ -254,6 +364,20 @@ function createServer(): http.Server {
             return;
         }
 
+        // Stop hook — Claude finished its turn, its prompt is waiting for input
+        if (req.method === "POST" && req.url === "/stop") {
+            readBody(req, (body) => {
+                try {
+                    const data = JSON.parse(body) as { session_id?: string };
+                    if (data.session_id) _onSessionStop?.(data.session_id);
+                } catch (err) {
+                    logCat("server", `/stop error: ${(err as Error).message}`);
+                }
+                json(res, { ok: true });
+            });
+            return;
+        }
+
         // Legacy endpoint
         if (req.method === "POST" && req.url === "/review") {
             readBody(req, () => {
@@ -272,8 +396,14 @@ export function getServerPort(): number {
     return serverPort;
 }
 
+/** Secret the hook runner must send in AUTH_HEADER — regenerated on every startServer() */
+export function getAuthToken(): string {
+    return authToken;
+}
+
 export function startServer(): Promise<number> {
     return new Promise((resolve) => {
+        authToken = crypto.randomBytes(32).toString("hex");
         server = createServer();
         let resolved = false;
 
@@ -307,7 +437,75 @@ export function stopServer(): void {
     server = null;
 }
 
-function readBody(req: http.IncomingMessage, cb: (body: string) => void): void {
+/** Renames reviewable as a pair: both ends in the workspace, `mv a dir/` resolved to dir/a */
+function resolveRenames(renames: BashRename[]): BashRename[] {
+    if (!_addRenameToReview) return [];
+    const result: BashRename[] = [];
+    for (const { from, to } of renames) {
+        let dest = to;
+        try {
+            if (fs.statSync(to).isDirectory()) dest = path.join(to, path.basename(from));
+        } catch {}
+        if (isInWorkspace(from) && isInWorkspace(dest)) result.push({ from, to: dest });
+    }
+    return result;
+}
+
+async function recordBashFingerprint(command: string): Promise<void> {
+    if (!_workspacePath) return;
+    const fingerprint = await takeFingerprint(_workspacePath);
+    if (!fingerprint) return;
+    bashFingerprints.delete(command);
+    bashFingerprints.set(command, fingerprint);
+    // PostToolUse never arrives for commands that were denied or interrupted
+    while (bashFingerprints.size > MAX_PENDING_FINGERPRINTS) {
+        bashFingerprints.delete(bashFingerprints.keys().next().value!);
+    }
+}
+
+/**
+ * Files the Bash command actually changed on disk, per fingerprint diff. Seeds before-snapshots
+ * for files that were dirty at PreToolUse (clean ones resolve via `git show HEAD`).
+ */
+async function detectBashChanges(command: string): Promise<string[]> {
+    const before = bashFingerprints.get(command);
+    if (!before || !_workspacePath) return [];
+    bashFingerprints.delete(command);
+    const after = await takeFingerprint(_workspacePath);
+    if (!after) return [];
+
+    const { created, modified, deleted } = diffFingerprints(before, after);
+    // The extension's own logs, state and hook files change on every call — never Claude's work
+    const ownDir = path.join(_workspacePath, ".claude") + path.sep;
+    const result: string[] = [];
+    for (const file of [...modified, ...created, ...deleted]) {
+        if (file.startsWith(ownDir)) continue;
+        const review = _getActiveReview?.(file);
+        if (review) {
+            // Keep/Undo clicks during the command rewrite reviewed files — not Claude's change
+            if (isReviewBufferOnDisk(file, review)) continue;
+        } else if (!beforeSnapshots.has(file)) {
+            const content = before.contents.get(file);
+            if (content !== undefined) beforeSnapshots.set(file, content);
+        }
+        result.push(file);
+    }
+    return result;
+}
+
+function isReviewBufferOnDisk(file: string, review: import("../types").IFileReview): boolean {
+    try {
+        if (review.wholeFile) {
+            return blobName(file, fs.readFileSync(file)) === review.wholeFile.modifiedBlob;
+        }
+        const disk = fs.readFileSync(file, "utf8");
+        return disk === review.modifiedContent || disk === review.mergedLines.join("\n");
+    } catch {
+        return false;
+    }
+}
+
+function readBody(req: http.IncomingMessage, cb: (body: string) => void | Promise<void>): void {
     let body = "";
     req.on("data", (c: Buffer) => (body += c));
     req.on("end", () => cb(body));
@@ -336,6 +534,27 @@ function playNotificationSound(): void {
     }
 }
 
+function isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers[AUTH_HEADER];
+    const provided = Buffer.from(typeof header === "string" ? header : "", "utf8");
+    const expected = Buffer.from(authToken, "utf8");
+    if (!authToken || provided.length !== expected.length) return false;
+    return crypto.timingSafeEqual(provided, expected);
+}
+
+/** Gated mode is on and this window can ask the user */
+function isGated(): boolean {
+    return (
+        _requestApproval !== null &&
+        vscode.workspace.getConfiguration("claudeCodeReview").get<boolean>("gatedMode", false)
+    );
+}
+
+/** Hooks from another window's project must never land in this window's review */
+function isInWorkspace(p: string): boolean {
+    return !_workspacePath || isPathInside(_workspacePath, p);
+}
+
 function isValidFilePath(p: string): boolean {
     if (!p || p.includes("\n") || p.includes("\0")) return false;
     if (p.endsWith("/")) return false;
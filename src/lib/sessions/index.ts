@@ -1,11 +1,16 @@
 // Barrel re-exports for sessions module
 export { getSessionsDir } from "./paths";
 export { loadSessionNames, saveSessionName } from "./names";
-export { parseSessionMeta } from "./metadata";
+export { parseSessionMeta, parseSessionPrompts } from "./metadata";
 export {
     archiveSession,
     unarchiveSession,
     deleteSession,
     loadArchivedSessionIds,
 } from "./lifecycle";
-export { listSessions, listArchivedSessions, getActiveDaemonSessions } from "./query";
+export {
+    listSessions,
+    listArchivedSessions,
+    getActiveDaemonSessions,
+    getSessionTitle,
+} from "./query";
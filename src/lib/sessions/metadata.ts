@@ -2,6 +2,27 @@
 import * as fs from "fs";
 import type { SessionMeta } from "../../types";
 
+/** Text the user typed in a "user" entry — null for tool results and IDE/system context */
+function promptText(content: unknown): string | null {
+    if (typeof content === "string") {
+        return content.replace(/<[^>]+>/g, "").trim() || null;
+    }
+    if (!Array.isArray(content)) return null;
+    for (const item of content as Array<{ type?: string; text?: string }>) {
+        if (item.type !== "text" || !item.text) continue;
+        const raw = item.text.trim();
+        // Skip IDE/system context tags
+        if (
+            /^<(ide|system|context|auto|vscode|git|local|environment|command|user-prompt)/.test(raw)
+        )
+            continue;
+        // Strip any remaining XML-like tags
+        const clean = raw.replace(/<[^>]+>/g, "").trim();
+        if (clean) return clean;
+    }
+    return null;
+}
+
 export function parseSessionMeta(filePath: string): SessionMeta {
     const result: SessionMeta = { title: null, customTitle: null, messageCount: 0, branch: null };
 
@@ -27,39 +48,8 @@ export function parseSessionMeta(filePath: string): SessionMeta {
                 if (type === "user") {
                     result.messageCount++;
                     if (!result.title) {
-                        const msg = data.message ?? {};
-                        const contentArr = msg.content;
-                        if (Array.isArray(contentArr)) {
-                            for (const item of contentArr as Array<{
-                                type?: string;
-                                text?: string;
-                            }>) {
-                                if (item.type !== "text" || !item.text) continue;
-                                const raw = item.text.trim();
-                                // Skip IDE/system context tags
-                                if (
-                                    /^<(ide|system|context|auto|vscode|git|local|environment|command|user-prompt)/.test(
-                                        raw,
-                                    )
-                                )
-                                    continue;
-                                // Strip any remaining XML-like tags
-                                const clean = raw
-                                    .replace(/<[^>]+>/g, "")
-                                    .trim()
-                                    .slice(0, 80);
-                                if (clean) {
-                                    result.title = clean;
-                                    break;
-                                }
-                            }
-                        } else if (typeof contentArr === "string") {
-                            const clean = contentArr
-                                .replace(/<[^>]+>/g, "")
-                                .trim()
-                                .slice(0, 80);
-                            if (clean) result.title = clean;
-                        }
+                        const text = promptText(data.message?.content);
+                        if (text) result.title = text.slice(0, 80);
                     }
                 } else if (type === "assistant") {
                     result.messageCount++;
@@ -82,3 +72,24 @@ export function parseSessionMeta(filePath: string): SessionMeta {
 
     return result;
 }
+
+/** Prompts the user sent in a session, in order */
+export function parseSessionPrompts(filePath: string): string[] {
+    const prompts: string[] = [];
+    try {
+        for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+            if (!line) continue;
+            try {
+                const data = JSON.parse(line) as {
+                    type?: string;
+                    isMeta?: boolean;
+                    message?: { content?: unknown };
+                };
+                if (data.type !== "user" || data.isMeta) continue;
+                const text = promptText(data.message?.content);
+                if (text) prompts.push(text);
+            } catch {}
+        }
+    } catch {}
+    return prompts;
+}
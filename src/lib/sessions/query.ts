@@ -75,6 +75,17 @@ export function listSessions(
     return { sessions, hasMore, archivedCount };
 }
 
+/** Display title of one session — same precedence as the session list */
+export function getSessionTitle(workspacePath: string, sessionId: string): string {
+    const meta = parseSessionMeta(path.join(getSessionsDir(workspacePath), `${sessionId}.jsonl`));
+    return (
+        meta.customTitle ||
+        loadSessionNames(workspacePath)[sessionId] ||
+        meta.title ||
+        sessionId.slice(0, 8) + "..."
+    );
+}
+
 export function listArchivedSessions(workspacePath: string): SessionInfo[] {
     const dir = getSessionsDir(workspacePath);
     if (!fs.existsSync(dir)) return [];
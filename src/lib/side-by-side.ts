@@ -0,0 +1,54 @@
+// Side-by-side layout — the original side of the diff editor a file is reviewed in
+//
+// The original side shows the file as decided so far: kept hunks with Claude's lines, undone
+// and pending hunks with the original ones. The file itself (the modified side) holds
+// Claude's lines of pending hunks, so the diff editor shows exactly what is left to review.
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as state from "./state";
+import { buildContentWith } from "./review";
+
+/** URI scheme of the read-only original side; query = absolute path of the reviewed file */
+export const ORIGINAL_SCHEME = "ccr-original";
+
+export function originalUri(workspacePath: string, filePath: string): vscode.Uri {
+    // The path only names the tab — it must not equal the file's own path, or lookups of the
+    // file's editor by fsPath would find the original side
+    return vscode.Uri.from({
+        scheme: ORIGINAL_SCHEME,
+        path: "/" + path.relative(workspacePath, filePath),
+        query: filePath,
+    });
+}
+
+/** Original side of a file's review; a file no longer under review is shown as on disk */
+export function originalContent(filePath: string): string {
+    const review = state.activeReviews.get(filePath);
+    if (review) return buildContentWith(review, (h) => h.resolved && h.accepted);
+    try {
+        return fs.readFileSync(filePath, "utf8");
+    } catch {
+        return "";
+    }
+}
+
+export class ReviewOriginalProvider implements vscode.TextDocumentContentProvider {
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return originalContent(uri.query);
+    }
+
+    /** Re-reads every open original side — decisions change what it shows */
+    refresh(): void {
+        for (const doc of vscode.workspace.textDocuments) {
+            if (doc.uri.scheme === ORIGINAL_SCHEME) this._onDidChange.fire(doc.uri);
+        }
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
@@ -1,5 +1,12 @@
 // Shared state — reviews + session tracking
-import type { IFileReview } from "../types";
+import type {
+    CollectedComment,
+    IFileReview,
+    PolicySkip,
+    ReviewBase,
+    ReviewedFile,
+    ReviewLayout,
+} from "../types";
 
 interface ICodeLensProvider {
     refresh(): void;
@@ -13,6 +20,13 @@ export const activeReviews = new Map<string, IFileReview>();
 let reviewFiles: string[] = [];
 let currentFileIndex = 0;
 let currentHunkIndex = 0;
+let reviewBase: ReviewBase | null = null;
+let reviewedFiles: ReviewedFile[] = [];
+let policySkips: PolicySkip[] = [];
+let reviewLayout: ReviewLayout = "inline";
+let finishedComments: CollectedComment[] = [];
+let scopedToActiveSession = false;
+let activeSessionProvider: () => string | undefined = () => undefined;
 
 let codeLensProvider: ICodeLensProvider | null = null;
 let mainView: IMainView | null = null;
@@ -44,6 +58,92 @@ export function setCurrentHunkIndex(idx: number): void {
     currentHunkIndex = idx;
 }
 
+/** Base of the current review — fixed when the review starts, null when nothing is under review */
+export function getReviewBase(): ReviewBase | null {
+    return reviewBase;
+}
+export function setReviewBase(base: ReviewBase | null): void {
+    reviewBase = base;
+}
+
+/** Files finalized since the last "Commit Reviewed Changes" — a re-review replaces the entry */
+export function getReviewedFiles(): ReviewedFile[] {
+    return reviewedFiles;
+}
+export function recordReviewedFile(file: ReviewedFile): void {
+    reviewedFiles = [...reviewedFiles.filter((f) => f.filePath !== file.filePath), file];
+}
+export function clearReviewedFiles(): void {
+    reviewedFiles = [];
+}
+
+/** Files the review policy kept out of the current review — a later skip replaces the entry */
+export function getPolicySkips(): PolicySkip[] {
+    return policySkips;
+}
+export function recordPolicySkip(skip: PolicySkip): void {
+    policySkips = [...policySkips.filter((s) => s.filePath !== skip.filePath), skip];
+}
+export function clearPolicySkips(): void {
+    policySkips = [];
+}
+
+export function getReviewLayout(): ReviewLayout {
+    return reviewLayout;
+}
+export function setReviewLayout(layout: ReviewLayout): void {
+    reviewLayout = layout;
+}
+
+/** Comments of finalized files, waiting to be sent or exported with the pending ones */
+export function getFinishedComments(): CollectedComment[] {
+    return finishedComments;
+}
+export function recordFinishedComments(comments: CollectedComment[]): void {
+    finishedComments = [...finishedComments, ...comments];
+}
+export function removeFinishedComments(ids: Set<string>): void {
+    finishedComments = finishedComments.filter((c) => !ids.has(c.comment.id));
+}
+export function clearFinishedComments(): void {
+    finishedComments = [];
+}
+
+/** Claude session of the focused terminal — the session a scoped review follows */
+export function setActiveSessionProvider(fn: () => string | undefined): void {
+    activeSessionProvider = fn;
+}
+export function getActiveSessionId(): string | null {
+    return activeSessionProvider() ?? null;
+}
+export function isScopedToActiveSession(): boolean {
+    return scopedToActiveSession;
+}
+export function setScopedToActiveSession(scoped: boolean): void {
+    scopedToActiveSession = scoped;
+}
+
+/** Session navigation and Keep/Undo All are limited to — null covers every session */
+export function getReviewScope(): string | null {
+    return scopedToActiveSession ? getActiveSessionId() : null;
+}
+
+/** Originating Claude session of a file under review or already reviewed */
+export function sessionOf(filePath: string): string | undefined {
+    return (
+        activeReviews.get(filePath)?.sessionId ??
+        reviewedFiles.find((f) => f.filePath === filePath)?.sessionId
+    );
+}
+
+/** File still has a pending review within the current scope */
+export function isInReviewScope(filePath: string): boolean {
+    const review = activeReviews.get(filePath);
+    if (!review) return false;
+    const scope = getReviewScope();
+    return scope === null || review.sessionId === scope;
+}
+
 function baseRefresh(): void {
     codeLensProvider?.refresh();
     mainView?.update();
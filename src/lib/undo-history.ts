@@ -39,6 +39,8 @@ function cloneHunks(hunks: Snapshotable["hunks"]): ReviewSnapshot["hunks"] {
         added: [...h.added],
         resolved: h.resolved,
         accepted: h.accepted,
+        label: h.label,
+        whitespaceOnly: h.whitespaceOnly,
     }));
 }
 
@@ -48,6 +50,14 @@ function deepSnapshot(review: Snapshotable): ReviewSnapshot {
         originalContent: review.originalContent,
         modifiedContent: review.modifiedContent,
         changeType: review.changeType,
+        renamedFrom: review.renamedFrom,
+        wholeFile: review.wholeFile && { ...review.wholeFile },
+        diffOptions: review.diffOptions && { ...review.diffOptions },
+        sessionId: review.sessionId,
+        layers: review.layers?.map((l) => ({ ...l })),
+        comments: review.comments?.map((c) => ({ ...c })),
+        rawOriginal: review.rawOriginal,
+        rawModified: review.rawModified,
         hunks: cloneHunks(review.hunks),
         mergedLines: [...review.mergedLines],
         hunkRanges: review.hunkRanges.map((r) => ({ ...r })),
@@ -0,0 +1,143 @@
+// Workspace fingerprint — detects files changed by arbitrary Bash commands
+//
+// PreToolUse(Bash) records mtime/size of every file git can see (tracked + untracked,
+// .gitignore respected) plus the content of files that differ from HEAD. PostToolUse(Bash)
+// takes a second fingerprint and diffs the two: formatters, codegen, `git checkout`,
+// `perl -i`, npm scripts — anything that touched disk — is caught, not just what
+// parseBashCommand understands.
+import * as fs from "fs";
+import * as path from "path";
+import { execFile } from "child_process";
+import { logCat } from "./log";
+
+/** Above this many files a stat sweep per Bash call gets too slow — fall back to parsing */
+const MAX_FINGERPRINT_FILES = 20000;
+/** Dirty files are snapshotted eagerly; clean ones are recoverable via `git show HEAD` */
+const MAX_DIRTY_SNAPSHOTS = 500;
+const MAX_SNAPSHOT_BYTES = 1024 * 1024;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+/** Stats in flight at once — each batch awaits, so the extension host keeps serving events */
+const STAT_BATCH = 256;
+
+interface FileStamp {
+    mtimeMs: number;
+    size: number;
+}
+
+export interface WorkspaceFingerprint {
+    /** Absolute path → stat stamp for every existing file */
+    files: Map<string, FileStamp>;
+    /** Absolute path → content for files that differed from HEAD when the fingerprint was taken */
+    contents: Map<string, string>;
+}
+
+export interface FingerprintChanges {
+    created: string[];
+    modified: string[];
+    deleted: string[];
+}
+
+function git(args: string[], cwd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile(
+            "git",
+            args,
+            { cwd, encoding: "utf8", timeout: 5000, maxBuffer: GIT_MAX_BUFFER },
+            (err, stdout) => (err ? reject(err) : resolve(stdout)),
+        );
+    });
+}
+
+/**
+ * Paths from `git status --porcelain -z`, relative to the repository root (unlike `ls-files`,
+ * whose paths are relative to cwd); rename/copy entries carry an extra source path
+ */
+function parseStatusPaths(output: string): string[] {
+    const paths: string[] = [];
+    const entries = output.split("\0");
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (entry.length < 4) continue;
+        paths.push(entry.slice(3));
+        if (entry[0] === "R" || entry[0] === "C") i++;
+    }
+    return paths;
+}
+
+/** Returns null outside git repos or for very large workspaces (caller keeps parse-only mode) */
+export async function takeFingerprint(workspacePath: string): Promise<WorkspaceFingerprint | null> {
+    const t0 = performance.now();
+    let listed: string[];
+    let dirty: string[];
+    try {
+        const [ls, top, status] = await Promise.all([
+            git(["ls-files", "-z", "--cached", "--others", "--exclude-standard"], workspacePath),
+            git(["rev-parse", "--show-toplevel"], workspacePath),
+            git(["status", "--porcelain", "-z", "--untracked-files=all", "--", "."], workspacePath),
+        ]);
+        listed = ls.split("\0").filter(Boolean);
+        // The workspace may be a subdirectory of the repository
+        dirty = parseStatusPaths(status).map((rel) => path.join(top.trim(), rel));
+    } catch (err) {
+        logCat(
+            "fingerprint",
+            `skipped: git unavailable (${(err as Error).message.split("\n")[0]})`,
+        );
+        return null;
+    }
+    if (listed.length > MAX_FINGERPRINT_FILES) {
+        logCat("fingerprint", `skipped: ${listed.length} files > ${MAX_FINGERPRINT_FILES}`);
+        return null;
+    }
+
+    const files = new Map<string, FileStamp>();
+    for (let i = 0; i < listed.length; i += STAT_BATCH) {
+        const batch = listed.slice(i, i + STAT_BATCH).map((rel) => path.join(workspacePath, rel));
+        const stats = await Promise.all(
+            // Tracked but deleted in the working tree → null
+            batch.map((abs) => fs.promises.stat(abs).catch(() => null)),
+        );
+        stats.forEach((st, j) => {
+            if (st?.isFile()) files.set(batch[j], { mtimeMs: st.mtimeMs, size: st.size });
+        });
+    }
+
+    const contents = new Map<string, string>();
+    const snapshot = dirty.slice(0, MAX_DIRTY_SNAPSHOTS).filter((abs) => {
+        const stamp = files.get(abs);
+        return stamp !== undefined && stamp.size <= MAX_SNAPSHOT_BYTES;
+    });
+    for (let i = 0; i < snapshot.length; i += STAT_BATCH) {
+        await Promise.all(
+            snapshot.slice(i, i + STAT_BATCH).map(async (abs) => {
+                try {
+                    contents.set(abs, await fs.promises.readFile(abs, "utf8"));
+                } catch {}
+            }),
+        );
+    }
+
+    logCat(
+        "fingerprint",
+        `taken: ${files.size} files, ${contents.size} dirty snapshots, ${(performance.now() - t0).toFixed(1)}ms`,
+    );
+    return { files, contents };
+}
+
+export function diffFingerprints(
+    before: WorkspaceFingerprint,
+    after: WorkspaceFingerprint,
+): FingerprintChanges {
+    const created: string[] = [];
+    const modified: string[] = [];
+    const deleted: string[] = [];
+    for (const [file, stamp] of after.files) {
+        const prev = before.files.get(file);
+        if (!prev) created.push(file);
+        else if (prev.mtimeMs !== stamp.mtimeMs || prev.size !== stamp.size) modified.push(file);
+    }
+    for (const file of before.files.keys()) {
+        if (!after.files.has(file)) deleted.push(file);
+    }
+    return { created, modified, deleted };
+}
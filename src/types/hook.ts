@@ -1,2 +1,22 @@
 export type HookStatus = "installed" | "outdated" | "missing";
 export type HookStatusCallback = (status: HookStatus) => void;
+
+/** PreToolUse question sent to /approve in gated mode — tool_input as Claude sent it */
+export interface ApprovalRequest {
+    tool: string;
+    file?: string;
+    input: {
+        command?: string;
+        content?: string;
+        old_string?: string;
+        new_string?: string;
+        replace_all?: boolean;
+        edits?: Array<{ old_string: string; new_string: string; replace_all?: boolean }>;
+    };
+}
+
+/** Answer to /approve; a denied call is blocked with `reason` shown to Claude */
+export interface ApprovalDecision {
+    decision: "allow" | "deny";
+    reason?: string;
+}
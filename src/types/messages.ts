@@ -100,6 +100,10 @@ export type WebviewToExtensionMessage =
     | { type: "accept-all-confirm" }
     | { type: "reject-all-confirm" }
     | { type: "dismiss-all-confirm" }
+    | { type: "select-review-base" }
+    | { type: "toggle-session-scope" }
+    | { type: "show-review-files" }
+    | { type: "resolve-session"; sessionId: string | null; accept: boolean }
     | { type: "keep-current-file" }
     | { type: "undo-current-file" }
     | { type: "check-hook-status" }
@@ -1,4 +1,4 @@
-export type ChangeType = "edit" | "create" | "delete";
+export type ChangeType = "edit" | "create" | "delete" | "rename";
 
 export interface Hunk {
     id: number;
@@ -10,6 +10,55 @@ export interface Hunk {
     added: string[];
     resolved: boolean;
     accepted: boolean;
+    /** Human-readable scope shown above the hunk (e.g. "Cell 3 · code (modified)" in notebooks) */
+    label?: string;
+    /** Lines differ from the original only in whitespace or line endings (ignore modes only) */
+    whitespaceOnly?: boolean;
+}
+
+/**
+ * Per-review diff mode. Lines equal under these rules are matched by the diff; their
+ * differences come back as separate whitespaceOnly hunks, which are accepted automatically.
+ */
+export interface DiffOptions {
+    /** Lines differing only in whitespace compare equal (git diff -w) */
+    ignoreWhitespace?: boolean;
+    /** CRLF and LF line endings compare equal */
+    ignoreLineEndings?: boolean;
+}
+
+export type ReviewBaseKind = "head" | "index" | "mergeBase" | "session";
+
+/** Revision the "original" side of git-sourced reviews is read from */
+export interface ReviewBase {
+    kind: ReviewBaseKind;
+    /** Revision for `git show <rev>:<path>` — "" reads the index */
+    rev: string;
+    /** Shown in the review toolbar, e.g. "HEAD", "merge-base with main" */
+    label: string;
+}
+
+/**
+ * How files under review are shown: "inline" puts removed and added lines into the file
+ * itself; "sideBySide" opens a diff editor against the original and keeps only Claude's
+ * lines in the file (an undone hunk's lines go back to the original).
+ */
+export type ReviewLayout = "inline" | "sideBySide";
+
+export type WholeFileReason = "binary" | "large";
+
+/**
+ * Binary or oversized file reviewed as a whole. Content fields of such a review are empty;
+ * both sides live in the blob store as raw bytes (blob name = sha256 + extension).
+ */
+export interface WholeFileInfo {
+    reason: WholeFileReason;
+    /** Absent when the file is new */
+    originalBlob?: string;
+    originalSize: number;
+    /** Absent when the file was deleted */
+    modifiedBlob?: string;
+    modifiedSize: number;
 }
 
 export interface HunkRange {
@@ -25,25 +74,140 @@ export interface MergedResult {
     ranges: HunkRange[];
 }
 
+/** One Claude tool call's change to a file under review, in the order the calls happened */
+export interface EditLayer {
+    /** Content right before the call (PreToolUse snapshot) */
+    before: string;
+    /** Content the call left on disk */
+    after: string;
+    /** Epoch ms when the change was reported */
+    at: number;
+    /** Reverted on its own with "Undo This Step" */
+    undone?: boolean;
+}
+
+/** Reviewer's note on a line range of Claude's version of a file */
+export interface ReviewComment {
+    id: string;
+    /** First and last commented line of modifiedContent, 0-based */
+    startLine: number;
+    endLine: number;
+    body: string;
+    /** Epoch ms when the comment was written */
+    at: number;
+}
+
+/** A comment ready to send or export — stands alone once its file's review is finished */
+export interface CollectedComment {
+    filePath: string;
+    sessionId?: string;
+    comment: ReviewComment;
+    /** The commented lines as Claude wrote them */
+    quote: string[];
+}
+
 export interface IFileReview {
     filePath: string;
     originalContent: string;
     modifiedContent: string;
     changeType: ChangeType;
+    /** Source path of a "rename" review (filePath is the destination) */
+    renamedFrom?: string;
+    /** Set for binary/large files reviewed with a single whole-file Keep/Undo */
+    wholeFile?: WholeFileInfo;
+    /** Set when the review was diffed with ignore-whitespace / ignore-line-endings */
+    diffOptions?: DiffOptions;
     hunks: Hunk[];
     mergedLines: string[];
     hunkRanges: HunkRange[];
     mergedApplied?: boolean;
     sessionId?: string;
+    /** Tool calls that produced modifiedContent, oldest first */
+    layers?: EditLayer[];
+    comments?: ReviewComment[];
+    /** Notebook bytes as on disk — the review itself works on the canonical JSON */
+    rawOriginal?: string;
+    rawModified?: string;
     readonly unresolvedCount: number;
     readonly isFullyResolved: boolean;
 }
 
+/** Outcome of a finalized file review — what "Commit Reviewed Changes" commits and summarizes */
+export interface ReviewedFile {
+    filePath: string;
+    renamedFrom?: string;
+    changeType: ChangeType;
+    kept: number;
+    undone: number;
+    sessionId?: string;
+}
+
+/** Rule kinds of .claude/review-policy.json */
+export type PolicyRule = "auto-keep" | "auto-ignore" | "require-review" | "forbid-bulk-accept";
+
+/** What the review policy says about one file — each field holds the glob that matched */
+export interface PathPolicy {
+    /** Not reviewed: "auto-keep" counts it as kept, "auto-ignore" leaves it out entirely */
+    skip?: { rule: "auto-keep" | "auto-ignore"; pattern: string };
+    /** Reviewed hunk by hunk — no auto skip, no whitespace auto-accept, no bulk accept */
+    requireReview?: string;
+    /** Left out of Accept All, Keep Session and Keep and Stage All */
+    forbidBulkAccept?: string;
+}
+
+/** A file Claude changed that the review policy kept out of the review */
+export interface PolicySkip {
+    filePath: string;
+    rule: "auto-keep" | "auto-ignore";
+    pattern: string;
+}
+
+/** A hunk as decided — kept as line text so the log stands alone */
+export interface AuditHunk {
+    origStart: number;
+    modStart: number;
+    removed: string[];
+    added: string[];
+    label?: string;
+    decision: "kept" | "undone";
+}
+
+/**
+ * One finalized file review in the workspace audit log (.claude/review-audit/log.jsonl).
+ * Text contents are stored once per sha256 next to the log; null means no file on that side.
+ */
+export interface AuditEntry {
+    version: 1;
+    /** Epoch ms when the review of the file was finished */
+    timestamp: number;
+    /** Epoch ms of Claude's first recorded edit of the file, when known */
+    startedAt?: number;
+    /** Workspace-relative */
+    filePath: string;
+    renamedFrom?: string;
+    changeType: ChangeType;
+    sessionId?: string;
+    /** Review base label, e.g. "HEAD" */
+    base?: string;
+    hunks: AuditHunk[];
+    originalHash: string | null;
+    /** Claude's proposed version */
+    modifiedHash: string | null;
+    /** What the file holds after the review */
+    finalHash: string | null;
+}
+
 export interface PersistedReviewState {
     version: 1;
     timestamp: number;
     files: PersistedFileReview[];
     currentFileIndex: number;
+    /** Absent in states saved before review bases existed (HEAD) */
+    base?: ReviewBase;
+    /** Reviews suspended because their file changed on disk inside a hunk */
+    conflicts?: PersistedFileReview[];
+    /** Unsent comments of files whose review is finished */
+    finishedComments?: CollectedComment[];
 }
 
 export interface PersistedFileReview {
@@ -52,7 +216,14 @@ export interface PersistedFileReview {
     modifiedContent: string;
     hunks: Hunk[];
     changeType: ChangeType;
+    renamedFrom?: string;
+    wholeFile?: WholeFileInfo;
+    diffOptions?: DiffOptions;
     sessionId?: string;
+    layers?: EditLayer[];
+    comments?: ReviewComment[];
+    rawOriginal?: string;
+    rawModified?: string;
 }
 
 export interface ReviewSnapshot {
@@ -60,7 +231,14 @@ export interface ReviewSnapshot {
     originalContent: string;
     modifiedContent: string;
     changeType: ChangeType;
+    renamedFrom?: string;
+    wholeFile?: WholeFileInfo;
+    diffOptions?: DiffOptions;
     sessionId?: string;
+    layers?: EditLayer[];
+    comments?: ReviewComment[];
+    rawOriginal?: string;
+    rawModified?: string;
     hunks: Hunk[];
     mergedLines: string[];
     hunkRanges: HunkRange[];
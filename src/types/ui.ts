@@ -9,6 +9,16 @@ export interface ReviewFileInfo {
     sessionId?: string;
 }
 
+/** Pending files of one originating Claude session */
+export interface ReviewSessionGroup {
+    /** null for changes made outside a tracked session */
+    sessionId: string | null;
+    label: string;
+    files: number;
+    /** Session of the focused terminal */
+    active: boolean;
+}
+
 export interface ReviewStateUpdate {
     remaining: number;
     total: number;
@@ -22,6 +32,19 @@ export interface ReviewStateUpdate {
     canUndo: boolean;
     canRedo: boolean;
     activeEditorInReview: boolean;
+    /** Label of the review base in use, e.g. "HEAD" */
+    base: string | null;
+    sessions: ReviewSessionGroup[];
+    /** Counts and navigation are limited to the focused terminal's session */
+    scopedToSession: boolean;
+    /** Files the review policy kept out of this review, with the rule that matched */
+    skipped: ReviewSkipInfo[];
+}
+
+export interface ReviewSkipInfo {
+    name: string;
+    rule: string;
+    pattern: string;
 }
 
 export interface KeybindingInfo {